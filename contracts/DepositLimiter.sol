@@ -0,0 +1,201 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./interfaces/IDepositLimiter.sol";
+
+/// @title DepositLimiter
+/// @notice Staged-launch deposit limits for SUSDDVault beyond maxTotalAssets: a per-depositor
+///         cap (a default plus per-account overrides), a global inflow limit per block or per
+///         time window, and a minimum deposit
+/// @dev Set with SUSDDVault.setDepositLimiter. The vault's maxDeposit() takes the minimum with
+///      maxDeposit() here, and deposit() calls recordDeposit() first, which reverts with the
+///      limit hit and counts the deposit as inflow. A depositor's usage is the USDT deposited
+///      to them so far, so share transfers and NAV moves leave it alone. 0 disables the default
+///      cap, the inflow limit or the minimum; an override of 0 blocks the account instead.
+///      Async vaults (ASYNC_VAULT_ROLE) count each controller's requests with recordRequest(),
+///      and their own settlement deposits are not capped.
+contract DepositLimiter is IDepositLimiter, AccessControl {
+    bytes32 public constant MANAGER_ROLE = keccak256("MANAGER_ROLE");
+    bytes32 public constant ASYNC_VAULT_ROLE = keccak256("ASYNC_VAULT_ROLE");
+
+    /// @notice Vault whose deposits are limited
+    address public immutable vault;
+
+    /// @notice Smallest deposit accepted, in USDT
+    uint256 public minDeposit;
+
+    /// @notice Cap on the USDT deposited to a depositor unless overridden
+    uint256 public defaultCap;
+
+    /// @notice Per-account cap replacing defaultCap where hasCapOverride is set
+    mapping(address => uint256) public capOverride;
+    mapping(address => bool) public hasCapOverride;
+    /// @notice Overridden accounts without any cap
+    mapping(address => bool) public capExempt;
+
+    /// @notice USDT deposited to each receiver, directly or through async vault requests
+    mapping(address => uint256) public deposited;
+
+    /// @notice Most USDT deposited per window, across all depositors
+    uint256 public inflowLimit;
+
+    /// @notice Window length in seconds; 0 counts inflow per block
+    uint256 public inflowWindow;
+
+    uint256 private _windowId;
+    uint256 private _windowInflow;
+
+    // ============ Events ============
+
+    event MinDepositUpdated(uint256 oldMin, uint256 newMin);
+    event DefaultCapUpdated(uint256 oldCap, uint256 newCap);
+    event DepositorCapUpdated(address indexed account, uint256 cap, bool overridden, bool exempt);
+    event InflowLimitUpdated(uint256 limit, uint256 window);
+
+    // ============ Errors ============
+
+    error NotVault();
+    error DepositBelowMinimum(uint256 assets, uint256 minimum);
+    error DepositorCapExceeded(address account, uint256 assets, uint256 available);
+    error InflowLimitExceeded(uint256 assets, uint256 available);
+
+    constructor(
+        address vault_,
+        address admin,
+        uint256 minDeposit_,
+        uint256 defaultCap_,
+        uint256 inflowLimit_,
+        uint256 inflowWindow_
+    ) {
+        vault = vault_;
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(MANAGER_ROLE, admin);
+        minDeposit = minDeposit_;
+        defaultCap = defaultCap_;
+        inflowLimit = inflowLimit_;
+        inflowWindow = inflowWindow_;
+        emit MinDepositUpdated(0, minDeposit_);
+        emit DefaultCapUpdated(0, defaultCap_);
+        emit InflowLimitUpdated(inflowLimit_, inflowWindow_);
+    }
+
+    // ============ Vault Hooks ============
+
+    /// @inheritdoc IDepositLimiter
+    /// @dev 0 when the room left is below minDeposit
+    function maxDeposit(address receiver) external view returns (uint256 maxAssets) {
+        maxAssets = depositorAvailable(receiver);
+        uint256 inflow = inflowAvailable();
+        if (inflow < maxAssets) maxAssets = inflow;
+        if (maxAssets < minDeposit) return 0;
+    }
+
+    /// @inheritdoc IDepositLimiter
+    function recordDeposit(address receiver, uint256 assets) external {
+        if (msg.sender != vault) revert NotVault();
+        if (assets < minDeposit) revert DepositBelowMinimum(assets, minDeposit);
+
+        uint256 available = depositorAvailable(receiver);
+        if (assets > available) revert DepositorCapExceeded(receiver, assets, available);
+        deposited[receiver] += assets;
+
+        available = inflowAvailable();
+        if (assets > available) revert InflowLimitExceeded(assets, available);
+        uint256 windowId = _currentWindow();
+        if (windowId != _windowId) {
+            _windowId = windowId;
+            _windowInflow = 0;
+        }
+        _windowInflow += assets;
+    }
+
+    /// @inheritdoc IDepositLimiter
+    function recordRequest(address controller, uint256 assets) external onlyRole(ASYNC_VAULT_ROLE) {
+        uint256 available = depositorAvailable(controller);
+        if (assets > available) revert DepositorCapExceeded(controller, assets, available);
+        deposited[controller] += assets;
+    }
+
+    /// @inheritdoc IDepositLimiter
+    /// @dev Saturates, for requests made before this limiter was set
+    function releaseRequest(address controller, uint256 assets) external onlyRole(ASYNC_VAULT_ROLE) {
+        uint256 used = deposited[controller];
+        deposited[controller] = assets >= used ? 0 : used - assets;
+    }
+
+    // ============ Manager Functions ============
+
+    function setMinDeposit(uint256 newMin) external onlyRole(MANAGER_ROLE) {
+        emit MinDepositUpdated(minDeposit, newMin);
+        minDeposit = newMin;
+    }
+
+    /// @notice Cap for depositors without an override; 0 removes it
+    function setDefaultCap(uint256 newCap) external onlyRole(MANAGER_ROLE) {
+        emit DefaultCapUpdated(defaultCap, newCap);
+        defaultCap = newCap;
+    }
+
+    /// @notice Override the default cap for `account`; 0 blocks further deposits to it
+    function setDepositorCap(address account, uint256 cap) external onlyRole(MANAGER_ROLE) {
+        capOverride[account] = cap;
+        hasCapOverride[account] = true;
+        delete capExempt[account];
+        emit DepositorCapUpdated(account, cap, true, false);
+    }
+
+    /// @notice Exempt `account` from the per-depositor cap
+    function setDepositorExempt(address account) external onlyRole(MANAGER_ROLE) {
+        delete capOverride[account];
+        hasCapOverride[account] = true;
+        capExempt[account] = true;
+        emit DepositorCapUpdated(account, 0, true, true);
+    }
+
+    /// @notice Put `account` back on the default cap
+    function clearDepositorCap(address account) external onlyRole(MANAGER_ROLE) {
+        delete capOverride[account];
+        delete hasCapOverride[account];
+        delete capExempt[account];
+        emit DepositorCapUpdated(account, defaultCap, false, false);
+    }
+
+    /// @notice Inflow limit per window; limit 0 removes it, window 0 counts per block
+    function setInflowLimit(uint256 limit, uint256 window) external onlyRole(MANAGER_ROLE) {
+        inflowLimit = limit;
+        inflowWindow = window;
+        emit InflowLimitUpdated(limit, window);
+    }
+
+    // ============ Views ============
+
+    /// @notice Cap applying to `account`; type(uint256).max if uncapped
+    /// @dev Async vaults are uncapped: their controllers are capped at request time
+    function depositorCap(address account) public view returns (uint256) {
+        if (hasCapOverride[account]) return capExempt[account] ? type(uint256).max : capOverride[account];
+        if (defaultCap == 0 || hasRole(ASYNC_VAULT_ROLE, account)) return type(uint256).max;
+        return defaultCap;
+    }
+
+    /// @notice USDT `account` may still deposit under its cap
+    function depositorAvailable(address account) public view returns (uint256) {
+        uint256 cap = depositorCap(account);
+        if (cap == type(uint256).max) return cap;
+        uint256 used = deposited[account];
+        return used >= cap ? 0 : cap - used;
+    }
+
+    /// @notice USDT all depositors may still deposit in the current window
+    function inflowAvailable() public view returns (uint256) {
+        if (inflowLimit == 0) return type(uint256).max;
+        uint256 used = _currentWindow() == _windowId ? _windowInflow : 0;
+        return used >= inflowLimit ? 0 : inflowLimit - used;
+    }
+
+    // ============ Internal ============
+
+    function _currentWindow() internal view returns (uint256) {
+        return inflowWindow == 0 ? block.number : block.timestamp / inflowWindow;
+    }
+}
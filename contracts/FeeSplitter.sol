@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+/// @title FeeSplitter
+/// @notice Splits SUSDDVault fee shares between several recipients by bps weight
+/// @dev Set as the vault's feeRecipient: management and performance fees are minted here, and
+///      distribute() (permissionless) forwards them pro rata with one FeeDistributed event per
+///      recipient. Changing the split distributes first, so fees always go out at the split
+///      they accrued under.
+contract FeeSplitter is AccessControl, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    bytes32 public constant MANAGER_ROLE = keccak256("MANAGER_ROLE");
+
+    uint256 private constant MAX_BPS = 10000;
+
+    /// @notice Vault whose fee shares are split
+    address public immutable vault;
+
+    address[] private _accounts;
+    uint256[] private _weights;
+
+    // ============ Events ============
+
+    event RecipientsUpdated(address[] accounts, uint256[] bps);
+    event FeeDistributed(address indexed recipient, uint256 shares);
+
+    // ============ Errors ============
+
+    error InvalidSplit();
+    error InvalidRecipient();
+
+    constructor(address vault_, address admin, address[] memory accounts, uint256[] memory bps) {
+        vault = vault_;
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(MANAGER_ROLE, admin);
+        _setRecipients(accounts, bps);
+    }
+
+    // ============ Manager Functions ============
+
+    /// @notice Replace the split; fee shares held so far go out at the old split first
+    /// @param accounts Distinct, non-zero recipients
+    /// @param bps Weight of each recipient, all non-zero and summing to 10000
+    function setRecipients(address[] calldata accounts, uint256[] calldata bps)
+        external
+        onlyRole(MANAGER_ROLE)
+        nonReentrant
+    {
+        _distribute();
+        _setRecipients(accounts, bps);
+    }
+
+    // ============ Distribution ============
+
+    /// @notice Forward every fee share held to the recipients by weight
+    /// @dev The last recipient takes the rounding dust
+    /// @return shares Vault shares distributed
+    function distribute() external nonReentrant returns (uint256 shares) {
+        return _distribute();
+    }
+
+    // ============ Views ============
+
+    /// @notice Current split
+    function getRecipients() external view returns (address[] memory accounts, uint256[] memory bps) {
+        return (_accounts, _weights);
+    }
+
+    /// @notice Fee shares waiting for distribute()
+    function pendingShares() external view returns (uint256) {
+        return IERC20(vault).balanceOf(address(this));
+    }
+
+    // ============ Internal ============
+
+    function _distribute() internal returns (uint256 shares) {
+        shares = IERC20(vault).balanceOf(address(this));
+        if (shares == 0) return 0;
+
+        uint256 distributed;
+        uint256 last = _accounts.length - 1;
+        for (uint256 i = 0; i <= last; i++) {
+            uint256 amount = i == last ? shares - distributed : (shares * _weights[i]) / MAX_BPS;
+            distributed += amount;
+            IERC20(vault).safeTransfer(_accounts[i], amount);
+            emit FeeDistributed(_accounts[i], amount);
+        }
+    }
+
+    function _setRecipients(address[] memory accounts, uint256[] memory bps) internal {
+        if (accounts.length == 0 || accounts.length != bps.length) revert InvalidSplit();
+
+        uint256 total;
+        for (uint256 i = 0; i < accounts.length; i++) {
+            if (accounts[i] == address(0)) revert InvalidRecipient();
+            for (uint256 j = 0; j < i; j++) {
+                if (accounts[j] == accounts[i]) revert InvalidRecipient();
+            }
+            if (bps[i] == 0) revert InvalidSplit();
+            total += bps[i];
+        }
+        if (total != MAX_BPS) revert InvalidSplit();
+
+        _accounts = accounts;
+        _weights = bps;
+        emit RecipientsUpdated(accounts, bps);
+    }
+}
@@ -0,0 +1,427 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./libraries/Constants.sol";
+import "./interfaces/IDepositLimiter.sol";
+import "./interfaces/ISUSDDVault.sol";
+import "./WithdrawalQueue.sol";
+
+/// @title SUSDDAsyncVault
+/// @notice ERC-7540 asynchronous deposit and redeem interface for SUSDDVault
+/// @dev SUSDDVault only supports deposit() and redeem(), because Delta NAV makes exact share or asset amounts
+///      impractical (ADR-005). Deposit requests accumulate per epoch, and the keeper settles each epoch with a
+///      single vault deposit at the NAV of that block. Redeem requests go into the vault's WithdrawalQueue, so
+///      there is one redemption backlog, fulfilled first-in first-out by the queue keeper. Claims are exact:
+///      deposit/mint convert at the settled epoch price and redeem/withdraw at the fulfilled batch price.
+///      Requests are fungible per controller (requestId 0). The share token is SUSDDVault itself (ERC-7575 share()).
+///      Must be whitelisted on the vault while the vault's whitelist is enabled. With a DepositLimiter,
+///      each controller's deposit requests count against its own cap (ASYNC_VAULT_ROLE on the limiter).
+contract SUSDDAsyncVault is AccessControl, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    using Math for uint256;
+
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+
+    uint256 private constant REQUEST_ID = 0;
+
+    /// @notice Settled deposit epoch: USDT into the vault, shares out
+    struct Epoch {
+        uint256 assets;
+        uint256 shares;
+    }
+
+    /// @notice Per-controller request state. Pending deposits belong to one epoch, credited once it settles.
+    ///         Pending redeems are queue requests, credited in order as the queue fulfils them
+    struct ControllerState {
+        uint256 pendingDepositAssets;
+        uint256 depositEpoch;
+        uint256 claimableDepositAssets;
+        uint256 claimableDepositShares;
+        uint256 pendingRedeemShares;
+        /// @dev Index into the controller's queue request ids of the first one not yet credited
+        uint256 nextRedeemRequest;
+        uint256 claimableRedeemShares;
+        uint256 claimableRedeemAssets;
+    }
+
+    /// @notice SUSDDVault: the share token
+    address public immutable vault;
+
+    /// @notice The vault's WithdrawalQueue, which holds and fulfils every redeem request
+    WithdrawalQueue public immutable withdrawalQueue;
+
+    /// @notice The vault's DepositLimiter, which caps each controller's requests; address(0) disables
+    address public depositLimiter;
+
+    /// @notice Epoch currently collecting deposit requests
+    uint256 public depositEpochId;
+
+    mapping(uint256 => Epoch) public depositEpochs;
+
+    /// @notice USDT waiting for settleDeposits()
+    uint256 public totalPendingDepositAssets;
+
+    mapping(address => ControllerState) private _controllers;
+
+    /// @notice Queue request ids of each controller's redeem requests, in request order
+    mapping(address => uint256[]) private _redeemRequests;
+
+    /// @notice ERC-7540 operators: controller => operator => approved
+    mapping(address => mapping(address => bool)) public isOperator;
+
+    // ============ Events ============
+
+    /// @dev ERC-7540
+    event DepositRequest(
+        address indexed controller, address indexed owner, uint256 indexed requestId, address sender, uint256 assets
+    );
+    event RedeemRequest(
+        address indexed controller, address indexed owner, uint256 indexed requestId, address sender, uint256 shares
+    );
+    event OperatorSet(address indexed controller, address indexed operator, bool approved);
+    event DepositLimiterUpdated(address oldLimiter, address newLimiter);
+    /// @dev ERC-4626, emitted on claims
+    event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares);
+    event Withdraw(
+        address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares
+    );
+
+    event DepositRequestCancelled(address indexed controller, address indexed receiver, address sender, uint256 assets);
+    event DepositsSettled(uint256 indexed epoch, uint256 assets, uint256 shares);
+
+    // ============ Errors ============
+
+    error ZeroAmount();
+    error InvalidController();
+    error NotOperator();
+    error NotWhitelisted(address account);
+    error InvalidQueue();
+    error NothingToSettle();
+    error ExceedsClaimable(uint256 requested, uint256 claimable);
+
+    constructor(address vault_, address withdrawalQueue_, address admin) {
+        if (WithdrawalQueue(withdrawalQueue_).vault() != vault_) revert InvalidQueue();
+        vault = vault_;
+        withdrawalQueue = WithdrawalQueue(withdrawalQueue_);
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    }
+
+    // ============ Operators ============
+
+    /// @notice ERC-7540: let `operator` request and claim on behalf of the caller
+    function setOperator(address operator, bool approved) external returns (bool) {
+        isOperator[msg.sender][operator] = approved;
+        emit OperatorSet(msg.sender, operator, approved);
+        return true;
+    }
+
+    /// @notice Cap controllers' deposit requests with the vault's DepositLimiter (address(0) removes it)
+    /// @dev Keep it equal to the vault's limiter; the limiter must grant this contract ASYNC_VAULT_ROLE
+    function setDepositLimiter(address newLimiter) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        emit DepositLimiterUpdated(depositLimiter, newLimiter);
+        depositLimiter = newLimiter;
+    }
+
+    // ============ Requests ============
+
+    /// @notice ERC-7540: move `assets` USDT from `owner` into the current deposit epoch for `controller`
+    /// @dev Reverts with the limiter's DepositorCapExceeded above the controller's cap
+    /// @return requestId Always 0: requests are fungible per controller
+    function requestDeposit(uint256 assets, address controller, address owner)
+        external
+        nonReentrant
+        returns (uint256 requestId)
+    {
+        if (assets == 0) revert ZeroAmount();
+        if (controller == address(0)) revert InvalidController();
+        _checkOperator(owner);
+        _checkWhitelisted(owner, controller);
+        if (depositLimiter != address(0)) IDepositLimiter(depositLimiter).recordRequest(controller, assets);
+
+        ControllerState storage state = _sync(controller);
+        state.pendingDepositAssets += assets;
+        state.depositEpoch = depositEpochId;
+        totalPendingDepositAssets += assets;
+
+        IERC20(Constants.USDT).safeTransferFrom(owner, address(this), assets);
+
+        emit DepositRequest(controller, owner, REQUEST_ID, msg.sender, assets);
+        return REQUEST_ID;
+    }
+
+    /// @notice Withdraw `controller`'s pending deposit of the open epoch and return the USDT to `receiver`
+    /// @dev Pending assets always belong to the epoch not yet settled, so a settlement that keeps failing
+    ///      never locks them
+    /// @return assets USDT returned
+    function cancelDepositRequest(address controller, address receiver)
+        external
+        nonReentrant
+        returns (uint256 assets)
+    {
+        _checkOperator(controller);
+        ControllerState storage state = _sync(controller);
+        assets = state.pendingDepositAssets;
+        if (assets == 0) revert ZeroAmount();
+
+        state.pendingDepositAssets = 0;
+        totalPendingDepositAssets -= assets;
+        if (depositLimiter != address(0)) IDepositLimiter(depositLimiter).releaseRequest(controller, assets);
+
+        IERC20(Constants.USDT).safeTransfer(receiver, assets);
+
+        emit DepositRequestCancelled(controller, receiver, msg.sender, assets);
+    }
+
+    /// @notice ERC-7540: queue `shares` from `owner` in the WithdrawalQueue for `controller`
+    /// @dev Shares are pulled with the owner's vault allowance to this contract, then requested from the queue
+    ///      with this contract as owner and controller
+    /// @return requestId Always 0: requests are fungible per controller
+    function requestRedeem(uint256 shares, address controller, address owner)
+        external
+        nonReentrant
+        returns (uint256 requestId)
+    {
+        if (shares == 0) revert ZeroAmount();
+        if (controller == address(0)) revert InvalidController();
+        _checkOperator(owner);
+        _checkWhitelisted(owner, controller);
+
+        ControllerState storage state = _sync(controller);
+        state.pendingRedeemShares += shares;
+
+        IERC20(vault).safeTransferFrom(owner, address(this), shares);
+        IERC20(vault).forceApprove(address(withdrawalQueue), shares);
+        _redeemRequests[controller].push(withdrawalQueue.requestRedeem(shares, address(this), address(this)));
+
+        emit RedeemRequest(controller, owner, REQUEST_ID, msg.sender, shares);
+        return REQUEST_ID;
+    }
+
+    // ============ Settlement (Keeper) ============
+
+    /// @notice Deposit the epoch's pending USDT into the vault in one call and open the next epoch
+    /// @param minShares Minimum shares for the whole epoch (vault SlippageExceeded below it)
+    /// @return shares Vault shares minted for the epoch
+    function settleDeposits(uint256 minShares) external onlyRole(KEEPER_ROLE) nonReentrant returns (uint256 shares) {
+        uint256 assets = totalPendingDepositAssets;
+        if (assets == 0) revert NothingToSettle();
+
+        IERC20(Constants.USDT).forceApprove(vault, assets);
+        shares = ISUSDDVault(vault).depositWithMin(assets, address(this), minShares);
+
+        uint256 epoch = depositEpochId;
+        depositEpochs[epoch] = Epoch({assets: assets, shares: shares});
+        depositEpochId = epoch + 1;
+        totalPendingDepositAssets = 0;
+
+        emit DepositsSettled(epoch, assets, shares);
+    }
+
+    // ============ Claims ============
+
+    /// @notice ERC-7540: claim the shares for `assets` of settled deposits
+    function deposit(uint256 assets, address receiver, address controller)
+        public
+        nonReentrant
+        returns (uint256 shares)
+    {
+        _checkOperator(controller);
+        ControllerState storage state = _sync(controller);
+        if (assets > state.claimableDepositAssets) revert ExceedsClaimable(assets, state.claimableDepositAssets);
+
+        shares = assets == state.claimableDepositAssets
+            ? state.claimableDepositShares
+            : assets.mulDiv(state.claimableDepositShares, state.claimableDepositAssets);
+        _claimDeposit(state, assets, shares, receiver, controller);
+    }
+
+    function deposit(uint256 assets, address receiver) external returns (uint256) {
+        return deposit(assets, receiver, msg.sender);
+    }
+
+    /// @notice ERC-7540: claim exactly `shares` of settled deposits
+    function mint(uint256 shares, address receiver, address controller) public nonReentrant returns (uint256 assets) {
+        _checkOperator(controller);
+        ControllerState storage state = _sync(controller);
+        if (shares > state.claimableDepositShares) revert ExceedsClaimable(shares, state.claimableDepositShares);
+
+        assets = shares == state.claimableDepositShares
+            ? state.claimableDepositAssets
+            : shares.mulDiv(state.claimableDepositAssets, state.claimableDepositShares, Math.Rounding.Ceil);
+        _claimDeposit(state, assets, shares, receiver, controller);
+    }
+
+    function mint(uint256 shares, address receiver) external returns (uint256) {
+        return mint(shares, receiver, msg.sender);
+    }
+
+    /// @notice ERC-7540: claim the USDT for `shares` of settled redeems
+    function redeem(uint256 shares, address receiver, address controller)
+        external
+        nonReentrant
+        returns (uint256 assets)
+    {
+        _checkOperator(controller);
+        ControllerState storage state = _sync(controller);
+        if (shares > state.claimableRedeemShares) revert ExceedsClaimable(shares, state.claimableRedeemShares);
+
+        assets = shares == state.claimableRedeemShares
+            ? state.claimableRedeemAssets
+            : shares.mulDiv(state.claimableRedeemAssets, state.claimableRedeemShares);
+        _claimRedeem(state, assets, shares, receiver, controller);
+    }
+
+    /// @notice ERC-7540: claim exactly `assets` USDT of settled redeems
+    function withdraw(uint256 assets, address receiver, address controller)
+        external
+        nonReentrant
+        returns (uint256 shares)
+    {
+        _checkOperator(controller);
+        ControllerState storage state = _sync(controller);
+        if (assets > state.claimableRedeemAssets) revert ExceedsClaimable(assets, state.claimableRedeemAssets);
+
+        shares = assets == state.claimableRedeemAssets
+            ? state.claimableRedeemShares
+            : assets.mulDiv(state.claimableRedeemShares, state.claimableRedeemAssets, Math.Rounding.Ceil);
+        _claimRedeem(state, assets, shares, receiver, controller);
+    }
+
+    // ============ Views ============
+
+    /// @notice ERC-7540: USDT of `controller` waiting for settleDeposits()
+    function pendingDepositRequest(uint256, address controller) external view returns (uint256) {
+        return _synced(controller).pendingDepositAssets;
+    }
+
+    /// @notice ERC-7540: USDT of `controller` settled and claimable through deposit() or mint()
+    function claimableDepositRequest(uint256, address controller) external view returns (uint256) {
+        return _synced(controller).claimableDepositAssets;
+    }
+
+    /// @notice ERC-7540: shares of `controller` waiting in the WithdrawalQueue
+    function pendingRedeemRequest(uint256, address controller) external view returns (uint256) {
+        return _synced(controller).pendingRedeemShares;
+    }
+
+    /// @notice ERC-7540: shares of `controller` fulfilled by the queue and claimable through redeem() or withdraw()
+    function claimableRedeemRequest(uint256, address controller) external view returns (uint256) {
+        return _synced(controller).claimableRedeemShares;
+    }
+
+    function maxDeposit(address controller) external view returns (uint256) {
+        return _synced(controller).claimableDepositAssets;
+    }
+
+    function maxMint(address controller) external view returns (uint256) {
+        return _synced(controller).claimableDepositShares;
+    }
+
+    function maxRedeem(address controller) external view returns (uint256) {
+        return _synced(controller).claimableRedeemShares;
+    }
+
+    function maxWithdraw(address controller) external view returns (uint256) {
+        return _synced(controller).claimableRedeemAssets;
+    }
+
+    /// @notice Request state with settled epochs and fulfilled queue requests credited
+    function getControllerState(address controller) external view returns (ControllerState memory) {
+        return _synced(controller);
+    }
+
+    /// @notice ERC-7575: the share token
+    function share() external view returns (address) {
+        return vault;
+    }
+
+    function asset() external pure returns (address) {
+        return Constants.USDT;
+    }
+
+    /// @dev ERC-7540 operator, asynchronous deposit and asynchronous redeem interfaces
+    function supportsInterface(bytes4 interfaceId) public view override returns (bool) {
+        return interfaceId == 0xe3bc4e65 || interfaceId == 0xce3bbe50 || interfaceId == 0x620ee8e4
+            || super.supportsInterface(interfaceId);
+    }
+
+    // ============ Internal ============
+
+    function _checkOperator(address account) internal view {
+        if (msg.sender != account && !isOperator[account][msg.sender]) revert NotOperator();
+    }
+
+    /// @dev While the vault whitelist is enabled, both ends of a request must be whitelisted
+    function _checkWhitelisted(address owner, address controller) internal view {
+        if (!ISUSDDVault(vault).whitelistEnabled()) return;
+        if (!ISUSDDVault(vault).whitelisted(owner)) revert NotWhitelisted(owner);
+        if (!ISUSDDVault(vault).whitelisted(controller)) revert NotWhitelisted(controller);
+    }
+
+    /// @notice Controller state with pending requests of settled epochs and fulfilled queue requests moved to claimable
+    /// @dev Each controller's share of a deposit epoch rounds down; the dust stays in this contract. The queue
+    ///      fulfils in request order, so the controller's fulfilled requests are a prefix of the unclaimed ones
+    function _synced(address controller) internal view returns (ControllerState memory state) {
+        state = _controllers[controller];
+
+        if (state.pendingDepositAssets > 0 && state.depositEpoch < depositEpochId) {
+            Epoch storage epoch = depositEpochs[state.depositEpoch];
+            state.claimableDepositShares += state.pendingDepositAssets.mulDiv(epoch.shares, epoch.assets);
+            state.claimableDepositAssets += state.pendingDepositAssets;
+            state.pendingDepositAssets = 0;
+        }
+        uint256[] storage ids = _redeemRequests[controller];
+        for (; state.nextRedeemRequest < ids.length; state.nextRedeemRequest++) {
+            WithdrawalQueue.Request memory request = withdrawalQueue.getRequest(ids[state.nextRedeemRequest]);
+            if (!request.fulfilled) break;
+            state.claimableRedeemAssets += request.assets;
+            state.claimableRedeemShares += request.shares;
+            state.pendingRedeemShares -= request.shares;
+        }
+    }
+
+    /// @dev Also claims the USDT of newly credited queue requests into this contract
+    function _sync(address controller) internal returns (ControllerState storage state) {
+        state = _controllers[controller];
+        uint256 first = state.nextRedeemRequest;
+        _controllers[controller] = _synced(controller);
+
+        uint256[] storage ids = _redeemRequests[controller];
+        for (uint256 i = first; i < state.nextRedeemRequest; i++) {
+            withdrawalQueue.claim(ids[i], address(this));
+        }
+    }
+
+    function _claimDeposit(
+        ControllerState storage state,
+        uint256 assets,
+        uint256 shares,
+        address receiver,
+        address controller
+    ) internal {
+        if (assets == 0) revert ZeroAmount();
+        state.claimableDepositAssets -= assets;
+        state.claimableDepositShares -= shares;
+        IERC20(vault).safeTransfer(receiver, shares);
+        emit Deposit(controller, receiver, assets, shares);
+    }
+
+    function _claimRedeem(
+        ControllerState storage state,
+        uint256 assets,
+        uint256 shares,
+        address receiver,
+        address controller
+    ) internal {
+        if (shares == 0) revert ZeroAmount();
+        state.claimableRedeemAssets -= assets;
+        state.claimableRedeemShares -= shares;
+        IERC20(Constants.USDT).safeTransfer(receiver, assets);
+        emit Withdraw(msg.sender, receiver, controller, assets, shares);
+    }
+}
@@ -15,8 +15,10 @@ import {MarketParamsLib} from "@morpho-org/morpho-blue/src/libraries/MarketParam
 import {MorphoBalancesLib} from "@morpho-org/morpho-blue/src/libraries/periphery/MorphoBalancesLib.sol";
 import {SharesMathLib} from "@morpho-org/morpho-blue/src/libraries/SharesMathLib.sol";
 import "./interfaces/IPSM.sol";
+import "./interfaces/IDepositLimiter.sol";
 import "./libraries/Constants.sol";
 import "./libraries/SwapHelper.sol";
+import "./libraries/PositionLib.sol";
 
 /// @title SUSDDVault
 /// @notice Leveraged ERC4626 vault: USDT deposits → leveraged sUSDD position in Morpho Blue
@@ -74,13 +76,49 @@ contract SUSDDVault is
     /// @notice Merkl distributor contract address
     address internal merklDistributor;
 
+    // ============ Safety Band ============
+
+    /// @notice LTV (WAD) above which anyone may call deleverToSafety(); 0 disables the guard
+    uint256 public maxLTVBeforeDelever;
+
+    // ============ Swap Routes ============
+
+    /// @notice Aggregators allowed as SwapHelper.SwapRoute routers (PSM fallback for redeem and exit)
+    mapping(address => bool) public swapRouters;
+
+    // ============ Management Fee ============
+
+    /// @notice Annual management fee in basis points, streamed by time as shares to feeRecipient
+    uint256 public managementFeeBps;
+
+    /// @notice Timestamp up to which the management fee has been charged
+    uint256 public lastFeeAccrual;
+
+    // ============ Entry/Exit Fees ============
+
+    /// @notice Fee on deposits in basis points, taken from the shares minted
+    uint256 public depositFeeBps;
+
+    /// @notice Fee on redeems in basis points, taken from the shares redeemed
+    uint256 public redeemFeeBps;
+
+    /// @notice If true, deposit/redeem fees are paid as shares to feeRecipient; otherwise they stay in the vault
+    bool public entryExitFeeToTreasury;
+
+    // ============ Deposit Limits ============
+
+    /// @notice DepositLimiter with per-depositor caps, inflow limit and minimum deposit; address(0) disables
+    address internal depositLimiter;
+
     /// @notice Storage gap for future upgrades
-    uint256[47] private __gap;
+    uint256[40] private __gap;
 
     // ============ Constants ============
 
     uint256 private constant MAX_BPS = 10000;
     uint256 private constant MAX_PERFORMANCE_FEE_BPS = 3000; // 30% max
+    uint256 private constant MAX_MANAGEMENT_FEE_BPS = 500; // 5% per year max
+    uint256 private constant MAX_ENTRY_EXIT_FEE_BPS = 100; // 1% max on each side
     uint256 private constant MAX_LTV = 0.915e18; // 91.5% absolute ceiling (market LLTV is the binding constraint)
 
     /// @notice Special value for targetLTV meaning "idle USDT mode" (no position)
@@ -89,24 +127,27 @@ contract SUSDDVault is
     ///      - rebalance(IDLE_MODE) converts everything to idle USDT
     uint256 internal constant IDLE_MODE = type(uint256).max;
 
-    // Flash loan operation types
-    uint8 private constant OP_DEPOSIT = 1;
-    uint8 private constant OP_WITHDRAW = 2;
-    uint8 private constant OP_LEVER_UP = 3;
-    uint8 private constant OP_DELEVER = 4;
-
     // ============ Events ============
 
     event PerformanceFeeUpdated(uint256 oldFee, uint256 newFee);
     event FeeRecipientUpdated(address oldRecipient, address newRecipient);
     event MaxTotalAssetsUpdated(uint256 oldMax, uint256 newMax);
     event Rebalanced(uint256 oldLTV, uint256 newLTV);
+    event RebalanceStep(uint256 targetLTV, uint256 remainingDebtDelta);
     event PerformanceFeeAccrued(uint256 feeShares, address indexed recipient);
     event WhitelistEnabledUpdated(bool enabled);
     event AddedToWhitelist(address indexed account);
     event RemovedFromWhitelist(address indexed account);
     event MerklDistributorUpdated(address oldDistributor, address newDistributor);
     event RewardsClaimed(uint256 usddReceived);
+    event MaxLTVBeforeDeleverUpdated(uint256 oldMax, uint256 newMax);
+    event DeleveredToSafety(uint256 ltvBefore, uint256 debtRepaid);
+    event SwapRouterUpdated(address indexed router, bool allowed);
+    event ManagementFeeUpdated(uint256 oldFee, uint256 newFee);
+    event ManagementFeeAccrued(uint256 feeShares, address indexed recipient);
+    event EntryExitFeesUpdated(uint256 depositFeeBps, uint256 redeemFeeBps, bool toTreasury);
+    event EntryExitFeeAccrued(uint256 feeShares, address indexed recipient);
+    event DepositLimiterUpdated(address oldLimiter, address newLimiter);
 
     /// @notice Vault state snapshot for Dune dashboard tracking
     /// @dev Emitted after deposit, redeem, rebalance, harvestFees
@@ -129,6 +170,13 @@ contract SUSDDVault is
     error NoRewardsReceived();
     error MerklClaimFailed();
     error NotSupported();
+    error SlippageExceeded(uint256 actual, uint256 minimum);
+    error LTVWithinSafetyBand();
+    error TargetLTVAboveSafetyBand();
+    error ZeroCollateral();
+    error InsufficientPSMLiquidity(uint256 needed, uint256 available);
+    error InvalidSwapRoute();
+    error SwapRouteFailed();
 
     // ============ Constructor & Initializer ============
 
@@ -195,32 +243,16 @@ contract SUSDDVault is
     // ============ ERC4626 View Functions ============
 
     /// @notice Total assets under management in USDT terms
-    /// @dev NAV = idle USDT + (sUSDD collateral value) - USDT debt
-    /// @dev Uses MorphoBalancesLib to get expected debt including accrued interest
+    /// @dev NAV = idle USDT + (sUSDD collateral value) - USDT debt, computed by PositionLib.nav
     function totalAssets() public view override returns (uint256) {
-        // Idle USDT balance
-        uint256 idleUsdt = IERC20(Constants.USDT).balanceOf(address(this));
-
-        // Get position from Morpho
-        IMorpho morpho = IMorpho(Constants.MORPHO);
-        Position memory pos = morpho.position(Id.wrap(Constants.MARKET_ID), address(this));
-
-        // Calculate debt in USDT using expected value (includes accrued interest)
-        uint256 debtUsdt = morpho.expectedBorrowAssets(marketParams, address(this));
-
-        // Calculate collateral value in USDT
-        uint256 collateralUsdt = SwapHelper.getUSDTValue(pos.collateral);
-
-        // NAV = idle + collateral value - debt
-        if (collateralUsdt + idleUsdt > debtUsdt) {
-            return idleUsdt + collateralUsdt - debtUsdt;
-        }
-        return 0; // Underwater (shouldn't happen with proper LTV management)
+        return PositionLib.nav(marketParams);
     }
 
     /// @notice Maximum deposit amount
-    /// @dev Returns 0 if paused, TVL cap reached, underwater, or receiver not whitelisted
-    function maxDeposit(address receiver) public view override returns (uint256) {
+    /// @dev Returns 0 if paused, TVL cap reached, underwater, or receiver not whitelisted;
+    ///      also capped by depositLimiter's per-depositor and inflow limits. Not capped by PSM
+    ///      liquidity: deposits only sellGem, which adds USDT to the PSM (ADR-002)
+    function maxDeposit(address receiver) public view override returns (uint256 maxAssets) {
         if (paused()) return 0;
 
         // Whitelist check: if enabled, receiver must be whitelisted
@@ -232,7 +264,10 @@ contract SUSDDVault is
         if (currentAssets == 0 && totalSupply() > 0) return 0;
 
         if (currentAssets >= maxTotalAssets) return 0;
-        return maxTotalAssets - currentAssets;
+        maxAssets = maxTotalAssets - currentAssets;
+        if (depositLimiter != address(0)) {
+            maxAssets = Math.min(maxAssets, IDepositLimiter(depositLimiter).maxDeposit(receiver));
+        }
     }
 
     /// @notice Maximum mint amount (returns 0 - mint not supported)
@@ -246,8 +281,28 @@ contract SUSDDVault is
     }
 
     /// @notice Maximum redeem amount
-    /// @dev Returns 0 if owner not whitelisted (when whitelist enabled)
-    function maxRedeem(address owner) public view override returns (uint256) {
+    /// @dev Returns 0 if owner not whitelisted (when whitelist enabled).
+    ///      Also capped by PSM liquidity: only the collateral leg is sold through the PSM,
+    ///      so shares * collateralValue / totalSupply must fit in availablePSMLiquidity()
+    function maxRedeem(address owner) public view override returns (uint256 maxShares) {
+        maxShares = _maxRedeemByBalance(owner);
+
+        Position memory pos = IMorpho(Constants.MORPHO).position(Id.wrap(Constants.MARKET_ID), address(this));
+        uint256 collateralValue = SwapHelper.getUSDTValue(pos.collateral);
+        uint256 liquidity = availablePSMLiquidity();
+        if (collateralValue > liquidity) {
+            uint256 liquidityShares = (liquidity * totalSupply()) / collateralValue;
+            if (liquidityShares < maxShares) maxShares = liquidityShares;
+        }
+    }
+
+    /// @notice USDT the PSM can pay out for sUSDD -> USDT legs (its gemJoin balance)
+    function availablePSMLiquidity() public view returns (uint256) {
+        return SwapHelper.availablePSMLiquidity();
+    }
+
+    /// @notice maxRedeem without the PSM liquidity cap; redeem() reports that one as InsufficientPSMLiquidity
+    function _maxRedeemByBalance(address owner) internal view returns (uint256) {
         if (whitelistEnabled && !whitelisted[owner]) return 0;
         return balanceOf(owner);
     }
@@ -255,7 +310,10 @@ contract SUSDDVault is
     /// @notice Deposit assets and return actual shares minted
     /// @dev Overrides OZ ERC4626 to return real minted amount instead of preview estimate
     function deposit(uint256 assets, address receiver) public override returns (uint256) {
+        // Read before recordDeposit counts this deposit as inflow
         uint256 maxAssets = maxDeposit(receiver);
+        // Reverts on the limiter's minimum, depositor cap or inflow limit with its own error
+        if (depositLimiter != address(0)) IDepositLimiter(depositLimiter).recordDeposit(receiver, assets);
         if (assets > maxAssets) {
             revert ERC4626ExceededMaxDeposit(receiver, assets, maxAssets);
         }
@@ -265,26 +323,58 @@ contract SUSDDVault is
         return balanceOf(receiver) - sharesBefore;
     }
 
-    /// @notice Preview shares for deposit (Delta NAV approach)
+    /// @notice Deposit with slippage protection
+    /// @dev Reverts with SlippageExceeded if PSM tin or sUSDD rate moves reduce minted shares below minShares
+    function depositWithMin(uint256 assets, address receiver, uint256 minShares) external returns (uint256 shares) {
+        shares = deposit(assets, receiver);
+        if (shares < minShares) revert SlippageExceeded(shares, minShares);
+    }
+
+    /// @notice Preview shares for deposit: convertToShares net of depositFeeBps, as _deposit takes it
+    function previewDeposit(uint256 assets) public view override returns (uint256 shares) {
+        shares = convertToShares(assets);
+        shares -= (shares * depositFeeBps) / MAX_BPS;
+    }
+
+    /// @notice Convert assets to shares (Delta NAV approach), before the deposit fee
     /// @dev Calculates expected NAV increase accounting for PSM fees and leverage
     /// @dev Returns 0 if vault is underwater (NAV=0 but supply>0) - deposits blocked
-    function previewDeposit(uint256 assets) public view override returns (uint256) {
+    function convertToShares(uint256 assets) public view override returns (uint256 shares) {
         if (assets == 0) return 0;
 
         uint256 nav = totalAssets();
         uint256 supply = totalSupply();
+        // Same supply as convertToAssets: _deposit mints pending fees before pricing the shares
+        supply += _pendingManagementFeeShares(supply);
+        supply += _pendingFeeShares(nav, supply);
+
+        // First deposit: shares = estimated value
+        shares = _estimateDepositValue(assets);
+
+        if (supply > 0) {
+            // Underwater check: NAV=0 but shares exist → deposits not possible
+            if (nav == 0) return 0;
 
-        if (supply == 0) {
-            // First deposit: shares = estimated value
-            return _estimateDepositValue(assets);
+            // Delta NAV: shares proportional to value added
+            shares = (shares * supply) / nav;
         }
+    }
+
+    /// @notice Preview USDT received for redeeming shares: convertToAssets of the shares left after redeemFeeBps
+    function previewRedeem(uint256 shares) public view override returns (uint256) {
+        return convertToAssets(shares - (shares * redeemFeeBps) / MAX_BPS);
+    }
 
-        // Underwater check: NAV=0 but shares exist → deposits not possible
-        if (nav == 0) return 0;
+    /// @notice Convert shares to assets (consistent with proportional redeem), before the redeem fee
+    /// @dev Mirrors redeem(): pending management and performance fees are minted first, then
+    ///      PositionLib.previewUnwind applies unwind's math, including PSM tout and the skip-unwind branches
+    function convertToAssets(uint256 shares) public view override returns (uint256) {
+        uint256 supply = totalSupply();
+        supply += _pendingManagementFeeShares(supply);
+        supply += _pendingFeeShares(totalAssets(), supply);
+        if (supply == 0) return 0;
 
-        // Delta NAV: shares proportional to value added
-        uint256 estimatedValueAdded = _estimateDepositValue(assets);
-        return (estimatedValueAdded * supply) / nav;
+        return PositionLib.previewUnwind(marketParams, (shares * Constants.WAD) / supply);
     }
 
     /// @notice Preview mint returns 0 (mint not supported)
@@ -297,11 +387,6 @@ contract SUSDDVault is
         return 0;
     }
 
-    /// @notice Convert assets to shares (consistent with Delta NAV)
-    function convertToShares(uint256 assets) public view override returns (uint256) {
-        return previewDeposit(assets);
-    }
-
     // ============ ERC4626 Disabled ============
 
     /// @notice Mint is not supported - use deposit() instead
@@ -350,7 +435,7 @@ contract SUSDDVault is
         // 0: convert to sUSDD without leverage (unleveraged yield)
         // >0: build leveraged position
         if (targetLTV != IDLE_MODE && assets > 0) {
-            _buildPosition(assets);
+            PositionLib.buildPosition(marketParams, assets, targetLTV);
         }
 
         // 4. Snapshot NAV AFTER
@@ -371,11 +456,16 @@ contract SUSDDVault is
         // This can happen due to rounding on very small deposits
         if (actualShares == 0 && assets > 0) revert DepositTooSmall();
 
-        // 6. Mint shares based on actual value contribution
+        // 6. Deposit fee: paid as shares to feeRecipient, or never minted so its value stays with the holders
+        uint256 feeShares = (actualShares * depositFeeBps) / MAX_BPS;
+        if (entryExitFeeToTreasury && feeShares > 0) _mintEntryExitFee(feeShares);
+        actualShares -= feeShares;
+
+        // 7. Mint shares based on actual value contribution
         _mint(receiver, actualShares);
 
         emit Deposit(caller, receiver, assets, actualShares);
-        _emitSnapshot(navAfter, supplyBefore + actualShares);
+        _emitSnapshot(navAfter, totalSupply());
     }
 
     /// @notice Estimate the NAV increase from depositing assets
@@ -411,41 +501,6 @@ contract SUSDDVault is
         return 0;
     }
 
-    /// @notice Build leveraged position from deposited USDT
-    function _buildPosition(uint256 depositedUsdt) internal {
-        // Calculate how much to borrow for target LTV
-        // totalCollateralValue = depositedUsdt / (1 - targetLTV)
-        // borrowAmount = totalCollateralValue * targetLTV = depositedUsdt * targetLTV / (1 - targetLTV)
-        uint256 borrowAmount = (depositedUsdt * targetLTV) / (Constants.WAD - targetLTV);
-
-        if (borrowAmount == 0) {
-            // No leverage needed, just convert USDT to sUSDD and supply as collateral
-            uint256 susddAmount = SwapHelper.swapUSDTtoSUSDD(depositedUsdt);
-            IMorpho(Constants.MORPHO).supplyCollateral(marketParams, susddAmount, address(this), "");
-            return;
-        }
-
-        // Use flash loan to build position atomically
-        bytes memory data = abi.encode(OP_DEPOSIT, depositedUsdt);
-        IMorpho(Constants.MORPHO).flashLoan(Constants.USDT, borrowAmount, data);
-    }
-
-    /// @notice Handle deposit flash loan callback
-    function _handleDepositCallback(uint256 flashLoanAmount, uint256 depositedUsdt) internal {
-        // Total USDT available = deposited + flash loan
-        uint256 totalUsdt = depositedUsdt + flashLoanAmount;
-
-        // Convert all USDT to sUSDD
-        uint256 susddAmount = SwapHelper.swapUSDTtoSUSDD(totalUsdt);
-
-        // Supply sUSDD as collateral
-        IMorpho morpho = IMorpho(Constants.MORPHO);
-        morpho.supplyCollateral(marketParams, susddAmount, address(this), "");
-
-        // Borrow USDT to repay flash loan
-        morpho.borrow(marketParams, flashLoanAmount, 0, address(this), address(this));
-    }
-
     // ============ Withdraw ============
 
     /// @notice Redeem shares for USDT
@@ -459,11 +514,34 @@ contract SUSDDVault is
         override
         nonReentrant
         returns (uint256)
+    {
+        SwapHelper.SwapRoute memory psm;
+        return _redeem(shares, receiver, owner, psm);
+    }
+
+    /// @notice Redeem, selling the collateral share through a whitelisted aggregator instead of the PSM
+    /// @dev For when the PSM is halted, drained or charges a punitive tout. The route sells the
+    ///      unstaked USDD; a routed redeem reverts rather than take a loss beyond the caller's idle share
+    function redeemWithRoute(
+        uint256 shares,
+        address receiver,
+        address owner,
+        uint256 minAssets,
+        SwapHelper.SwapRoute calldata route
+    ) external nonReentrant returns (uint256 assets) {
+        _requireSwapRouter(route.router);
+        assets = _redeem(shares, receiver, owner, route);
+        if (assets < minAssets) revert SlippageExceeded(assets, minAssets);
+    }
+
+    function _redeem(uint256 shares, address receiver, address owner, SwapHelper.SwapRoute memory route)
+        internal
+        returns (uint256)
     {
         // Accrue performance fee before withdrawal (returns cached supply)
         (, uint256 supplyBefore) = _accruePerformanceFee();
 
-        uint256 maxShares = maxRedeem(owner);
+        uint256 maxShares = _maxRedeemByBalance(owner);
         if (shares > maxShares) {
             revert ERC4626ExceededMaxRedeem(owner, shares, maxShares);
         }
@@ -479,91 +557,34 @@ contract SUSDDVault is
             if (!whitelisted[receiver]) revert NotWhitelisted(receiver);
         }
 
+        // Redeem fee: only the net shares are paid out; the fee goes to feeRecipient as shares,
+        // or is burned with the rest so its value stays with the holders
+        uint256 feeShares = (shares * redeemFeeBps) / MAX_BPS;
+
         // Calculate withdrawal ratio BEFORE burning (shares-based, no NAV needed)
-        uint256 withdrawRatio = (shares * Constants.WAD) / supplyBefore;
+        uint256 withdrawRatio = ((shares - feeShares) * Constants.WAD) / supplyBefore;
 
         // Burn shares
         _burn(owner, shares);
+        if (entryExitFeeToTreasury && feeShares > 0) _mintEntryExitFee(feeShares);
 
         // Unwind position and get actual USDT amount
-        uint256 assets = _unwindPosition(withdrawRatio, receiver);
+        uint256 assets = PositionLib.unwind(marketParams, withdrawRatio, receiver, route);
 
         emit Withdraw(caller, receiver, owner, assets, shares);
-        _emitSnapshot(totalAssets(), supplyBefore - shares);
+        _emitSnapshot(totalAssets(), totalSupply());
 
         return assets;
     }
 
-    /// @notice Unwind position to withdraw USDT
-    /// @dev Uses PROPORTIONAL withdrawal for fairness: both idle USDT and position
-    ///      are withdrawn in the same ratio. This ensures all users pay similar
-    ///      gas/fees regardless of withdrawal order.
-    /// @param withdrawRatio Proportion to withdraw (in WAD), calculated from shares
-    /// @return assets Actual USDT amount transferred to receiver
-    function _unwindPosition(uint256 withdrawRatio, address receiver) internal returns (uint256) {
-        uint256 balanceBefore = IERC20(Constants.USDT).balanceOf(address(this));
-        uint256 idleToWithdraw = (balanceBefore * withdrawRatio) / Constants.WAD;
-
-        IMorpho morpho = IMorpho(Constants.MORPHO);
-        Position memory pos = morpho.position(Id.wrap(Constants.MARKET_ID), address(this));
-
-        // Proportionally unwind position (if exists)
-        if (pos.collateral > 0) {
-            uint256 sharesToRepay = (uint256(pos.borrowShares) * withdrawRatio) / Constants.WAD;
-            uint256 collateralToWithdraw = (uint256(pos.collateral) * withdrawRatio) / Constants.WAD;
-
-            if (sharesToRepay > 0 && collateralToWithdraw > 0) {
-                // Both debt and collateral to withdraw - use flash loan
-                (,, uint256 totalBorrowAssets, uint256 totalBorrowShares) = morpho.expectedMarketBalances(marketParams);
-                uint256 flashLoanAmount = sharesToRepay.toAssetsUp(totalBorrowAssets, totalBorrowShares);
-
-                bytes memory data = abi.encode(OP_WITHDRAW, sharesToRepay, collateralToWithdraw);
-                morpho.flashLoan(Constants.USDT, flashLoanAmount, data);
-            } else if (collateralToWithdraw > 0 && pos.borrowShares == 0) {
-                // No debt at all, safe to just withdraw collateral
-                morpho.withdrawCollateral(marketParams, collateralToWithdraw, address(this), address(this));
-                SwapHelper.swapSUSDDtoUSDT(collateralToWithdraw);
-            }
-            // Edge cases where we skip position unwind (user gets only idle portion):
-            // - sharesToRepay=0, collateralToWithdraw>0, debt exists → protects LTV
-            // - sharesToRepay>0, collateralToWithdraw=0 → can't repay flash loan without collateral
-            // - both round to 0 → nothing to unwind
-        }
-
-        // Transfer proportional idle + net result from position unwind
-        // If unwind caused a loss (e.g. PSM tout fee), deduct from withdrawer's idle portion
-        uint256 balanceAfter = IERC20(Constants.USDT).balanceOf(address(this));
-        uint256 toTransfer;
-        if (balanceAfter >= balanceBefore) {
-            toTransfer = idleToWithdraw + (balanceAfter - balanceBefore);
-        } else {
-            uint256 loss = balanceBefore - balanceAfter;
-            toTransfer = idleToWithdraw > loss ? idleToWithdraw - loss : 0;
-        }
-        IERC20(Constants.USDT).safeTransfer(receiver, toTransfer);
-
-        return toTransfer;
-    }
-
-    /// @notice Handle withdraw flash loan callback
-    /// @param sharesToRepay Exact borrow shares to repay (calculated proportionally)
-    /// @param collateralToWithdraw Exact collateral to withdraw (calculated proportionally)
-    function _handleWithdrawCallback(uint256 sharesToRepay, uint256 collateralToWithdraw) internal {
-        IMorpho morpho = IMorpho(Constants.MORPHO);
-
-        // Repay debt by shares - works for both full and partial withdrawal
-        // Full: sharesToRepay = all shares, Partial: sharesToRepay = shares * ratio
-        if (sharesToRepay > 0) {
-            morpho.repay(marketParams, 0, sharesToRepay, address(this), "");
-        }
-
-        // Withdraw collateral
-        if (collateralToWithdraw > 0) {
-            morpho.withdrawCollateral(marketParams, collateralToWithdraw, address(this), address(this));
-            SwapHelper.swapSUSDDtoUSDT(collateralToWithdraw);
-        }
-
-        // Flash loan will be repaid from the USDT we got
+    /// @notice Redeem with slippage protection
+    /// @dev Reverts with SlippageExceeded if PSM tout or debt changes reduce received USDT below minAssets
+    function redeemWithMin(uint256 shares, address receiver, address owner, uint256 minAssets)
+        external
+        returns (uint256 assets)
+    {
+        assets = redeem(shares, receiver, owner);
+        if (assets < minAssets) revert SlippageExceeded(assets, minAssets);
     }
 
     // ============ Rebalance (Keeper) ============
@@ -575,10 +596,55 @@ contract SUSDDVault is
     ///      - 1..MAX_LTV: Leveraged position
     /// @param newTargetLTV New LTV target
     function rebalance(uint256 newTargetLTV) external onlyRole(KEEPER_ROLE) whenNotPaused nonReentrant {
+        SwapHelper.SwapRoute memory psm;
+        _rebalance(newTargetLTV, type(uint256).max, psm);
+    }
+
+    /// @notice rebalance(IDLE_MODE), selling all collateral through a whitelisted aggregator instead of the PSM
+    /// @param route Route for the whole collateral balance; route.minAmountOut bounds the USDT received
+    function exitToIdleWithRoute(SwapHelper.SwapRoute calldata route)
+        external
+        onlyRole(KEEPER_ROLE)
+        whenNotPaused
+        nonReentrant
+    {
+        _requireSwapRouter(route.router);
+        _rebalance(IDLE_MODE, type(uint256).max, route);
+    }
+
+    /// @notice Move part of the way to a new target LTV, borrowing or repaying at most maxDebtDelta
+    /// @dev For positions whose full rebalance would exceed PSM liquidity or the block gas limit.
+    ///      targetLTV is set on the first step; repeat until remainingDebtDelta is 0.
+    ///      IDLE_MODE and 0 repay debt in steps; the last step then exits like rebalance()
+    /// @param newTargetLTV New LTV target (same modes as rebalance)
+    /// @param maxDebtDelta Flash loan cap for this step (USDT)
+    /// @return remainingDebtDelta Debt still to borrow or repay after this step
+    function rebalanceStep(uint256 newTargetLTV, uint256 maxDebtDelta)
+        external
+        onlyRole(KEEPER_ROLE)
+        whenNotPaused
+        nonReentrant
+        returns (uint256 remainingDebtDelta)
+    {
+        SwapHelper.SwapRoute memory psm;
+        remainingDebtDelta = _rebalance(newTargetLTV, maxDebtDelta, psm);
+        emit RebalanceStep(newTargetLTV, remainingDebtDelta);
+    }
+
+    /// @notice Shared rebalance logic, moving debt by at most maxDebtDelta
+    /// @param exitRoute Swap route for the full exit to IDLE_MODE (zero router: PSM)
+    /// @return remaining Debt still to borrow or repay to reach the target
+    function _rebalance(uint256 newTargetLTV, uint256 maxDebtDelta, SwapHelper.SwapRoute memory exitRoute)
+        internal
+        returns (uint256 remaining)
+    {
         // Validate LTV (allow IDLE_MODE, 0, or valid leverage ratio)
         if (newTargetLTV != IDLE_MODE && newTargetLTV != 0) {
             if (newTargetLTV > MAX_LTV) revert InvalidLTV();
             if (newTargetLTV >= marketParams.lltv) revert LTVExceedsLLTV();
+            // deleverToSafety() repays down to the target, so the target stays below a set band
+            uint256 band = maxLTVBeforeDelever;
+            if (band != 0 && newTargetLTV >= band) revert TargetLTVAboveSafetyBand();
         }
 
         // Accrue fee and cache nav/supply
@@ -592,165 +658,70 @@ contract SUSDDVault is
         // Underwater = idle + collateral value <= debt
         if (debtBefore > 0 && navCached == 0) {
             // Underwater - cannot rebalance, don't change state
-            return;
+            return 0;
         }
 
         // Update state only after underwater check passes
         uint256 oldTargetLTV = targetLTV;
         targetLTV = newTargetLTV;
 
-        // IDLE_MODE: Full exit to USDT
-        if (newTargetLTV == IDLE_MODE) {
-            _exitToIdleUsdt(pos, debtBefore);
-            emit Rebalanced(oldTargetLTV, newTargetLTV);
-            _emitSnapshot(totalAssets(), supply);
-            return;
-        }
-
-        // LTV = 0: Unleveraged sUSDD mode
-        if (newTargetLTV == 0) {
-            _transitionToUnleveraged(pos, debtBefore);
-            emit Rebalanced(oldTargetLTV, newTargetLTV);
-            _emitSnapshot(totalAssets(), supply);
-            return;
-        }
-
-        // LTV > 0: Leveraged mode
-        if (navCached == 0) {
-            // Underwater or no assets - cannot rebalance
-            emit Rebalanced(oldTargetLTV, newTargetLTV);
-            _emitSnapshot(navCached, supply);
-            return;
-        }
-
-        // Calculate target debt for new LTV
-        // targetDebt = nav * targetLTV / (1 - targetLTV)
-        uint256 targetDebt = (navCached * newTargetLTV) / (Constants.WAD - newTargetLTV);
-
-        if (targetDebt > debtBefore) {
+        // Debt to borrow or repay, capped at maxDebtDelta
+        // (leveraged with navCached == 0 means no assets: targetDebt = debtBefore = 0, nothing to do)
+        uint256 targetDebt = _targetDebt(navCached, newTargetLTV);
+        uint256 debtDelta = targetDebt > debtBefore ? targetDebt - debtBefore : debtBefore - targetDebt;
+        if (debtDelta > maxDebtDelta) {
+            remaining = debtDelta - maxDebtDelta;
+            debtDelta = maxDebtDelta;
+        }
+
+        if (remaining == 0 && newTargetLTV == IDLE_MODE) {
+            // IDLE_MODE: Full exit to USDT
+            PositionLib.exitToIdleUsdt(marketParams, pos.collateral, debtBefore, exitRoute);
+        } else if (remaining == 0 && newTargetLTV == 0) {
+            // LTV = 0: Unleveraged sUSDD mode
+            PositionLib.transitionToUnleveraged(marketParams, debtBefore);
+        } else if (targetDebt > debtBefore) {
             // Lever up: borrow more, add collateral (also deploys idle USDT)
-            uint256 additionalDebt = targetDebt - debtBefore;
-            _leverUp(additionalDebt);
-        } else if (targetDebt < debtBefore) {
+            PositionLib.leverUp(debtDelta);
+        } else {
             // Delever: repay debt, remove collateral
-            uint256 debtToRepay = debtBefore - targetDebt;
-            _delever(debtToRepay, false);
+            PositionLib.delever(debtDelta);
         }
 
         emit Rebalanced(oldTargetLTV, newTargetLTV);
         _emitSnapshot(totalAssets(), supply);
     }
 
-    /// @notice Exit completely to idle USDT
-    function _exitToIdleUsdt(Position memory pos, uint256 currentDebt) internal {
-        if (currentDebt > 0) {
-            // Has debt - full delever (repay all, withdraw all)
-            _delever(currentDebt, true);
-        } else if (pos.collateral > 0) {
-            // No debt but has collateral - just withdraw and convert
-            IMorpho(Constants.MORPHO).withdrawCollateral(marketParams, pos.collateral, address(this), address(this));
-            SwapHelper.swapSUSDDtoUSDT(pos.collateral);
-        }
-        // else: already idle USDT, nothing to do
-    }
-
-    /// @notice Transition to unleveraged sUSDD (0% LTV)
-    /// @dev Repays all debt but keeps collateral as sUSDD
-    function _transitionToUnleveraged(Position memory, uint256 currentDebt) internal {
-        if (currentDebt > 0) {
-            // Repay all debt while keeping collateral
-            // _delever with withdrawAllCollateral=false will:
-            // - Auto-detect full debt repayment and use by-shares (no dust)
-            // - Withdraw only enough collateral to repay flash loan
-            _delever(currentDebt, false);
-        }
-
-        // Convert any idle USDT to sUSDD collateral
-        uint256 idleUsdt = IERC20(Constants.USDT).balanceOf(address(this));
-        if (idleUsdt > 0) {
-            uint256 susddAmount = SwapHelper.swapUSDTtoSUSDD(idleUsdt);
-            IMorpho(Constants.MORPHO).supplyCollateral(marketParams, susddAmount, address(this), "");
-        }
-    }
-
-    /// @notice Lever up: borrow more and add collateral
-    function _leverUp(uint256 additionalDebt) internal {
-        if (additionalDebt == 0) return;
-
-        bytes memory data = abi.encode(OP_LEVER_UP);
-        IMorpho(Constants.MORPHO).flashLoan(Constants.USDT, additionalDebt, data);
+    /// @notice Debt for a target LTV at the given NAV: nav * targetLTV / (1 - targetLTV)
+    /// @dev IDLE_MODE and 0 carry no debt
+    function _targetDebt(uint256 nav, uint256 ltv) internal pure returns (uint256) {
+        if (ltv == IDLE_MODE || ltv == 0) return 0;
+        return (nav * ltv) / (Constants.WAD - ltv);
     }
 
-    /// @notice Handle lever up flash loan callback
-    /// @param flashLoanAmount Amount of USDT flash loaned
-    function _handleLeverUpCallback(uint256 flashLoanAmount) internal {
-        // Convert all USDT to sUSDD and supply as collateral
-        // Note: balanceOf already includes flashLoanAmount (Morpho sent it before callback)
-        // So we just convert the entire balance (flash loan + any pre-existing idle)
-        uint256 totalUsdt = IERC20(Constants.USDT).balanceOf(address(this));
-
-        uint256 susddAmount = SwapHelper.swapUSDTtoSUSDD(totalUsdt);
-        IMorpho morpho = IMorpho(Constants.MORPHO);
-        morpho.supplyCollateral(marketParams, susddAmount, address(this), "");
-        // Borrow only flashLoanAmount to repay flash loan (pre-existing idle was already ours)
-        morpho.borrow(marketParams, flashLoanAmount, 0, address(this), address(this));
-    }
-
-    /// @notice Delever: repay debt and remove collateral
-    /// @param debtToRepay Amount of debt to repay
-    /// @param withdrawAllCollateral If true, withdraw ALL remaining collateral (for full delever)
-    function _delever(uint256 debtToRepay, bool withdrawAllCollateral) internal {
-        if (debtToRepay == 0) return;
-
-        bytes memory data = abi.encode(OP_DELEVER, withdrawAllCollateral);
-        IMorpho(Constants.MORPHO).flashLoan(Constants.USDT, debtToRepay, data);
-    }
+    /// @notice Delever back to targetLTV once interest has pushed LTV above maxLTVBeforeDelever
+    /// @dev Permissionless and allowed while paused: it only repays debt, and only above the band.
+    ///      LTV uses the same debt and collateral values as totalAssets()
+    function deleverToSafety() external nonReentrant {
+        (uint256 navCached, uint256 supply) = _accruePerformanceFee();
 
-    /// @notice Handle delever flash loan callback
-    /// @param flashLoanAmount Amount of USDT flash loaned
-    /// @param withdrawAllCollateral If true, withdraw ALL collateral (for IDLE_MODE exit)
-    function _handleDeleverCallback(uint256 flashLoanAmount, bool withdrawAllCollateral) internal {
         IMorpho morpho = IMorpho(Constants.MORPHO);
         Position memory pos = morpho.position(Id.wrap(Constants.MARKET_ID), address(this));
+        uint256 debt = morpho.expectedBorrowAssets(marketParams, address(this));
+        uint256 collateralValue = SwapHelper.getUSDTValue(pos.collateral);
 
-        // Determine if we're repaying all debt (use by-shares for clean repayment)
-        uint256 actualDebt = morpho.expectedBorrowAssets(marketParams, address(this));
-        bool repayingAllDebt = flashLoanAmount >= actualDebt;
-
-        // Repay debt
-        if (pos.borrowShares > 0) {
-            if (repayingAllDebt) {
-                // Full debt repayment: use by-shares to avoid dust
-                morpho.repay(marketParams, 0, pos.borrowShares, address(this), "");
-            } else {
-                // Partial repayment: use by-assets
-                morpho.repay(marketParams, flashLoanAmount, 0, address(this), "");
-            }
-        }
+        // LTV > band <=> debt * WAD > band * collateralValue (never true without debt)
+        uint256 band = maxLTVBeforeDelever;
+        if (band == 0 || debt * Constants.WAD <= band * collateralValue) revert LTVWithinSafetyBand();
+        // Debt left without collateral (LTV unbounded): nothing to sell for the flash loan repayment
+        if (collateralValue == 0) revert ZeroCollateral();
 
-        // Determine collateral to withdraw
-        uint256 collateralToWithdraw;
-        if (withdrawAllCollateral) {
-            // IDLE_MODE: withdraw everything
-            collateralToWithdraw = pos.collateral;
-        } else {
-            // Keep collateral: withdraw only enough to repay flash loan
-            collateralToWithdraw = SwapHelper.previewSUSDDNeededForUSDT(flashLoanAmount);
-            // Add buffer for sUSDD rate accrual and rounding (10 bps = 0.1%)
-            collateralToWithdraw = (collateralToWithdraw * (Constants.BPS_DENOMINATOR + Constants.DELEVER_BUFFER_BPS)) / Constants.BPS_DENOMINATOR;
-
-            // Re-read position after repay to get current collateral
-            pos = morpho.position(Id.wrap(Constants.MARKET_ID), address(this));
-            if (collateralToWithdraw > pos.collateral) {
-                collateralToWithdraw = pos.collateral;
-            }
-        }
+        uint256 targetDebt = _targetDebt(navCached, targetLTV);
+        uint256 debtToRepay = debt > targetDebt ? debt - targetDebt : 0;
+        PositionLib.delever(debtToRepay);
 
-        // Withdraw and swap collateral
-        if (collateralToWithdraw > 0) {
-            morpho.withdrawCollateral(marketParams, collateralToWithdraw, address(this), address(this));
-            SwapHelper.swapSUSDDtoUSDT(collateralToWithdraw);
-        }
+        emit DeleveredToSafety((debt * Constants.WAD) / collateralValue, debtToRepay);
+        _emitSnapshot(totalAssets(), supply);
     }
 
     // ============ Manager Functions ============
@@ -763,6 +734,29 @@ contract SUSDDVault is
         emit PerformanceFeeUpdated(oldFee, newFeeBps);
     }
 
+    /// @notice Set the annual management fee
+    /// @dev Charges the old rate up to now first, so the new rate only applies from this block
+    function setManagementFee(uint256 newFeeBps) external onlyRole(MANAGER_ROLE) {
+        if (newFeeBps > MAX_MANAGEMENT_FEE_BPS) revert InvalidFee();
+        _accruePerformanceFee();
+        uint256 oldFee = managementFeeBps;
+        managementFeeBps = newFeeBps;
+        lastFeeAccrual = block.timestamp;
+        emit ManagementFeeUpdated(oldFee, newFeeBps);
+    }
+
+    /// @notice Set the deposit and redeem fees and whether they go to feeRecipient or stay in the vault
+    function setEntryExitFees(uint256 newDepositFeeBps, uint256 newRedeemFeeBps, bool toTreasury)
+        external
+        onlyRole(MANAGER_ROLE)
+    {
+        if (newDepositFeeBps > MAX_ENTRY_EXIT_FEE_BPS || newRedeemFeeBps > MAX_ENTRY_EXIT_FEE_BPS) revert InvalidFee();
+        depositFeeBps = newDepositFeeBps;
+        redeemFeeBps = newRedeemFeeBps;
+        entryExitFeeToTreasury = toTreasury;
+        emit EntryExitFeesUpdated(newDepositFeeBps, newRedeemFeeBps, toTreasury);
+    }
+
     /// @notice Set fee recipient
     function setFeeRecipient(address newRecipient) external onlyRole(MANAGER_ROLE) {
         if (newRecipient == address(0)) revert InvalidRecipient();
@@ -778,6 +772,38 @@ contract SUSDDVault is
         emit MaxTotalAssetsUpdated(oldMax, newMax);
     }
 
+    /// @notice Set the DepositLimiter consulted by maxDeposit and deposit (address(0) removes it)
+    function setDepositLimiter(address newLimiter) external onlyRole(MANAGER_ROLE) {
+        emit DepositLimiterUpdated(depositLimiter, newLimiter);
+        depositLimiter = newLimiter;
+    }
+
+    /// @notice Set the LTV band above which deleverToSafety() can be called (0 disables it)
+    /// @dev The band sits between a leveraged targetLTV and LLTV; at or below the target, deleverToSafety() has no debt to repay
+    function setMaxLTVBeforeDelever(uint256 newMax) external onlyRole(MANAGER_ROLE) {
+        if (newMax >= marketParams.lltv) revert LTVExceedsLLTV();
+        uint256 target = targetLTV;
+        if (newMax != 0 && target != IDLE_MODE && newMax <= target) revert TargetLTVAboveSafetyBand();
+        uint256 oldMax = maxLTVBeforeDelever;
+        maxLTVBeforeDelever = newMax;
+        emit MaxLTVBeforeDeleverUpdated(oldMax, newMax);
+    }
+
+    /// @notice Allow or disallow an aggregator as a swap route router
+    /// @dev Routers get USDD approvals and arbitrary calldata from the vault: never a token, Morpho or the PSM
+    function setSwapRouter(address router, bool allowed) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (
+            router == address(0) || router == address(this) || router == Constants.USDT || router == Constants.USDD
+                || router == Constants.SUSDD || router == Constants.PSM || router == Constants.MORPHO
+        ) revert InvalidSwapRoute();
+        swapRouters[router] = allowed;
+        emit SwapRouterUpdated(router, allowed);
+    }
+
+    function _requireSwapRouter(address router) internal view {
+        if (!swapRouters[router]) revert InvalidSwapRoute();
+    }
+
     /// @notice Enable or disable whitelist mode
     function setWhitelistEnabled(bool enabled) external onlyRole(MANAGER_ROLE) {
         whitelistEnabled = enabled;
@@ -835,16 +861,9 @@ contract SUSDDVault is
             if (usddAfter <= usddBefore) revert NoRewardsReceived();
             uint256 usddReceived = usddAfter - usddBefore;
 
-            // Reinvest based on targetLTV mode
-            if (targetLTV == IDLE_MODE) {
-                // IDLE_MODE: convert to USDT and leave as idle
-                SwapHelper.swapUSDDtoUSDT(usddReceived);
-            } else {
-                // Leveraged or unleveraged sUSDD: stake and add to collateral
-                IERC20(Constants.USDD).forceApprove(Constants.SUSDD, usddReceived);
-                uint256 susddAmount = IERC4626(Constants.SUSDD).deposit(usddReceived, address(this));
-                IMorpho(Constants.MORPHO).supplyCollateral(marketParams, susddAmount, address(this), "");
-            }
+            // Reinvest based on targetLTV mode: IDLE_MODE converts to idle USDT,
+            // leveraged or unleveraged sUSDD stakes and adds to collateral
+            PositionLib.reinvestRewards(marketParams, usddReceived, targetLTV == IDLE_MODE);
 
             emit RewardsClaimed(usddReceived);
         }
@@ -852,23 +871,26 @@ contract SUSDDVault is
         _emitSnapshot(totalAssets(), supply);
     }
 
-    /// @notice Internal function to accrue performance fees
-    /// @dev Called in deposit/redeem for continuous fee accrual
+    /// @notice Internal function to accrue management and performance fees
+    /// @dev Called in deposit/redeem for continuous fee accrual. The management fee is minted first,
+    ///      so the performance fee is measured on PPS net of it
     /// @return nav Current NAV
     /// @return supply Current supply AFTER any fee mint
     function _accruePerformanceFee() internal returns (uint256 nav, uint256 supply) {
         supply = totalSupply();
         nav = totalAssets();
 
-        if (performanceFeeBps == 0 || supply == 0) return (nav, supply);
-
-        uint256 currentPPS = (nav * 1e18) / supply;
-        if (currentPPS <= highWaterMark) return (nav, supply);
-
-        uint256 profitPerShare = currentPPS - highWaterMark;
-        uint256 feePerShare = (profitPerShare * performanceFeeBps) / MAX_BPS;
-        uint256 feeShares = (supply * feePerShare) / (currentPPS - feePerShare);
+        if (managementFeeBps > 0) {
+            uint256 managementShares = _pendingManagementFeeShares(supply);
+            lastFeeAccrual = block.timestamp;
+            if (managementShares > 0) {
+                _mint(feeRecipient, managementShares);
+                supply += managementShares;
+                emit ManagementFeeAccrued(managementShares, feeRecipient);
+            }
+        }
 
+        uint256 feeShares = _pendingFeeShares(nav, supply);
         if (feeShares > 0) {
             _mint(feeRecipient, feeShares);
             supply += feeShares;
@@ -879,6 +901,34 @@ contract SUSDDVault is
         return (nav, supply);
     }
 
+    /// @notice Performance fee shares owed above the high water mark
+    /// @dev Shared by _accruePerformanceFee and the share/asset conversions
+    function _pendingFeeShares(uint256 nav, uint256 supply) internal view returns (uint256) {
+        if (performanceFeeBps == 0 || supply == 0) return 0;
+
+        uint256 currentPPS = (nav * 1e18) / supply;
+        if (currentPPS <= highWaterMark) return 0;
+
+        uint256 profitPerShare = currentPPS - highWaterMark;
+        uint256 feePerShare = (profitPerShare * performanceFeeBps) / MAX_BPS;
+        return (supply * feePerShare) / (currentPPS - feePerShare);
+    }
+
+    /// @notice Management fee shares owed since lastFeeAccrual
+    /// @dev Mints supply * f / (1 - f) so feeRecipient ends up with fraction f of NAV,
+    ///      f = managementFeeBps * elapsed / (MAX_BPS * 365 days)
+    function _pendingManagementFeeShares(uint256 supply) internal view returns (uint256) {
+        if (managementFeeBps == 0 || supply == 0) return 0;
+        uint256 fee = managementFeeBps * (block.timestamp - lastFeeAccrual);
+        return (supply * fee) / (MAX_BPS * 365 days - fee);
+    }
+
+    /// @notice Pay a deposit/redeem fee to feeRecipient as shares
+    function _mintEntryExitFee(uint256 feeShares) internal {
+        _mint(feeRecipient, feeShares);
+        emit EntryExitFeeAccrued(feeShares, feeRecipient);
+    }
+
     /// @notice Emit VaultSnapshot with provided state (saves gas by avoiding re-reads)
     function _emitSnapshot(uint256 nav, uint256 supply) internal {
         uint256 pps = supply > 0 ? (nav * 1e18) / supply : 1e18;
@@ -900,29 +950,10 @@ contract SUSDDVault is
     // ============ Flash Loan Callback ============
 
     /// @notice Morpho flash loan callback
+    /// @dev Dispatches to PositionLib, which started the flash loan
     function onMorphoFlashLoan(uint256 assets, bytes calldata data) external override {
         if (msg.sender != Constants.MORPHO) revert UnauthorizedCallback();
-
-        uint8 operation = abi.decode(data, (uint8));
-
-        if (operation == OP_DEPOSIT) {
-            (, uint256 depositedUsdt) = abi.decode(data, (uint8, uint256));
-            _handleDepositCallback(assets, depositedUsdt);
-        } else if (operation == OP_WITHDRAW) {
-            (, uint256 sharesToRepay, uint256 collateralToWithdraw) = abi.decode(data, (uint8, uint256, uint256));
-            _handleWithdrawCallback(sharesToRepay, collateralToWithdraw);
-        } else if (operation == OP_LEVER_UP) {
-            _handleLeverUpCallback(assets);
-        } else if (operation == OP_DELEVER) {
-            (, bool withdrawAllCollateral) = abi.decode(data, (uint8, bool));
-            _handleDeleverCallback(assets, withdrawAllCollateral);
-        } else {
-            revert FlashLoanCallbackFailed();
-        }
-
-        // Flash loan repayment: Morpho calls safeTransferFrom to pull back `assets`
-        // Approval was set in constructor (infinite approve to Morpho)
-        // IMPORTANT: Do NOT call forceApprove here — it would overwrite infinite approval
+        PositionLib.onFlashLoan(marketParams, assets, data);
     }
 
     // ============ Upgrade Authorization ============
@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+
+/// @title VaultTimelock
+/// @notice Schedule/execute/cancel timelock for SUSDDVault governance
+/// @dev Holds the vault's DEFAULT_ADMIN_ROLE and MANAGER_ROLE in place of the admin, so fee,
+///      fee recipient, Merkl distributor, swap router, safety band, role and upgrade
+///      (upgradeToAndCall → _authorizeUpgrade) changes wait `delay` seconds after being
+///      scheduled, in view of depositors through CallScheduled. Selectors marked immediate
+///      (whitelist, TVL cap) skip the delay and always call the vault. The delay, the immediate
+///      set and this contract's own roles can only change through a scheduled call to itself.
+contract VaultTimelock is AccessControl {
+    bytes32 public constant PROPOSER_ROLE = keccak256("PROPOSER_ROLE");
+
+    uint256 public constant MAX_DELAY = 30 days;
+
+    /// @notice Vault governed by this timelock
+    address public immutable vault;
+
+    /// @notice Seconds between schedule() and the earliest execute()
+    uint256 public delay;
+
+    /// @notice Vault selectors proposers may call through executeImmediate() without scheduling
+    mapping(bytes4 => bool) public immediate;
+
+    /// @notice Timestamp from which a scheduled call may execute; 0 if not pending
+    mapping(bytes32 => uint256) public readyAt;
+
+    // ============ Events ============
+
+    event CallScheduled(bytes32 indexed id, address indexed target, bytes data, bytes32 salt, uint256 readyAt);
+    event CallExecuted(bytes32 indexed id, address indexed target, bytes data);
+    event CallCancelled(bytes32 indexed id);
+    event DelayUpdated(uint256 oldDelay, uint256 newDelay);
+    event ImmediateUpdated(bytes4 indexed selector, bool immediate);
+
+    // ============ Errors ============
+
+    error InvalidDelay();
+    error NotSelf();
+    error CallAlreadyScheduled(bytes32 id);
+    error CallNotScheduled(bytes32 id);
+    error CallNotReady(bytes32 id, uint256 readyAt);
+    error NotImmediate(bytes4 selector);
+
+    /// @param vault_ Vault whose admin and manager roles this contract will hold
+    /// @param proposer Account allowed to schedule, cancel and run immediate calls
+    /// @param delay_ Initial delay in seconds, at most MAX_DELAY
+    /// @param immediateSelectors Selectors exempt from the delay
+    constructor(address vault_, address proposer, uint256 delay_, bytes4[] memory immediateSelectors) {
+        if (delay_ > MAX_DELAY) revert InvalidDelay();
+        vault = vault_;
+        delay = delay_;
+        _grantRole(DEFAULT_ADMIN_ROLE, address(this));
+        _grantRole(PROPOSER_ROLE, proposer);
+        for (uint256 i = 0; i < immediateSelectors.length; i++) {
+            immediate[immediateSelectors[i]] = true;
+            emit ImmediateUpdated(immediateSelectors[i], true);
+        }
+        emit DelayUpdated(0, delay_);
+    }
+
+    modifier onlySelf() {
+        if (msg.sender != address(this)) revert NotSelf();
+        _;
+    }
+
+    // ============ Proposer Functions ============
+
+    /// @notice Queue `data` for `target`, executable by anyone once `delay` has passed
+    /// @param salt Distinguishes otherwise identical calls
+    /// @return id hashOperation(target, data, salt)
+    function schedule(address target, bytes calldata data, bytes32 salt)
+        external
+        onlyRole(PROPOSER_ROLE)
+        returns (bytes32 id)
+    {
+        id = hashOperation(target, data, salt);
+        if (readyAt[id] != 0) revert CallAlreadyScheduled(id);
+        uint256 ready = block.timestamp + delay;
+        readyAt[id] = ready;
+        emit CallScheduled(id, target, data, salt, ready);
+    }
+
+    /// @notice Drop a pending call
+    function cancel(bytes32 id) external onlyRole(PROPOSER_ROLE) {
+        if (readyAt[id] == 0) revert CallNotScheduled(id);
+        delete readyAt[id];
+        emit CallCancelled(id);
+    }
+
+    /// @notice Call the vault right away; only for selectors marked immediate
+    /// @dev Always targets `vault`, so an immediate selector cannot reach another contract
+    function executeImmediate(bytes calldata data) external onlyRole(PROPOSER_ROLE) returns (bytes memory) {
+        if (!immediate[bytes4(data)]) revert NotImmediate(bytes4(data));
+        emit CallExecuted(bytes32(0), vault, data);
+        return Address.functionCall(vault, data);
+    }
+
+    // ============ Execution ============
+
+    /// @notice Run a scheduled call whose delay has passed; reverts of the target bubble up
+    function execute(address target, bytes calldata data, bytes32 salt) external returns (bytes memory) {
+        bytes32 id = hashOperation(target, data, salt);
+        uint256 ready = readyAt[id];
+        if (ready == 0) revert CallNotScheduled(id);
+        if (block.timestamp < ready) revert CallNotReady(id, ready);
+        delete readyAt[id];
+        emit CallExecuted(id, target, data);
+        return Address.functionCall(target, data);
+    }
+
+    // ============ Self-governed Settings ============
+
+    /// @notice Change the delay; only through a scheduled call, so the old delay applies to it
+    function setDelay(uint256 newDelay) external onlySelf {
+        if (newDelay > MAX_DELAY) revert InvalidDelay();
+        emit DelayUpdated(delay, newDelay);
+        delay = newDelay;
+    }
+
+    /// @notice Add or remove a selector from the immediate set; only through a scheduled call
+    function setImmediate(bytes4 selector, bool isImmediate) external onlySelf {
+        immediate[selector] = isImmediate;
+        emit ImmediateUpdated(selector, isImmediate);
+    }
+
+    // ============ Views ============
+
+    function hashOperation(address target, bytes calldata data, bytes32 salt) public pure returns (bytes32) {
+        return keccak256(abi.encode(target, data, salt));
+    }
+}
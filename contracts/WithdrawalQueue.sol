@@ -0,0 +1,194 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./libraries/Constants.sol";
+import "./libraries/SwapHelper.sol";
+import "./interfaces/ISUSDDVault.sol";
+
+/// @title WithdrawalQueue
+/// @notice Asynchronous redeem path for SUSDDVault, with ERC-7540-style requests
+/// @dev When redeem() reverts (PSM illiquid, vault underwater), users escrow shares here instead.
+///      The keeper fulfils requests first-in first-out in batches: one vault redeem per batch, so
+///      every request in a batch gets the same USDT per share. Controllers then claim their USDT.
+///      Must be whitelisted on the vault while the vault's whitelist is enabled.
+contract WithdrawalQueue is AccessControl, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+
+    struct Request {
+        address controller;
+        uint256 shares;
+        /// @dev USDT owed once fulfilled
+        uint256 assets;
+        bool fulfilled;
+        bool claimed;
+    }
+
+    /// @notice Vault whose shares are queued
+    address public immutable vault;
+
+    Request[] private _requests;
+
+    /// @notice First request not yet fulfilled (requests are fulfilled in order)
+    uint256 public nextRequestToFulfil;
+
+    /// @notice Escrowed shares of pending requests
+    uint256 public totalPendingShares;
+
+    /// @notice USDT held for fulfilled, unclaimed requests
+    uint256 public totalClaimableAssets;
+
+    // ============ Events ============
+
+    /// @dev ERC-7540
+    event RedeemRequest(
+        address indexed controller, address indexed owner, uint256 indexed requestId, address sender, uint256 shares
+    );
+    event RedeemFulfilled(uint256 indexed firstRequestId, uint256 indexed lastRequestId, uint256 shares, uint256 assets);
+    /// @dev ERC-7540 claim, same signature as ERC-4626
+    event Withdraw(
+        address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares
+    );
+
+    // ============ Errors ============
+
+    error ZeroShares();
+    error InvalidController();
+    error NotOwner();
+    error NotController();
+    error NotWhitelisted(address account);
+    error NoPendingRequests();
+    error RequestNotClaimable(uint256 requestId);
+
+    constructor(address vault_, address admin) {
+        vault = vault_;
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    }
+
+    // ============ Request ============
+
+    /// @notice Escrow `shares` from `owner` for an asynchronous redeem claimable by `controller`
+    /// @dev The queue pulls the shares, so owner must have approved it on the vault. While the vault
+    ///      whitelist is enabled, owner and controller must both be whitelisted
+    /// @return requestId Index of the request, claimed with claim(requestId, receiver)
+    function requestRedeem(uint256 shares, address controller, address owner)
+        external
+        nonReentrant
+        returns (uint256 requestId)
+    {
+        if (shares == 0) revert ZeroShares();
+        if (controller == address(0)) revert InvalidController();
+        if (msg.sender != owner) revert NotOwner();
+        if (ISUSDDVault(vault).whitelistEnabled()) {
+            if (!ISUSDDVault(vault).whitelisted(owner)) revert NotWhitelisted(owner);
+            if (!ISUSDDVault(vault).whitelisted(controller)) revert NotWhitelisted(controller);
+        }
+
+        IERC20(vault).safeTransferFrom(owner, address(this), shares);
+
+        requestId = _requests.length;
+        _requests.push(Request({controller: controller, shares: shares, assets: 0, fulfilled: false, claimed: false}));
+        totalPendingShares += shares;
+
+        emit RedeemRequest(controller, owner, requestId, msg.sender, shares);
+    }
+
+    // ============ Fulfil (Keeper) ============
+
+    /// @notice Redeem the next `count` pending requests in a single vault redeem
+    /// @dev USDT is split pro rata by shares; the last request of the batch takes the rounding dust
+    /// @param minAssets Minimum USDT for the whole batch (vault SlippageExceeded below it)
+    /// @param route Vault swap route for the collateral sale (zero router: PSM)
+    /// @return assets USDT the batch received
+    function fulfilRedeems(uint256 count, uint256 minAssets, SwapHelper.SwapRoute calldata route)
+        external
+        onlyRole(KEEPER_ROLE)
+        nonReentrant
+        returns (uint256 assets)
+    {
+        uint256 first = nextRequestToFulfil;
+        uint256 end = first + count > _requests.length ? _requests.length : first + count;
+        if (end == first) revert NoPendingRequests();
+
+        uint256 shares;
+        for (uint256 i = first; i < end; i++) {
+            shares += _requests[i].shares;
+        }
+
+        assets = route.router == address(0)
+            ? ISUSDDVault(vault).redeemWithMin(shares, address(this), address(this), minAssets)
+            : ISUSDDVault(vault).redeemWithRoute(shares, address(this), address(this), minAssets, route);
+
+        uint256 distributed;
+        for (uint256 i = first; i < end; i++) {
+            Request storage request = _requests[i];
+            uint256 owed = i == end - 1 ? assets - distributed : (assets * request.shares) / shares;
+            request.assets = owed;
+            request.fulfilled = true;
+            distributed += owed;
+        }
+
+        nextRequestToFulfil = end;
+        totalPendingShares -= shares;
+        totalClaimableAssets += assets;
+
+        emit RedeemFulfilled(first, end - 1, shares, assets);
+    }
+
+    // ============ Claim ============
+
+    /// @notice Send a fulfilled request's USDT to `receiver`
+    /// @return assets USDT transferred
+    function claim(uint256 requestId, address receiver) external nonReentrant returns (uint256 assets) {
+        if (requestId >= _requests.length) revert RequestNotClaimable(requestId);
+        Request storage request = _requests[requestId];
+        if (msg.sender != request.controller) revert NotController();
+        if (!request.fulfilled || request.claimed) revert RequestNotClaimable(requestId);
+
+        request.claimed = true;
+        assets = request.assets;
+        totalClaimableAssets -= assets;
+        IERC20(Constants.USDT).safeTransfer(receiver, assets);
+
+        emit Withdraw(msg.sender, receiver, request.controller, assets, request.shares);
+    }
+
+    // ============ Views ============
+
+    /// @notice ERC-7540: shares of `requestId` still waiting for the keeper
+    function pendingRedeemRequest(uint256 requestId, address controller) external view returns (uint256) {
+        if (requestId >= _requests.length) return 0;
+        Request storage request = _requests[requestId];
+        return request.controller == controller && !request.fulfilled ? request.shares : 0;
+    }
+
+    /// @notice ERC-7540: shares of `requestId` fulfilled and ready to claim
+    function claimableRedeemRequest(uint256 requestId, address controller) external view returns (uint256) {
+        if (requestId >= _requests.length) return 0;
+        Request storage request = _requests[requestId];
+        return request.controller == controller && request.fulfilled && !request.claimed ? request.shares : 0;
+    }
+
+    function getRequest(uint256 requestId) external view returns (Request memory) {
+        return _requests[requestId];
+    }
+
+    function requestCount() external view returns (uint256) {
+        return _requests.length;
+    }
+
+    /// @notice ERC-7540: the vault share token
+    function share() external view returns (address) {
+        return vault;
+    }
+
+    /// @notice ERC-7540: the asset paid out on claim
+    function asset() external pure returns (address) {
+        return Constants.USDT;
+    }
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IDepositLimiter
+ * @notice Deposit limits SUSDDVault and SUSDDAsyncVault consult beyond maxTotalAssets (see DepositLimiter)
+ */
+interface IDepositLimiter {
+    /// @notice Largest deposit `receiver` may make now under the per-depositor cap and inflow limit
+    function maxDeposit(address receiver) external view returns (uint256);
+
+    /// @notice Check a deposit against every limit and count it against the inflow window
+    /// @dev Called by the vault before a deposit; reverts with the failing limit
+    function recordDeposit(address receiver, uint256 assets) external;
+
+    /// @notice Check an async deposit request against `controller`'s cap and count it as deposited
+    /// @dev Called by an async vault holding ASYNC_VAULT_ROLE; reverts with DepositorCapExceeded
+    function recordRequest(address controller, uint256 assets) external;
+
+    /// @notice Uncount a cancelled async deposit request
+    function releaseRequest(address controller, uint256 assets) external;
+}
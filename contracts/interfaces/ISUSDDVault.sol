@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../libraries/SwapHelper.sol";
+
+/**
+ * @title ISUSDDVault
+ * @notice SUSDDVault entry points used by the companion contracts (WithdrawalQueue, SUSDDAsyncVault)
+ * @dev Vault shares are a plain ERC20: use IERC20 for balances, approvals and transfers
+ */
+interface ISUSDDVault {
+    function depositWithMin(uint256 assets, address receiver, uint256 minShares) external returns (uint256 shares);
+
+    function redeemWithMin(uint256 shares, address receiver, address owner, uint256 minAssets)
+        external
+        returns (uint256 assets);
+
+    function redeemWithRoute(
+        uint256 shares,
+        address receiver,
+        address owner,
+        uint256 minAssets,
+        SwapHelper.SwapRoute calldata route
+    ) external returns (uint256 assets);
+
+    function whitelistEnabled() external view returns (bool);
+
+    function whitelisted(address account) external view returns (bool);
+}
@@ -0,0 +1,406 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import {IMorpho, Id, MarketParams, Position} from "@morpho-org/morpho-blue/src/interfaces/IMorpho.sol";
+import {MorphoBalancesLib} from "@morpho-org/morpho-blue/src/libraries/periphery/MorphoBalancesLib.sol";
+import {SharesMathLib} from "@morpho-org/morpho-blue/src/libraries/SharesMathLib.sol";
+import "./Constants.sol";
+import "./SwapHelper.sol";
+
+/// @title PositionLib
+/// @notice Flash-loan legs of SUSDDVault's Morpho position: build, unwind, lever up, delever,
+///         plus the Merkl reward reinvest and the NAV and unwind previews
+/// @dev Linked as an external library to keep SUSDDVault under the EIP-170 size limit.
+///      Functions run via DELEGATECALL, so Morpho, the PSM and sUSDD see the vault as caller
+///      and balances are the vault's. The vault validates and emits events; this only moves funds.
+library PositionLib {
+    using SafeERC20 for IERC20;
+    using MorphoBalancesLib for IMorpho;
+    using SharesMathLib for uint256;
+
+    // Flash loan operation types
+    uint8 private constant OP_DEPOSIT = 1;
+    uint8 private constant OP_WITHDRAW = 2;
+    uint8 private constant OP_LEVER_UP = 3;
+    uint8 private constant OP_DELEVER = 4;
+
+    /// @dev Same selector as SUSDDVault.FlashLoanCallbackFailed
+    error FlashLoanCallbackFailed();
+    /// @dev Same selector as SUSDDVault.SwapRouteFailed
+    error SwapRouteFailed();
+
+    // ============ Views ============
+
+    /// @notice NAV in USDT: idle USDT + sUSDD collateral value - debt including accrued interest
+    /// @dev SUSDDVault.totalAssets(); 0 when underwater
+    function nav(MarketParams storage marketParams) external view returns (uint256) {
+        // Idle USDT balance
+        uint256 idleUsdt = IERC20(Constants.USDT).balanceOf(address(this));
+
+        // Get position from Morpho
+        IMorpho morpho = IMorpho(Constants.MORPHO);
+        Position memory pos = morpho.position(Id.wrap(Constants.MARKET_ID), address(this));
+
+        // Calculate debt in USDT using expected value (includes accrued interest)
+        uint256 debtUsdt = morpho.expectedBorrowAssets(marketParams, address(this));
+
+        // Calculate collateral value in USDT
+        uint256 collateralUsdt = SwapHelper.getUSDTValue(pos.collateral);
+
+        // NAV = idle + collateral value - debt
+        if (collateralUsdt + idleUsdt > debtUsdt) {
+            return idleUsdt + collateralUsdt - debtUsdt;
+        }
+        return 0; // Underwater (shouldn't happen with proper LTV management)
+    }
+
+    // ============ Deposit ============
+
+    /// @notice Build leveraged position from deposited USDT
+    function buildPosition(MarketParams storage marketParams, uint256 depositedUsdt, uint256 targetLTV) external {
+        // Calculate how much to borrow for target LTV
+        // totalCollateralValue = depositedUsdt / (1 - targetLTV)
+        // borrowAmount = totalCollateralValue * targetLTV = depositedUsdt * targetLTV / (1 - targetLTV)
+        uint256 borrowAmount = (depositedUsdt * targetLTV) / (Constants.WAD - targetLTV);
+
+        if (borrowAmount == 0) {
+            // No leverage needed, just convert USDT to sUSDD and supply as collateral
+            uint256 susddAmount = SwapHelper.swapUSDTtoSUSDD(depositedUsdt);
+            IMorpho(Constants.MORPHO).supplyCollateral(marketParams, susddAmount, address(this), "");
+            return;
+        }
+
+        // Use flash loan to build position atomically
+        bytes memory data = abi.encode(OP_DEPOSIT, depositedUsdt);
+        IMorpho(Constants.MORPHO).flashLoan(Constants.USDT, borrowAmount, data);
+    }
+
+    /// @notice Handle deposit flash loan callback
+    function _handleDepositCallback(MarketParams storage marketParams, uint256 flashLoanAmount, uint256 depositedUsdt)
+        private
+    {
+        // Total USDT available = deposited + flash loan
+        uint256 totalUsdt = depositedUsdt + flashLoanAmount;
+
+        // Convert all USDT to sUSDD
+        uint256 susddAmount = SwapHelper.swapUSDTtoSUSDD(totalUsdt);
+
+        // Supply sUSDD as collateral
+        IMorpho morpho = IMorpho(Constants.MORPHO);
+        morpho.supplyCollateral(marketParams, susddAmount, address(this), "");
+
+        // Borrow USDT to repay flash loan
+        morpho.borrow(marketParams, flashLoanAmount, 0, address(this), address(this));
+    }
+
+    // ============ Withdraw ============
+
+    /// @notice Unwind position to withdraw USDT
+    /// @dev Uses PROPORTIONAL withdrawal for fairness: both idle USDT and position
+    ///      are withdrawn in the same ratio. This ensures all users pay similar
+    ///      gas/fees regardless of withdrawal order.
+    /// @param withdrawRatio Proportion to withdraw (in WAD), calculated from shares
+    /// @param route Aggregator route for the collateral sale (zero router: PSM). A routed unwind may
+    ///        not lose more than the receiver's idle portion, so it can never draw on other holders
+    /// @return assets Actual USDT amount transferred to receiver
+    function unwind(
+        MarketParams storage marketParams,
+        uint256 withdrawRatio,
+        address receiver,
+        SwapHelper.SwapRoute calldata route
+    ) external returns (uint256) {
+        uint256 balanceBefore = IERC20(Constants.USDT).balanceOf(address(this));
+        uint256 idleToWithdraw = (balanceBefore * withdrawRatio) / Constants.WAD;
+
+        IMorpho morpho = IMorpho(Constants.MORPHO);
+        Position memory pos = morpho.position(Id.wrap(Constants.MARKET_ID), address(this));
+
+        // Proportionally unwind position (if exists)
+        if (pos.collateral > 0) {
+            uint256 sharesToRepay = (uint256(pos.borrowShares) * withdrawRatio) / Constants.WAD;
+            uint256 collateralToWithdraw = (uint256(pos.collateral) * withdrawRatio) / Constants.WAD;
+
+            if (sharesToRepay > 0 && collateralToWithdraw > 0) {
+                // Both debt and collateral to withdraw - use flash loan
+                if (route.router == address(0)) {
+                    SwapHelper.requirePSMLiquidity(SwapHelper.getUSDTValue(collateralToWithdraw));
+                }
+                (,, uint256 totalBorrowAssets, uint256 totalBorrowShares) = morpho.expectedMarketBalances(marketParams);
+                uint256 flashLoanAmount = sharesToRepay.toAssetsUp(totalBorrowAssets, totalBorrowShares);
+
+                bytes memory data = abi.encode(OP_WITHDRAW, sharesToRepay, collateralToWithdraw, route);
+                morpho.flashLoan(Constants.USDT, flashLoanAmount, data);
+            } else if (collateralToWithdraw > 0 && pos.borrowShares == 0) {
+                // No debt at all, safe to just withdraw collateral
+                if (route.router == address(0)) {
+                    SwapHelper.requirePSMLiquidity(SwapHelper.getUSDTValue(collateralToWithdraw));
+                }
+                morpho.withdrawCollateral(marketParams, collateralToWithdraw, address(this), address(this));
+                SwapHelper.swapSUSDDtoUSDT(collateralToWithdraw, route);
+            }
+            // Edge cases where we skip position unwind (user gets only idle portion):
+            // - sharesToRepay=0, collateralToWithdraw>0, debt exists → protects LTV
+            // - sharesToRepay>0, collateralToWithdraw=0 → can't repay flash loan without collateral
+            // - both round to 0 → nothing to unwind
+        }
+
+        // Transfer proportional idle + net result from position unwind
+        // If unwind caused a loss (e.g. PSM tout fee), deduct from withdrawer's idle portion
+        uint256 balanceAfter = IERC20(Constants.USDT).balanceOf(address(this));
+        uint256 toTransfer;
+        if (balanceAfter >= balanceBefore) {
+            toTransfer = idleToWithdraw + (balanceAfter - balanceBefore);
+        } else {
+            uint256 loss = balanceBefore - balanceAfter;
+            if (loss > idleToWithdraw && route.router != address(0)) revert SwapRouteFailed();
+            toTransfer = idleToWithdraw > loss ? idleToWithdraw - loss : 0;
+        }
+        IERC20(Constants.USDT).safeTransfer(receiver, toTransfer);
+
+        return toTransfer;
+    }
+
+    /// @notice USDT unwind() would transfer for `withdrawRatio`, without moving funds
+    /// @dev Same proportional idle + position math, PSM tout and skip-unwind branches as unwind()
+    function previewUnwind(MarketParams storage marketParams, uint256 withdrawRatio) external view returns (uint256) {
+        uint256 idleToWithdraw = (IERC20(Constants.USDT).balanceOf(address(this)) * withdrawRatio) / Constants.WAD;
+
+        IMorpho morpho = IMorpho(Constants.MORPHO);
+        Position memory pos = morpho.position(Id.wrap(Constants.MARKET_ID), address(this));
+        if (pos.collateral == 0) return idleToWithdraw;
+
+        uint256 sharesToRepay = (uint256(pos.borrowShares) * withdrawRatio) / Constants.WAD;
+        uint256 collateralToWithdraw = (uint256(pos.collateral) * withdrawRatio) / Constants.WAD;
+
+        uint256 debtToRepay;
+        if (sharesToRepay > 0 && collateralToWithdraw > 0) {
+            (,, uint256 totalBorrowAssets, uint256 totalBorrowShares) = morpho.expectedMarketBalances(marketParams);
+            debtToRepay = sharesToRepay.toAssetsUp(totalBorrowAssets, totalBorrowShares);
+        } else if (collateralToWithdraw == 0 || pos.borrowShares > 0) {
+            // Unwind skipped: idle portion only
+            return idleToWithdraw;
+        }
+
+        // Net unwind result; a loss is deducted from the idle portion
+        uint256 usdtOut = SwapHelper.previewSwapSUSDDtoUSDT(collateralToWithdraw);
+        if (usdtOut >= debtToRepay) return idleToWithdraw + usdtOut - debtToRepay;
+        uint256 loss = debtToRepay - usdtOut;
+        return idleToWithdraw > loss ? idleToWithdraw - loss : 0;
+    }
+
+    /// @notice Handle withdraw flash loan callback
+    /// @param sharesToRepay Exact borrow shares to repay (calculated proportionally)
+    /// @param collateralToWithdraw Exact collateral to withdraw (calculated proportionally)
+    function _handleWithdrawCallback(
+        MarketParams storage marketParams,
+        uint256 sharesToRepay,
+        uint256 collateralToWithdraw,
+        SwapHelper.SwapRoute memory route
+    ) private {
+        IMorpho morpho = IMorpho(Constants.MORPHO);
+
+        // Repay debt by shares - works for both full and partial withdrawal
+        // Full: sharesToRepay = all shares, Partial: sharesToRepay = shares * ratio
+        if (sharesToRepay > 0) {
+            morpho.repay(marketParams, 0, sharesToRepay, address(this), "");
+        }
+
+        // Withdraw collateral
+        if (collateralToWithdraw > 0) {
+            morpho.withdrawCollateral(marketParams, collateralToWithdraw, address(this), address(this));
+            SwapHelper.swapSUSDDtoUSDT(collateralToWithdraw, route);
+        }
+
+        // Flash loan will be repaid from the USDT we got
+    }
+
+    // ============ Rebalance ============
+
+    /// @notice Exit completely to idle USDT
+    /// @param route Aggregator route for selling all collateral (zero router: PSM)
+    function exitToIdleUsdt(
+        MarketParams storage marketParams,
+        uint256 collateral,
+        uint256 currentDebt,
+        SwapHelper.SwapRoute calldata route
+    ) external {
+        // Every sUSDD is sold through the PSM unless routed
+        if (route.router == address(0)) {
+            SwapHelper.requirePSMLiquidity(SwapHelper.getUSDTValue(collateral));
+        }
+
+        if (currentDebt > 0) {
+            // Has debt - full delever (repay all, withdraw all)
+            _delever(currentDebt, true, route);
+        } else if (collateral > 0) {
+            // No debt but has collateral - just withdraw and convert
+            IMorpho(Constants.MORPHO).withdrawCollateral(marketParams, collateral, address(this), address(this));
+            SwapHelper.swapSUSDDtoUSDT(collateral, route);
+        }
+        // else: already idle USDT, nothing to do
+    }
+
+    /// @notice Transition to unleveraged sUSDD (0% LTV)
+    /// @dev Repays all debt but keeps collateral as sUSDD
+    function transitionToUnleveraged(MarketParams storage marketParams, uint256 currentDebt) external {
+        if (currentDebt > 0) {
+            // Repay all debt while keeping collateral
+            // _delever with withdrawAllCollateral=false will:
+            // - Auto-detect full debt repayment and use by-shares (no dust)
+            // - Withdraw only enough collateral to repay flash loan
+            _delever(currentDebt, false, _psmRoute());
+        }
+
+        // Convert any idle USDT to sUSDD collateral
+        uint256 idleUsdt = IERC20(Constants.USDT).balanceOf(address(this));
+        if (idleUsdt > 0) {
+            uint256 susddAmount = SwapHelper.swapUSDTtoSUSDD(idleUsdt);
+            IMorpho(Constants.MORPHO).supplyCollateral(marketParams, susddAmount, address(this), "");
+        }
+    }
+
+    // ============ Rewards ============
+
+    /// @notice Reinvest claimed USDD: sold for idle USDT in idle mode, otherwise staked and added to collateral
+    function reinvestRewards(MarketParams storage marketParams, uint256 usddAmount, bool idle) external {
+        if (idle) {
+            SwapHelper.swapUSDDtoUSDT(usddAmount);
+            return;
+        }
+        IERC20(Constants.USDD).forceApprove(Constants.SUSDD, usddAmount);
+        uint256 susddAmount = IERC4626(Constants.SUSDD).deposit(usddAmount, address(this));
+        IMorpho(Constants.MORPHO).supplyCollateral(marketParams, susddAmount, address(this), "");
+    }
+
+    /// @notice Lever up: borrow more and add collateral
+    function leverUp(uint256 additionalDebt) external {
+        if (additionalDebt == 0) return;
+
+        bytes memory data = abi.encode(OP_LEVER_UP);
+        IMorpho(Constants.MORPHO).flashLoan(Constants.USDT, additionalDebt, data);
+    }
+
+    /// @notice Handle lever up flash loan callback
+    /// @param flashLoanAmount Amount of USDT flash loaned
+    function _handleLeverUpCallback(MarketParams storage marketParams, uint256 flashLoanAmount) private {
+        // Convert all USDT to sUSDD and supply as collateral
+        // Note: balanceOf already includes flashLoanAmount (Morpho sent it before callback)
+        // So we just convert the entire balance (flash loan + any pre-existing idle)
+        uint256 totalUsdt = IERC20(Constants.USDT).balanceOf(address(this));
+
+        uint256 susddAmount = SwapHelper.swapUSDTtoSUSDD(totalUsdt);
+        IMorpho morpho = IMorpho(Constants.MORPHO);
+        morpho.supplyCollateral(marketParams, susddAmount, address(this), "");
+        // Borrow only flashLoanAmount to repay flash loan (pre-existing idle was already ours)
+        morpho.borrow(marketParams, flashLoanAmount, 0, address(this), address(this));
+    }
+
+    /// @notice Delever: repay debt and remove collateral, keeping the rest as collateral
+    /// @param debtToRepay Amount of debt to repay
+    function delever(uint256 debtToRepay) external {
+        _delever(debtToRepay, false, _psmRoute());
+    }
+
+    /// @param withdrawAllCollateral If true, withdraw ALL remaining collateral (for full delever)
+    /// @param route Swap route for the collateral sale; only full delevers are routed, since partial
+    ///        ones size the collateral sale from the PSM price
+    function _delever(uint256 debtToRepay, bool withdrawAllCollateral, SwapHelper.SwapRoute memory route) private {
+        if (debtToRepay == 0) return;
+        // Partial delevers sell collateral for the flash loan plus the buffer
+        // (full delevers come from exitToIdleUsdt, which already checked)
+        if (!withdrawAllCollateral) {
+            SwapHelper.requirePSMLiquidity(
+                (debtToRepay * (Constants.BPS_DENOMINATOR + Constants.DELEVER_BUFFER_BPS)) / Constants.BPS_DENOMINATOR
+            );
+        }
+
+        bytes memory data = abi.encode(OP_DELEVER, withdrawAllCollateral, route);
+        IMorpho(Constants.MORPHO).flashLoan(Constants.USDT, debtToRepay, data);
+    }
+
+    /// @notice Handle delever flash loan callback
+    /// @param flashLoanAmount Amount of USDT flash loaned
+    /// @param withdrawAllCollateral If true, withdraw ALL collateral (for IDLE_MODE exit)
+    function _handleDeleverCallback(
+        MarketParams storage marketParams,
+        uint256 flashLoanAmount,
+        bool withdrawAllCollateral,
+        SwapHelper.SwapRoute memory route
+    ) private {
+        IMorpho morpho = IMorpho(Constants.MORPHO);
+        Position memory pos = morpho.position(Id.wrap(Constants.MARKET_ID), address(this));
+
+        // Determine if we're repaying all debt (use by-shares for clean repayment)
+        uint256 actualDebt = morpho.expectedBorrowAssets(marketParams, address(this));
+        bool repayingAllDebt = flashLoanAmount >= actualDebt;
+
+        // Repay debt
+        if (pos.borrowShares > 0) {
+            if (repayingAllDebt) {
+                // Full debt repayment: use by-shares to avoid dust
+                morpho.repay(marketParams, 0, pos.borrowShares, address(this), "");
+            } else {
+                // Partial repayment: use by-assets
+                morpho.repay(marketParams, flashLoanAmount, 0, address(this), "");
+            }
+        }
+
+        // Determine collateral to withdraw
+        uint256 collateralToWithdraw;
+        if (withdrawAllCollateral) {
+            // IDLE_MODE: withdraw everything
+            collateralToWithdraw = pos.collateral;
+        } else {
+            // Keep collateral: withdraw only enough to repay flash loan
+            collateralToWithdraw = SwapHelper.previewSUSDDNeededForUSDT(flashLoanAmount);
+            // Add buffer for sUSDD rate accrual and rounding (10 bps = 0.1%)
+            collateralToWithdraw = (collateralToWithdraw * (Constants.BPS_DENOMINATOR + Constants.DELEVER_BUFFER_BPS)) / Constants.BPS_DENOMINATOR;
+
+            // Re-read position after repay to get current collateral
+            pos = morpho.position(Id.wrap(Constants.MARKET_ID), address(this));
+            if (collateralToWithdraw > pos.collateral) {
+                collateralToWithdraw = pos.collateral;
+            }
+        }
+
+        // Withdraw and swap collateral
+        if (collateralToWithdraw > 0) {
+            morpho.withdrawCollateral(marketParams, collateralToWithdraw, address(this), address(this));
+            SwapHelper.swapSUSDDtoUSDT(collateralToWithdraw, route);
+        }
+    }
+
+    /// @notice Empty route: swaps go through the PSM
+    function _psmRoute() private pure returns (SwapHelper.SwapRoute memory route) {}
+
+    // ============ Flash Loan Callback ============
+
+    /// @notice Body of SUSDDVault.onMorphoFlashLoan, after the caller check
+    function onFlashLoan(MarketParams storage marketParams, uint256 assets, bytes calldata data) external {
+        uint8 operation = abi.decode(data, (uint8));
+
+        if (operation == OP_DEPOSIT) {
+            (, uint256 depositedUsdt) = abi.decode(data, (uint8, uint256));
+            _handleDepositCallback(marketParams, assets, depositedUsdt);
+        } else if (operation == OP_WITHDRAW) {
+            (, uint256 sharesToRepay, uint256 collateralToWithdraw, SwapHelper.SwapRoute memory route) =
+                abi.decode(data, (uint8, uint256, uint256, SwapHelper.SwapRoute));
+            _handleWithdrawCallback(marketParams, sharesToRepay, collateralToWithdraw, route);
+        } else if (operation == OP_LEVER_UP) {
+            _handleLeverUpCallback(marketParams, assets);
+        } else if (operation == OP_DELEVER) {
+            (, bool withdrawAllCollateral, SwapHelper.SwapRoute memory route) =
+                abi.decode(data, (uint8, bool, SwapHelper.SwapRoute));
+            _handleDeleverCallback(marketParams, assets, withdrawAllCollateral, route);
+        } else {
+            revert FlashLoanCallbackFailed();
+        }
+
+        // Flash loan repayment: Morpho calls safeTransferFrom to pull back `assets`
+        // Approval was set in initialize (infinite approve to Morpho)
+        // IMPORTANT: Do NOT call forceApprove here — it would overwrite infinite approval
+    }
+}
@@ -18,6 +18,23 @@ import "./Constants.sol";
 library SwapHelper {
     using SafeERC20 for IERC20;
 
+    /// @notice Aggregator call that replaces the PSM buyGem leg (USDD -> USDT)
+    /// @dev The USDD amount is only known inside the flash loan, so it is written into `data`
+    ///      at byte offset `amountOffset` before the call. Router whitelisting is the vault's job.
+    ///      A zero router means the PSM.
+    struct SwapRoute {
+        address router;
+        bytes data;
+        uint256 amountOffset;
+        uint256 minAmountOut;
+    }
+
+    /// @dev Same selectors as the SUSDDVault errors
+    error InsufficientPSMLiquidity(uint256 needed, uint256 available);
+    error InvalidSwapRoute();
+    error SwapRouteFailed();
+    error SlippageExceeded(uint256 actual, uint256 minimum);
+
     /// @notice Swap USDT to sUSDD: USDT -> USDD (via PSM) -> sUSDD (via stake)
     /// @param usdtAmount Amount of USDT to swap (6 decimals)
     /// @return susddAmount Amount of sUSDD received (18 decimals)
@@ -69,6 +86,57 @@ library SwapHelper {
         usdtAmount = usdt.balanceOf(address(this)) - usdtBalanceBefore;
     }
 
+    /// @notice swapSUSDDtoUSDT with the USDD -> USDT leg through `route` (PSM when route.router is 0)
+    /// @dev sUSDD is still unstaked through the sUSDD vault, which does not depend on the PSM
+    function swapSUSDDtoUSDT(uint256 susddAmount, SwapRoute memory route) internal returns (uint256 usdtAmount) {
+        if (route.router == address(0)) return swapSUSDDtoUSDT(susddAmount);
+        if (susddAmount == 0) return 0;
+
+        uint256 usddReceived = IERC4626(Constants.SUSDD).redeem(susddAmount, address(this), address(this));
+        usdtAmount = swapUSDDtoUSDT(usddReceived, route);
+    }
+
+    /// @notice swapUSDDtoUSDT through an aggregator `route` (PSM when route.router is 0)
+    /// @dev The router must spend exactly usddAmount, so no USDD is left outside NAV
+    function swapUSDDtoUSDT(uint256 usddAmount, SwapRoute memory route) internal returns (uint256 usdtAmount) {
+        if (route.router == address(0)) return swapUSDDtoUSDT(usddAmount);
+        if (usddAmount == 0) return 0;
+
+        bytes memory data = route.data;
+        uint256 offset = route.amountOffset;
+        if (offset + 32 > data.length) revert InvalidSwapRoute();
+        assembly {
+            mstore(add(add(data, 32), offset), usddAmount)
+        }
+
+        IERC20 usdt = IERC20(Constants.USDT);
+        IERC20 usdd = IERC20(Constants.USDD);
+        uint256 usddBalanceBefore = usdd.balanceOf(address(this));
+        uint256 usdtBalanceBefore = usdt.balanceOf(address(this));
+
+        usdd.forceApprove(route.router, usddAmount);
+        (bool success,) = route.router.call(data);
+        if (!success || usdd.balanceOf(address(this)) + usddAmount != usddBalanceBefore) revert SwapRouteFailed();
+        usdd.forceApprove(route.router, 0);
+
+        usdtAmount = usdt.balanceOf(address(this)) - usdtBalanceBefore;
+        if (usdtAmount < route.minAmountOut) revert SlippageExceeded(usdtAmount, route.minAmountOut);
+    }
+
+    /// @notice USDT the PSM can currently pay out through buyGem
+    /// @dev dss-psm keeps its gems in gemJoin; sUSDD -> USDT swaps above this revert inside buyGem
+    /// @return liquidity USDT balance of the PSM's gemJoin (6 decimals)
+    function availablePSMLiquidity() internal view returns (uint256 liquidity) {
+        liquidity = IERC20(Constants.USDT).balanceOf(IPSM(Constants.PSM).gemJoin());
+    }
+
+    /// @notice Revert before a swap whose buyGem leg the PSM could not fill
+    /// @param usdtOut USDT the swap would buy from the PSM (at par, an upper bound when tout > 0)
+    function requirePSMLiquidity(uint256 usdtOut) internal view {
+        uint256 available = availablePSMLiquidity();
+        if (usdtOut > available) revert InsufficientPSMLiquidity(usdtOut, available);
+    }
+
     /// @notice Get the current sUSDD rate (USDD per sUSDD)
     /// @return rate Exchange rate with 18 decimals (1e18 = 1:1)
     function getSUSDDRate() internal view returns (uint256 rate) {
@@ -129,6 +197,7 @@ library SwapHelper {
     }
 
     /// @notice Preview USDT amount for sUSDD redemption
+    /// @dev Accounts for PSM tout, so the result matches swapSUSDDtoUSDT
     /// @param susddAmount Amount of sUSDD (18 decimals)
     /// @return usdtAmount Expected USDT amount (6 decimals)
     function previewSwapSUSDDtoUSDT(uint256 susddAmount) internal view returns (uint256 usdtAmount) {
@@ -139,8 +208,8 @@ library SwapHelper {
         // sUSDD -> USDD
         uint256 usddAmount = susdd.previewRedeem(susddAmount);
 
-        // USDD -> USDT (1:1 when tout=0)
-        usdtAmount = usddAmount / 1e12;
+        // USDD -> USDT: same gemAmt as swapSUSDDtoUSDT (usddAmount / 1e12 when tout=0)
+        usdtAmount = usddAmount * 1e6 / (1e18 + IPSM(Constants.PSM).tout());
     }
 
     /// @notice Calculate sUSDD needed to receive a given USDT amount
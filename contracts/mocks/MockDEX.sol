@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../mocks/MockERC20.sol";
+
+/// @title MockDEX
+/// @notice Mock DEX aggregator for testing SwapHelper.SwapRoute exits
+/// @dev Pulls tokenIn and mints tokenOut (MockERC20) at a configurable rate. Rates are in base units:
+///      the mock tokens' decimals live in storage, which does not survive hardhat_setCode
+contract MockDEX {
+    using SafeERC20 for IERC20;
+
+    uint256 public constant WAD = 1e18;
+
+    /// @notice tokenOut base units per 1e18 tokenIn base units, e.g. 0.99e6 for USDD -> USDT at 0.99
+    mapping(address => mapping(address => uint256)) public rates;
+
+    /// @notice Set the price for swapping tokenIn to tokenOut
+    function setRate(address tokenIn, address tokenOut, uint256 rate) external {
+        rates[tokenIn][tokenOut] = rate;
+    }
+
+    /// @notice Quote for swap()
+    function getAmountOut(address tokenIn, address tokenOut, uint256 amountIn) public view returns (uint256) {
+        return (amountIn * rates[tokenIn][tokenOut]) / WAD;
+    }
+
+    /// @notice Swap amountIn of tokenIn for tokenOut, sent to recipient
+    function swap(address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, address recipient)
+        external
+        returns (uint256 amountOut)
+    {
+        amountOut = getAmountOut(tokenIn, tokenOut, amountIn);
+        require(amountOut >= minAmountOut, "MockDEX: insufficient output");
+
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        MockERC20(tokenOut).mint(recipient, amountOut);
+    }
+}
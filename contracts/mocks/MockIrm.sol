@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {MarketParams, Market} from "@morpho-org/morpho-blue/src/interfaces/IMorpho.sol";
+
+/// @title MockIrm
+/// @notice Linear interest rate model for unit testing
+/// @dev borrowRate = baseRate + slope * utilization, both per second (WAD)
+contract MockIrm {
+    uint256 public baseRate;
+    uint256 public slope;
+
+    constructor(uint256 baseRate_, uint256 slope_) {
+        baseRate = baseRate_;
+        slope = slope_;
+    }
+
+    /// @notice Set the rate curve
+    function setRates(uint256 baseRate_, uint256 slope_) external {
+        baseRate = baseRate_;
+        slope = slope_;
+    }
+
+    function borrowRate(MarketParams memory marketParams, Market memory market) external view returns (uint256) {
+        return borrowRateView(marketParams, market);
+    }
+
+    function borrowRateView(MarketParams memory, Market memory market) public view returns (uint256) {
+        uint256 utilization = market.totalSupplyAssets == 0
+            ? 0
+            : (uint256(market.totalBorrowAssets) * 1e18) / market.totalSupplyAssets;
+        return baseRate + (slope * utilization) / 1e18;
+    }
+}
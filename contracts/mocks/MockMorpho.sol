@@ -6,6 +6,8 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {Id, MarketParams, Market, Position} from "@morpho-org/morpho-blue/src/interfaces/IMorpho.sol";
 import {IMorphoFlashLoanCallback} from "@morpho-org/morpho-blue/src/interfaces/IMorphoCallbacks.sol";
 import {MarketParamsLib} from "@morpho-org/morpho-blue/src/libraries/MarketParamsLib.sol";
+import {SharesMathLib} from "@morpho-org/morpho-blue/src/libraries/SharesMathLib.sol";
+import {MorphoStorageLib} from "@morpho-org/morpho-blue/src/libraries/periphery/MorphoStorageLib.sol";
 
 /// @title MockMorpho
 /// @notice Stateful mock of Morpho Blue for unit testing
@@ -13,6 +15,7 @@ import {MarketParamsLib} from "@morpho-org/morpho-blue/src/libraries/MarketParam
 contract MockMorpho {
     using SafeERC20 for IERC20;
     using MarketParamsLib for MarketParams;
+    using SharesMathLib for uint256;
 
     // ============ Storage ============
 
@@ -32,6 +35,9 @@ contract MockMorpho {
     Id public defaultMarketId;
     bool public useDefaultMarket;
 
+    /// @notice If true, extSloads serves the caller's borrow shares (see extSloads)
+    bool public extSloadsEnabled;
+
     // ============ Setup Functions ============
 
     /// @notice Create a market with given params
@@ -123,7 +129,7 @@ contract MockMorpho {
     }
 
     /// @notice Required by MorphoLib - reads storage slots directly
-    /// @dev LIMITATION: Returns zeros, so MorphoBalancesLib functions won't work correctly.
+    /// @dev LIMITATION: Returns zeros unless setExtSloadsEnabled(true), so MorphoBalancesLib functions won't work correctly.
     ///
     /// Impact on unit tests:
     /// - expectedBorrowAssets() returns 0 or incorrect values
@@ -138,9 +144,27 @@ contract MockMorpho {
     /// - Accurate NAV calculation with interest
     /// - Debt rounding behavior
     /// - Full withdraw share-based repay logic
-    function extSloads(bytes32[] memory) external pure returns (bytes32[] memory result) {
-        result = new bytes32[](1);
-        return result;
+    ///
+    /// When enabled, the caller's position slot on the default market (the one
+    /// MorphoLib.borrowShares/collateral read) returns its real borrow shares and collateral,
+    /// so expectedBorrowAssets - and the vault's NAV and LTV - follow setMarketState.
+    function extSloads(bytes32[] memory slots) external view returns (bytes32[] memory result) {
+        result = new bytes32[](slots.length);
+        if (!extSloadsEnabled) return result;
+
+        Id id = marketParamsStorage[defaultMarketId].id();
+        bytes32 positionSlot = MorphoStorageLib.positionBorrowSharesAndCollateralSlot(id, msg.sender);
+        Position memory pos = positionStorage[defaultMarketId][msg.sender];
+        for (uint256 i = 0; i < slots.length; i++) {
+            if (slots[i] == positionSlot) {
+                result[i] = bytes32((uint256(pos.collateral) << 128) | pos.borrowShares);
+            }
+        }
+    }
+
+    /// @notice Serve real position slots from extSloads (off by default, see extSloads)
+    function setExtSloadsEnabled(bool enabled) external {
+        extSloadsEnabled = enabled;
     }
 
     // ============ Core Functions ============
@@ -211,10 +235,11 @@ contract MockMorpho {
     }
 
     /// @notice Repay debt
+    /// @dev Repay by shares (assets = 0) charges shares.toAssetsUp like Morpho Blue
     function repay(
         MarketParams memory params,
         uint256 assets,
-        uint256 /* shares */,
+        uint256 shares,
         address onBehalf,
         bytes memory /* data */
     ) external returns (uint256 assetsRepaid, uint256 sharesRepaid) {
@@ -225,7 +250,10 @@ contract MockMorpho {
         assetsRepaid = assets;
 
         // Calculate shares to burn
-        if (mkt.totalBorrowAssets > 0 && mkt.totalBorrowShares > 0) {
+        if (assets == 0 && shares > 0) {
+            sharesRepaid = shares;
+            assetsRepaid = shares.toAssetsUp(mkt.totalBorrowAssets, mkt.totalBorrowShares);
+        } else if (mkt.totalBorrowAssets > 0 && mkt.totalBorrowShares > 0) {
             sharesRepaid = (assets * mkt.totalBorrowShares) / mkt.totalBorrowAssets;
         } else {
             sharesRepaid = assets;
@@ -297,4 +325,14 @@ contract MockMorpho {
         marketStorage[id].totalBorrowAssets = totalBorrowAssets_;
         marketStorage[id].totalBorrowShares = totalBorrowShares_;
     }
+
+    /// @notice Set market supply directly for testing (liquidity / utilization)
+    function setMarketSupply(
+        Id id,
+        uint128 totalSupplyAssets_,
+        uint128 totalSupplyShares_
+    ) external {
+        marketStorage[id].totalSupplyAssets = totalSupplyAssets_;
+        marketStorage[id].totalSupplyShares = totalSupplyShares_;
+    }
 }
@@ -75,4 +75,14 @@ contract MockPSM {
     function mintGem(uint256 amount) external {
         MockERC20(address(gem)).mint(address(this), amount);
     }
+
+    /// @notice Mint or burn USDT so the PSM holds exactly `amount` (for testing - drained PSM)
+    function setGemLiquidity(uint256 amount) external {
+        uint256 balance = gem.balanceOf(address(this));
+        if (amount > balance) {
+            MockERC20(address(gem)).mint(address(this), amount - balance);
+        } else {
+            MockERC20(address(gem)).burn(address(this), balance - amount);
+        }
+    }
 }
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC4626Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {MarketParams} from "@morpho-org/morpho-blue/src/interfaces/IMorpho.sol";
+
+/// @title SUSDDVaultReleasedLayout
+/// @notice Storage layout of the SUSDDVault implementation live on mainnet (.openzeppelin/mainnet.json)
+/// @dev Only for testing - the reference for upgrades.validateUpgrade against the compiled vault.
+///      Update it together with the manifest when a new implementation ships.
+contract SUSDDVaultReleasedLayout is
+    ERC4626Upgradeable,
+    AccessControlUpgradeable,
+    PausableUpgradeable,
+    ReentrancyGuardUpgradeable,
+    UUPSUpgradeable
+{
+    uint256 public targetLTV;
+    uint256 public performanceFeeBps;
+    uint256 public highWaterMark;
+    address public feeRecipient;
+    uint256 public maxTotalAssets;
+    MarketParams internal marketParams;
+    bool public whitelistEnabled;
+    mapping(address => bool) public whitelisted;
+    address internal merklDistributor;
+    uint256[47] private __gap;
+
+    function _authorizeUpgrade(address) internal override {}
+}
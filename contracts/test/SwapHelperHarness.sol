@@ -15,6 +15,10 @@ contract SwapHelperHarness {
         return SwapHelper.swapSUSDDtoUSDT(susddAmount);
     }
 
+    function availablePSMLiquidity() external view returns (uint256) {
+        return SwapHelper.availablePSMLiquidity();
+    }
+
     function getSUSDDRate() external view returns (uint256) {
         return SwapHelper.getSUSDDRate();
     }
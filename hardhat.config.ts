@@ -2,6 +2,7 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@openzeppelin/hardhat-upgrades";
 import "dotenv/config";
+import "./tasks";
 
 const MAINNET_RPC_URL = process.env.MAINNET_RPC_URL || "";
 const MAINNET_DEPLOY_RPC_URL = process.env.MAINNET_DEPLOY_RPC_URL || "";
@@ -16,6 +17,8 @@ const config: HardhatUserConfig = {
         runs: 100,
       },
       viaIR: true,
+      // PUSH0 keeps SUSDDVault under the 24KB EIP-170 limit; live on mainnet since Shanghai
+      evmVersion: "cancun",
     },
   },
   networks: {
@@ -0,0 +1,78 @@
+// Carry-trade monitor: compares sUSDD yield with the Morpho borrow rate and recommends
+// the rebalance() argument for the vault (IDLE_MODE, 0 or a leveraged LTV)
+//
+// Usage:
+//   VAULT_ADDRESS=0x... npx hardhat run scripts/carry.ts --network mainnet
+//
+// Optional env vars (decimals, e.g. 0.005 = 0.5%):
+//   CARRY_CANDIDATES=0.5,0.6,0.7,0.75,0.8  leveraged LTVs to evaluate
+//   CARRY_LLTV_BUFFER=0.05                 skip candidates closer than this to LLTV
+//   CARRY_MIN_SPREAD=0.005                 net APY advantage required to switch modes
+//   CARRY_LOOKBACK_DAYS=7                  sUSDD rate history window
+
+import { ethers } from "hardhat";
+import { CarryConfig, DEFAULT_CARRY_CONFIG, analyzeCarry, formatAPY } from "./lib/carry";
+import { IDLE_MODE } from "./lib/constants";
+import { formatLTV } from "./lib/keeper";
+
+function envWad(name: string, fallback: bigint): bigint {
+  const value = process.env[name];
+  return value ? ethers.parseUnits(value, 18) : fallback;
+}
+
+async function main() {
+  const vaultAddress = process.env.VAULT_ADDRESS;
+  if (!vaultAddress) {
+    console.error("Error: VAULT_ADDRESS environment variable not set");
+    console.log("Usage: VAULT_ADDRESS=0x... npx hardhat run scripts/carry.ts --network <network>");
+    process.exit(1);
+  }
+
+  const config: CarryConfig = {
+    candidateLTVs: process.env.CARRY_CANDIDATES
+      ? process.env.CARRY_CANDIDATES.split(",").map((ltv) => ethers.parseUnits(ltv.trim(), 18))
+      : DEFAULT_CARRY_CONFIG.candidateLTVs,
+    lltvBuffer: envWad("CARRY_LLTV_BUFFER", DEFAULT_CARRY_CONFIG.lltvBuffer),
+    minSpread: envWad("CARRY_MIN_SPREAD", DEFAULT_CARRY_CONFIG.minSpread),
+    lookback: process.env.CARRY_LOOKBACK_DAYS
+      ? Number(process.env.CARRY_LOOKBACK_DAYS) * 24 * 60 * 60
+      : DEFAULT_CARRY_CONFIG.lookback,
+  };
+
+  const { position, susdd, options, recommendation } = await analyzeCarry(vaultAddress, ethers.provider, config);
+
+  console.log("Vault:", vaultAddress);
+  console.log("Block:", position.blockNumber);
+  console.log("Current targetLTV:", formatLTV(position.targetLTV), "| LTV:", formatLTV(position.ltv),
+    "| LLTV:", formatLTV(position.lltv));
+  console.log("NAV:", ethers.formatUnits(position.nav, 6), "USDT");
+  console.log(
+    `sUSDD APY: ${formatAPY(susdd.apy)} (blocks ${susdd.fromBlock}-${susdd.toBlock},` +
+    ` ${Number(susdd.elapsed) / 86400} days, rate ${ethers.formatEther(susdd.fromRate)} -> ${ethers.formatEther(susdd.toRate)})`
+  );
+
+  console.log("\nOptions (net APY on equity, before performance fee):");
+  for (const option of options) {
+    const status = option.feasible ? "" : ` [skipped: ${option.note}]`;
+    console.log(
+      `  ${formatLTV(option.targetLTV).padEnd(10)} borrow ${formatAPY(option.borrowAPY).padEnd(24)}` +
+      ` net ${formatAPY(option.netAPY)}${status}`
+    );
+  }
+
+  const { recommended, change, reason } = recommendation;
+  console.log("\nRecommendation:", change
+    ? `rebalance(${formatLTV(recommended.targetLTV)})`
+    : `keep ${formatLTV(recommended.targetLTV)}`, "-", reason);
+  if (change) {
+    const argument = recommended.targetLTV === IDLE_MODE ? "IDLE_MODE" : recommended.targetLTV.toString();
+    console.log("rebalance() argument:", argument);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,188 @@
+// Off-chain keeper: re-centres the vault on targetLTV when LTV drifts out of band
+//
+// Usage:
+//   # Live
+//   VAULT_ADDRESS=0x... npx hardhat run scripts/keeper.ts --network mainnet
+//
+//   # Dry run against local MockMorpho/MockSUSDD/MockPSM (no VAULT_ADDRESS, hardhat network)
+//   npx hardhat run scripts/keeper.ts
+//
+// Optional env vars (LTV values as decimals, e.g. 0.02 = 2%):
+//   KEEPER_UPPER_BAND=0.02   rebalance when LTV > target + band
+//   KEEPER_LOWER_BAND=0.05   rebalance when LTV < target - band
+//   KEEPER_LLTV_BUFFER=0.03  always delever when LTV >= LLTV - buffer
+//   KEEPER_MAX_DEBT_DELTA=0  USDT per flash loan; rebalances in rebalanceStep() calls when set
+//   KEEPER_INTERVAL=60       seconds between checks
+//   KEEPER_ITERATIONS=0      number of checks (0 = run forever)
+//   KEEPER_DRY_RUN=true      log decisions without sending transactions
+//   KEEPER_MOCK_DRIFT=0.01   mock mode only: debt growth applied before each check
+//   WITHDRAWAL_QUEUE=0x...   also fulfil this WithdrawalQueue's pending requests each check
+//   ASYNC_VAULT=0x...        also settle this SUSDDAsyncVault's open deposit epoch each check; its redeem
+//                            requests are fulfilled from its WithdrawalQueue, used when WITHDRAWAL_QUEUE is unset
+
+import { ethers, network, upgrades } from "hardhat";
+import { SUSDDAsyncVault, SUSDDVault, WithdrawalQueue } from "../typechain-types";
+import { DEFAULT_ASYNC_SETTLE_CONFIG, settleAsyncVault } from "./lib/asyncVault";
+import { MARKET_ID, ROLES } from "./lib/constants";
+import { DEFAULT_KEEPER_CONFIG, KeeperConfig, formatLTV, runKeeperTick } from "./lib/keeper";
+import { MockEnvironment, deployMockEnvironment } from "./lib/mocks";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "./lib/vaultFactory";
+import { DEFAULT_QUEUE_CONFIG, processWithdrawalQueue } from "./lib/withdrawalQueue";
+
+function envLTV(name: string, fallback: bigint): bigint {
+  const value = process.env[name];
+  return value ? ethers.parseUnits(value, 18) : fallback;
+}
+
+function sleep(seconds: number) {
+  return new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+}
+
+async function deployMockVault(env: MockEnvironment): Promise<SUSDDVault> {
+  const [deployer] = await ethers.getSigners();
+
+  const VaultFactory = await getVaultFactory(ethers);
+  const vault = await upgrades.deployProxy(
+    VaultFactory,
+    [deployer.address, deployer.address, ethers.parseEther("0.75"), 1000, ethers.parseUnits("1000000", 6)],
+    VAULT_PROXY_OPTIONS
+  ) as unknown as SUSDDVault;
+  await vault.waitForDeployment();
+
+  const depositAmount = ethers.parseUnits("10000", 6);
+  await vault.addToWhitelist(deployer.address);
+  await env.usdt.mint(deployer.address, depositAmount);
+  await env.usdt.approve(await vault.getAddress(), depositAmount);
+  await vault.deposit(depositAmount, deployer.address);
+
+  return vault;
+}
+
+// Simulate borrow interest: grow market debt without minting shares
+async function applyMockDrift(env: MockEnvironment, driftWad: bigint) {
+  const market = await env.morpho.market(MARKET_ID);
+  const grown = market.totalBorrowAssets + (market.totalBorrowAssets * driftWad) / 10n ** 18n;
+  await env.morpho.setMarketState(MARKET_ID, grown, market.totalBorrowShares);
+}
+
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const mockMode = !process.env.VAULT_ADDRESS;
+
+  if (mockMode && network.name !== "hardhat") {
+    console.error("Error: VAULT_ADDRESS environment variable not set");
+    console.log("Usage: VAULT_ADDRESS=0x... npx hardhat run scripts/keeper.ts --network <network>");
+    process.exit(1);
+  }
+
+  const config: KeeperConfig = {
+    upperBand: envLTV("KEEPER_UPPER_BAND", DEFAULT_KEEPER_CONFIG.upperBand),
+    lowerBand: envLTV("KEEPER_LOWER_BAND", DEFAULT_KEEPER_CONFIG.lowerBand),
+    lltvBuffer: envLTV("KEEPER_LLTV_BUFFER", DEFAULT_KEEPER_CONFIG.lltvBuffer),
+    maxDebtDelta: process.env.KEEPER_MAX_DEBT_DELTA
+      ? ethers.parseUnits(process.env.KEEPER_MAX_DEBT_DELTA, 6)
+      : DEFAULT_KEEPER_CONFIG.maxDebtDelta,
+    // Mock mode defaults to dry run; live mode must opt in
+    dryRun: process.env.KEEPER_DRY_RUN ? process.env.KEEPER_DRY_RUN !== "false" : mockMode,
+  };
+  const interval = Number(process.env.KEEPER_INTERVAL || "60");
+  const iterations = Number(process.env.KEEPER_ITERATIONS || (mockMode ? "5" : "0"));
+
+  let env: MockEnvironment | undefined;
+  let vault: SUSDDVault;
+  if (mockMode) {
+    console.log("No VAULT_ADDRESS set - running against local mocks");
+    env = await deployMockEnvironment();
+    vault = await deployMockVault(env);
+  } else {
+    vault = await ethers.getContractAt("SUSDDVault", process.env.VAULT_ADDRESS!) as unknown as SUSDDVault;
+  }
+  const vaultAddress = await vault.getAddress();
+
+  console.log("Keeper account:", signer.address);
+  console.log("Vault:", vaultAddress);
+  console.log("Bands: +" + formatLTV(config.upperBand), "/ -" + formatLTV(config.lowerBand),
+    "| LLTV buffer:", formatLTV(config.lltvBuffer));
+  if (config.maxDebtDelta > 0n) console.log("Max debt per step:", ethers.formatUnits(config.maxDebtDelta, 6), "USDT");
+  console.log("Dry run:", config.dryRun);
+
+  if (!config.dryRun && !(await vault.hasRole(ROLES.KEEPER_ROLE, signer.address))) {
+    console.error("Error: keeper account does not have KEEPER_ROLE on the vault");
+    process.exit(1);
+  }
+
+  const asyncVault = process.env.ASYNC_VAULT
+    ? await ethers.getContractAt("SUSDDAsyncVault", process.env.ASYNC_VAULT) as unknown as SUSDDAsyncVault
+    : undefined;
+  if (asyncVault) console.log("Async vault:", await asyncVault.getAddress());
+  const queueAddress = process.env.WITHDRAWAL_QUEUE ?? (asyncVault ? await asyncVault.withdrawalQueue() : undefined);
+  const queue = queueAddress
+    ? await ethers.getContractAt("WithdrawalQueue", queueAddress) as unknown as WithdrawalQueue
+    : undefined;
+  if (queue) console.log("Withdrawal queue:", await queue.getAddress());
+
+  const mockDrift = envLTV("KEEPER_MOCK_DRIFT", ethers.parseEther("0.01"));
+
+  for (let i = 0; iterations === 0 || i < iterations; i++) {
+    if (i > 0) {
+      if (env) {
+        await applyMockDrift(env, mockDrift);
+        await network.provider.send("evm_increaseTime", [interval]);
+        await network.provider.send("evm_mine", []);
+      } else {
+        await sleep(interval);
+      }
+    }
+
+    try {
+      const { state, decision, txHash, steps } = await runKeeperTick(vault, config);
+      const line = `[block ${state.blockNumber}] LTV ${formatLTV(state.ltv)} target ${formatLTV(state.targetLTV)}` +
+        ` LLTV ${formatLTV(state.lltv)} NAV ${ethers.formatUnits(state.nav, 6)} USDT`;
+
+      if (!decision) {
+        console.log(line, "- in band");
+      } else if (txHash) {
+        const call = steps ? `rebalanceStep(${formatLTV(decision.newTargetLTV)}) x${steps}` : `rebalance(${formatLTV(decision.newTargetLTV)})`;
+        console.log(line, `- ${decision.reason}: ${call} TX:`, txHash);
+      } else {
+        console.log(line, `- ${decision.reason}: would rebalance(${formatLTV(decision.newTargetLTV)}) [dry run]`);
+      }
+    } catch (error) {
+      // Keep the daemon alive on transient RPC/tx failures
+      console.error("Keeper tick failed:", error);
+    }
+
+    if (asyncVault) {
+      try {
+        const { deposits } = await settleAsyncVault(asyncVault, { ...DEFAULT_ASYNC_SETTLE_CONFIG, dryRun: config.dryRun });
+        if (deposits.pending > 0n) {
+          const amount = `${ethers.formatUnits(deposits.pending, 6)} USDT`;
+          if (deposits.skipped) console.log(`  Async deposits: ${amount} waiting (${deposits.skipped})`);
+          else console.log(`  Async deposits: ${amount}`, deposits.txHash ? `settled TX: ${deposits.txHash}` : "[dry run]");
+        }
+      } catch (error) {
+        console.error("Async vault tick failed:", error);
+      }
+    }
+
+    if (!queue) continue;
+    try {
+      const { pending, count, shares, txHash } = await processWithdrawalQueue(queue, { ...DEFAULT_QUEUE_CONFIG, dryRun: config.dryRun });
+      if (count > 0) {
+        console.log(`  Queue: ${count}/${pending.length} requests (${ethers.formatUnits(shares, 6)} shares)`,
+          txHash ? `fulfilled TX: ${txHash}` : "[dry run]");
+      } else if (pending.length > 0) {
+        console.log(`  Queue: ${pending.length} requests waiting for PSM liquidity`);
+      }
+    } catch (error) {
+      console.error("Queue tick failed:", error);
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,169 @@
+import { ContractRunner } from "ethers";
+import { IERC4626__factory } from "../../typechain-types";
+import { ADDRESSES, IDLE_MODE, WAD } from "./constants";
+import { SECONDS_PER_YEAR, rateToAPY } from "./carry";
+import { HistoryStore, TimelineEvent, eventsOfType } from "./indexer";
+
+// Historical APY/APR from the VaultSnapshot pricePerShare series. Net return is the PPS
+// change (fee mints already diluted it); gross adds the fee shares minted in the window
+// back. Gross return is split into the sUSDD yield on equity, Merkl rewards (each claim's
+// pricePerShare bump) and leverage carry, the remainder: extra sUSDD exposure minus Morpho
+// borrow interest (and PSM costs).
+// APRs are simple annualizations and add up; APYs compound per second like carry.ts.
+
+export const APY_WINDOWS: { label: string; seconds?: number }[] = [
+  { label: "1d", seconds: 86400 },
+  { label: "7d", seconds: 7 * 86400 },
+  { label: "30d", seconds: 30 * 86400 },
+  { label: "inception" },
+];
+
+/** Annualized contributions to the gross return (WAD, simple APR) */
+export interface ReturnBreakdown {
+  susddYield: bigint;
+  leverageCarry: bigint;
+  merklRewards: bigint;
+  /** gross - net: performance fees minted in the window */
+  fees: bigint;
+}
+
+export interface WindowReturn {
+  label: string;
+  fromBlock: number;
+  toBlock: number;
+  fromTimestamp: number;
+  toTimestamp: number;
+  elapsed: number;
+  /** Returns over the window (WAD, not annualized) */
+  netReturn: bigint;
+  grossReturn: bigint;
+  netAPR: bigint;
+  netAPY: bigint;
+  grossAPR: bigint;
+  grossAPY: bigint;
+  breakdown: ReturnBreakdown;
+}
+
+export interface APYOptions {
+  /** Report as of the last snapshot at or before this timestamp (default: the last snapshot) */
+  asOf?: number;
+  /** targetLTV before the first Rebalanced in the store; defaults to that event's oldLTV */
+  initialTargetLTV?: bigint;
+}
+
+type Snapshot = Extract<TimelineEvent, { type: "snapshot" }>;
+
+// USDD and USDT are both treated at par, like the vault's PSM swaps with tin = 0
+const USDD_TO_USDT = 10n ** 12n;
+
+function order(event: TimelineEvent): number {
+  return event.blockNumber * 1e6 + event.logIndex;
+}
+
+function annualize(windowReturn: bigint, elapsed: number): bigint {
+  return (windowReturn * SECONDS_PER_YEAR) / BigInt(elapsed);
+}
+
+/** Time-weighted share of [from, to] spent outside IDLE_MODE (WAD) */
+function investedFraction(store: HistoryStore, from: Snapshot, to: Snapshot, initialTargetLTV: bigint): bigint {
+  let ltv = initialTargetLTV;
+  let cursor = from.timestamp;
+  let invested = 0n;
+  for (const rebalance of eventsOfType(store, "rebalance")) {
+    if (order(rebalance) > order(to)) break;
+    if (order(rebalance) > order(from)) {
+      if (ltv !== IDLE_MODE) invested += BigInt(rebalance.timestamp - cursor);
+      cursor = rebalance.timestamp;
+    }
+    ltv = rebalance.newLTV;
+  }
+  if (ltv !== IDLE_MODE) invested += BigInt(to.timestamp - cursor);
+  return (invested * WAD) / BigInt(to.timestamp - from.timestamp);
+}
+
+/**
+ * Sum of the pricePerShare bumps from Merkl claims in (from, to], over the starting price.
+ * Like the gross return, the supply leaves out fee shares minted since `from`.
+ */
+function rewardsReturn(store: HistoryStore, from: Snapshot, to: Snapshot): bigint {
+  const snapshots = eventsOfType(store, "snapshot");
+  const fees = eventsOfType(store, "fee");
+  let ppsGain = 0n;
+  for (const claim of eventsOfType(store, "rewards")) {
+    if (order(claim) <= order(from) || order(claim) > order(to)) continue;
+    const closing = snapshots.find((s) => s.txHash === claim.txHash) ?? from;
+    const feeShares = fees
+      .filter((f) => order(f) > order(from) && order(f) <= order(closing))
+      .reduce((sum, f) => sum + f.feeShares, 0n);
+    ppsGain += (claim.usddReceived * WAD) / USDD_TO_USDT / (closing.totalSupply - feeShares);
+  }
+  return (ppsGain * WAD) / from.pricePerShare;
+}
+
+/** sUSDD convertToAssets(1e18) at historical blocks, for apyReport */
+export function susddRateAt(runner: ContractRunner): (blockNumber: number) => Promise<bigint> {
+  const susdd = IERC4626__factory.connect(ADDRESSES.SUSDD, runner);
+  return (blockNumber) => susdd.convertToAssets(WAD, { blockTag: blockNumber });
+}
+
+/**
+ * Returns for every window in APY_WINDOWS that the history covers. `readSUSDDRate` gives
+ * sUSDD convertToAssets(1e18) at a block (see susddRateAt; needs an archive node on mainnet).
+ */
+export async function apyReport(
+  store: HistoryStore,
+  readSUSDDRate: (blockNumber: number) => Promise<bigint>,
+  options: APYOptions = {}
+): Promise<WindowReturn[]> {
+  const snapshots = eventsOfType(store, "snapshot");
+  const end = [...snapshots].reverse().find((s) => options.asOf === undefined || s.timestamp <= options.asOf);
+  if (!end) return [];
+
+  const rebalances = eventsOfType(store, "rebalance");
+  const initialTargetLTV = options.initialTargetLTV ?? rebalances[0]?.oldLTV;
+  if (initialTargetLTV === undefined) {
+    throw new Error("apyReport: no Rebalanced events, pass initialTargetLTV (the vault's targetLTV)");
+  }
+
+  const results: WindowReturn[] = [];
+  for (const window of APY_WINDOWS) {
+    const start = window.seconds === undefined
+      ? snapshots[0]
+      : [...snapshots].reverse().find((s) => s.timestamp <= end.timestamp - window.seconds!);
+    if (!start || start.timestamp >= end.timestamp) continue;
+    const elapsed = end.timestamp - start.timestamp;
+    const inWindow = (e: TimelineEvent) => order(e) > order(start) && order(e) <= order(end);
+
+    const netReturn = (end.pricePerShare * WAD) / start.pricePerShare - WAD;
+    const feeShares = eventsOfType(store, "fee").filter(inWindow).reduce((sum, e) => sum + e.feeShares, 0n);
+    const grossPps = (end.totalAssets * WAD) / (end.totalSupply - feeShares);
+    const grossReturn = (grossPps * WAD) / start.pricePerShare - WAD;
+
+    const [fromRate, toRate] = await Promise.all([readSUSDDRate(start.blockNumber), readSUSDDRate(end.blockNumber)]);
+    const susddReturn = (((toRate * WAD) / fromRate - WAD) * investedFraction(store, start, end, initialTargetLTV)) / WAD;
+
+    const merklReturn = rewardsReturn(store, start, end);
+
+    results.push({
+      label: window.label,
+      fromBlock: start.blockNumber,
+      toBlock: end.blockNumber,
+      fromTimestamp: start.timestamp,
+      toTimestamp: end.timestamp,
+      elapsed,
+      netReturn,
+      grossReturn,
+      netAPR: annualize(netReturn, elapsed),
+      netAPY: rateToAPY(netReturn / BigInt(elapsed)),
+      grossAPR: annualize(grossReturn, elapsed),
+      grossAPY: rateToAPY(grossReturn / BigInt(elapsed)),
+      breakdown: {
+        susddYield: annualize(susddReturn, elapsed),
+        leverageCarry: annualize(grossReturn - susddReturn - merklReturn, elapsed),
+        merklRewards: annualize(merklReturn, elapsed),
+        fees: annualize(grossReturn - netReturn, elapsed),
+      },
+    });
+  }
+  return results;
+}
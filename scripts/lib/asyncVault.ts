@@ -0,0 +1,66 @@
+import { SUSDDAsyncVault } from "../../typechain-types";
+import { withSlippage } from "../../sdk/routes";
+
+// Keeper routine for SUSDDAsyncVault: settle the open deposit epoch at the vault's current NAV.
+// Async redeem requests sit in the vault's WithdrawalQueue and are fulfilled by
+// processWithdrawalQueue (./withdrawalQueue.ts) with every other queued redeem.
+
+export interface AsyncSettleConfig {
+  /** Allowed shortfall against the simulated settlement (bps), passed on as minShares */
+  slippageBps: bigint;
+  /** Simulate without sending transactions */
+  dryRun: boolean;
+}
+
+export const DEFAULT_ASYNC_SETTLE_CONFIG: AsyncSettleConfig = {
+  slippageBps: 10n,
+  dryRun: false,
+};
+
+export interface SettleSide {
+  /** USDT waiting in the open epoch */
+  pending: bigint;
+  /** Simulated shares, and the minimum sent with it */
+  out?: bigint;
+  min?: bigint;
+  txHash?: string;
+  /** Why the epoch was not settled (simulation revert), when pending > 0 */
+  skipped?: string;
+}
+
+export interface AsyncSettleResult {
+  deposits: SettleSide;
+}
+
+/**
+ * Settle the deposit epoch from the async vault's signer, which needs KEEPER_ROLE on it. The
+ * settlement is simulated with staticCall first; when the simulation reverts it is skipped.
+ */
+export async function settleAsyncVault(asyncVault: SUSDDAsyncVault, config: AsyncSettleConfig): Promise<AsyncSettleResult> {
+  const pendingAssets = await asyncVault.totalPendingDepositAssets();
+  const deposits: SettleSide = { pending: pendingAssets };
+
+  if (pendingAssets > 0n) {
+    deposits.out = await simulate(deposits, () => asyncVault.settleDeposits.staticCall(0n));
+    if (deposits.out !== undefined) {
+      deposits.min = withSlippage(deposits.out, config.slippageBps);
+      if (!config.dryRun) {
+        const tx = await asyncVault.settleDeposits(deposits.min);
+        await tx.wait();
+        deposits.txHash = tx.hash;
+      }
+    }
+  }
+
+  return { deposits };
+}
+
+/** Run a settlement staticCall; a revert marks it skipped instead of failing the tick */
+async function simulate(side: SettleSide, call: () => Promise<bigint>): Promise<bigint | undefined> {
+  try {
+    return await call();
+  } catch (error) {
+    side.skipped = error instanceof Error ? error.message : String(error);
+    return undefined;
+  }
+}
@@ -0,0 +1,251 @@
+import { ContractRunner, ethers } from "ethers";
+import { IERC4626__factory, IIrm__factory } from "../../typechain-types";
+import { ADDRESSES, IDLE_MODE, MAX_LTV, WAD } from "./constants";
+import { MarketState, expectedMarketBalances, wTaylorCompounded } from "./morpho";
+import { PositionState, readPositionState } from "./position";
+
+// Carry-trade monitor: compares sUSDD yield with the Morpho borrow rate and recommends
+// the rebalance() argument (IDLE_MODE, 0 or a leveraged LTV) with the net APY behind it.
+
+export const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+export interface CarryConfig {
+  /** Leveraged LTVs to evaluate (WAD); the vault's current targetLTV is always added */
+  candidateLTVs: bigint[];
+  /** Candidates must stay at least this far below the market LLTV (WAD) */
+  lltvBuffer: bigint;
+  /** A different mode must beat the current one by more than this net APY (WAD) to be recommended */
+  minSpread: bigint;
+  /** Window of sUSDD rate history used for the yield estimate (seconds) */
+  lookback: number;
+}
+
+export const DEFAULT_CARRY_CONFIG: CarryConfig = {
+  candidateLTVs: ["0.5", "0.6", "0.7", "0.75", "0.8"].map((ltv) => ethers.parseEther(ltv)),
+  lltvBuffer: ethers.parseEther("0.05"),
+  minSpread: ethers.parseEther("0.005"),
+  lookback: 7 * 24 * 60 * 60,
+};
+
+export interface SUSDDYield {
+  fromBlock: number;
+  toBlock: number;
+  fromRate: bigint; // USDD per sUSDD (WAD)
+  toRate: bigint;
+  elapsed: bigint; // seconds between the two blocks
+  ratePerSecond: bigint; // continuous per-second growth (WAD), comparable with IRM rates
+  apy: bigint; // WAD
+}
+
+export interface CarryOption {
+  /** rebalance() argument */
+  targetLTV: bigint;
+  /** Borrow APY at this LTV, after the extra debt moves market utilization (WAD) */
+  borrowAPY: bigint;
+  /** APY on vault equity (WAD), before performance fee */
+  netAPY: bigint;
+  feasible: boolean;
+  note?: string;
+}
+
+export interface CarryRecommendation {
+  current: CarryOption;
+  recommended: CarryOption;
+  /** True when recommended.targetLTV differs from the vault's current targetLTV */
+  change: boolean;
+  reason: string;
+}
+
+export interface CarryReport {
+  position: PositionState;
+  susdd: SUSDDYield;
+  options: CarryOption[];
+  recommendation: CarryRecommendation;
+}
+
+/** Annual yield of a continuously compounded per-second rate, same convention as Morpho's APY */
+export function rateToAPY(ratePerSecond: bigint): bigint {
+  return wTaylorCompounded(ratePerSecond, SECONDS_PER_YEAR);
+}
+
+/**
+ * Net APY on equity at a given LTV.
+ *
+ * Per unit of equity the position holds 1/(1-LTV) of sUSDD and owes LTV/(1-LTV) of USDT,
+ * so net = (supplyAPY - LTV * borrowAPY) / (1 - LTV). PSM fees on entry/exit are one-off
+ * costs and are covered by minSpread rather than annualised here.
+ */
+export function netAPY(supplyAPY: bigint, borrowAPY: bigint, ltv: bigint): bigint {
+  if (ltv === IDLE_MODE) return 0n;
+  return (supplyAPY * WAD - ltv * borrowAPY) / (WAD - ltv);
+}
+
+/** Latest block whose timestamp is <= target (binary search; the chain must have a block that old) */
+export async function findBlockAtTimestamp(provider: ethers.Provider, target: number): Promise<number> {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const block = await provider.getBlock(mid);
+    if (!block) throw new Error(`findBlockAtTimestamp: block ${mid} unavailable`);
+    if (block.timestamp <= target) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/** sUSDD yield from convertToAssets() growth over the last `lookback` seconds */
+export async function readSUSDDYield(runner: ContractRunner, lookback: number): Promise<SUSDDYield> {
+  const provider = runner.provider;
+  if (!provider) throw new Error("readSUSDDYield: runner has no provider");
+
+  const latest = await provider.getBlock("latest");
+  if (!latest) throw new Error("readSUSDDYield: latest block unavailable");
+
+  const fromBlock = await findBlockAtTimestamp(provider, latest.timestamp - lookback);
+  const from = await provider.getBlock(fromBlock);
+  if (!from) throw new Error(`readSUSDDYield: block ${fromBlock} unavailable`);
+
+  const susdd = IERC4626__factory.connect(ADDRESSES.SUSDD, runner);
+  const [fromRate, toRate] = await Promise.all([
+    susdd.convertToAssets(WAD, { blockTag: fromBlock }),
+    susdd.convertToAssets(WAD, { blockTag: latest.number }),
+  ]);
+
+  const elapsed = BigInt(latest.timestamp - from.timestamp);
+  if (elapsed === 0n) throw new Error("readSUSDDYield: lookback window is empty");
+
+  const ratePerSecond = ((toRate - fromRate) * WAD) / fromRate / elapsed;
+
+  return {
+    fromBlock,
+    toBlock: latest.number,
+    fromRate,
+    toRate,
+    elapsed,
+    ratePerSecond,
+    apy: rateToAPY(ratePerSecond),
+  };
+}
+
+/**
+ * Borrow APY the market would charge once the vault's debt moves to `targetDebt`.
+ * The IRM is queried with the accrued market state adjusted by the debt delta, so large
+ * leverage changes see the utilization they would cause.
+ */
+async function simulateBorrowAPY(
+  position: PositionState,
+  runner: ContractRunner,
+  targetDebt: bigint
+): Promise<{ borrowAPY: bigint; market: MarketState }> {
+  const accrued = expectedMarketBalances(position.market, position.borrowRate, position.timestamp);
+  const market: MarketState = {
+    ...accrued,
+    totalBorrowAssets: accrued.totalBorrowAssets - position.debt + targetDebt,
+    lastUpdate: position.timestamp,
+  };
+
+  if (position.marketParams.irm === ethers.ZeroAddress || market.totalBorrowAssets <= 0n) {
+    return { borrowAPY: 0n, market };
+  }
+
+  const irm = IIrm__factory.connect(position.marketParams.irm, runner);
+  const rate = await irm.borrowRateView(position.marketParams, market);
+  return { borrowAPY: rateToAPY(rate), market };
+}
+
+/** Evaluate IDLE_MODE, 0 and every leveraged candidate against the current market */
+export async function evaluateCarryOptions(
+  position: PositionState,
+  susdd: SUSDDYield,
+  runner: ContractRunner,
+  config: CarryConfig
+): Promise<CarryOption[]> {
+  const options: CarryOption[] = [
+    { targetLTV: IDLE_MODE, borrowAPY: 0n, netAPY: 0n, feasible: true },
+    { targetLTV: 0n, borrowAPY: 0n, netAPY: susdd.apy, feasible: true },
+  ];
+
+  const candidates = [...config.candidateLTVs];
+  if (position.targetLTV !== IDLE_MODE && position.targetLTV !== 0n && !candidates.includes(position.targetLTV)) {
+    candidates.push(position.targetLTV);
+  }
+  candidates.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  for (const ltv of candidates) {
+    const targetDebt = (position.nav * ltv) / (WAD - ltv);
+    const { borrowAPY, market } = await simulateBorrowAPY(position, runner, targetDebt);
+    const option: CarryOption = { targetLTV: ltv, borrowAPY, netAPY: netAPY(susdd.apy, borrowAPY, ltv), feasible: true };
+
+    if (ltv > MAX_LTV) {
+      option.feasible = false;
+      option.note = "above MAX_LTV";
+    } else if (ltv + config.lltvBuffer > position.lltv) {
+      option.feasible = false;
+      option.note = "too close to LLTV";
+    } else if (market.totalBorrowAssets > market.totalSupplyAssets) {
+      option.feasible = false;
+      option.note = "insufficient market liquidity";
+    }
+    options.push(option);
+  }
+
+  return options;
+}
+
+/**
+ * Pick the mode with the best net APY among feasible options.
+ *
+ * IDLE_MODE wins whenever sUSDD itself is not yielding (or losing value). Otherwise the
+ * current mode is kept unless another option beats it by more than minSpread, which
+ * keeps the keeper from churning on rate noise and pays for PSM fees of the switch.
+ */
+export function recommendCarryMode(
+  currentTargetLTV: bigint,
+  options: CarryOption[],
+  config: CarryConfig
+): CarryRecommendation {
+  const feasible = options.filter((option) => option.feasible);
+  const best = feasible.reduce((a, b) => (b.netAPY > a.netAPY ? b : a));
+  const current = options.find((option) => option.targetLTV === currentTargetLTV)
+    ?? { targetLTV: currentTargetLTV, borrowAPY: 0n, netAPY: 0n, feasible: false, note: "not evaluated" };
+
+  if (best.targetLTV === IDLE_MODE) {
+    return {
+      current,
+      recommended: best,
+      change: currentTargetLTV !== IDLE_MODE,
+      reason: "sUSDD yield is not positive",
+    };
+  }
+
+  if (current.feasible && current.netAPY + config.minSpread >= best.netAPY) {
+    return { current, recommended: current, change: false, reason: "current mode is within minSpread of the best" };
+  }
+
+  const reason = best.targetLTV === 0n
+    ? "borrow cost exceeds sUSDD yield at every leveraged LTV"
+    : "leveraged carry is profitable";
+  return { current, recommended: best, change: best.targetLTV !== currentTargetLTV, reason };
+}
+
+/** Read the vault, market and sUSDD history and produce a recommendation */
+export async function analyzeCarry(
+  vaultAddress: string,
+  runner: ContractRunner,
+  config: CarryConfig
+): Promise<CarryReport> {
+  const [position, susdd] = await Promise.all([
+    readPositionState(vaultAddress, runner),
+    readSUSDDYield(runner, config.lookback),
+  ]);
+  const options = await evaluateCarryOptions(position, susdd, runner, config);
+  const recommendation = recommendCarryMode(position.targetLTV, options, config);
+
+  return { position, susdd, options, recommendation };
+}
+
+export function formatAPY(apy: bigint): string {
+  return ethers.formatUnits(apy, 16) + "%";
+}
@@ -0,0 +1,633 @@
+import { BaseContract, ethers } from "ethers";
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { load as loadYaml } from "js-yaml";
+import type { SUSDDVault } from "../../typechain-types";
+import { ROLES } from "./constants";
+import {
+  FeeSplitEntry,
+  InvalidParamError,
+  MAX_ENTRY_EXIT_FEE_BPS,
+  MAX_MANAGEMENT_FEE_BPS,
+  parseAddress,
+  parseDuration,
+  parseFeeBps,
+  parseUSDT,
+  parseVaultRef,
+  validateFeeSplit,
+} from "./params";
+
+// Desired-state configuration: a per-vault JSON/YAML file describes roles, fees, caps,
+// whitelist and Merkl distributor; the planner diffs it against on-chain state and emits
+// only the calls needed to converge. Lists (role members, whitelist) are complete sets:
+// addresses missing from the file are revoked/removed. feeSplit is applied to the FeeSplitter
+// the vault's feeRecipient points at, and the deposit limits to the vault's DepositLimiter.
+
+// FeeSplitter functions used here; typechain is not available when the tasks load
+const FEE_SPLITTER_ABI = [
+  "function getRecipients() view returns (address[] accounts, uint256[] bps)",
+  "function setRecipients(address[] accounts, uint256[] bps)",
+];
+
+// DepositLimiter limits, their setters and the override event
+const DEPOSIT_LIMITER_ABI = [
+  "function minDeposit() view returns (uint256)",
+  "function defaultCap() view returns (uint256)",
+  "function inflowLimit() view returns (uint256)",
+  "function inflowWindow() view returns (uint256)",
+  "event DepositorCapUpdated(address indexed account, uint256 cap, bool overridden, bool exempt)",
+  "function setMinDeposit(uint256 newMin)",
+  "function setDefaultCap(uint256 newCap)",
+  "function setDepositorCap(address account, uint256 cap)",
+  "function setDepositorExempt(address account)",
+  "function clearDepositorCap(address account)",
+  "function setInflowLimit(uint256 limit, uint256 window)",
+];
+
+const TARGET_ABIS = { FeeSplitter: FEE_SPLITTER_ABI, DepositLimiter: DEPOSIT_LIMITER_ABI };
+
+export type RoleName = keyof typeof ROLES;
+
+/** Target configuration; undefined fields are left as they are */
+export interface VaultDesiredState {
+  roles?: Partial<Record<RoleName, string[]>>;
+  performanceFeeBps?: bigint;
+  managementFeeBps?: bigint;
+  depositFeeBps?: bigint;
+  redeemFeeBps?: bigint;
+  /** Deposit/redeem fees paid to feeRecipient (true) or left in the vault (false) */
+  entryExitFeeToTreasury?: boolean;
+  feeRecipient?: string;
+  /** Split of the FeeSplitter that is the feeRecipient */
+  feeSplit?: FeeSplitEntry[];
+  maxTotalAssets?: bigint;
+  whitelistEnabled?: boolean;
+  whitelist?: string[];
+  merklDistributor?: string;
+  depositLimiter?: string;
+  /** Limits of the vault's DepositLimiter; USDT amounts, 0 disables */
+  minDeposit?: bigint;
+  defaultDepositorCap?: bigint;
+  /** Per-depositor cap overrides, a complete set; a cap of 0 blocks the depositor */
+  depositorCaps?: DepositorCapEntry[];
+  inflowLimit?: bigint;
+  /** Seconds; 0 counts inflow per block */
+  inflowWindow?: number;
+}
+
+export interface DepositorCapEntry {
+  account: string;
+  cap: bigint;
+  /** No cap at all ("none" in a config file); cap is then 0 */
+  exempt: boolean;
+}
+
+/** DepositLimiter settings; overrides are rebuilt from DepositorCapUpdated events */
+export interface DepositLimits {
+  minDeposit: bigint;
+  defaultCap: bigint;
+  overrides: DepositorCapEntry[];
+  inflowLimit: bigint;
+  inflowWindow: number;
+}
+
+/** On-chain configuration; role members, whitelist and Merkl distributor are rebuilt from events */
+export interface VaultState {
+  roles: Record<RoleName, string[]>;
+  performanceFeeBps: bigint;
+  managementFeeBps: bigint;
+  depositFeeBps: bigint;
+  redeemFeeBps: bigint;
+  entryExitFeeToTreasury: boolean;
+  feeRecipient: string;
+  /** Set when feeRecipient is a FeeSplitter */
+  feeSplit?: FeeSplitEntry[];
+  maxTotalAssets: bigint;
+  whitelistEnabled: boolean;
+  whitelist: string[];
+  merklDistributor: string;
+  depositLimiter: string;
+  /** Set when depositLimiter is set */
+  depositLimits?: DepositLimits;
+}
+
+/** One vault call needed to reach the desired configuration */
+export interface ConfigStep {
+  /** Diff line: "+" grant/add, "-" revoke/remove, "~" parameter change */
+  description: string;
+  method: string;
+  args: unknown[];
+  /** Contract called instead of the vault */
+  target?: { contract: keyof typeof TARGET_ABIS; address: string };
+}
+
+const CONFIG_KEYS = [
+  "vault",
+  "roles",
+  "performanceFeeBps",
+  "managementFeeBps",
+  "depositFeeBps",
+  "redeemFeeBps",
+  "entryExitFeeToTreasury",
+  "feeRecipient",
+  "feeSplit",
+  "maxTotalAssets",
+  "whitelistEnabled",
+  "whitelist",
+  "merklDistributor",
+  "depositLimiter",
+  "minDeposit",
+  "defaultDepositorCap",
+  "depositorCaps",
+  "inflowLimit",
+  "inflowWindow",
+];
+
+// ============ Config Files ============
+
+export interface VaultConfigFile {
+  /** Vault the file describes (address or registry name), if pinned in the file */
+  vault?: string;
+  desired: VaultDesiredState;
+}
+
+/** Load and validate a .json, .yaml or .yml desired-state file */
+export function loadVaultConfig(path: string): VaultConfigFile {
+  const text = readFileSync(path, "utf8");
+  const ext = extname(path).toLowerCase();
+  if (ext !== ".json" && ext !== ".yaml" && ext !== ".yml") {
+    throw new InvalidParamError("config", `${path}: expected a .json, .yaml or .yml file`);
+  }
+  const raw = ext === ".json" ? JSON.parse(text) : loadYaml(text);
+  return parseVaultConfig(raw);
+}
+
+/** Validate a parsed config object; amounts are USDT units, fees bps, addresses checksummed */
+export function parseVaultConfig(raw: unknown): VaultConfigFile {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new InvalidParamError("config", "expected an object at the top level");
+  }
+  const obj = raw as Record<string, unknown>;
+  for (const key of Object.keys(obj)) {
+    if (!CONFIG_KEYS.includes(key)) throw new InvalidParamError("config", `unknown key "${key}"`);
+  }
+
+  const desired: VaultDesiredState = {};
+
+  if (obj.roles !== undefined) {
+    if (obj.roles === null || typeof obj.roles !== "object" || Array.isArray(obj.roles)) {
+      throw new InvalidParamError("roles", "expected a map of role name to address list");
+    }
+    desired.roles = {};
+    for (const [role, members] of Object.entries(obj.roles)) {
+      if (!(role in ROLES)) {
+        throw new InvalidParamError("roles", `unknown role "${role}" (expected one of ${Object.keys(ROLES).join(", ")})`);
+      }
+      desired.roles[role as RoleName] = parseAddressArray(`roles.${role}`, members);
+    }
+    // An empty admin list would revoke every admin and lock configuration forever
+    if (desired.roles.DEFAULT_ADMIN_ROLE?.length === 0) {
+      throw new InvalidParamError("roles.DEFAULT_ADMIN_ROLE", "must keep at least one admin");
+    }
+  }
+
+  if (obj.performanceFeeBps !== undefined) {
+    desired.performanceFeeBps = parseFeeBps("performanceFeeBps", scalar("performanceFeeBps", obj.performanceFeeBps));
+  }
+  if (obj.managementFeeBps !== undefined) {
+    desired.managementFeeBps = parseFeeBps(
+      "managementFeeBps",
+      scalar("managementFeeBps", obj.managementFeeBps),
+      MAX_MANAGEMENT_FEE_BPS
+    );
+  }
+  if (obj.depositFeeBps !== undefined) {
+    desired.depositFeeBps = parseFeeBps("depositFeeBps", scalar("depositFeeBps", obj.depositFeeBps), MAX_ENTRY_EXIT_FEE_BPS);
+  }
+  if (obj.redeemFeeBps !== undefined) {
+    desired.redeemFeeBps = parseFeeBps("redeemFeeBps", scalar("redeemFeeBps", obj.redeemFeeBps), MAX_ENTRY_EXIT_FEE_BPS);
+  }
+  if (obj.entryExitFeeToTreasury !== undefined) {
+    if (typeof obj.entryExitFeeToTreasury !== "boolean") {
+      throw new InvalidParamError("entryExitFeeToTreasury", "expected true or false");
+    }
+    desired.entryExitFeeToTreasury = obj.entryExitFeeToTreasury;
+  }
+  if (obj.feeRecipient !== undefined) {
+    desired.feeRecipient = parseAddress("feeRecipient", scalar("feeRecipient", obj.feeRecipient));
+  }
+  if (obj.feeSplit !== undefined) {
+    if (obj.feeSplit === null || typeof obj.feeSplit !== "object" || Array.isArray(obj.feeSplit)) {
+      throw new InvalidParamError("feeSplit", "expected a map of recipient address to bps");
+    }
+    desired.feeSplit = validateFeeSplit(
+      "feeSplit",
+      Object.entries(obj.feeSplit).map(([account, bps]) => ({
+        account: parseAddress("feeSplit", account),
+        bps: parseFeeBps("feeSplit", scalar(`feeSplit.${account}`, bps), 10000n),
+      }))
+    );
+  }
+  if (obj.maxTotalAssets !== undefined) {
+    desired.maxTotalAssets = parseUSDT("maxTotalAssets", scalar("maxTotalAssets", obj.maxTotalAssets));
+  }
+  if (obj.whitelistEnabled !== undefined) {
+    if (typeof obj.whitelistEnabled !== "boolean") {
+      throw new InvalidParamError("whitelistEnabled", "expected true or false");
+    }
+    desired.whitelistEnabled = obj.whitelistEnabled;
+  }
+  if (obj.whitelist !== undefined) {
+    desired.whitelist = parseAddressArray("whitelist", obj.whitelist);
+  }
+  if (obj.merklDistributor !== undefined) {
+    desired.merklDistributor = parseAddress("merklDistributor", scalar("merklDistributor", obj.merklDistributor));
+  }
+  if (obj.depositLimiter !== undefined) {
+    desired.depositLimiter = parseAddress("depositLimiter", scalar("depositLimiter", obj.depositLimiter));
+  }
+  if (obj.minDeposit !== undefined) {
+    desired.minDeposit = parseUSDT("minDeposit", scalar("minDeposit", obj.minDeposit));
+  }
+  if (obj.defaultDepositorCap !== undefined) {
+    desired.defaultDepositorCap = parseUSDT("defaultDepositorCap", scalar("defaultDepositorCap", obj.defaultDepositorCap));
+  }
+  if (obj.depositorCaps !== undefined) {
+    if (obj.depositorCaps === null || typeof obj.depositorCaps !== "object" || Array.isArray(obj.depositorCaps)) {
+      throw new InvalidParamError("depositorCaps", 'expected a map of depositor address to USDT cap or "none"');
+    }
+    desired.depositorCaps = Object.entries(obj.depositorCaps).map(([account, value]) => {
+      const cap = scalar(`depositorCaps.${account}`, value);
+      const exempt = cap.toLowerCase() === "none";
+      return {
+        account: parseAddress("depositorCaps", account),
+        cap: exempt ? 0n : parseUSDT(`depositorCaps.${account}`, cap),
+        exempt,
+      };
+    });
+    if (new Set(desired.depositorCaps.map((entry) => entry.account)).size !== desired.depositorCaps.length) {
+      throw new InvalidParamError("depositorCaps", "contains duplicates");
+    }
+  }
+  if (obj.inflowLimit !== undefined) {
+    desired.inflowLimit = parseUSDT("inflowLimit", scalar("inflowLimit", obj.inflowLimit));
+  }
+  if (obj.inflowWindow !== undefined) {
+    desired.inflowWindow = parseDuration("inflowWindow", scalar("inflowWindow", obj.inflowWindow));
+  }
+
+  const vault = obj.vault !== undefined ? parseVaultRef("vault", scalar("vault", obj.vault)) : undefined;
+  return { vault, desired };
+}
+
+function scalar(param: string, value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" && Number.isSafeInteger(value)) return String(value);
+  throw new InvalidParamError(param, `expected a string or integer, got ${JSON.stringify(value)}`);
+}
+
+function parseAddressArray(param: string, value: unknown): string[] {
+  if (!Array.isArray(value)) throw new InvalidParamError(param, "expected a list of addresses");
+  const addresses = value.map((item) => parseAddress(param, scalar(param, item)));
+  if (new Set(addresses).size !== addresses.length) throw new InvalidParamError(param, "contains duplicates");
+  return addresses;
+}
+
+// ============ On-chain State ============
+
+/** Replay add/remove events per key; later events win. Returns the keys left in the set. */
+function replayMembership(events: { key: string; added: boolean; order: number }[]): string[] {
+  const members = new Map<string, boolean>();
+  for (const event of [...events].sort((a, b) => a.order - b.order)) {
+    members.set(event.key, event.added);
+  }
+  return [...members].filter(([, present]) => present).map(([key]) => key);
+}
+
+function eventOrder(log: ethers.Log): number {
+  return log.blockNumber * 1e6 + log.index;
+}
+
+/** Read the vault's configuration, scanning events from `fromBlock` (deployment block when known) */
+export async function readVaultState(vault: SUSDDVault, fromBlock = 0): Promise<VaultState> {
+  const [granted, revoked, added, removed, merkl, limiters] = await Promise.all([
+    vault.queryFilter(vault.filters.RoleGranted(), fromBlock),
+    vault.queryFilter(vault.filters.RoleRevoked(), fromBlock),
+    vault.queryFilter(vault.filters.AddedToWhitelist(), fromBlock),
+    vault.queryFilter(vault.filters.RemovedFromWhitelist(), fromBlock),
+    vault.queryFilter(vault.filters.MerklDistributorUpdated(), fromBlock),
+    vault.queryFilter(vault.filters.DepositLimiterUpdated(), fromBlock),
+  ]);
+
+  const roles = {} as Record<RoleName, string[]>;
+  for (const role of Object.keys(ROLES) as RoleName[]) {
+    roles[role] = replayMembership([
+      ...granted.filter((e) => e.args.role === ROLES[role]).map((e) => ({ key: e.args.account, added: true, order: eventOrder(e) })),
+      ...revoked.filter((e) => e.args.role === ROLES[role]).map((e) => ({ key: e.args.account, added: false, order: eventOrder(e) })),
+    ]);
+  }
+
+  const whitelist = replayMembership([
+    ...added.map((e) => ({ key: e.args.account, added: true, order: eventOrder(e) })),
+    ...removed.map((e) => ({ key: e.args.account, added: false, order: eventOrder(e) })),
+  ]);
+
+  const lastMerkl = [...merkl].sort((a, b) => eventOrder(a) - eventOrder(b)).pop();
+  const depositLimiter = [...limiters].sort((a, b) => eventOrder(a) - eventOrder(b)).pop()?.args.newLimiter ?? ethers.ZeroAddress;
+
+  const [
+    performanceFeeBps,
+    managementFeeBps,
+    depositFeeBps,
+    redeemFeeBps,
+    entryExitFeeToTreasury,
+    feeRecipient,
+    maxTotalAssets,
+    whitelistEnabled,
+  ] = await Promise.all([
+    vault.performanceFeeBps(),
+    vault.managementFeeBps(),
+    vault.depositFeeBps(),
+    vault.redeemFeeBps(),
+    vault.entryExitFeeToTreasury(),
+    vault.feeRecipient(),
+    vault.maxTotalAssets(),
+    vault.whitelistEnabled(),
+  ]);
+
+  return {
+    roles,
+    performanceFeeBps,
+    managementFeeBps,
+    depositFeeBps,
+    redeemFeeBps,
+    entryExitFeeToTreasury,
+    feeRecipient,
+    feeSplit: await readFeeSplit(vault, feeRecipient),
+    maxTotalAssets,
+    whitelistEnabled,
+    whitelist,
+    merklDistributor: lastMerkl?.args.newDistributor ?? ethers.ZeroAddress,
+    depositLimiter,
+    depositLimits: depositLimiter === ethers.ZeroAddress ? undefined : await readDepositLimits(vault, depositLimiter, fromBlock),
+  };
+}
+
+async function readDepositLimits(vault: SUSDDVault, address: string, fromBlock: number): Promise<DepositLimits> {
+  const limiter = new ethers.Contract(address, DEPOSIT_LIMITER_ABI, vault.runner?.provider);
+  const [minDeposit, defaultCap, inflowLimit, inflowWindow, capEvents] = await Promise.all([
+    limiter.minDeposit() as Promise<bigint>,
+    limiter.defaultCap() as Promise<bigint>,
+    limiter.inflowLimit() as Promise<bigint>,
+    limiter.inflowWindow() as Promise<bigint>,
+    limiter.queryFilter(limiter.filters.DepositorCapUpdated(), fromBlock),
+  ]);
+
+  // Last event per account wins; cleared overrides drop out
+  const latest = new Map<string, { cap: bigint; overridden: boolean; exempt: boolean }>();
+  for (const event of [...capEvents].sort((a, b) => eventOrder(a) - eventOrder(b)) as ethers.EventLog[]) {
+    latest.set(event.args.account, { cap: event.args.cap, overridden: event.args.overridden, exempt: event.args.exempt });
+  }
+  const overrides = [...latest]
+    .filter(([, entry]) => entry.overridden)
+    .map(([account, entry]) => ({ account, cap: entry.cap, exempt: entry.exempt }));
+
+  return { minDeposit, defaultCap, overrides, inflowLimit, inflowWindow: Number(inflowWindow) };
+}
+
+/** Split of `recipient` if it is a FeeSplitter, else undefined */
+async function readFeeSplit(vault: SUSDDVault, recipient: string): Promise<FeeSplitEntry[] | undefined> {
+  const provider = vault.runner?.provider;
+  if (!provider || (await provider.getCode(recipient)) === "0x") return undefined;
+  try {
+    const [accounts, bps] = await new ethers.Contract(recipient, FEE_SPLITTER_ABI, provider).getRecipients();
+    return (accounts as string[]).map((account, i) => ({ account, bps: (bps as bigint[])[i] }));
+  } catch {
+    return undefined;
+  }
+}
+
+// ============ Planning ============
+
+/** Same recipients with the same weights, in the same order (order decides who gets the dust) */
+function sameSplit(a: FeeSplitEntry[], b: FeeSplitEntry[] | undefined): boolean {
+  return b !== undefined && a.length === b.length &&
+    a.every((entry, i) => entry.account.toLowerCase() === b[i].account.toLowerCase() && entry.bps === b[i].bps);
+}
+
+function difference(a: string[], b: string[]): string[] {
+  const lower = new Set(b.map((x) => x.toLowerCase()));
+  return a.filter((x) => !lower.has(x.toLowerCase()));
+}
+
+/**
+ * Diff `desired` against `current`. Steps are ordered so the signer keeps its permissions
+ * while applying: grants first, then parameters and whitelist, then revokes, with
+ * DEFAULT_ADMIN_ROLE revokes last.
+ */
+export function planConfiguration(current: VaultState, desired: VaultDesiredState): ConfigStep[] {
+  const grants: ConfigStep[] = [];
+  const updates: ConfigStep[] = [];
+  const revokes: ConfigStep[] = [];
+  const adminRevokes: ConfigStep[] = [];
+
+  for (const [role, members] of Object.entries(desired.roles ?? {}) as [RoleName, string[]][]) {
+    for (const account of difference(members, current.roles[role])) {
+      grants.push({ description: `+ ${role}: ${account}`, method: "grantRole", args: [ROLES[role], account] });
+    }
+    for (const account of difference(current.roles[role], members)) {
+      const step = { description: `- ${role}: ${account}`, method: "revokeRole", args: [ROLES[role], account] };
+      (role === "DEFAULT_ADMIN_ROLE" ? adminRevokes : revokes).push(step);
+    }
+  }
+
+  if (desired.performanceFeeBps !== undefined && desired.performanceFeeBps !== current.performanceFeeBps) {
+    updates.push({
+      description: `~ performanceFeeBps: ${current.performanceFeeBps} -> ${desired.performanceFeeBps}`,
+      method: "setPerformanceFee",
+      args: [desired.performanceFeeBps],
+    });
+  }
+
+  if (desired.managementFeeBps !== undefined && desired.managementFeeBps !== current.managementFeeBps) {
+    updates.push({
+      description: `~ managementFeeBps: ${current.managementFeeBps} -> ${desired.managementFeeBps}`,
+      method: "setManagementFee",
+      args: [desired.managementFeeBps],
+    });
+  }
+
+  // One setter for both fees and their destination: unspecified fields keep their current value
+  const depositFeeBps = desired.depositFeeBps ?? current.depositFeeBps;
+  const redeemFeeBps = desired.redeemFeeBps ?? current.redeemFeeBps;
+  const toTreasury = desired.entryExitFeeToTreasury ?? current.entryExitFeeToTreasury;
+  if (
+    depositFeeBps !== current.depositFeeBps ||
+    redeemFeeBps !== current.redeemFeeBps ||
+    toTreasury !== current.entryExitFeeToTreasury
+  ) {
+    const format = (deposit: bigint, redeem: bigint, treasury: boolean) =>
+      `${deposit}/${redeem} bps to ${treasury ? "feeRecipient" : "vault"}`;
+    updates.push({
+      description: `~ deposit/redeem fees: ${format(current.depositFeeBps, current.redeemFeeBps, current.entryExitFeeToTreasury)} -> ${format(depositFeeBps, redeemFeeBps, toTreasury)}`,
+      method: "setEntryExitFees",
+      args: [depositFeeBps, redeemFeeBps, toTreasury],
+    });
+  }
+
+  if (desired.feeRecipient && desired.feeRecipient.toLowerCase() !== current.feeRecipient.toLowerCase()) {
+    updates.push({
+      description: `~ feeRecipient: ${current.feeRecipient} -> ${desired.feeRecipient}`,
+      method: "setFeeRecipient",
+      args: [desired.feeRecipient],
+    });
+  }
+
+  if (desired.feeSplit && !sameSplit(desired.feeSplit, current.feeSplit)) {
+    // The split lives on the splitter the vault pays today; a new recipient brings its own split
+    if (!current.feeSplit) {
+      throw new InvalidParamError("feeSplit", `feeRecipient ${current.feeRecipient} is not a FeeSplitter (deploy one with splitter:deploy)`);
+    }
+    if (desired.feeRecipient && desired.feeRecipient.toLowerCase() !== current.feeRecipient.toLowerCase()) {
+      throw new InvalidParamError("feeSplit", "cannot change feeRecipient and the split in one run");
+    }
+    const format = (split: FeeSplitEntry[]) => split.map((entry) => `${entry.account}:${entry.bps}`).join(", ");
+    updates.push({
+      description: `~ feeSplit: ${format(current.feeSplit)} -> ${format(desired.feeSplit)}`,
+      method: "setRecipients",
+      args: [desired.feeSplit.map((entry) => entry.account), desired.feeSplit.map((entry) => entry.bps)],
+      target: { contract: "FeeSplitter", address: current.feeRecipient },
+    });
+  }
+
+  if (desired.maxTotalAssets !== undefined && desired.maxTotalAssets !== current.maxTotalAssets) {
+    updates.push({
+      description: `~ maxTotalAssets: ${ethers.formatUnits(current.maxTotalAssets, 6)} -> ${ethers.formatUnits(desired.maxTotalAssets, 6)} USDT`,
+      method: "setMaxTotalAssets",
+      args: [desired.maxTotalAssets],
+    });
+  }
+
+  // Add before enabling and disable before removing, so nobody listed is locked out in between
+  const whitelistSteps: ConfigStep[] = [];
+  if (desired.whitelist) {
+    for (const account of difference(desired.whitelist, current.whitelist)) {
+      whitelistSteps.push({ description: `+ whitelist: ${account}`, method: "addToWhitelist", args: [account] });
+    }
+  }
+  if (desired.whitelistEnabled !== undefined && desired.whitelistEnabled !== current.whitelistEnabled) {
+    whitelistSteps.push({
+      description: `~ whitelistEnabled: ${current.whitelistEnabled} -> ${desired.whitelistEnabled}`,
+      method: "setWhitelistEnabled",
+      args: [desired.whitelistEnabled],
+    });
+  }
+  if (desired.whitelist) {
+    for (const account of difference(current.whitelist, desired.whitelist)) {
+      whitelistSteps.push({ description: `- whitelist: ${account}`, method: "removeFromWhitelist", args: [account] });
+    }
+  }
+
+  if (desired.merklDistributor && desired.merklDistributor.toLowerCase() !== current.merklDistributor.toLowerCase()) {
+    updates.push({
+      description: `~ merklDistributor: ${current.merklDistributor} -> ${desired.merklDistributor}`,
+      method: "setMerklDistributor",
+      args: [desired.merklDistributor],
+    });
+  }
+
+  const limiterChanged =
+    desired.depositLimiter !== undefined && desired.depositLimiter.toLowerCase() !== current.depositLimiter.toLowerCase();
+  if (limiterChanged) {
+    updates.push({
+      description: `~ depositLimiter: ${current.depositLimiter} -> ${desired.depositLimiter}`,
+      method: "setDepositLimiter",
+      args: [desired.depositLimiter],
+    });
+  }
+  updates.push(...planDepositLimits(current, desired, limiterChanged));
+
+  return [...grants, ...updates, ...whitelistSteps, ...revokes, ...adminRevokes];
+}
+
+/** Steps on the vault's DepositLimiter; like feeSplit, the limits live on the limiter in use today */
+function planDepositLimits(current: VaultState, desired: VaultDesiredState, limiterChanged: boolean): ConfigStep[] {
+  const limitKeys = ["minDeposit", "defaultDepositorCap", "depositorCaps", "inflowLimit", "inflowWindow"] as const;
+  const param = limitKeys.find((key) => desired[key] !== undefined);
+  if (!param) return [];
+  if (limiterChanged) {
+    throw new InvalidParamError(param, "cannot change depositLimiter and its limits in one run");
+  }
+  const limits = current.depositLimits;
+  if (!limits) {
+    throw new InvalidParamError(param, "the vault has no DepositLimiter (deploy one with limiter:deploy)");
+  }
+
+  const target = { contract: "DepositLimiter" as const, address: current.depositLimiter };
+  const usdt = (amount: bigint) => `${ethers.formatUnits(amount, 6)} USDT`;
+  const cap = (entry: DepositorCapEntry) => (entry.exempt ? "none" : usdt(entry.cap));
+  const steps: ConfigStep[] = [];
+
+  if (desired.minDeposit !== undefined && desired.minDeposit !== limits.minDeposit) {
+    steps.push({
+      description: `~ minDeposit: ${usdt(limits.minDeposit)} -> ${usdt(desired.minDeposit)}`,
+      method: "setMinDeposit",
+      args: [desired.minDeposit],
+      target,
+    });
+  }
+  if (desired.defaultDepositorCap !== undefined && desired.defaultDepositorCap !== limits.defaultCap) {
+    steps.push({
+      description: `~ defaultDepositorCap: ${usdt(limits.defaultCap)} -> ${usdt(desired.defaultDepositorCap)}`,
+      method: "setDefaultCap",
+      args: [desired.defaultDepositorCap],
+      target,
+    });
+  }
+
+  if (desired.depositorCaps) {
+    for (const entry of desired.depositorCaps) {
+      const existing = limits.overrides.find((o) => o.account.toLowerCase() === entry.account.toLowerCase());
+      if (existing?.cap === entry.cap && existing.exempt === entry.exempt) continue;
+      steps.push({
+        description: `${existing ? "~" : "+"} depositorCap: ${entry.account} ${existing ? `${cap(existing)} -> ` : ""}${cap(entry)}`,
+        method: entry.exempt ? "setDepositorExempt" : "setDepositorCap",
+        args: entry.exempt ? [entry.account] : [entry.account, entry.cap],
+        target,
+      });
+    }
+    const kept = desired.depositorCaps.map((entry) => entry.account);
+    for (const account of difference(limits.overrides.map((o) => o.account), kept)) {
+      steps.push({ description: `- depositorCap: ${account}`, method: "clearDepositorCap", args: [account], target });
+    }
+  }
+
+  // One setter for limit and window: an unspecified field keeps its current value
+  const inflowLimit = desired.inflowLimit ?? limits.inflowLimit;
+  const inflowWindow = desired.inflowWindow ?? limits.inflowWindow;
+  if (inflowLimit !== limits.inflowLimit || inflowWindow !== limits.inflowWindow) {
+    const format = (limit: bigint, window: number) => `${usdt(limit)} per ${window === 0 ? "block" : `${window}s`}`;
+    steps.push({
+      description: `~ inflowLimit: ${format(limits.inflowLimit, limits.inflowWindow)} -> ${format(inflowLimit, inflowWindow)}`,
+      method: "setInflowLimit",
+      args: [inflowLimit, inflowWindow],
+      target,
+    });
+  }
+
+  return steps;
+}
+
+/** Send each step in order from the vault's signer; returns the transaction hashes */
+export async function applyConfiguration(vault: SUSDDVault, steps: ConfigStep[]): Promise<string[]> {
+  const hashes: string[] = [];
+  for (const step of steps) {
+    const contract = step.target
+      ? new ethers.Contract(step.target.address, TARGET_ABIS[step.target.contract], vault.runner)
+      : (vault as BaseContract);
+    const tx = await contract.getFunction(step.method).send(...step.args);
+    await tx.wait();
+    hashes.push(tx.hash);
+  }
+  return hashes;
+}
@@ -0,0 +1,27 @@
+import { ethers } from "ethers";
+
+// Mainnet addresses (mirrors contracts/libraries/Constants.sol)
+export const ADDRESSES = {
+  USDT: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+  USDD: "0x4f8e5DE400DE08B164E7421B3EE387f461beCD1A",
+  SUSDD: "0xC5d6A7B61d18AfA11435a889557b068BB9f29930",
+  PSM: "0xcE355440c00014A229bbEc030A2B8f8EB45a2897",
+  MORPHO: "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb",
+} as const;
+
+export const MARKET_ID = "0x29ae8cad946d861464d5e829877245a863a18157c0cde2c3524434dafa34e476";
+
+export const WAD = 10n ** 18n;
+
+// type(uint256).max — see SUSDDVault.IDLE_MODE
+export const IDLE_MODE = ethers.MaxUint256;
+
+// SUSDDVault.MAX_LTV: absolute ceiling for rebalance()/initialize()
+export const MAX_LTV = ethers.parseEther("0.915");
+
+export const ROLES = {
+  DEFAULT_ADMIN_ROLE: ethers.ZeroHash,
+  KEEPER_ROLE: ethers.keccak256(ethers.toUtf8Bytes("KEEPER_ROLE")),
+  MANAGER_ROLE: ethers.keccak256(ethers.toUtf8Bytes("MANAGER_ROLE")),
+  PAUSER_ROLE: ethers.keccak256(ethers.toUtf8Bytes("PAUSER_ROLE")),
+} as const;
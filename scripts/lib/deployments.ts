@@ -0,0 +1,175 @@
+import { ethers } from "ethers";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+// deployments/<network>.json: every vault proxy deployed by the tasks, its implementation
+// history and initializer args, plus the EmergencyKeeper, the linked PositionLib and each
+// vault's WithdrawalQueue, FeeSplitter, VaultTimelock and DepositLimiter. Tasks take a registered name wherever
+// they take a vault address.
+
+const UPGRADED_TOPIC = ethers.id("Upgraded(address)");
+
+export interface ImplementationRecord {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  /** Block timestamp, ISO 8601 */
+  timestamp: string;
+}
+
+export interface VaultInitArgs {
+  admin: string;
+  feeRecipient: string;
+  /** Decimal strings: bigints don't survive JSON */
+  targetLTV: string;
+  performanceFeeBps: string;
+  maxTotalAssets: string;
+}
+
+export interface VaultDeployment {
+  proxy: string;
+  deployBlock: number;
+  initArgs: VaultInitArgs;
+  /** Oldest first; the last entry is the live implementation */
+  implementations: ImplementationRecord[];
+}
+
+export interface KeeperDeployment {
+  address: string;
+  owner: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: string;
+  /** Vault proxies the keeper was granted KEEPER_ROLE + PAUSER_ROLE on */
+  vaults: string[];
+}
+
+/** Library linked into SUSDDVault implementations; reused while its code matches the compiled one */
+export interface LibraryDeployment {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface QueueDeployment {
+  address: string;
+  admin: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: string;
+}
+
+export interface FeeSplitterDeployment {
+  address: string;
+  admin: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: string;
+}
+
+export interface TimelockDeployment {
+  address: string;
+  proposer: string;
+  /** Seconds at deployment; later changes go through the timelock itself */
+  delay: number;
+  txHash: string;
+  blockNumber: number;
+  timestamp: string;
+}
+
+export interface DepositLimiterDeployment {
+  address: string;
+  admin: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: string;
+}
+
+export interface DeploymentRegistry {
+  network: string;
+  chainId: number;
+  vaults: Record<string, VaultDeployment>;
+  emergencyKeeper?: KeeperDeployment;
+  positionLib?: LibraryDeployment;
+  /** WithdrawalQueue per vault proxy address */
+  withdrawalQueues?: Record<string, QueueDeployment>;
+  /** FeeSplitter per vault proxy address */
+  feeSplitters?: Record<string, FeeSplitterDeployment>;
+  /** VaultTimelock per vault proxy address */
+  timelocks?: Record<string, TimelockDeployment>;
+  /** DepositLimiter per vault proxy address */
+  depositLimiters?: Record<string, DepositLimiterDeployment>;
+}
+
+/** Registry directory; DEPLOYMENTS_DIR overrides it (tests, scratch deployments) */
+export function deploymentsDir(): string {
+  return process.env.DEPLOYMENTS_DIR ?? join(__dirname, "..", "..", "deployments");
+}
+
+export function registryPath(network: string): string {
+  return join(deploymentsDir(), `${network}.json`);
+}
+
+/** Load the network's registry, or an empty one. Refuses a file recorded on another chain. */
+export function loadRegistry(network: string, chainId: number): DeploymentRegistry {
+  const path = registryPath(network);
+  if (!existsSync(path)) return { network, chainId, vaults: {} };
+
+  const registry = JSON.parse(readFileSync(path, "utf8")) as DeploymentRegistry;
+  if (registry.chainId !== chainId) {
+    throw new Error(`${path} was recorded on chain ${registry.chainId}, but the provider is on chain ${chainId}`);
+  }
+  return registry;
+}
+
+export function saveRegistry(registry: DeploymentRegistry): string {
+  const path = registryPath(registry.network);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(registry, null, 2) + "\n");
+  return path;
+}
+
+/** Name of the vault registered at `proxy`, if any */
+export function findVaultName(registry: DeploymentRegistry, proxy: string): string | undefined {
+  return Object.keys(registry.vaults).find((name) => registry.vaults[name].proxy.toLowerCase() === proxy.toLowerCase());
+}
+
+/** Resolve a vault name to its proxy; addresses pass through unchanged */
+export function resolveVault(registry: DeploymentRegistry, ref: string): string {
+  if (ethers.isHexString(ref, 20)) return ref;
+
+  const vault = registry.vaults[ref];
+  if (!vault) {
+    const known = Object.keys(registry.vaults);
+    throw new Error(
+      `Unknown vault "${ref}" on ${registry.network}` +
+      (known.length > 0 ? ` (registered: ${known.join(", ")})` : " (no vaults registered)")
+    );
+  }
+  return vault.proxy;
+}
+
+/**
+ * Implementation history from the proxy's ERC1967 Upgraded events. Covers the
+ * initial implementation (set in the proxy constructor) and upgrades sent from
+ * anywhere, e.g. a multisig.
+ */
+export async function readImplementationHistory(
+  provider: ethers.Provider,
+  proxy: string,
+  fromBlock = 0
+): Promise<ImplementationRecord[]> {
+  const logs = await provider.getLogs({ address: proxy, topics: [UPGRADED_TOPIC], fromBlock, toBlock: "latest" });
+
+  const records: ImplementationRecord[] = [];
+  for (const log of logs) {
+    const block = await provider.getBlock(log.blockNumber);
+    records.push({
+      address: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp: new Date(Number(block!.timestamp) * 1000).toISOString(),
+    });
+  }
+  return records;
+}
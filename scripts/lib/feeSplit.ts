@@ -0,0 +1,107 @@
+import { ethers } from "ethers";
+import { FeeSplitter__factory } from "../../typechain-types";
+import { FeeRecord } from "./indexer";
+import { FeeSplitEntry } from "./params";
+
+// Fee attribution for vaults whose feeRecipient is a FeeSplitter. The splitter forwards
+// fee shares at the split in force when they were minted (setRecipients distributes
+// first), so each FeeRecord is split by the last RecipientsUpdated before it, with the
+// contract's rounding: floor per recipient, the last one takes the dust.
+
+export interface SplitChange {
+  blockNumber: number;
+  logIndex: number;
+  split: FeeSplitEntry[];
+}
+
+export interface FeeAttribution {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  kind: FeeRecord["kind"];
+  /** The vault's feeRecipient: the splitter, or `account` itself when unsplit */
+  recipient: string;
+  account: string;
+  bps: bigint;
+  feeShares: bigint;
+  feeAssets: bigint;
+}
+
+export interface RecipientTotal {
+  account: string;
+  feeShares: bigint;
+  feeAssets: bigint;
+}
+
+/** RecipientsUpdated history of a FeeSplitter, oldest first; empty for any other address */
+export async function readSplitHistory(
+  provider: ethers.Provider,
+  splitter: string,
+  fromBlock = 0
+): Promise<SplitChange[]> {
+  const iface = FeeSplitter__factory.createInterface();
+  const logs = await provider.getLogs({
+    address: splitter,
+    topics: [iface.getEvent("RecipientsUpdated").topicHash],
+    fromBlock,
+    toBlock: "latest",
+  });
+  return logs.map((log) => {
+    const { accounts, bps } = iface.parseLog(log)!.args;
+    return {
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      split: (accounts as string[]).map((account, i) => ({ account, bps: (bps as bigint[])[i] })),
+    };
+  });
+}
+
+/** Split a share or asset amount the way FeeSplitter._distribute does */
+export function splitAmount(amount: bigint, split: FeeSplitEntry[]): bigint[] {
+  let distributed = 0n;
+  return split.map((entry, i) => {
+    const part = i === split.length - 1 ? amount - distributed : (amount * entry.bps) / 10000n;
+    distributed += part;
+    return part;
+  });
+}
+
+/**
+ * Attribute each fee to the accounts that received it. `histories` maps a feeRecipient
+ * to its split history (readSplitHistory); recipients without one keep the whole fee.
+ */
+export function attributeFees(fees: FeeRecord[], histories: Map<string, SplitChange[]>): FeeAttribution[] {
+  return fees.flatMap((fee) => {
+    const history = histories.get(fee.recipient) ?? [];
+    const before = history.filter(
+      (c) => c.blockNumber < fee.blockNumber || (c.blockNumber === fee.blockNumber && c.logIndex < fee.logIndex)
+    );
+    const split = before[before.length - 1]?.split ?? [{ account: fee.recipient, bps: 10000n }];
+
+    const shares = splitAmount(fee.feeShares, split);
+    const assets = splitAmount(fee.feeAssets, split);
+    return split.map((entry, i) => ({
+      blockNumber: fee.blockNumber,
+      timestamp: fee.timestamp,
+      txHash: fee.txHash,
+      kind: fee.kind,
+      recipient: fee.recipient,
+      account: entry.account,
+      bps: entry.bps,
+      feeShares: shares[i],
+      feeAssets: assets[i],
+    }));
+  });
+}
+
+/** Attributed fees summed per account, largest USDT value first */
+export function totalsByRecipient(attributions: FeeAttribution[]): RecipientTotal[] {
+  const totals = new Map<string, RecipientTotal>();
+  for (const a of attributions) {
+    const total = totals.get(a.account) ?? { account: a.account, feeShares: 0n, feeAssets: 0n };
+    total.feeShares += a.feeShares;
+    total.feeAssets += a.feeAssets;
+    totals.set(a.account, total);
+  }
+  return [...totals.values()].sort((a, b) => (b.feeAssets > a.feeAssets ? 1 : b.feeAssets < a.feeAssets ? -1 : 0));
+}
@@ -0,0 +1,308 @@
+import { ethers } from "ethers";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { SUSDDVault__factory } from "../../typechain-types";
+import { WAD } from "./constants";
+
+// Event indexer: rebuilds a vault's history from its logs into a normalized timeline kept
+// in a JSON file, and answers the questions the logs alone can't: PPS over time, fees paid
+// and each holder's cost basis. Indexing is incremental: a store remembers the last block
+// it scanned and the next run continues from there.
+
+export const INDEXED_EVENTS = [
+  "VaultSnapshot",
+  "Deposit",
+  "Withdraw",
+  "Transfer",
+  "Rebalanced",
+  "PerformanceFeeAccrued",
+  "ManagementFeeAccrued",
+  "EntryExitFeeAccrued",
+  "RewardsClaimed",
+] as const;
+
+interface EventBase {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+}
+
+export type TimelineEvent = EventBase &
+  (
+    | { type: "snapshot"; totalAssets: bigint; totalSupply: bigint; pricePerShare: bigint }
+    | { type: "deposit"; sender: string; owner: string; assets: bigint; shares: bigint }
+    | { type: "withdraw"; sender: string; receiver: string; owner: string; assets: bigint; shares: bigint }
+    | { type: "transfer"; from: string; to: string; value: bigint }
+    | { type: "rebalance"; oldLTV: bigint; newLTV: bigint }
+    | { type: "fee"; kind: FeeKind; feeShares: bigint; recipient: string }
+    | { type: "rewards"; usddReceived: bigint }
+  );
+
+export type TimelineEventType = TimelineEvent["type"];
+
+/** PerformanceFeeAccrued, ManagementFeeAccrued or EntryExitFeeAccrued (deposit/redeem fee paid to feeRecipient) */
+export type FeeKind = "performance" | "management" | "entry-exit";
+
+export interface HistoryStore {
+  version: 1;
+  chainId: number;
+  vault: string;
+  fromBlock: number;
+  /** Last block scanned (fromBlock - 1 before the first scan) */
+  lastBlock: number;
+  events: TimelineEvent[];
+}
+
+// Stored as decimal strings; JSON has no bigint
+const BIGINT_FIELDS = new Set([
+  "totalAssets",
+  "totalSupply",
+  "pricePerShare",
+  "assets",
+  "shares",
+  "value",
+  "oldLTV",
+  "newLTV",
+  "feeShares",
+  "usddReceived",
+]);
+
+// ============ Store ============
+
+/** Store directory; HISTORY_DIR overrides it (tests, scratch indexes) */
+export function historyDir(): string {
+  return process.env.HISTORY_DIR ?? join(__dirname, "..", "..", "history");
+}
+
+export function historyPath(chainId: number, vault: string): string {
+  return join(historyDir(), `${chainId}-${ethers.getAddress(vault)}.json`);
+}
+
+export function emptyStore(chainId: number, vault: string, fromBlock: number): HistoryStore {
+  return { version: 1, chainId, vault: ethers.getAddress(vault), fromBlock, lastBlock: fromBlock - 1, events: [] };
+}
+
+/** Load a store, or undefined if the file doesn't exist; throws if it belongs to another chain/vault */
+export function loadStore(path: string, expected?: { chainId: number; vault: string }): HistoryStore | undefined {
+  if (!existsSync(path)) return undefined;
+  const store: HistoryStore = JSON.parse(readFileSync(path, "utf8"), (key, value) =>
+    BIGINT_FIELDS.has(key) && typeof value === "string" ? BigInt(value) : value
+  );
+  if (expected && (store.chainId !== expected.chainId || store.vault !== ethers.getAddress(expected.vault))) {
+    throw new Error(
+      `${path} indexes ${store.vault} on chain ${store.chainId}, not ${ethers.getAddress(expected.vault)} on ${expected.chainId}`
+    );
+  }
+  return store;
+}
+
+export function saveStore(path: string, store: HistoryStore): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(store, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2) + "\n");
+}
+
+// ============ Indexing ============
+
+function toTimelineEvent(log: ethers.LogDescription, base: EventBase): TimelineEvent | undefined {
+  const a = log.args;
+  switch (log.name) {
+    case "VaultSnapshot":
+      return { ...base, type: "snapshot", totalAssets: a.totalAssets, totalSupply: a.totalSupply, pricePerShare: a.pricePerShare };
+    case "Deposit":
+      return { ...base, type: "deposit", sender: a.sender, owner: a.owner, assets: a.assets, shares: a.shares };
+    case "Withdraw":
+      return { ...base, type: "withdraw", sender: a.sender, receiver: a.receiver, owner: a.owner, assets: a.assets, shares: a.shares };
+    case "Transfer":
+      return { ...base, type: "transfer", from: a.from, to: a.to, value: a.value };
+    case "Rebalanced":
+      return { ...base, type: "rebalance", oldLTV: a.oldLTV, newLTV: a.newLTV };
+    case "PerformanceFeeAccrued":
+      return { ...base, type: "fee", kind: "performance", feeShares: a.feeShares, recipient: a.recipient };
+    case "ManagementFeeAccrued":
+      return { ...base, type: "fee", kind: "management", feeShares: a.feeShares, recipient: a.recipient };
+    case "EntryExitFeeAccrued":
+      return { ...base, type: "fee", kind: "entry-exit", feeShares: a.feeShares, recipient: a.recipient };
+    case "RewardsClaimed":
+      return { ...base, type: "rewards", usddReceived: a.usddReceived };
+  }
+  return undefined;
+}
+
+/**
+ * Scan `store.lastBlock + 1 .. toBlock` in `batchSize`-block getLogs calls and append the
+ * decoded events. Returns the number of events added; the store is updated in place.
+ */
+export async function indexVault(
+  provider: ethers.Provider,
+  store: HistoryStore,
+  toBlock: number,
+  batchSize = 10_000
+): Promise<number> {
+  const iface = SUSDDVault__factory.createInterface();
+  const topics = INDEXED_EVENTS.map((name) => iface.getEvent(name)!.topicHash);
+  const timestamps = new Map<number, number>();
+  let added = 0;
+
+  for (let from = store.lastBlock + 1; from <= toBlock; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, toBlock);
+    const logs = await provider.getLogs({ address: store.vault, fromBlock: from, toBlock: to, topics: [topics] });
+
+    for (const log of logs) {
+      const parsed = iface.parseLog(log);
+      if (!parsed) continue;
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block!.timestamp);
+      }
+      const event = toTimelineEvent(parsed, {
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        txHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber)!,
+      });
+      if (event) {
+        store.events.push(event);
+        added++;
+      }
+    }
+    store.lastBlock = to;
+  }
+
+  return added;
+}
+
+// ============ Queries ============
+
+export function eventsOfType<T extends TimelineEventType>(
+  store: HistoryStore,
+  type: T
+): Extract<TimelineEvent, { type: T }>[] {
+  return store.events.filter((e): e is Extract<TimelineEvent, { type: T }> => e.type === type);
+}
+
+export interface PPSPoint {
+  blockNumber: number;
+  timestamp: number;
+  pricePerShare: bigint;
+  totalAssets: bigint;
+  totalSupply: bigint;
+}
+
+/** VaultSnapshot series, optionally limited to [from, to] timestamps */
+export function ppsHistory(store: HistoryStore, from = 0, to = Infinity): PPSPoint[] {
+  return eventsOfType(store, "snapshot")
+    .filter((e) => e.timestamp >= from && e.timestamp <= to)
+    .map(({ blockNumber, timestamp, pricePerShare, totalAssets, totalSupply }) => ({
+      blockNumber,
+      timestamp,
+      pricePerShare,
+      totalAssets,
+      totalSupply,
+    }));
+}
+
+export interface FeeRecord {
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  txHash: string;
+  kind: FeeKind;
+  recipient: string;
+  feeShares: bigint;
+  /** feeShares at the pricePerShare of the snapshot closing the same transaction (USDT, 6 decimals) */
+  feeAssets: bigint;
+  pricePerShare: bigint;
+}
+
+export function feeHistory(store: HistoryStore): FeeRecord[] {
+  const snapshots = eventsOfType(store, "snapshot");
+  return eventsOfType(store, "fee").map((fee) => {
+    // Every accruing call ends with _emitSnapshot in the same transaction
+    const snapshot = snapshots.find((s) => s.txHash === fee.txHash && s.logIndex > fee.logIndex);
+    const pricePerShare = snapshot?.pricePerShare ?? 0n;
+    return {
+      blockNumber: fee.blockNumber,
+      logIndex: fee.logIndex,
+      timestamp: fee.timestamp,
+      txHash: fee.txHash,
+      // Stores indexed before the management fee only hold performance fees
+      kind: fee.kind ?? "performance",
+      recipient: fee.recipient,
+      feeShares: fee.feeShares,
+      feeAssets: (fee.feeShares * pricePerShare) / WAD,
+      pricePerShare,
+    };
+  });
+}
+
+export interface CostBasis {
+  account: string;
+  shares: bigint;
+  /** USDT paid for the shares still held (average cost) */
+  costBasis: bigint;
+  deposited: bigint;
+  withdrawn: bigint;
+  /** withdrawn USDT minus the cost basis of the shares redeemed */
+  realizedPnl: bigint;
+  /** Shares received as fees (zero cost) */
+  feeShares: bigint;
+}
+
+function emptyBasis(account: string): CostBasis {
+  return { account, shares: 0n, costBasis: 0n, deposited: 0n, withdrawn: 0n, realizedPnl: 0n, feeShares: 0n };
+}
+
+/**
+ * Average-cost basis per holder. Shares enter through Deposit (at the USDT paid) and
+ * the fee events (at zero cost), leave through Withdraw, and carry their basis
+ * along on holder-to-holder Transfers. Mint/burn Transfers are covered by those events.
+ */
+export function costBasis(store: HistoryStore): Map<string, CostBasis> {
+  const holders = new Map<string, CostBasis>();
+  const get = (account: string) => {
+    if (!holders.has(account)) holders.set(account, emptyBasis(account));
+    return holders.get(account)!;
+  };
+  const removeShares = (basis: CostBasis, shares: bigint): bigint => {
+    const cost = basis.shares > 0n ? (basis.costBasis * shares) / basis.shares : 0n;
+    basis.shares -= shares;
+    basis.costBasis -= cost;
+    return cost;
+  };
+
+  for (const event of store.events) {
+    switch (event.type) {
+      case "deposit": {
+        const basis = get(event.owner);
+        basis.shares += event.shares;
+        basis.costBasis += event.assets;
+        basis.deposited += event.assets;
+        break;
+      }
+      case "withdraw": {
+        const basis = get(event.owner);
+        const cost = removeShares(basis, event.shares);
+        basis.withdrawn += event.assets;
+        basis.realizedPnl += event.assets - cost;
+        break;
+      }
+      case "fee": {
+        const basis = get(event.recipient);
+        basis.shares += event.feeShares;
+        basis.feeShares += event.feeShares;
+        break;
+      }
+      case "transfer": {
+        if (event.from === ethers.ZeroAddress || event.to === ethers.ZeroAddress) break;
+        const cost = removeShares(get(event.from), event.value);
+        const to = get(event.to);
+        to.shares += event.value;
+        to.costBasis += cost;
+        break;
+      }
+    }
+  }
+
+  return holders;
+}
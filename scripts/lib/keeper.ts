@@ -0,0 +1,102 @@
+import { ethers } from "ethers";
+import { SUSDDVault } from "../../typechain-types";
+import { IDLE_MODE } from "./constants";
+import { PositionState, readPositionState } from "./position";
+
+export interface KeeperConfig {
+  /** Rebalance when LTV exceeds targetLTV by more than this (WAD) */
+  upperBand: bigint;
+  /** Rebalance when LTV falls below targetLTV by more than this (WAD) */
+  lowerBand: bigint;
+  /** Always delever when LTV gets within this distance of the market LLTV (WAD) */
+  lltvBuffer: bigint;
+  /** Largest flash loan per transaction (USDT, 6 decimals); 0 = single rebalance() */
+  maxDebtDelta: bigint;
+  /** Log decisions without sending transactions */
+  dryRun: boolean;
+}
+
+export const DEFAULT_KEEPER_CONFIG: KeeperConfig = {
+  upperBand: ethers.parseEther("0.02"),
+  lowerBand: ethers.parseEther("0.05"),
+  lltvBuffer: ethers.parseEther("0.03"),
+  maxDebtDelta: 0n,
+  dryRun: false,
+};
+
+export type RebalanceReason = "near-lltv" | "above-band" | "below-band";
+
+export interface RebalanceDecision {
+  reason: RebalanceReason;
+  currentLTV: bigint;
+  /** LTV passed to rebalance() — the vault's own targetLTV, so the position is re-centred */
+  newTargetLTV: bigint;
+}
+
+export interface KeeperTickResult {
+  state: PositionState;
+  decision: RebalanceDecision | null;
+  /** Last transaction sent */
+  txHash?: string;
+  /** rebalanceStep() calls it took to reach the target (maxDebtDelta only) */
+  steps?: number;
+}
+
+/** Guards the rebalanceStep() loop against a target that never converges */
+export const MAX_REBALANCE_STEPS = 50;
+
+/**
+ * Decide whether the position drifted far enough from targetLTV to rebalance.
+ *
+ * Drift comes from borrow interest (debt grows) and sUSDD rate accrual (collateral grows),
+ * so the keeper only re-applies the current targetLTV; choosing a new target is an operator call.
+ * IDLE_MODE has no position to manage and is ignored.
+ */
+export function decideRebalance(state: PositionState, config: KeeperConfig): RebalanceDecision | null {
+  if (state.targetLTV === IDLE_MODE) return null;
+  if (state.nav === 0n) return null; // Empty or underwater: rebalance() would be a no-op
+
+  const { ltv, targetLTV, lltv } = state;
+  const decision = (reason: RebalanceReason): RebalanceDecision => ({ reason, currentLTV: ltv, newTargetLTV: targetLTV });
+
+  if (state.debt > 0n && ltv + config.lltvBuffer >= lltv) return decision("near-lltv");
+  if (ltv > targetLTV + config.upperBand) return decision("above-band");
+  if (ltv + config.lowerBand < targetLTV) return decision("below-band");
+
+  return null;
+}
+
+/**
+ * Read the position, decide, and (unless dry-run) submit rebalance() from the vault's signer.
+ * With maxDebtDelta set, calls rebalanceStep() until its RebalanceStep event reports nothing left.
+ */
+export async function runKeeperTick(vault: SUSDDVault, config: KeeperConfig): Promise<KeeperTickResult> {
+  const runner = vault.runner;
+  if (!runner) throw new Error("runKeeperTick: vault is not connected to a runner");
+
+  const state = await readPositionState(await vault.getAddress(), runner);
+  const decision = decideRebalance(state, config);
+
+  if (!decision || config.dryRun) return { state, decision };
+
+  if (config.maxDebtDelta === 0n) {
+    const tx = await vault.rebalance(decision.newTargetLTV);
+    await tx.wait();
+    return { state, decision, txHash: tx.hash };
+  }
+
+  for (let steps = 1; steps <= MAX_REBALANCE_STEPS; steps++) {
+    const tx = await vault.rebalanceStep(decision.newTargetLTV, config.maxDebtDelta);
+    const receipt = await tx.wait();
+    const [step] = (receipt?.logs ?? [])
+      .map((log) => vault.interface.parseLog(log))
+      .filter((parsed) => parsed?.name === "RebalanceStep");
+    if (!step || step.args.remainingDebtDelta === 0n) return { state, decision, txHash: tx.hash, steps };
+  }
+  throw new Error(`runKeeperTick: target not reached after ${MAX_REBALANCE_STEPS} rebalanceStep() calls`);
+}
+
+export function formatLTV(ltv: bigint): string {
+  if (ltv === IDLE_MODE) return "IDLE_MODE";
+  return ethers.formatUnits(ltv, 16) + "%";
+}
@@ -0,0 +1,48 @@
+import { ContractRunner, ethers } from "ethers";
+import { SUSDDVault__factory } from "../../typechain-types";
+import { WAD } from "./constants";
+import { readPositionState } from "./position";
+
+// PSM liquidity monitoring. Redeems and exits to idle sell sUSDD collateral through
+// buyGem, which only succeeds while the PSM's gemJoin holds enough USDT. Reads the vault's
+// availablePSMLiquidity view, the number its maxRedeem cap uses.
+
+export interface PSMLiquidityState {
+  vault: string;
+  blockNumber: number;
+  /** USDT held by the PSM's gemJoin (6 decimals) */
+  available: bigint;
+  /** USDT value of the vault's collateral: what a full exit buys from the PSM */
+  collateralValue: bigint;
+  /** available / collateralValue (WAD); undefined without collateral */
+  coverage?: bigint;
+  /** Share of the vault redeemable right now (WAD, capped at 1) */
+  redeemableFraction: bigint;
+}
+
+export async function readPSMLiquidity(vaultAddress: string, runner: ContractRunner): Promise<PSMLiquidityState> {
+  const vault = SUSDDVault__factory.connect(vaultAddress, runner);
+
+  const position = await readPositionState(vaultAddress, runner);
+  const available = await vault.availablePSMLiquidity({ blockTag: position.blockNumber });
+  const coverage = position.collateralValue > 0n ? (available * WAD) / position.collateralValue : undefined;
+
+  return {
+    vault: vaultAddress,
+    blockNumber: position.blockNumber,
+    available,
+    collateralValue: position.collateralValue,
+    coverage,
+    redeemableFraction: coverage === undefined || coverage > WAD ? WAD : coverage,
+  };
+}
+
+/** Alert message when coverage is below `minCoverage` (WAD, 1 = the whole vault can exit), else null */
+export function checkPSMLiquidity(state: PSMLiquidityState, minCoverage: bigint): string | null {
+  if (state.coverage === undefined || state.coverage >= minCoverage) return null;
+  return (
+    `PSM liquidity covers ${ethers.formatUnits(state.coverage * 100n, 18)}% of the vault's collateral ` +
+    `(${ethers.formatUnits(state.available, 6)} of ${ethers.formatUnits(state.collateralValue, 6)} USDT), ` +
+    `below the ${ethers.formatUnits(minCoverage * 100n, 18)}% minimum`
+  );
+}
@@ -0,0 +1,68 @@
+import { ethers, network } from "hardhat";
+import { MockERC20, MockMorpho, MockPSM, MockSUSDD } from "../../typechain-types";
+import { ADDRESSES, MARKET_ID } from "./constants";
+
+/**
+ * Local stand-ins for USDT, USDD, sUSDD, PSM and Morpho at their mainnet addresses.
+ *
+ * Same setup as the unit tests: mocks are deployed normally, then their runtime code is
+ * copied to the hardcoded Constants.sol addresses with hardhat_setCode. Storage does not
+ * survive the copy, so anything stateful (market, liquidity) is initialised afterwards.
+ * Only works on the in-process hardhat network without a mainnet fork.
+ */
+export interface MockEnvironment {
+  usdt: MockERC20;
+  usdd: MockERC20;
+  susdd: MockSUSDD;
+  psm: MockPSM;
+  morpho: MockMorpho;
+}
+
+async function setCodeFrom(target: string, deployed: { getAddress(): Promise<string> }) {
+  const code = await ethers.provider.getCode(await deployed.getAddress());
+  await network.provider.send("hardhat_setCode", [target, code]);
+}
+
+export async function deployMockEnvironment(
+  options: { lltv?: bigint; liquidity?: bigint; irm?: string } = {}
+): Promise<MockEnvironment> {
+  const lltv = options.lltv ?? ethers.parseEther("0.86");
+  const liquidity = options.liquidity ?? ethers.parseUnits("1000000", 6);
+
+  const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+  const MockSUSDDFactory = await ethers.getContractFactory("MockSUSDD");
+  const MockPSMFactory = await ethers.getContractFactory("MockPSM");
+  const MockMorphoFactory = await ethers.getContractFactory("MockMorpho");
+
+  await setCodeFrom(ADDRESSES.USDT, await MockERC20Factory.deploy("Mock USDT", "USDT", 6));
+  await setCodeFrom(ADDRESSES.USDD, await MockERC20Factory.deploy("Mock USDD", "USDD", 18));
+  await setCodeFrom(ADDRESSES.SUSDD, await MockSUSDDFactory.deploy(ADDRESSES.USDD, "Mock sUSDD", "sUSDD"));
+  // PSM gets its own target address so gemJoin is correct after the code copy
+  await setCodeFrom(ADDRESSES.PSM, await MockPSMFactory.deploy(ADDRESSES.USDT, ADDRESSES.USDD, ADDRESSES.PSM));
+  await setCodeFrom(ADDRESSES.MORPHO, await MockMorphoFactory.deploy());
+
+  const env: MockEnvironment = {
+    usdt: MockERC20Factory.attach(ADDRESSES.USDT) as MockERC20,
+    usdd: MockERC20Factory.attach(ADDRESSES.USDD) as MockERC20,
+    susdd: MockSUSDDFactory.attach(ADDRESSES.SUSDD) as MockSUSDD,
+    psm: MockPSMFactory.attach(ADDRESSES.PSM) as MockPSM,
+    morpho: MockMorphoFactory.attach(ADDRESSES.MORPHO) as MockMorpho,
+  };
+
+  await env.morpho.createMarketWithId(MARKET_ID, {
+    loanToken: ADDRESSES.USDT,
+    collateralToken: ADDRESSES.SUSDD,
+    oracle: ethers.ZeroAddress, // Not used in mock
+    irm: options.irm ?? ethers.ZeroAddress, // Only read off-chain: MockMorpho never accrues interest
+    lltv,
+  });
+
+  // Serve the vault's real borrow shares to MorphoBalancesLib, so NAV and LTV include its debt
+  await env.morpho.setExtSloadsEnabled(true);
+
+  // PSM gem liquidity and Morpho flash loan liquidity
+  await env.usdt.mint(ADDRESSES.PSM, liquidity);
+  await env.usdt.mint(ADDRESSES.MORPHO, liquidity);
+
+  return env;
+}
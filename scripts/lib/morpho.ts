@@ -0,0 +1,83 @@
+import { WAD } from "./constants";
+
+// Off-chain port of the Morpho Blue math the vault relies on
+// (SharesMathLib, MathLib.wTaylorCompounded, MorphoBalancesLib.expectedMarketBalances).
+// Keep in sync with @morpho-org/morpho-blue/src/libraries.
+
+const VIRTUAL_SHARES = 10n ** 6n;
+const VIRTUAL_ASSETS = 1n;
+
+export interface MarketState {
+  totalSupplyAssets: bigint;
+  totalSupplyShares: bigint;
+  totalBorrowAssets: bigint;
+  totalBorrowShares: bigint;
+  lastUpdate: bigint;
+  fee: bigint;
+}
+
+export function mulDivDown(x: bigint, y: bigint, d: bigint): bigint {
+  return (x * y) / d;
+}
+
+export function mulDivUp(x: bigint, y: bigint, d: bigint): bigint {
+  return (x * y + (d - 1n)) / d;
+}
+
+export function wMulDown(x: bigint, y: bigint): bigint {
+  return mulDivDown(x, y, WAD);
+}
+
+export function toAssetsDown(shares: bigint, totalAssets: bigint, totalShares: bigint): bigint {
+  return mulDivDown(shares, totalAssets + VIRTUAL_ASSETS, totalShares + VIRTUAL_SHARES);
+}
+
+export function toAssetsUp(shares: bigint, totalAssets: bigint, totalShares: bigint): bigint {
+  return mulDivUp(shares, totalAssets + VIRTUAL_ASSETS, totalShares + VIRTUAL_SHARES);
+}
+
+export function toSharesDown(assets: bigint, totalAssets: bigint, totalShares: bigint): bigint {
+  return mulDivDown(assets, totalShares + VIRTUAL_SHARES, totalAssets + VIRTUAL_ASSETS);
+}
+
+/** e^(x*n) - 1 approximated with the first three Taylor terms (same as MathLib) */
+export function wTaylorCompounded(x: bigint, n: bigint): bigint {
+  const firstTerm = x * n;
+  const secondTerm = mulDivDown(firstTerm, firstTerm, 2n * WAD);
+  const thirdTerm = mulDivDown(secondTerm, firstTerm, 3n * WAD);
+  return firstTerm + secondTerm + thirdTerm;
+}
+
+/**
+ * Market balances with interest accrued up to `timestamp`
+ * @param borrowRate Per-second borrow rate (WAD) from IIrm.borrowRateView, 0 if irm is unset
+ */
+export function expectedMarketBalances(market: MarketState, borrowRate: bigint, timestamp: bigint): MarketState {
+  const result = { ...market };
+  const elapsed = timestamp - market.lastUpdate;
+
+  if (elapsed > 0n && market.totalBorrowAssets !== 0n && borrowRate !== 0n) {
+    const interest = wMulDown(market.totalBorrowAssets, wTaylorCompounded(borrowRate, elapsed));
+    result.totalBorrowAssets += interest;
+    result.totalSupplyAssets += interest;
+
+    if (market.fee !== 0n) {
+      const feeAmount = wMulDown(interest, market.fee);
+      const feeShares = toSharesDown(feeAmount, result.totalSupplyAssets - feeAmount, result.totalSupplyShares);
+      result.totalSupplyShares += feeShares;
+    }
+  }
+
+  return result;
+}
+
+/** Off-chain equivalent of MorphoBalancesLib.expectedBorrowAssets */
+export function expectedBorrowAssets(
+  borrowShares: bigint,
+  market: MarketState,
+  borrowRate: bigint,
+  timestamp: bigint
+): bigint {
+  const expected = expectedMarketBalances(market, borrowRate, timestamp);
+  return toAssetsUp(borrowShares, expected.totalBorrowAssets, expected.totalBorrowShares);
+}
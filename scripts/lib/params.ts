@@ -0,0 +1,182 @@
+import { ethers } from "ethers";
+import { IDLE_MODE, MAX_LTV } from "./constants";
+
+// Parsing and validation for operator-supplied parameters (hardhat tasks, config files).
+// Every failure is an InvalidParamError naming the parameter, so operators never see raw
+// ethers.parseUnits / getAddress errors.
+
+// SUSDDVault.MAX_PERFORMANCE_FEE_BPS
+export const MAX_PERFORMANCE_FEE_BPS = 3000n;
+// SUSDDVault.MAX_MANAGEMENT_FEE_BPS (per year)
+export const MAX_MANAGEMENT_FEE_BPS = 500n;
+// SUSDDVault.MAX_ENTRY_EXIT_FEE_BPS (each of the deposit and redeem fee)
+export const MAX_ENTRY_EXIT_FEE_BPS = 100n;
+// VaultTimelock.MAX_DELAY, in seconds
+export const MAX_TIMELOCK_DELAY = 30 * 24 * 3600;
+
+export class InvalidParamError extends Error {
+  constructor(readonly param: string, reason: string) {
+    super(`Invalid ${param}: ${reason}`);
+    this.name = "InvalidParamError";
+  }
+}
+
+/** Address in EIP-55 checksum form; all-lowercase or mis-checksummed input is rejected */
+export function parseAddress(param: string, value: string): string {
+  if (!ethers.isHexString(value, 20)) {
+    throw new InvalidParamError(param, `"${value}" is not a 20-byte hex address`);
+  }
+  let checksummed: string;
+  try {
+    checksummed = ethers.getAddress(value);
+  } catch {
+    throw new InvalidParamError(param, `"${value}" has an invalid checksum`);
+  }
+  if (checksummed !== value) {
+    throw new InvalidParamError(param, `"${value}" is not checksummed (expected ${checksummed})`);
+  }
+  return checksummed;
+}
+
+/** Comma-separated list of checksummed addresses; empty input is an empty list */
+export function parseAddressList(param: string, value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+    .map((item) => parseAddress(param, item));
+}
+
+/** One FeeSplitter recipient and its weight */
+export interface FeeSplitEntry {
+  account: string;
+  bps: bigint;
+}
+
+/** Same rules as FeeSplitter.setRecipients: distinct recipients, non-zero weights summing to 10000 */
+export function validateFeeSplit(param: string, split: FeeSplitEntry[]): FeeSplitEntry[] {
+  if (split.length === 0) throw new InvalidParamError(param, "needs at least one recipient");
+  const accounts = split.map((entry) => entry.account.toLowerCase());
+  if (new Set(accounts).size !== accounts.length) throw new InvalidParamError(param, "contains duplicates");
+  if (split.some((entry) => entry.bps === 0n)) throw new InvalidParamError(param, "weights must be non-zero");
+  const total = split.reduce((sum, entry) => sum + entry.bps, 0n);
+  if (total !== 10000n) throw new InvalidParamError(param, `weights sum to ${total} bps, expected 10000`);
+  return split;
+}
+
+/** Fee split as comma-separated "address:bps" pairs ("0xA...:7000,0xB...:3000") */
+export function parseFeeSplit(param: string, value: string): FeeSplitEntry[] {
+  const split = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+    .map((item) => {
+      const [account, bps, ...rest] = item.split(":");
+      if (bps === undefined || rest.length > 0) {
+        throw new InvalidParamError(param, `"${item}" is not an address:bps pair`);
+      }
+      return { account: parseAddress(param, account), bps: parseFeeBps(param, bps, 10000n) };
+    });
+  return validateFeeSplit(param, split);
+}
+
+/** Vault reference: a checksummed proxy address or a name from deployments/<network>.json */
+export function parseVaultRef(param: string, value: string): string {
+  if (value.startsWith("0x")) return parseAddress(param, value);
+  if (!/^[A-Za-z0-9_.-]+$/.test(value)) {
+    throw new InvalidParamError(param, `"${value}" is neither an address nor a vault name (letters, digits, "_", ".", "-")`);
+  }
+  return value;
+}
+
+/** Comma-separated list of vault references */
+export function parseVaultRefList(param: string, value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+    .map((item) => parseVaultRef(param, item));
+}
+
+/**
+ * Target LTV as a decimal ("0.75"), or "idle" for IDLE_MODE.
+ * Range-checked against MAX_LTV; the market LLTV check needs chain state, see assertLTVBelowLLTV.
+ */
+export function parseLTV(param: string, value: string): bigint {
+  if (value.toLowerCase() === "idle") return IDLE_MODE;
+
+  const ltv = parseDecimal(param, value, 18);
+  if (ltv > MAX_LTV) {
+    throw new InvalidParamError(param, `${value} is above MAX_LTV (${ethers.formatUnits(MAX_LTV, 18)})`);
+  }
+  return ltv;
+}
+
+/** Same rule as SUSDDVault.initialize/rebalance: leveraged LTVs must stay strictly below LLTV */
+export function assertLTVBelowLLTV(param: string, ltv: bigint, lltv: bigint): void {
+  if (ltv === IDLE_MODE || ltv === 0n) return;
+  if (ltv >= lltv) {
+    throw new InvalidParamError(
+      param,
+      `${ethers.formatUnits(ltv, 18)} must be below the market LLTV (${ethers.formatUnits(lltv, 18)})`
+    );
+  }
+}
+
+/** Fee in basis points, 0..max (default: the performance fee cap) */
+export function parseFeeBps(param: string, value: string, max = MAX_PERFORMANCE_FEE_BPS): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidParamError(param, `"${value}" is not a whole number of basis points`);
+  }
+  const bps = BigInt(value);
+  if (bps > max) {
+    throw new InvalidParamError(param, `${value} bps is above the ${max} bps maximum`);
+  }
+  return bps;
+}
+
+const DURATION_UNITS: Record<string, number> = { "": 1, s: 1, m: 60, h: 3600, d: 86400 };
+
+/** Duration as seconds or with a unit ("3600", "48h", "2d"), returned in seconds */
+export function parseDuration(param: string, value: string): number {
+  const match = /^(\d+)([smhd]?)$/.exec(value);
+  if (!match) {
+    throw new InvalidParamError(param, `"${value}" is not a duration such as 3600, 48h or 2d`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/** Timelock delay, a duration of at most 30 days */
+export function parseDelay(param: string, value: string): number {
+  const seconds = parseDuration(param, value);
+  if (seconds > MAX_TIMELOCK_DELAY) {
+    throw new InvalidParamError(param, `${value} is above the 30-day maximum`);
+  }
+  return seconds;
+}
+
+/** USDT amount in whole units ("500000", "1234.5"), returned with 6 decimals */
+export function parseUSDT(param: string, value: string): bigint {
+  return parseDecimal(param, value, 6);
+}
+
+/** Signed decimal fraction ("-0.05" = -5%, "0.25" = 25% a year), returned as WAD */
+export function parseFraction(param: string, value: string): bigint {
+  if (!/^-?\d+(\.\d+)?$/.test(value)) {
+    throw new InvalidParamError(param, `"${value}" is not a decimal number`);
+  }
+  const negative = value.startsWith("-");
+  const magnitude = parseDecimal(param, negative ? value.slice(1) : value, 18);
+  return negative ? -magnitude : magnitude;
+}
+
+function parseDecimal(param: string, value: string, decimals: number): bigint {
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new InvalidParamError(param, `"${value}" is not a non-negative decimal number`);
+  }
+  const fraction = value.split(".")[1] ?? "";
+  if (fraction.length > decimals) {
+    throw new InvalidParamError(param, `"${value}" has more than ${decimals} decimal places`);
+  }
+  return ethers.parseUnits(value, decimals);
+}
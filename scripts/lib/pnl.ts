@@ -0,0 +1,169 @@
+import { ethers } from "ethers";
+import { WAD } from "./constants";
+import { HistoryStore, TimelineEvent, costBasis } from "./indexer";
+
+// Per-depositor PnL from the indexed history. Cost basis and realized PnL come from
+// indexer.costBasis (average cost); unrealized PnL marks the remaining shares at the
+// current pricePerShare. Fees are paid by dilution: each PerformanceFeeAccrued or
+// ManagementFeeAccrued mint is charged to the holders of that moment pro rata to their shares.
+// An EntryExitFeeAccrued mint is charged to the depositor/redeemer of its transaction only; a
+// deposit/redeem fee left in the vault shows in that holder's Deposit/Withdraw amounts instead.
+
+export interface DepositorPnl {
+  account: string;
+  shares: bigint;
+  costBasis: bigint;
+  /** shares at the current pricePerShare (USDT, 6 decimals) */
+  currentValue: bigint;
+  deposited: bigint;
+  withdrawn: bigint;
+  realizedPnl: bigint;
+  unrealizedPnl: bigint;
+  totalPnl: bigint;
+  /** Value of the fee shares minted against this holder's stake, at the fee's pricePerShare */
+  feesPaid: bigint;
+  /** Time-weighted return while holding shares (WAD, 0.1e18 = 10%) */
+  twr: bigint;
+  /** Seconds with a non-zero balance */
+  heldSeconds: number;
+}
+
+interface HoldingState {
+  shares: bigint;
+  /** Product of pricePerShare ratios over the periods with shares (WAD) */
+  growth: bigint;
+  periodPps: bigint;
+  periodStart: number;
+  heldSeconds: number;
+  feesPaid: bigint;
+}
+
+/**
+ * PnL for every address that ever held shares, marked at `pricePerShare` (WAD) and
+ * `timestamp` (typically the latest block).
+ */
+export function pnlReport(store: HistoryStore, pricePerShare: bigint, timestamp: number): DepositorPnl[] {
+  const holdings = new Map<string, HoldingState>();
+  const get = (account: string) => {
+    if (!holdings.has(account)) {
+      holdings.set(account, { shares: 0n, growth: WAD, periodPps: 0n, periodStart: 0, heldSeconds: 0, feesPaid: 0n });
+    }
+    return holdings.get(account)!;
+  };
+
+  // Flows are priced at the snapshot closing their transaction, or the last one before
+  const txPps = new Map<string, bigint>();
+  for (const event of store.events) if (event.type === "snapshot") txPps.set(event.txHash, event.pricePerShare);
+  let lastPps = WAD;
+
+  // Chain-link the holder's growth up to now, then apply the share change
+  const flow = (account: string, delta: bigint, event: TimelineEvent, pps: bigint) => {
+    const h = get(account);
+    if (h.shares > 0n) {
+      h.growth = (h.growth * pps) / h.periodPps;
+      h.heldSeconds += event.timestamp - h.periodStart;
+    }
+    h.shares += delta;
+    h.periodPps = pps;
+    h.periodStart = event.timestamp;
+  };
+
+  for (const event of store.events) {
+    const pps = txPps.get(event.txHash) ?? lastPps;
+    switch (event.type) {
+      case "snapshot":
+        lastPps = event.pricePerShare;
+        break;
+      case "deposit":
+        flow(event.owner, event.shares, event, pps);
+        break;
+      case "withdraw":
+        flow(event.owner, -event.shares, event, pps);
+        break;
+      case "transfer":
+        if (event.from === ethers.ZeroAddress || event.to === ethers.ZeroAddress) break;
+        flow(event.from, -event.value, event, pps);
+        flow(event.to, event.value, event, pps);
+        break;
+      case "fee": {
+        if (event.kind === "entry-exit") {
+          const payer = store.events.find(
+            (e): e is Extract<TimelineEvent, { type: "deposit" | "withdraw" }> =>
+              e.txHash === event.txHash && (e.type === "deposit" || e.type === "withdraw")
+          );
+          if (payer) get(payer.owner).feesPaid += (event.feeShares * pps) / WAD;
+          flow(event.recipient, event.feeShares, event, pps);
+          break;
+        }
+        const supplyBefore = [...holdings.values()].reduce((sum, h) => sum + h.shares, 0n);
+        if (supplyBefore > 0n) {
+          for (const h of holdings.values()) {
+            h.feesPaid += (h.shares * event.feeShares * pps) / (supplyBefore * WAD);
+          }
+        }
+        flow(event.recipient, event.feeShares, event, pps);
+        break;
+      }
+    }
+  }
+
+  const bases = costBasis(store);
+  return [...holdings.entries()].map(([account, h]) => {
+    let { growth, heldSeconds } = h;
+    if (h.shares > 0n) {
+      growth = (growth * pricePerShare) / h.periodPps;
+      heldSeconds += timestamp - h.periodStart;
+    }
+    const basis = bases.get(account)!;
+    const currentValue = (basis.shares * pricePerShare) / WAD;
+    const unrealizedPnl = currentValue - basis.costBasis;
+    return {
+      account,
+      shares: basis.shares,
+      costBasis: basis.costBasis,
+      currentValue,
+      deposited: basis.deposited,
+      withdrawn: basis.withdrawn,
+      realizedPnl: basis.realizedPnl,
+      unrealizedPnl,
+      totalPnl: basis.realizedPnl + unrealizedPnl,
+      feesPaid: h.feesPaid,
+      twr: growth - WAD,
+      heldSeconds,
+    };
+  });
+}
+
+// ============ Output ============
+
+const USDT_COLUMNS = [
+  "costBasis",
+  "currentValue",
+  "deposited",
+  "withdrawn",
+  "realizedPnl",
+  "unrealizedPnl",
+  "totalPnl",
+  "feesPaid",
+] as const;
+
+/** Report rows with amounts as decimal strings: shares and USDT with 6 decimals, twr as a fraction */
+export function formatPnlRows(rows: DepositorPnl[]): Record<string, string | number>[] {
+  return rows.map((row) => {
+    const out: Record<string, string | number> = { account: row.account, shares: ethers.formatUnits(row.shares, 6) };
+    for (const column of USDT_COLUMNS) out[column] = ethers.formatUnits(row[column], 6);
+    out.twr = ethers.formatUnits(row.twr, 18);
+    out.heldSeconds = row.heldSeconds;
+    return out;
+  });
+}
+
+export function pnlToCsv(rows: DepositorPnl[]): string {
+  const formatted = formatPnlRows(rows);
+  const header = ["account", "shares", ...USDT_COLUMNS, "twr", "heldSeconds"];
+  return [header.join(","), ...formatted.map((row) => header.map((column) => row[column]).join(","))].join("\n") + "\n";
+}
+
+export function pnlToJson(rows: DepositorPnl[]): string {
+  return JSON.stringify(formatPnlRows(rows), null, 2) + "\n";
+}
@@ -0,0 +1,115 @@
+import { ContractRunner, ethers } from "ethers";
+import {
+  IERC20__factory,
+  IERC4626__factory,
+  IIrm__factory,
+  IMorpho__factory,
+  SUSDDVault__factory,
+} from "../../typechain-types";
+import { ADDRESSES, MARKET_ID, WAD } from "./constants";
+import { MarketState, expectedBorrowAssets } from "./morpho";
+
+export interface MarketParamsStruct {
+  loanToken: string;
+  collateralToken: string;
+  oracle: string;
+  irm: string;
+  lltv: bigint;
+}
+
+/** Snapshot of everything needed to reason about the vault's leverage off-chain */
+export interface PositionState {
+  vault: string;
+  blockNumber: number;
+  timestamp: bigint;
+  targetLTV: bigint;
+  lltv: bigint;
+  idleUsdt: bigint;
+  collateral: bigint; // sUSDD (18 decimals)
+  borrowShares: bigint;
+  debt: bigint; // USDT (6 decimals), expectedBorrowAssets incl. accrued interest
+  collateralValue: bigint; // USDT (6 decimals), SwapHelper.getUSDTValue(collateral)
+  nav: bigint; // vault.totalAssets()
+  ltv: bigint; // debt / collateralValue (WAD), 0 without collateral
+  susddRate: bigint; // USDD per sUSDD (WAD)
+  borrowRate: bigint; // per-second borrow rate from the IRM (WAD), 0 if irm is unset
+  market: MarketState;
+  marketParams: MarketParamsStruct;
+}
+
+export async function readMarket(runner: ContractRunner) {
+  const morpho = IMorpho__factory.connect(ADDRESSES.MORPHO, runner);
+  const [params, m] = await Promise.all([morpho.idToMarketParams(MARKET_ID), morpho.market(MARKET_ID)]);
+
+  const marketParams: MarketParamsStruct = {
+    loanToken: params.loanToken,
+    collateralToken: params.collateralToken,
+    oracle: params.oracle,
+    irm: params.irm,
+    lltv: params.lltv,
+  };
+  const market: MarketState = {
+    totalSupplyAssets: m.totalSupplyAssets,
+    totalSupplyShares: m.totalSupplyShares,
+    totalBorrowAssets: m.totalBorrowAssets,
+    totalBorrowShares: m.totalBorrowShares,
+    lastUpdate: m.lastUpdate,
+    fee: m.fee,
+  };
+
+  // Same skip rule as MorphoBalancesLib: no IRM call when irm is unset or nothing is borrowed
+  let borrowRate = 0n;
+  if (marketParams.irm !== ethers.ZeroAddress && market.totalBorrowAssets > 0n) {
+    borrowRate = await IIrm__factory.connect(marketParams.irm, runner).borrowRateView(marketParams, market);
+  }
+
+  return { marketParams, market, borrowRate };
+}
+
+export async function readPositionState(vaultAddress: string, runner: ContractRunner): Promise<PositionState> {
+  const provider = runner.provider;
+  if (!provider) throw new Error("readPositionState: runner has no provider");
+
+  const vault = SUSDDVault__factory.connect(vaultAddress, runner);
+  const morpho = IMorpho__factory.connect(ADDRESSES.MORPHO, runner);
+  const susdd = IERC4626__factory.connect(ADDRESSES.SUSDD, runner);
+  const usdt = IERC20__factory.connect(ADDRESSES.USDT, runner);
+
+  const block = await provider.getBlock("latest");
+  if (!block) throw new Error("readPositionState: latest block unavailable");
+  const timestamp = BigInt(block.timestamp);
+
+  const [{ marketParams, market, borrowRate }, pos, targetLTV, nav, idleUsdt, susddRate] = await Promise.all([
+    readMarket(runner),
+    morpho.position(MARKET_ID, vaultAddress),
+    vault.targetLTV(),
+    vault.totalAssets(),
+    usdt.balanceOf(vaultAddress),
+    susdd.convertToAssets(WAD),
+  ]);
+
+  const collateral = pos.collateral;
+  const borrowShares = pos.borrowShares;
+  const debt = borrowShares > 0n ? expectedBorrowAssets(borrowShares, market, borrowRate, timestamp) : 0n;
+  const collateralValue = collateral > 0n ? (await susdd.convertToAssets(collateral)) / 10n ** 12n : 0n;
+  const ltv = collateralValue > 0n ? (debt * WAD) / collateralValue : 0n;
+
+  return {
+    vault: vaultAddress,
+    blockNumber: block.number,
+    timestamp,
+    targetLTV,
+    lltv: marketParams.lltv,
+    idleUsdt,
+    collateral,
+    borrowShares,
+    debt,
+    collateralValue,
+    nav,
+    ltv,
+    susddRate,
+    borrowRate,
+    market,
+    marketParams,
+  };
+}
@@ -0,0 +1,143 @@
+import { ContractRunner, ethers } from "ethers";
+import { IMorpho__factory, SUSDDVault__factory } from "../../typechain-types";
+import { ADDRESSES, MARKET_ID, ROLES } from "./constants";
+import { RoleName } from "./configure";
+
+// Pre-upgrade safety report: snapshot every piece of public state before and after an
+// upgrade (run on a fork) and flag anything that changed. Events only tell us which
+// accounts to look at; the values themselves are read live, so a storage-layout mistake
+// shows up as a changed hasRole/whitelisted/balanceOf even though the history is intact.
+
+/** Relative totalAssets drift allowed across the upgrade block (sUSDD and Morpho accrue per second) */
+export const NAV_TOLERANCE_BPS = 1n;
+
+/** Accounts whose per-address state is compared; collected once, before the upgrade */
+export interface SnapshotSubjects {
+  roleAccounts: string[];
+  whitelistAccounts: string[];
+  holders: string[];
+}
+
+/** Flat view of the vault's public state: "highWaterMark", "balanceOf.0x…", "hasRole.KEEPER_ROLE.0x…" */
+export interface StateSnapshot {
+  blockNumber: number;
+  values: Record<string, string>;
+}
+
+export interface PreflightCheck {
+  key: string;
+  before: string;
+  after: string;
+  pass: boolean;
+}
+
+export interface PreflightReport {
+  vault: string;
+  blockNumber: number;
+  previousImplementation: string;
+  implementation: string;
+  subjects: { roleAccounts: number; whitelistAccounts: number; holders: number };
+  checks: PreflightCheck[];
+  pass: boolean;
+}
+
+function unique(addresses: string[]): string[] {
+  return [...new Set(addresses.map((a) => ethers.getAddress(a)))].sort();
+}
+
+export async function collectSubjects(vaultAddress: string, runner: ContractRunner, fromBlock = 0): Promise<SnapshotSubjects> {
+  const vault = SUSDDVault__factory.connect(vaultAddress, runner);
+  const [granted, revoked, added, removed, transfers] = await Promise.all([
+    vault.queryFilter(vault.filters.RoleGranted(), fromBlock),
+    vault.queryFilter(vault.filters.RoleRevoked(), fromBlock),
+    vault.queryFilter(vault.filters.AddedToWhitelist(), fromBlock),
+    vault.queryFilter(vault.filters.RemovedFromWhitelist(), fromBlock),
+    vault.queryFilter(vault.filters.Transfer(), fromBlock),
+  ]);
+
+  return {
+    roleAccounts: unique([...granted, ...revoked].map((e) => e.args.account)),
+    whitelistAccounts: unique([...added, ...removed].map((e) => e.args.account)),
+    holders: unique(transfers.map((e) => e.args.to).filter((to) => to !== ethers.ZeroAddress)),
+  };
+}
+
+export async function snapshotVault(vaultAddress: string, runner: ContractRunner, subjects: SnapshotSubjects): Promise<StateSnapshot> {
+  const provider = runner.provider;
+  if (!provider) throw new Error("snapshotVault: runner has no provider");
+
+  const vault = SUSDDVault__factory.connect(vaultAddress, runner);
+  const morpho = IMorpho__factory.connect(ADDRESSES.MORPHO, runner);
+  const blockNumber = await provider.getBlockNumber();
+
+  const values: Record<string, string> = {};
+  const [totalAssets, totalSupply, highWaterMark, targetLTV, performanceFeeBps, feeRecipient, maxTotalAssets, whitelistEnabled, paused, position] =
+    await Promise.all([
+      vault.totalAssets(),
+      vault.totalSupply(),
+      vault.highWaterMark(),
+      vault.targetLTV(),
+      vault.performanceFeeBps(),
+      vault.feeRecipient(),
+      vault.maxTotalAssets(),
+      vault.whitelistEnabled(),
+      vault.paused(),
+      morpho.position(MARKET_ID, vaultAddress),
+    ]);
+  Object.assign(values, {
+    totalAssets: totalAssets.toString(),
+    totalSupply: totalSupply.toString(),
+    highWaterMark: highWaterMark.toString(),
+    targetLTV: targetLTV.toString(),
+    performanceFeeBps: performanceFeeBps.toString(),
+    feeRecipient,
+    maxTotalAssets: maxTotalAssets.toString(),
+    whitelistEnabled: String(whitelistEnabled),
+    paused: String(paused),
+    "position.supplyShares": position.supplyShares.toString(),
+    "position.borrowShares": position.borrowShares.toString(),
+    "position.collateral": position.collateral.toString(),
+  });
+
+  for (const role of Object.keys(ROLES) as RoleName[]) {
+    const members = await Promise.all(subjects.roleAccounts.map((account) => vault.hasRole(ROLES[role], account)));
+    subjects.roleAccounts.forEach((account, i) => (values[`hasRole.${role}.${account}`] = String(members[i])));
+  }
+  const whitelisted = await Promise.all(subjects.whitelistAccounts.map((account) => vault.whitelisted(account)));
+  subjects.whitelistAccounts.forEach((account, i) => (values[`whitelisted.${account}`] = String(whitelisted[i])));
+  const balances = await Promise.all(subjects.holders.map((holder) => vault.balanceOf(holder)));
+  subjects.holders.forEach((holder, i) => (values[`balanceOf.${holder}`] = balances[i].toString()));
+
+  return { blockNumber, values };
+}
+
+function withinTolerance(before: bigint, after: bigint, toleranceBps: bigint): boolean {
+  const diff = before > after ? before - after : after - before;
+  return diff * 10_000n <= before * toleranceBps;
+}
+
+/** Every key must match exactly, except totalAssets which may drift by NAV_TOLERANCE_BPS */
+export function compareSnapshots(before: StateSnapshot, after: StateSnapshot): PreflightCheck[] {
+  const keys = [...new Set([...Object.keys(before.values), ...Object.keys(after.values)])];
+  return keys.map((key) => {
+    const b = before.values[key] ?? "<missing>";
+    const a = after.values[key] ?? "<missing>";
+    const pass = key === "totalAssets" && a !== "<missing>" && b !== "<missing>"
+      ? withinTolerance(BigInt(b), BigInt(a), NAV_TOLERANCE_BPS)
+      : a === b;
+    return { key, before: b, after: a, pass };
+  });
+}
+
+export function formatReport(report: PreflightReport): string[] {
+  const failed = report.checks.filter((c) => !c.pass);
+  const lines = [
+    `=== Upgrade preflight ${report.vault} (block ${report.blockNumber}) ===`,
+    `Implementation: ${report.previousImplementation} -> ${report.implementation}`,
+    `Compared ${report.checks.length} values: ${report.subjects.roleAccounts} role accounts, ` +
+      `${report.subjects.whitelistAccounts} whitelist entries, ${report.subjects.holders} holders`,
+  ];
+  for (const check of failed) lines.push(`  FAIL ${check.key}: ${check.before} -> ${check.after}`);
+  lines.push(report.pass ? "Result: PASS" : `Result: FAIL (${failed.length} changed)`);
+  return lines;
+}
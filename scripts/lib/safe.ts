@@ -0,0 +1,136 @@
+import { Interface, InterfaceAbi, ethers } from "ethers";
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+// Safe Transaction Builder batch files. Admin roles sit behind a Safe, so the tasks can
+// write their calls to a batch for the owners to import and sign instead of sending them.
+// Each transaction carries both the encoded `data` and the decoded contractMethod /
+// contractInputsValues the Transaction Builder shows for review.
+
+interface AbiParam {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParam[];
+}
+
+interface AbiFunction {
+  type: string;
+  name?: string;
+  inputs?: AbiParam[];
+  stateMutability?: string;
+}
+
+export interface SafeContractMethod {
+  inputs: { internalType: string; name: string; type: string }[];
+  name: string;
+  payable: boolean;
+}
+
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: SafeContractMethod;
+  contractInputsValues: Record<string, string>;
+}
+
+export interface SafeBatch {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeTransaction[];
+}
+
+export interface DecodedSafeTransaction {
+  to: string;
+  method: string;
+  args: ethers.Result;
+}
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+function findFunction(abi: readonly AbiFunction[], method: string): AbiFunction {
+  const matches = abi.filter((f) => f.type === "function" && f.name === method);
+  if (matches.length !== 1) {
+    throw new Error(`encodeSafeTransaction: expected exactly one "${method}" in the ABI, found ${matches.length}`);
+  }
+  return matches[0];
+}
+
+/** Transaction Builder input values are strings; arrays and tuples are JSON */
+function formatInputValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "bigint" || typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+/** Encode `method(args)` on `to` as a Transaction Builder entry */
+export function encodeSafeTransaction(abi: InterfaceAbi, to: string, method: string, args: readonly unknown[]): SafeTransaction {
+  const fragment = findFunction(abi as readonly AbiFunction[], method);
+  const inputs = fragment.inputs ?? [];
+  if (inputs.length !== args.length) {
+    throw new Error(`encodeSafeTransaction: ${method} takes ${inputs.length} arguments, got ${args.length}`);
+  }
+
+  const contractInputsValues: Record<string, string> = {};
+  inputs.forEach((input, i) => (contractInputsValues[input.name] = formatInputValue(args[i])));
+
+  return {
+    to: ethers.getAddress(to),
+    value: "0",
+    data: new Interface(abi).encodeFunctionData(method, args),
+    contractMethod: {
+      inputs: inputs.map((input) => ({ internalType: input.internalType ?? input.type, name: input.name, type: input.type })),
+      name: method,
+      payable: fragment.stateMutability === "payable",
+    },
+    contractInputsValues,
+  };
+}
+
+export function buildSafeBatch(params: {
+  chainId: bigint | number;
+  safe: string;
+  name: string;
+  description: string;
+  transactions: SafeTransaction[];
+}): SafeBatch {
+  return {
+    version: "1.0",
+    chainId: params.chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: params.name,
+      description: params.description,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: ethers.getAddress(params.safe),
+      createdFromOwnerAddress: "",
+    },
+    transactions: params.transactions,
+  };
+}
+
+export function writeSafeBatch(path: string, batch: SafeBatch): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(batch, null, 2) + "\n");
+}
+
+/** Decode every transaction's calldata against `abi`; throws if data doesn't match contractMethod */
+export function decodeSafeBatch(batch: SafeBatch, abi: InterfaceAbi): DecodedSafeTransaction[] {
+  const iface = new Interface(abi);
+  return batch.transactions.map((tx) => {
+    const parsed = iface.parseTransaction({ data: tx.data, value: BigInt(tx.value) });
+    if (!parsed || parsed.name !== tx.contractMethod.name) {
+      throw new Error(`decodeSafeBatch: calldata for ${tx.to} does not decode to ${tx.contractMethod.name}`);
+    }
+    return { to: tx.to, method: parsed.name, args: parsed.args };
+  });
+}
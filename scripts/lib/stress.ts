@@ -0,0 +1,270 @@
+import { ethers } from "ethers";
+import { IDLE_MODE, WAD } from "./constants";
+import { SECONDS_PER_YEAR } from "./carry";
+import { mulDivUp, wTaylorCompounded } from "./morpho";
+import { PositionState } from "./position";
+
+// Stress simulator: an off-chain copy of the vault's accounting (totalAssets,
+// _estimateDepositValue, PositionLib.buildPosition and the rebalance lever/delever paths, SwapHelper
+// with PSM tin/tout) driven by scenarios: sUSDD rate shocks, borrow rate spikes and PSM
+// fee changes. Liquidation assumes the Morpho oracle prices sUSDD like getUSDTValue
+// (ADR-002): the position is liquidatable once debt / collateral value reaches LLTV.
+
+const DELEVER_BUFFER_BPS = 10n;
+const BPS = 10_000n;
+const USDD_PER_USDT = 10n ** 12n;
+
+export interface SimState {
+  idleUsdt: bigint;
+  collateral: bigint; // sUSDD (18 decimals)
+  debt: bigint; // USDT (6 decimals)
+  susddRate: bigint; // USDD per sUSDD (WAD)
+  targetLTV: bigint;
+  lltv: bigint;
+  tin: bigint; // PSM fees (WAD)
+  tout: bigint;
+}
+
+export function simStateFrom(position: PositionState, psm: { tin: bigint; tout: bigint }): SimState {
+  return {
+    idleUsdt: position.idleUsdt,
+    collateral: position.collateral,
+    debt: position.debt,
+    susddRate: position.susddRate,
+    targetLTV: position.targetLTV,
+    lltv: position.lltv,
+    tin: psm.tin,
+    tout: psm.tout,
+  };
+}
+
+// ============ SwapHelper ============
+
+/** SwapHelper.getUSDTValue: NAV valuation at the 1:1 peg, no PSM fee */
+export function usdtValue(s: SimState, susdd: bigint): bigint {
+  return (susdd * s.susddRate) / WAD / USDD_PER_USDT;
+}
+
+function swapUSDTtoSUSDD(s: SimState, usdt: bigint): bigint {
+  const usdd = (usdt * USDD_PER_USDT * (WAD - s.tin)) / WAD;
+  return (usdd * WAD) / s.susddRate;
+}
+
+function swapSUSDDtoUSDT(s: SimState, susdd: bigint): bigint {
+  const usdd = (susdd * s.susddRate) / WAD;
+  return (usdd * 10n ** 6n) / (WAD + s.tout);
+}
+
+function susddNeededForUSDT(s: SimState, usdt: bigint): bigint {
+  const usddNeeded = (usdt * (WAD + s.tout)) / 10n ** 6n;
+  return mulDivUp(usddNeeded, WAD, s.susddRate);
+}
+
+// ============ Vault accounting ============
+
+/** totalAssets(): idle + collateral value - debt, floored at 0 */
+export function simTotalAssets(s: SimState): bigint {
+  const gross = s.idleUsdt + usdtValue(s, s.collateral);
+  return gross > s.debt ? gross - s.debt : 0n;
+}
+
+/** debt / collateral value (WAD), 0 without collateral */
+export function simLTV(s: SimState): bigint {
+  const value = usdtValue(s, s.collateral);
+  return value > 0n ? (s.debt * WAD) / value : 0n;
+}
+
+/** _estimateDepositValue: the contract's tin = 0 estimate of the NAV a deposit adds */
+export function simEstimateDepositValue(s: SimState, assets: bigint): bigint {
+  if (s.targetLTV === IDLE_MODE) return assets;
+  if (s.targetLTV === 0n) return usdtValue(s, (assets * USDD_PER_USDT * WAD) / s.susddRate);
+
+  const borrowAmount = (assets * s.targetLTV) / (WAD - s.targetLTV);
+  const susddValue = usdtValue(s, ((assets + borrowAmount) * USDD_PER_USDT * WAD) / s.susddRate);
+  return susddValue > borrowAmount ? susddValue - borrowAmount : 0n;
+}
+
+/** _deposit + PositionLib.buildPosition, with tin applied like the PSM does */
+export function simDeposit(s: SimState, assets: bigint): SimState {
+  if (s.targetLTV === IDLE_MODE) return { ...s, idleUsdt: s.idleUsdt + assets };
+  const borrowAmount = (assets * s.targetLTV) / (WAD - s.targetLTV);
+  return {
+    ...s,
+    collateral: s.collateral + swapUSDTtoSUSDD(s, assets + borrowAmount),
+    debt: s.debt + borrowAmount,
+  };
+}
+
+/** PositionLib._handleDeleverCallback: repay `debtToRepay` with flash-loaned USDT, sell collateral to cover it */
+function delever(s: SimState, debtToRepay: bigint, withdrawAllCollateral: boolean): SimState {
+  const repaid = debtToRepay > s.debt ? s.debt : debtToRepay;
+  let withdrawn = s.collateral;
+  if (!withdrawAllCollateral) {
+    withdrawn = (susddNeededForUSDT(s, debtToRepay) * (BPS + DELEVER_BUFFER_BPS)) / BPS;
+    if (withdrawn > s.collateral) withdrawn = s.collateral;
+  }
+  return {
+    ...s,
+    idleUsdt: s.idleUsdt + swapSUSDDtoUSDT(s, withdrawn) - repaid,
+    collateral: s.collateral - withdrawn,
+    debt: s.debt - repaid,
+  };
+}
+
+/** rebalance(newTargetLTV): the same branches, including the underwater no-op */
+export function simRebalance(s: SimState, newTargetLTV: bigint): SimState {
+  const nav = simTotalAssets(s);
+  if (s.debt > 0n && nav === 0n) return s;
+  const next = { ...s, targetLTV: newTargetLTV };
+
+  if (newTargetLTV === IDLE_MODE) {
+    if (next.debt > 0n) return delever(next, next.debt, true);
+    return { ...next, idleUsdt: next.idleUsdt + swapSUSDDtoUSDT(next, next.collateral), collateral: 0n };
+  }
+
+  if (newTargetLTV === 0n) {
+    const repaid = next.debt > 0n ? delever(next, next.debt, false) : next;
+    return { ...repaid, idleUsdt: 0n, collateral: repaid.collateral + swapUSDTtoSUSDD(repaid, repaid.idleUsdt) };
+  }
+
+  if (nav === 0n) return next;
+  const targetDebt = (nav * newTargetLTV) / (WAD - newTargetLTV);
+  if (targetDebt > next.debt) {
+    // PositionLib._handleLeverUpCallback converts the flash loan and any idle USDT
+    const additionalDebt = targetDebt - next.debt;
+    return {
+      ...next,
+      idleUsdt: 0n,
+      collateral: next.collateral + swapUSDTtoSUSDD(next, next.idleUsdt + additionalDebt),
+      debt: targetDebt,
+    };
+  }
+  if (targetDebt < next.debt) return delever(next, next.debt - targetDebt, false);
+  return next;
+}
+
+// ============ Thresholds ============
+
+export interface StressThresholds {
+  /** sUSDD rate at which LTV reaches LLTV, and the relative move from now (WAD, negative = drop) */
+  liquidationRate?: bigint;
+  liquidationMove?: bigint;
+  /** sUSDD rate at which idle + collateral value no longer covers the debt (ZeroNAV with debt) */
+  underwaterRate?: bigint;
+  underwaterMove?: bigint;
+}
+
+/** Rate thresholds for the current position; undefined without debt (nothing to liquidate) */
+export function stressThresholds(s: SimState): StressThresholds {
+  if (s.debt === 0n || s.collateral === 0n) return {};
+  const move = (rate: bigint) => (rate * WAD) / s.susddRate - WAD;
+
+  // debt = collateral * rate / WAD / 1e12 * lltv / WAD
+  const liquidationRate = mulDivUp(s.debt * USDD_PER_USDT * WAD, WAD, s.collateral * s.lltv);
+  const uncovered = s.debt > s.idleUsdt ? s.debt - s.idleUsdt : 0n;
+  const underwaterRate = mulDivUp(uncovered * USDD_PER_USDT, WAD, s.collateral);
+  return {
+    liquidationRate,
+    liquidationMove: move(liquidationRate),
+    underwaterRate,
+    underwaterMove: move(underwaterRate),
+  };
+}
+
+// ============ Scenarios ============
+
+export interface StressScenario {
+  name: string;
+  /** Instant relative change of the sUSDD rate (WAD, -0.05e18 = -5%) */
+  susddShock?: bigint;
+  /** sUSDD yield after the shock, per second (WAD); defaults to 0 */
+  susddRatePerSecond?: bigint;
+  /** Morpho borrow rate per second (WAD); defaults to 0 */
+  borrowRatePerSecond?: bigint;
+  /** PSM fees from the start of the scenario; default to the current ones */
+  tin?: bigint;
+  tout?: bigint;
+  /** Simulated time and path resolution, in seconds */
+  horizon: number;
+  step: number;
+}
+
+export interface StressPoint {
+  elapsed: number;
+  susddRate: bigint;
+  debt: bigint;
+  ltv: bigint;
+  nav: bigint;
+}
+
+export interface StressResult {
+  scenario: StressScenario;
+  path: StressPoint[];
+  /** Seconds until LTV >= LLTV, 0 if liquidatable right after the shock, undefined beyond the horizon */
+  timeToLiquidation?: number;
+  /** Seconds until NAV = 0 with debt outstanding */
+  timeToUnderwater?: number;
+  minNav: bigint;
+  /** USDT held after rebalance(IDLE_MODE) at the end of the horizon, i.e. NAV net of tout */
+  exitValue: bigint;
+}
+
+/** Annual rate (WAD) to the per-second rate the scenario fields take */
+export function perSecond(annualRate: bigint): bigint {
+  return annualRate / SECONDS_PER_YEAR;
+}
+
+/** The position held at `elapsed` seconds into the scenario; no keeper reacts in between */
+export function stateAt(s: SimState, scenario: StressScenario, elapsed: number): SimState {
+  const shocked = (s.susddRate * (WAD + (scenario.susddShock ?? 0n))) / WAD;
+  const t = BigInt(elapsed);
+  // Morpho compounds borrow interest with wTaylorCompounded; sUSDD growth uses the same curve
+  const growth = wTaylorCompounded(scenario.susddRatePerSecond ?? 0n, t);
+  const interest = wTaylorCompounded(scenario.borrowRatePerSecond ?? 0n, t);
+  return {
+    ...s,
+    susddRate: (shocked * (WAD + growth)) / WAD,
+    debt: (s.debt * (WAD + interest)) / WAD,
+    tin: scenario.tin ?? s.tin,
+    tout: scenario.tout ?? s.tout,
+  };
+}
+
+export function runScenario(s: SimState, scenario: StressScenario): StressResult {
+  if (scenario.step <= 0) throw new Error(`runScenario: step must be positive in "${scenario.name}"`);
+  const path: StressPoint[] = [];
+  let timeToLiquidation: number | undefined;
+  let timeToUnderwater: number | undefined;
+  let minNav = ethers.MaxUint256;
+
+  for (let elapsed = 0; ; elapsed = Math.min(elapsed + scenario.step, scenario.horizon)) {
+    const state = stateAt(s, scenario, elapsed);
+    const point = { elapsed, susddRate: state.susddRate, debt: state.debt, ltv: simLTV(state), nav: simTotalAssets(state) };
+    path.push(point);
+    if (point.nav < minNav) minNav = point.nav;
+    if (timeToLiquidation === undefined && state.debt > 0n && point.ltv >= s.lltv) timeToLiquidation = elapsed;
+    if (timeToUnderwater === undefined && state.debt > 0n && point.nav === 0n) timeToUnderwater = elapsed;
+    if (elapsed >= scenario.horizon) break;
+  }
+
+  const exit = simRebalance(stateAt(s, scenario, scenario.horizon), IDLE_MODE);
+  return { scenario, path, timeToLiquidation, timeToUnderwater, minNav, exitValue: exit.debt > 0n ? 0n : exit.idleUsdt };
+}
+
+const DAY = 86400;
+
+/** The scenarios vault:stress runs by default: 90 days, daily steps */
+export const DEFAULT_SCENARIOS: StressScenario[] = [
+  { name: "sUSDD -2%", susddShock: ethers.parseEther("-0.02"), horizon: 90 * DAY, step: DAY },
+  { name: "sUSDD -5%", susddShock: ethers.parseEther("-0.05"), horizon: 90 * DAY, step: DAY },
+  { name: "sUSDD -10%", susddShock: ethers.parseEther("-0.10"), horizon: 90 * DAY, step: DAY },
+  { name: "Borrow 25% APR", borrowRatePerSecond: perSecond(ethers.parseEther("0.25")), horizon: 90 * DAY, step: DAY },
+  { name: "Borrow 100% APR", borrowRatePerSecond: perSecond(ethers.parseEther("1")), horizon: 90 * DAY, step: DAY },
+  { name: "PSM tout 1%", tout: ethers.parseEther("0.01"), horizon: 90 * DAY, step: DAY },
+];
+
+export function formatDuration(seconds: number | undefined): string {
+  if (seconds === undefined) return "beyond horizon";
+  if (seconds === 0) return "immediate";
+  return `${(seconds / DAY).toFixed(1)} days`;
+}
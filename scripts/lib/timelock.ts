@@ -0,0 +1,120 @@
+import { ethers } from "ethers";
+import {
+  DepositLimiter__factory,
+  FeeSplitter__factory,
+  SUSDDVault__factory,
+  VaultTimelock,
+  VaultTimelock__factory,
+} from "../../typechain-types";
+
+// VaultTimelock helpers: the immediate selector set used at deployment, the list of pending
+// calls rebuilt from CallScheduled events (what vault:pending prints), and submission of
+// vault:configure steps through the timelock.
+
+/** Vault functions that skip the delay: access list and TVL cap, nothing that moves value or trust */
+export const DEFAULT_IMMEDIATE_METHODS = ["addToWhitelist", "removeFromWhitelist", "setWhitelistEnabled", "setMaxTotalAssets"];
+
+export function immediateSelectors(methods = DEFAULT_IMMEDIATE_METHODS): string[] {
+  const iface: ethers.Interface = SUSDDVault__factory.createInterface();
+  return methods.map((method) => iface.getFunction(method)!.selector);
+}
+
+export interface PendingCall {
+  id: string;
+  target: string;
+  data: string;
+  salt: string;
+  /** Decoded call, e.g. "setPerformanceFee(2000)"; the raw selector when unknown */
+  description: string;
+  readyAt: number;
+  scheduledBlock: number;
+  txHash: string;
+}
+
+/** A human-readable form of `data`, decoded against the contracts a timelock governs */
+export function describeCall(data: string): string {
+  const interfaces = [
+    SUSDDVault__factory.createInterface(),
+    FeeSplitter__factory.createInterface(),
+    DepositLimiter__factory.createInterface(),
+    VaultTimelock__factory.createInterface(),
+  ];
+  for (const iface of interfaces) {
+    let parsed: ethers.TransactionDescription | null = null;
+    try {
+      parsed = iface.parseTransaction({ data });
+    } catch {
+      continue;
+    }
+    if (parsed) return `${parsed.name}(${parsed.args.map((arg) => String(arg)).join(", ")})`;
+  }
+  return ethers.dataSlice(data, 0, 4);
+}
+
+/**
+ * Calls scheduled and neither executed nor cancelled, oldest first. A CallScheduled
+ * event is pending while readyAt(id) still holds the time it announced.
+ */
+export async function readPendingCalls(timelock: VaultTimelock, fromBlock = 0): Promise<PendingCall[]> {
+  const events = await timelock.queryFilter(timelock.filters.CallScheduled(), fromBlock);
+
+  const pending: PendingCall[] = [];
+  for (const event of events) {
+    const { id, target, data, salt, readyAt } = event.args;
+    if ((await timelock.readyAt(id)) !== readyAt) continue;
+    pending.push({
+      id,
+      target,
+      data,
+      salt,
+      description: describeCall(data),
+      readyAt: Number(readyAt),
+      scheduledBlock: event.blockNumber,
+      txHash: event.transactionHash,
+    });
+  }
+  return pending;
+}
+
+export interface TimelockCall {
+  /** executeImmediate for immediate vault selectors, else schedule with a zero salt */
+  method: "executeImmediate" | "schedule";
+  args: [string] | [string, string, string];
+  description: string;
+}
+
+/** The timelock calls that submit `calls`: what a proposer sends, or exports to its Safe */
+export async function wrapForTimelock(
+  timelock: VaultTimelock,
+  calls: { to: string; data: string }[]
+): Promise<TimelockCall[]> {
+  const vault = await timelock.vault();
+  const wrapped: TimelockCall[] = [];
+  for (const call of calls) {
+    const description = describeCall(call.data);
+    // executeImmediate only calls the vault: other targets are scheduled whatever their selector
+    if (ethers.getAddress(call.to) === vault && (await timelock.immediate(ethers.dataSlice(call.data, 0, 4)))) {
+      wrapped.push({ method: "executeImmediate", args: [call.data], description });
+    } else {
+      wrapped.push({ method: "schedule", args: [call.to, call.data, ethers.ZeroHash], description });
+    }
+  }
+  return wrapped;
+}
+
+/**
+ * Send `calls` through the timelock from a PROPOSER_ROLE signer. Returns the tx hashes; the
+ * scheduled ones show up in readPendingCalls.
+ */
+export async function submitThroughTimelock(
+  timelock: VaultTimelock,
+  calls: { to: string; data: string }[]
+): Promise<string[]> {
+  const hashes: string[] = [];
+  for (const call of await wrapForTimelock(timelock, calls)) {
+    const tx = await timelock.getFunction(call.method).send(...call.args);
+    await tx.wait();
+    hashes.push(tx.hash);
+  }
+  return hashes;
+}
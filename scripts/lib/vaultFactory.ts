@@ -0,0 +1,34 @@
+import { ethers } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// SUSDDVault links the external PositionLib library (flash loan and position mechanics,
+// kept out of the vault to stay under the 24KB code size limit). Every vault factory has
+// to be linked against a deployed PositionLib, and every proxy deploy/upgrade has to
+// allow linked libraries: PositionLib has no storage, constructor or selfdestruct.
+
+type HardhatEthers = HardhatRuntimeEnvironment["ethers"];
+
+/** Options for upgrades.deployProxy / upgradeProxy / validateUpgrade / prepareUpgrade on SUSDDVault */
+export const VAULT_PROXY_OPTIONS = { kind: "uups", unsafeAllowLinkedLibraries: true } as const;
+
+export async function deployPositionLib(hardhatEthers: HardhatEthers, signer?: ethers.Signer): Promise<string> {
+  const factory = await hardhatEthers.getContractFactory("PositionLib", signer);
+  const lib = await factory.deploy();
+  await lib.waitForDeployment();
+  return lib.getAddress();
+}
+
+/**
+ * SUSDDVault factory linked against `positionLib`; deploys a fresh PositionLib when none
+ * is given. Linking a placeholder address is enough for storage-layout validation.
+ */
+export async function getVaultFactory(
+  hardhatEthers: HardhatEthers,
+  options: { signer?: ethers.Signer; positionLib?: string } = {}
+) {
+  const positionLib = options.positionLib ?? (await deployPositionLib(hardhatEthers, options.signer));
+  return hardhatEthers.getContractFactory("SUSDDVault", {
+    signer: options.signer,
+    libraries: { PositionLib: positionLib },
+  });
+}
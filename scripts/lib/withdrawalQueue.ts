@@ -0,0 +1,99 @@
+import { IERC4626__factory, WithdrawalQueue } from "../../typechain-types";
+import { NO_ROUTE, SwapRoute, withSlippage } from "../../sdk/routes";
+
+// Keeper routine for WithdrawalQueue: fulfil pending redeem requests in FIFO batches,
+// as large as the vault can redeem right now (vault.maxRedeem caps it by PSM liquidity).
+
+export interface QueueConfig {
+  /** Most requests fulfilled in one transaction */
+  maxBatch: number;
+  /** Allowed shortfall against the simulated batch payout (bps), passed on as minAssets */
+  slippageBps: bigint;
+  /** Swap route for the vault redeem; lifts the PSM liquidity cap (default: PSM) */
+  route: SwapRoute;
+  /** Plan the batch without sending the transaction */
+  dryRun: boolean;
+}
+
+export const DEFAULT_QUEUE_CONFIG: QueueConfig = {
+  maxBatch: 50,
+  slippageBps: 10n,
+  route: NO_ROUTE,
+  dryRun: false,
+};
+
+export interface PendingRequest {
+  requestId: bigint;
+  controller: string;
+  shares: bigint;
+}
+
+export interface QueueTickResult {
+  /** Pending requests from the head of the queue, up to maxBatch */
+  pending: PendingRequest[];
+  /** Shares the vault lets the queue redeem right now */
+  redeemable: bigint;
+  /** Requests in the batch (a prefix of pending) */
+  count: number;
+  shares: bigint;
+  /** Simulated USDT for the batch and the minimum sent with it */
+  assets?: bigint;
+  minAssets?: bigint;
+  txHash?: string;
+}
+
+/** Pending requests in fulfilment order, at most `limit` */
+export async function readPendingRequests(queue: WithdrawalQueue, limit: number): Promise<PendingRequest[]> {
+  const [next, total] = await Promise.all([queue.nextRequestToFulfil(), queue.requestCount()]);
+  const end = next + BigInt(limit) < total ? next + BigInt(limit) : total;
+
+  const pending: PendingRequest[] = [];
+  for (let id = next; id < end; id++) {
+    const request = await queue.getRequest(id);
+    pending.push({ requestId: id, controller: request.controller, shares: request.shares });
+  }
+  return pending;
+}
+
+/**
+ * Longest prefix of `pending` whose shares fit in `redeemable`. Strictly FIFO: a head
+ * request larger than `redeemable` holds the queue until liquidity returns or a route is used.
+ */
+export function planBatch(pending: PendingRequest[], redeemable: bigint): { count: number; shares: bigint } {
+  let shares = 0n;
+  let count = 0;
+  for (const request of pending) {
+    if (shares + request.shares > redeemable) break;
+    shares += request.shares;
+    count++;
+  }
+  return { count, shares };
+}
+
+/**
+ * Plan a batch and (unless dry-run) send fulfilRedeems() from the queue's signer, which needs
+ * KEEPER_ROLE on the queue. minAssets is the batch payout simulated with staticCall, less slippage.
+ */
+export async function processWithdrawalQueue(queue: WithdrawalQueue, config: QueueConfig): Promise<QueueTickResult> {
+  const runner = queue.runner;
+  if (!runner) throw new Error("processWithdrawalQueue: queue is not connected to a runner");
+
+  const queueAddress = await queue.getAddress();
+  const vault = IERC4626__factory.connect(await queue.vault(), runner);
+  const pending = await readPendingRequests(queue, config.maxBatch);
+
+  // maxRedeem is the balance capped by PSM liquidity; a route only needs the balance
+  const redeemable = config.route.router === NO_ROUTE.router
+    ? await vault.maxRedeem(queueAddress)
+    : await vault.balanceOf(queueAddress);
+  const { count, shares } = planBatch(pending, redeemable);
+  if (count === 0) return { pending, redeemable, count, shares };
+
+  const assets = await queue.fulfilRedeems.staticCall(count, 0n, config.route);
+  const minAssets = withSlippage(assets, config.slippageBps);
+  if (config.dryRun) return { pending, redeemable, count, shares, assets, minAssets };
+
+  const tx = await queue.fulfilRedeems(count, minAssets, config.route);
+  await tx.wait();
+  return { pending, redeemable, count, shares, assets, minAssets, txHash: tx.hash };
+}
@@ -0,0 +1,167 @@
+import { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import { IERC20, IERC20__factory, SUSDDAsyncVault, SUSDDAsyncVault__factory } from "../typechain-types";
+import { ADDRESSES } from "../scripts/lib/constants";
+import { ExceedsClaimableError, NotOperatorError } from "./errors";
+import { requireSigner, sendTransaction } from "./tx";
+
+/** SUSDDAsyncVault.ControllerState with settled epochs and fulfilled queue requests credited */
+export interface AsyncRequestState {
+  /** USDT waiting for the keeper's settleDeposits() */
+  pendingDepositAssets: bigint;
+  /** Settled deposit USDT and the vault shares it bought, claimable with claimDeposit() */
+  claimableDepositAssets: bigint;
+  claimableDepositShares: bigint;
+  /** Shares waiting in the WithdrawalQueue for the keeper's fulfilRedeems() */
+  pendingRedeemShares: bigint;
+  /** Fulfilled shares and the USDT they redeemed for, claimable with claimRedeem() */
+  claimableRedeemShares: bigint;
+  claimableRedeemAssets: bigint;
+}
+
+export interface AsyncClaimResult {
+  assets: bigint;
+  shares: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+/**
+ * Client for SUSDDAsyncVault, the ERC-7540 request/claim interface to SUSDDVault.
+ *
+ *   const client = new SUSDDAsyncVaultClient(asyncVaultAddress, signer);
+ *   await client.approveDeposit(amount);
+ *   await client.requestDeposit(amount);
+ *   // ... keeper settles the epoch ...
+ *   const { shares } = await client.claimDeposit();
+ *
+ * Requests are fungible per controller (requestId 0). Redeem requests are queued in the vault's
+ * WithdrawalQueue. Claims convert at the settled epoch or fulfilled batch price, so exact
+ * amounts (mint/withdraw) are available once a request is claimable.
+ */
+export class SUSDDAsyncVaultClient {
+  readonly asyncVault: SUSDDAsyncVault;
+  readonly usdt: IERC20;
+
+  constructor(readonly address: string, readonly runner: ContractRunner) {
+    this.asyncVault = SUSDDAsyncVault__factory.connect(address, runner);
+    this.usdt = IERC20__factory.connect(ADDRESSES.USDT, runner);
+  }
+
+  // ============ Views ============
+
+  /** Request state of `controller` (default: the signer) */
+  async state(controller?: string): Promise<AsyncRequestState> {
+    const state = await this.asyncVault.getControllerState(controller ?? (await this.signer().getAddress()));
+    return {
+      pendingDepositAssets: state.pendingDepositAssets,
+      claimableDepositAssets: state.claimableDepositAssets,
+      claimableDepositShares: state.claimableDepositShares,
+      pendingRedeemShares: state.pendingRedeemShares,
+      claimableRedeemShares: state.claimableRedeemShares,
+      claimableRedeemAssets: state.claimableRedeemAssets,
+    };
+  }
+
+  /** The SUSDDVault share token */
+  async shareToken(): Promise<IERC20> {
+    return IERC20__factory.connect(await this.asyncVault.share(), this.runner);
+  }
+
+  // ============ Requests ============
+
+  /** Approve the async vault to pull `assets` USDT for requestDeposit() */
+  async approveDeposit(assets: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.usdt.approve(this.address, assets));
+  }
+
+  /** Approve the async vault to pull `shares` vault shares for requestRedeem() */
+  async approveRedeem(shares: bigint): Promise<ContractTransactionReceipt> {
+    const token = await this.shareToken();
+    return this.send(() => token.approve(this.address, shares));
+  }
+
+  /** Queue `assets` USDT for the next deposit settlement; `controller` and `owner` default to the signer */
+  async requestDeposit(assets: bigint, controller?: string, owner?: string): Promise<ContractTransactionReceipt> {
+    const caller = await this.signer().getAddress();
+    const from = owner ?? caller;
+    await this.checkOperator(from, caller);
+    return this.send(() => this.asyncVault.requestDeposit(assets, controller ?? caller, from));
+  }
+
+  /** Queue `shares` in the WithdrawalQueue; `controller` and `owner` default to the signer */
+  async requestRedeem(shares: bigint, controller?: string, owner?: string): Promise<ContractTransactionReceipt> {
+    const caller = await this.signer().getAddress();
+    const from = owner ?? caller;
+    await this.checkOperator(from, caller);
+    return this.send(() => this.asyncVault.requestRedeem(shares, controller ?? caller, from));
+  }
+
+  /** Take back the pending deposit of the open epoch; `controller` and `receiver` default to the signer */
+  async cancelDeposit(receiver?: string, controller?: string): Promise<ContractTransactionReceipt> {
+    const caller = await this.signer().getAddress();
+    const from = controller ?? caller;
+    await this.checkOperator(from, caller);
+    return this.send(() => this.asyncVault.cancelDepositRequest(from, receiver ?? caller));
+  }
+
+  /** Let `operator` request and claim for the signer */
+  async setOperator(operator: string, approved: boolean): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.asyncVault.setOperator(operator, approved));
+  }
+
+  // ============ Claims ============
+
+  /** Claim settled deposits as vault shares: all of them, or the shares for `assets` USDT */
+  async claimDeposit(assets?: bigint, receiver?: string, controller?: string): Promise<AsyncClaimResult> {
+    const caller = await this.signer().getAddress();
+    const from = controller ?? caller;
+    await this.checkOperator(from, caller);
+    const { claimableDepositAssets } = await this.state(from);
+    const amount = assets ?? claimableDepositAssets;
+    if (amount > claimableDepositAssets) throw new ExceedsClaimableError(amount, claimableDepositAssets);
+
+    const receipt = await this.send(() =>
+      this.asyncVault["deposit(uint256,address,address)"](amount, receiver ?? caller, from)
+    );
+    return this.claimResult(receipt, "Deposit");
+  }
+
+  /** Claim settled redeems as USDT: all of them, or exactly `assets` USDT */
+  async claimRedeem(assets?: bigint, receiver?: string, controller?: string): Promise<AsyncClaimResult> {
+    const caller = await this.signer().getAddress();
+    const from = controller ?? caller;
+    await this.checkOperator(from, caller);
+    const { claimableRedeemShares, claimableRedeemAssets } = await this.state(from);
+    if (assets !== undefined && assets > claimableRedeemAssets) {
+      throw new ExceedsClaimableError(assets, claimableRedeemAssets);
+    }
+
+    const receipt = await this.send(() => assets === undefined
+      ? this.asyncVault.redeem(claimableRedeemShares, receiver ?? caller, from)
+      : this.asyncVault.withdraw(assets, receiver ?? caller, from));
+    return this.claimResult(receipt, "Withdraw");
+  }
+
+  // ============ Internal ============
+
+  private async checkOperator(account: string, caller: string): Promise<void> {
+    if (account.toLowerCase() === caller.toLowerCase()) return;
+    if (!(await this.asyncVault.isOperator(account, caller))) throw new NotOperatorError();
+  }
+
+  private signer(): Signer {
+    return requireSigner(this.runner, "SUSDDAsyncVaultClient");
+  }
+
+  private send(submit: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    return sendTransaction("SUSDDAsyncVaultClient", submit);
+  }
+
+  private claimResult(receipt: ContractTransactionReceipt, name: "Deposit" | "Withdraw"): AsyncClaimResult {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) continue;
+      const parsed = this.asyncVault.interface.parseLog(log);
+      if (parsed?.name === name) return { assets: parsed.args.assets, shares: parsed.args.shares, receipt };
+    }
+    return { assets: 0n, shares: 0n, receipt };
+  }
+}
@@ -0,0 +1,221 @@
+import { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import {
+  IERC20,
+  IERC20__factory,
+  IERC4626__factory,
+  IPSM__factory,
+  SUSDDVault,
+  SUSDDVault__factory,
+} from "../typechain-types";
+import { ADDRESSES } from "../scripts/lib/constants";
+import {
+  DepositTooSmallError,
+  EnforcedPauseError,
+  ExceededMaxRedeemError,
+  InsufficientAllowanceError,
+  InsufficientBalanceError,
+  InsufficientPSMLiquidityError,
+  InvalidSwapRouteError,
+  MaxTotalAssetsExceededError,
+  NotWhitelistedError,
+  ZeroNAVError,
+} from "./errors";
+import { RedeemPreview, simulateRedeem } from "./preview";
+import { SwapRoute } from "./routes";
+import { requireSigner, sendTransaction } from "./tx";
+
+export interface DepositResult {
+  /** Shares actually minted (Delta NAV), read from the Deposit event */
+  shares: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface RedeemResult {
+  /** USDT actually transferred, read from the Withdraw event */
+  assets: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+/**
+ * Client for SUSDDVault's limited ERC4626 surface.
+ *
+ * Only deposit(assets) and redeem(shares) are exposed: mint() and withdraw() always revert
+ * with NotSupported and maxWithdraw() is always 0. Writes run pre-flight checks first
+ * and every revert is rethrown as a typed SUSDDVaultError (see ./errors).
+ */
+export class SUSDDVaultClient {
+  readonly vault: SUSDDVault;
+  readonly usdt: IERC20;
+
+  constructor(readonly address: string, readonly runner: ContractRunner) {
+    this.vault = SUSDDVault__factory.connect(address, runner);
+    this.usdt = IERC20__factory.connect(ADDRESSES.USDT, runner);
+  }
+
+  // ============ Views ============
+
+  /** Shares a deposit of `assets` USDT is expected to mint (on-chain Delta NAV estimate) */
+  async previewDeposit(assets: bigint): Promise<bigint> {
+    return this.vault.previewDeposit(assets);
+  }
+
+  /** USDT a redeem of `shares` would pay out, simulated off-chain from current state */
+  async previewRedeem(shares: bigint): Promise<RedeemPreview> {
+    return simulateRedeem(this.address, shares, this.runner);
+  }
+
+  // ============ Pre-flight ============
+
+  /**
+   * Throws the typed error deposit() would hit, checked in the same order as the vault.
+   * DepositLimiter limits are not pre-checked; their reverts decode to DepositBelowMinimumError,
+   * DepositorCapExceededError and InflowLimitExceededError.
+   */
+  async checkDeposit(assets: bigint, receiver: string, caller: string): Promise<void> {
+    const [paused, whitelistEnabled, nav, supply, maxTotalAssets] = await Promise.all([
+      this.vault.paused(),
+      this.vault.whitelistEnabled(),
+      this.vault.totalAssets(),
+      this.vault.totalSupply(),
+      this.vault.maxTotalAssets(),
+    ]);
+
+    if (paused) throw new EnforcedPauseError();
+    if (assets + nav > maxTotalAssets) throw new MaxTotalAssetsExceededError();
+    if (supply > 0n && nav === 0n) throw new ZeroNAVError();
+
+    if (whitelistEnabled) {
+      for (const account of [caller, receiver]) {
+        if (!(await this.vault.whitelisted(account))) throw new NotWhitelistedError(account);
+      }
+    }
+
+    const [balance, allowance] = await Promise.all([
+      this.usdt.balanceOf(caller),
+      this.usdt.allowance(caller, this.address),
+    ]);
+    if (balance < assets) throw new InsufficientBalanceError(caller, balance, assets);
+    if (allowance < assets) throw new InsufficientAllowanceError(this.address, allowance, assets);
+
+    if (assets > 0n && (await this.vault.previewDeposit(assets)) === 0n) throw new DepositTooSmallError();
+  }
+
+  /**
+   * Throws the typed error redeem() would hit. Redeem stays open while the vault is paused.
+   * maxRedeem() is also capped by PSM liquidity, which redeem() reports as InsufficientPSMLiquidity
+   * once the position unwind is known, so the balance/whitelist part is checked first.
+   * With a `route` the router must be whitelisted and PSM liquidity is not needed.
+   */
+  async checkRedeem(shares: bigint, receiver: string, owner: string, caller: string, route?: SwapRoute): Promise<void> {
+    if (route && !(await this.vault.swapRouters(route.router))) throw new InvalidSwapRouteError();
+
+    const [whitelistEnabled, balance] = await Promise.all([this.vault.whitelistEnabled(), this.vault.balanceOf(owner)]);
+    const maxShares = !whitelistEnabled || (await this.vault.whitelisted(owner)) ? balance : 0n;
+    if (shares > maxShares) throw new ExceededMaxRedeemError(owner, shares, maxShares);
+
+    if (caller.toLowerCase() !== owner.toLowerCase()) {
+      const allowance = await this.vault.allowance(owner, caller);
+      if (allowance < shares) throw new InsufficientAllowanceError(caller, allowance, shares);
+    }
+
+    if (whitelistEnabled) {
+      for (const account of [owner, receiver]) {
+        if (!(await this.vault.whitelisted(account))) throw new NotWhitelistedError(account);
+      }
+    }
+
+    if (route) return;
+
+    // SwapHelper.requirePSMLiquidity on the collateral the unwind sells
+    const { collateralToWithdraw } = await this.previewRedeem(shares);
+    if (collateralToWithdraw > 0n) {
+      const psm = IPSM__factory.connect(ADDRESSES.PSM, this.runner);
+      const [usdd, available] = await Promise.all([
+        IERC4626__factory.connect(ADDRESSES.SUSDD, this.runner).convertToAssets(collateralToWithdraw),
+        psm.gemJoin().then((gemJoin) => this.usdt.balanceOf(gemJoin)),
+      ]);
+      const needed = usdd / 10n ** 12n;
+      if (needed > available) throw new InsufficientPSMLiquidityError(needed, available);
+    }
+  }
+
+  // ============ Writes ============
+
+  /** Approve the vault to pull `assets` USDT from the signer */
+  async approve(assets: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.usdt.approve(this.address, assets));
+  }
+
+  /**
+   * Deposit USDT; `receiver` defaults to the signer.
+   * With `minShares` the deposit goes through depositWithMin and reverts with SlippageExceeded below it.
+   */
+  async deposit(assets: bigint, receiver?: string, minShares?: bigint): Promise<DepositResult> {
+    const caller = await this.signer().getAddress();
+    const to = receiver ?? caller;
+    await this.checkDeposit(assets, to, caller);
+
+    const receipt = await this.send(() => minShares === undefined
+      ? this.vault.deposit(assets, to)
+      : this.vault.depositWithMin(assets, to, minShares));
+    const event = this.findEvent(receipt, "Deposit");
+    return { shares: event?.args.shares ?? 0n, receipt };
+  }
+
+  /**
+   * Redeem shares for USDT; `receiver` and `owner` default to the signer.
+   * With `minAssets` the redeem goes through redeemWithMin and reverts with SlippageExceeded below it.
+   */
+  async redeem(shares: bigint, receiver?: string, owner?: string, minAssets?: bigint): Promise<RedeemResult> {
+    const caller = await this.signer().getAddress();
+    const to = receiver ?? caller;
+    const from = owner ?? caller;
+    await this.checkRedeem(shares, to, from, caller);
+
+    const receipt = await this.send(() => minAssets === undefined
+      ? this.vault.redeem(shares, to, from)
+      : this.vault.redeemWithMin(shares, to, from, minAssets));
+    const event = this.findEvent(receipt, "Withdraw");
+    return { assets: event?.args.assets ?? 0n, receipt };
+  }
+
+  /**
+   * Redeem with the collateral sold through a whitelisted aggregator `route` (see ./routes)
+   * instead of the PSM; reverts with SlippageExceeded below `minAssets`.
+   */
+  async redeemWithRoute(
+    shares: bigint,
+    route: SwapRoute,
+    minAssets = 0n,
+    receiver?: string,
+    owner?: string
+  ): Promise<RedeemResult> {
+    const caller = await this.signer().getAddress();
+    const to = receiver ?? caller;
+    const from = owner ?? caller;
+    await this.checkRedeem(shares, to, from, caller, route);
+
+    const receipt = await this.send(() => this.vault.redeemWithRoute(shares, to, from, minAssets, route));
+    const event = this.findEvent(receipt, "Withdraw");
+    return { assets: event?.args.assets ?? 0n, receipt };
+  }
+
+  // ============ Internal ============
+
+  private signer(): Signer {
+    return requireSigner(this.runner, "SUSDDVaultClient");
+  }
+
+  private send(submit: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    return sendTransaction("SUSDDVaultClient", submit);
+  }
+
+  private findEvent(receipt: ContractTransactionReceipt, name: "Deposit" | "Withdraw") {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) continue;
+      const parsed = this.vault.interface.parseLog(log);
+      if (parsed?.name === name) return parsed;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,260 @@
+import { Result } from "ethers";
+import { DepositLimiter__factory, SUSDDAsyncVault__factory, SUSDDVault__factory } from "../typechain-types";
+
+// Typed exceptions for SUSDDVault custom errors.
+//
+// The client throws these both from pre-flight checks and after decoding a revert, so
+// integrators handle one set of classes whether a call failed locally or on-chain.
+// Errors without a dedicated class still decode into SUSDDVaultError with errorName/args.
+// SUSDDAsyncVault reverts decode the same way (vault errors bubble up through settlement), and
+// so do DepositLimiter reverts, which bubble up through deposit().
+
+const vaultInterface = SUSDDVault__factory.createInterface();
+const asyncVaultInterface = SUSDDAsyncVault__factory.createInterface();
+const limiterInterface = DepositLimiter__factory.createInterface();
+
+export class SUSDDVaultError extends Error {
+  constructor(
+    /** Solidity error name, e.g. "NotWhitelisted" */
+    readonly errorName: string,
+    readonly args: readonly unknown[] = [],
+    message?: string
+  ) {
+    super(message ?? `SUSDDVault reverted with ${errorName}(${args.map(String).join(", ")})`);
+    this.name = new.target.name;
+  }
+}
+
+// ============ Vault Errors ============
+
+export class InvalidLTVError extends SUSDDVaultError {
+  constructor() { super("InvalidLTV", [], "LTV is above MAX_LTV"); }
+}
+
+export class LTVExceedsLLTVError extends SUSDDVaultError {
+  constructor() { super("LTVExceedsLLTV", [], "LTV is at or above the market LLTV"); }
+}
+
+export class InvalidFeeError extends SUSDDVaultError {
+  constructor() { super("InvalidFee", [], "Fee is above the allowed maximum"); }
+}
+
+export class InvalidRecipientError extends SUSDDVaultError {
+  constructor() { super("InvalidRecipient", [], "Fee recipient is the zero address"); }
+}
+
+export class MaxTotalAssetsExceededError extends SUSDDVaultError {
+  constructor() { super("MaxTotalAssetsExceeded", [], "Deposit would exceed the vault's maxTotalAssets cap"); }
+}
+
+export class FlashLoanCallbackFailedError extends SUSDDVaultError {
+  constructor() { super("FlashLoanCallbackFailed"); }
+}
+
+export class UnauthorizedCallbackError extends SUSDDVaultError {
+  constructor() { super("UnauthorizedCallback"); }
+}
+
+export class ZeroNAVError extends SUSDDVaultError {
+  constructor() { super("ZeroNAV", [], "Vault is underwater (NAV is 0 with shares outstanding); deposits are blocked"); }
+}
+
+export class DepositTooSmallError extends SUSDDVaultError {
+  constructor() { super("DepositTooSmall", [], "Deposit is too small to mint any shares"); }
+}
+
+export class NotWhitelistedError extends SUSDDVaultError {
+  constructor(readonly account: string) {
+    super("NotWhitelisted", [account], `${account} is not whitelisted`);
+  }
+}
+
+export class InvalidAdminError extends SUSDDVaultError {
+  constructor() { super("InvalidAdmin"); }
+}
+
+export class InvalidMerklDistributorError extends SUSDDVaultError {
+  constructor() { super("InvalidMerklDistributor"); }
+}
+
+export class NoRewardsReceivedError extends SUSDDVaultError {
+  constructor() { super("NoRewardsReceived"); }
+}
+
+export class MerklClaimFailedError extends SUSDDVaultError {
+  constructor() { super("MerklClaimFailed"); }
+}
+
+export class NotSupportedError extends SUSDDVaultError {
+  constructor() {
+    super("NotSupported", [], "mint() and withdraw() are not supported; use deposit() and redeem()");
+  }
+}
+
+export class SlippageExceededError extends SUSDDVaultError {
+  constructor(readonly actual: bigint, readonly minimum: bigint) {
+    super("SlippageExceeded", [actual, minimum], `Result ${actual} is below the minimum ${minimum}`);
+  }
+}
+
+export class InsufficientPSMLiquidityError extends SUSDDVaultError {
+  constructor(readonly needed: bigint, readonly available: bigint) {
+    super(
+      "InsufficientPSMLiquidity",
+      [needed, available],
+      `PSM holds ${available} USDT, ${needed} needed to sell the collateral`
+    );
+  }
+}
+
+export class InvalidSwapRouteError extends SUSDDVaultError {
+  constructor() {
+    super("InvalidSwapRoute", [], "Swap route router is not whitelisted or its amount offset is outside the calldata");
+  }
+}
+
+export class SwapRouteFailedError extends SUSDDVaultError {
+  constructor() {
+    super("SwapRouteFailed", [], "Swap route call reverted, did not spend the exact USDD amount or lost USDT");
+  }
+}
+
+// ============ Async Vault Errors ============
+
+export class NotOperatorError extends SUSDDVaultError {
+  constructor() { super("NotOperator", [], "Caller is neither the owner/controller nor its approved operator"); }
+}
+
+export class ExceedsClaimableError extends SUSDDVaultError {
+  constructor(readonly requested: bigint, readonly claimable: bigint) {
+    super("ExceedsClaimable", [requested, claimable], `Claim of ${requested} exceeds the claimable ${claimable}`);
+  }
+}
+
+export class NothingToSettleError extends SUSDDVaultError {
+  constructor() { super("NothingToSettle", [], "No pending requests in the current epoch"); }
+}
+
+// ============ Deposit Limiter Errors ============
+
+export class DepositBelowMinimumError extends SUSDDVaultError {
+  constructor(readonly assets: bigint, readonly minimum: bigint) {
+    super("DepositBelowMinimum", [assets, minimum], `Deposit of ${assets} is below the minimum deposit ${minimum}`);
+  }
+}
+
+export class DepositorCapExceededError extends SUSDDVaultError {
+  constructor(readonly account: string, readonly assets: bigint, readonly available: bigint) {
+    super(
+      "DepositorCapExceeded",
+      [account, assets, available],
+      `Deposit of ${assets} exceeds the ${available} left under the depositor cap of ${account}`
+    );
+  }
+}
+
+export class InflowLimitExceededError extends SUSDDVaultError {
+  constructor(readonly assets: bigint, readonly available: bigint) {
+    super("InflowLimitExceeded", [assets, available], `Deposit of ${assets} exceeds the ${available} left under the inflow limit`);
+  }
+}
+
+// ============ Inherited (OpenZeppelin) Errors ============
+
+export class ExceededMaxDepositError extends SUSDDVaultError {
+  constructor(readonly receiver: string, readonly assets: bigint, readonly max: bigint) {
+    super("ERC4626ExceededMaxDeposit", [receiver, assets, max], `Deposit of ${assets} exceeds maxDeposit(${receiver}) = ${max}`);
+  }
+}
+
+export class ExceededMaxRedeemError extends SUSDDVaultError {
+  constructor(readonly owner: string, readonly shares: bigint, readonly max: bigint) {
+    super("ERC4626ExceededMaxRedeem", [owner, shares, max], `Redeem of ${shares} shares exceeds maxRedeem(${owner}) = ${max}`);
+  }
+}
+
+export class EnforcedPauseError extends SUSDDVaultError {
+  constructor() { super("EnforcedPause", [], "Vault is paused"); }
+}
+
+export class InsufficientAllowanceError extends SUSDDVaultError {
+  constructor(readonly spender: string, readonly allowance: bigint, readonly needed: bigint) {
+    super("ERC20InsufficientAllowance", [spender, allowance, needed], `Allowance of ${spender} is ${allowance}, needs ${needed}`);
+  }
+}
+
+export class InsufficientBalanceError extends SUSDDVaultError {
+  constructor(readonly sender: string, readonly balance: bigint, readonly needed: bigint) {
+    super("ERC20InsufficientBalance", [sender, balance, needed], `Balance of ${sender} is ${balance}, needs ${needed}`);
+  }
+}
+
+export class UnauthorizedAccountError extends SUSDDVaultError {
+  constructor(readonly account: string, readonly neededRole: string) {
+    super("AccessControlUnauthorizedAccount", [account, neededRole], `${account} is missing role ${neededRole}`);
+  }
+}
+
+// ============ Decoding ============
+
+const ERROR_FACTORIES: Record<string, (args: Result) => SUSDDVaultError> = {
+  InvalidLTV: () => new InvalidLTVError(),
+  LTVExceedsLLTV: () => new LTVExceedsLLTVError(),
+  InvalidFee: () => new InvalidFeeError(),
+  InvalidRecipient: () => new InvalidRecipientError(),
+  MaxTotalAssetsExceeded: () => new MaxTotalAssetsExceededError(),
+  FlashLoanCallbackFailed: () => new FlashLoanCallbackFailedError(),
+  UnauthorizedCallback: () => new UnauthorizedCallbackError(),
+  ZeroNAV: () => new ZeroNAVError(),
+  DepositTooSmall: () => new DepositTooSmallError(),
+  NotWhitelisted: (args) => new NotWhitelistedError(args[0]),
+  InvalidAdmin: () => new InvalidAdminError(),
+  InvalidMerklDistributor: () => new InvalidMerklDistributorError(),
+  NoRewardsReceived: () => new NoRewardsReceivedError(),
+  MerklClaimFailed: () => new MerklClaimFailedError(),
+  NotSupported: () => new NotSupportedError(),
+  SlippageExceeded: (args) => new SlippageExceededError(args[0], args[1]),
+  InsufficientPSMLiquidity: (args) => new InsufficientPSMLiquidityError(args[0], args[1]),
+  InvalidSwapRoute: () => new InvalidSwapRouteError(),
+  SwapRouteFailed: () => new SwapRouteFailedError(),
+  NotOperator: () => new NotOperatorError(),
+  ExceedsClaimable: (args) => new ExceedsClaimableError(args[0], args[1]),
+  NothingToSettle: () => new NothingToSettleError(),
+  DepositBelowMinimum: (args) => new DepositBelowMinimumError(args[0], args[1]),
+  DepositorCapExceeded: (args) => new DepositorCapExceededError(args[0], args[1], args[2]),
+  InflowLimitExceeded: (args) => new InflowLimitExceededError(args[0], args[1]),
+  ERC4626ExceededMaxDeposit: (args) => new ExceededMaxDepositError(args[0], args[1], args[2]),
+  ERC4626ExceededMaxRedeem: (args) => new ExceededMaxRedeemError(args[0], args[1], args[2]),
+  EnforcedPause: () => new EnforcedPauseError(),
+  ERC20InsufficientAllowance: (args) => new InsufficientAllowanceError(args[0], args[1], args[2]),
+  ERC20InsufficientBalance: (args) => new InsufficientBalanceError(args[0], args[1], args[2]),
+  AccessControlUnauthorizedAccount: (args) => new UnauthorizedAccountError(args[0], args[1]),
+};
+
+/** Find revert data in an ethers error (nested differently by providers and hardhat) */
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (depth > 5 || error === null || typeof error !== "object") return null;
+  const candidate = error as Record<string, unknown>;
+
+  if (typeof candidate.data === "string" && candidate.data.startsWith("0x") && candidate.data.length >= 10) {
+    return candidate.data;
+  }
+  for (const key of ["error", "info", "cause", "data"]) {
+    const found = findRevertData(candidate[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Decode revert data (or an ethers error carrying it) into a typed SUSDDVault/SUSDDAsyncVault/DepositLimiter error; null if it is none */
+export function decodeVaultError(errorOrData: unknown): SUSDDVaultError | null {
+  const data = typeof errorOrData === "string" ? errorOrData : findRevertData(errorOrData);
+  if (!data) return null;
+
+  const parsed =
+    vaultInterface.parseError(data) ?? asyncVaultInterface.parseError(data) ?? limiterInterface.parseError(data);
+  if (!parsed) return null;
+
+  const factory = ERROR_FACTORIES[parsed.name];
+  return factory ? factory(parsed.args) : new SUSDDVaultError(parsed.name, [...parsed.args]);
+}
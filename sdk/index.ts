@@ -0,0 +1,13 @@
+// TypeScript client for SUSDDVault integrators.
+//
+//   const client = new SUSDDVaultClient(vaultAddress, signer);
+//   await client.approve(amount);
+//   const { shares } = await client.deposit(amount);
+//   const preview = await client.previewRedeem(shares);
+//   const { assets } = await client.redeem(shares);
+
+export * from "./asyncClient";
+export * from "./client";
+export * from "./errors";
+export * from "./preview";
+export * from "./routes";
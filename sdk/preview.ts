@@ -0,0 +1,166 @@
+import { ContractRunner } from "ethers";
+import {
+  IERC20__factory,
+  IERC4626__factory,
+  IMorpho__factory,
+  IPSM__factory,
+  SUSDDVault__factory,
+} from "../typechain-types";
+import { ADDRESSES, MARKET_ID, WAD } from "../scripts/lib/constants";
+import { expectedMarketBalances, toAssetsUp } from "../scripts/lib/morpho";
+import { readMarket } from "../scripts/lib/position";
+
+const MAX_BPS = 10000n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+/** How redeem() would unwind the Morpho position (mirrors the branches of PositionLib.unwind) */
+export type UnwindPath =
+  | "none" // no collateral: idle USDT only
+  | "flash-loan" // repay proportional debt with a flash loan, withdraw and sell collateral
+  | "collateral-only" // no debt: withdraw and sell collateral directly
+  | "skipped"; // proportional debt or collateral rounds to 0: user gets the idle portion only
+
+export interface RedeemPreview {
+  /** USDT the receiver would get */
+  assets: bigint;
+  /** Proportional share of idle USDT */
+  idleAssets: bigint;
+  /** Net USDT from the position unwind (collateral sold minus debt repaid); negative is a loss taken from idle */
+  positionAssets: bigint;
+  /** Share of supply being paid out (WAD): net of the redeem fee, after fee accrual */
+  withdrawRatio: bigint;
+  /** Management fee shares minted to feeRecipient before the redeem */
+  managementFeeShares: bigint;
+  /** Performance fee shares minted to feeRecipient before the redeem, after the management fee */
+  feeShares: bigint;
+  /** Part of `shares` kept as the redeem fee (paid to feeRecipient or left in the vault) */
+  redeemFeeShares: bigint;
+  debtToRepay: bigint;
+  collateralToWithdraw: bigint;
+  unwind: UnwindPath;
+}
+
+/** Fee shares _accruePerformanceFee would mint for the given NAV and supply */
+export function performanceFeeShares(nav: bigint, supply: bigint, feeBps: bigint, highWaterMark: bigint): bigint {
+  if (feeBps === 0n || supply === 0n) return 0n;
+
+  const currentPPS = (nav * WAD) / supply;
+  if (currentPPS <= highWaterMark) return 0n;
+
+  const feePerShare = ((currentPPS - highWaterMark) * feeBps) / MAX_BPS;
+  return (supply * feePerShare) / (currentPPS - feePerShare);
+}
+
+/** Fee shares _accruePerformanceFee would mint for `elapsed` seconds of management fee */
+export function managementFeeShares(supply: bigint, feeBps: bigint, elapsed: bigint): bigint {
+  if (feeBps === 0n || supply === 0n) return 0n;
+
+  const fee = feeBps * elapsed;
+  return (supply * fee) / (MAX_BPS * SECONDS_PER_YEAR - fee);
+}
+
+/** Part of `shares` the vault keeps as a deposit or redeem fee */
+export function entryExitFeeShares(shares: bigint, feeBps: bigint): bigint {
+  return (shares * feeBps) / MAX_BPS;
+}
+
+/**
+ * Off-chain simulation of SUSDDVault.redeem(shares): management and performance fee accrual and
+ * the redeem fee, then PositionLib.unwind's proportional idle + position math, including PSM tout on the
+ * sUSDD -> USDT leg and the branches where the position unwind is skipped.
+ *
+ * Debt is priced with the market state accrued to the latest block, like
+ * MorphoBalancesLib.expectedMarketBalances does on-chain.
+ */
+export async function simulateRedeem(vaultAddress: string, shares: bigint, runner: ContractRunner): Promise<RedeemPreview> {
+  const provider = runner.provider;
+  if (!provider) throw new Error("simulateRedeem: runner has no provider");
+
+  const vault = SUSDDVault__factory.connect(vaultAddress, runner);
+  const morpho = IMorpho__factory.connect(ADDRESSES.MORPHO, runner);
+  const usdt = IERC20__factory.connect(ADDRESSES.USDT, runner);
+
+  const block = await provider.getBlock("latest");
+  if (!block) throw new Error("simulateRedeem: latest block unavailable");
+
+  const [
+    nav,
+    supply,
+    feeBps,
+    highWaterMark,
+    managementFeeBps,
+    lastFeeAccrual,
+    redeemFeeBps,
+    idle,
+    pos,
+    { market, borrowRate },
+    tout,
+  ] = await Promise.all([
+    vault.totalAssets(),
+    vault.totalSupply(),
+    vault.performanceFeeBps(),
+    vault.highWaterMark(),
+    vault.managementFeeBps(),
+    vault.lastFeeAccrual(),
+    vault.redeemFeeBps(),
+    usdt.balanceOf(vaultAddress),
+    morpho.position(MARKET_ID, vaultAddress),
+    readMarket(runner),
+    IPSM__factory.connect(ADDRESSES.PSM, runner).tout(),
+  ]);
+
+  const managementShares = managementFeeShares(supply, managementFeeBps, BigInt(block.timestamp) - lastFeeAccrual);
+  const feeShares = performanceFeeShares(nav, supply + managementShares, feeBps, highWaterMark);
+  const supplyBefore = supply + managementShares + feeShares;
+  const redeemFeeShares = entryExitFeeShares(shares, redeemFeeBps);
+
+  const preview: RedeemPreview = {
+    assets: 0n,
+    idleAssets: 0n,
+    positionAssets: 0n,
+    withdrawRatio: supplyBefore > 0n ? ((shares - redeemFeeShares) * WAD) / supplyBefore : 0n,
+    managementFeeShares: managementShares,
+    feeShares,
+    redeemFeeShares,
+    debtToRepay: 0n,
+    collateralToWithdraw: 0n,
+    unwind: "none",
+  };
+  if (supplyBefore === 0n) return preview;
+
+  preview.idleAssets = (idle * preview.withdrawRatio) / WAD;
+
+  if (pos.collateral > 0n) {
+    const sharesToRepay = (pos.borrowShares * preview.withdrawRatio) / WAD;
+    const collateralToWithdraw = (pos.collateral * preview.withdrawRatio) / WAD;
+
+    if (sharesToRepay > 0n && collateralToWithdraw > 0n) {
+      const accrued = expectedMarketBalances(market, borrowRate, BigInt(block.timestamp));
+      preview.debtToRepay = toAssetsUp(sharesToRepay, accrued.totalBorrowAssets, accrued.totalBorrowShares);
+      preview.collateralToWithdraw = collateralToWithdraw;
+      preview.unwind = "flash-loan";
+    } else if (collateralToWithdraw > 0n && pos.borrowShares === 0n) {
+      preview.collateralToWithdraw = collateralToWithdraw;
+      preview.unwind = "collateral-only";
+    } else {
+      preview.unwind = "skipped";
+    }
+  }
+
+  if (preview.collateralToWithdraw > 0n) {
+    // SwapHelper.swapSUSDDtoUSDT: redeem sUSDD, then buy as much USDT as the USDD covers after tout
+    const usdd = await IERC4626__factory.connect(ADDRESSES.SUSDD, runner).previewRedeem(preview.collateralToWithdraw);
+    const usdtOut = (usdd * 10n ** 6n) / (WAD + tout);
+    preview.positionAssets = usdtOut - preview.debtToRepay;
+  }
+
+  // A losing unwind (e.g. tout above the position's equity) is deducted from the idle portion
+  if (preview.positionAssets >= 0n) {
+    preview.assets = preview.idleAssets + preview.positionAssets;
+  } else {
+    const loss = -preview.positionAssets;
+    preview.assets = preview.idleAssets > loss ? preview.idleAssets - loss : 0n;
+  }
+
+  return preview;
+}
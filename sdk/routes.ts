@@ -0,0 +1,74 @@
+import { ContractRunner, ZeroAddress, getBytes, hexlify, toBeHex } from "ethers";
+import { IERC4626__factory, IMorpho__factory } from "../typechain-types";
+import { ADDRESSES, MARKET_ID } from "../scripts/lib/constants";
+import { simulateRedeem } from "./preview";
+
+// Aggregator exit routes for SUSDDVault.redeemWithRoute and exitToIdleWithRoute.
+//
+// A route replaces the PSM buyGem leg (USDD -> USDT) with a call to a router the admin
+// whitelisted via setSwapRouter. The USDD amount is only known inside the vault's flash loan,
+// so SwapHelper writes it into the calldata at `amountOffset` before calling the router.
+//
+//   const usdd = await redeemRouteAmount(vault, shares, provider);
+//   const route = buildSwapRoute(router, (amount) => encodeAggregatorSwap(amount, vault), minUsdtOut);
+//   await client.redeemWithRoute(shares, route, minAssets);
+
+const MAX_BPS = 10000n;
+
+/** Mirrors SwapHelper.SwapRoute */
+export interface SwapRoute {
+  router: string;
+  /** Router calldata; the 32-byte word at amountOffset is overwritten with the USDD amount */
+  data: string;
+  /** Byte offset of the USDD amount word in data */
+  amountOffset: bigint;
+  /** Minimum USDT out of the whole swap (6 decimals) */
+  minAmountOut: bigint;
+}
+
+/** Zero router: swaps go through the PSM */
+export const NO_ROUTE: SwapRoute = { router: ZeroAddress, data: "0x", amountOffset: 0n, minAmountOut: 0n };
+
+/** Placeholder amount used to locate the amount word in encoded calldata */
+const AMOUNT_SENTINEL = BigInt("0x" + "a5".repeat(32));
+
+/**
+ * Build a route from an encoder for the router call, e.g. an aggregator's swap calldata
+ * with the vault as recipient. The encoder is called once with a sentinel amount to find
+ * where the amount sits; it must appear exactly once.
+ */
+export function buildSwapRoute(router: string, encode: (usddAmount: bigint) => string, minAmountOut: bigint): SwapRoute {
+  const data = getBytes(encode(AMOUNT_SENTINEL));
+  const hex = hexlify(data).slice(2);
+  const word = toBeHex(AMOUNT_SENTINEL, 32).slice(2);
+
+  const offsets: number[] = [];
+  for (let i = hex.indexOf(word); i !== -1; i = hex.indexOf(word, i + 2)) {
+    if (i % 2 === 0) offsets.push(i / 2);
+  }
+  if (offsets.length !== 1) {
+    throw new Error(`buildSwapRoute: amount found ${offsets.length} times in the encoded calldata, expected once`);
+  }
+
+  return { router, data: hexlify(data), amountOffset: BigInt(offsets[0]), minAmountOut };
+}
+
+/** `amount` less `slippageBps`, for route.minAmountOut and minAssets */
+export function withSlippage(amount: bigint, slippageBps: bigint): bigint {
+  if (slippageBps < 0n || slippageBps > MAX_BPS) throw new Error(`withSlippage: ${slippageBps} bps is out of range`);
+  return (amount * (MAX_BPS - slippageBps)) / MAX_BPS;
+}
+
+/** USDD a routed redeem of `shares` sells: its collateral share, unstaked from sUSDD */
+export async function redeemRouteAmount(vaultAddress: string, shares: bigint, runner: ContractRunner): Promise<bigint> {
+  const { collateralToWithdraw } = await simulateRedeem(vaultAddress, shares, runner);
+  if (collateralToWithdraw === 0n) return 0n;
+  return IERC4626__factory.connect(ADDRESSES.SUSDD, runner).previewRedeem(collateralToWithdraw);
+}
+
+/** USDD exitToIdleWithRoute sells: all collateral, unstaked from sUSDD */
+export async function exitRouteAmount(vaultAddress: string, runner: ContractRunner): Promise<bigint> {
+  const { collateral } = await IMorpho__factory.connect(ADDRESSES.MORPHO, runner).position(MARKET_ID, vaultAddress);
+  if (collateral === 0n) return 0n;
+  return IERC4626__factory.connect(ADDRESSES.SUSDD, runner).previewRedeem(collateral);
+}
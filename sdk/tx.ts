@@ -0,0 +1,28 @@
+import { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import { decodeVaultError } from "./errors";
+
+// Transaction plumbing shared by the clients (not re-exported from the SDK index).
+
+/** The runner as a Signer; `client` names the caller in the error */
+export function requireSigner(runner: ContractRunner, client: string): Signer {
+  const signer = runner as Signer;
+  if (typeof signer.getAddress !== "function") {
+    throw new Error(`${client}: a Signer is required for transactions`);
+  }
+  return signer;
+}
+
+/** Send a transaction and rethrow reverts (at estimation or mining) as typed errors */
+export async function sendTransaction(
+  client: string,
+  submit: () => Promise<ContractTransactionResponse>
+): Promise<ContractTransactionReceipt> {
+  try {
+    const tx = await submit();
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`${client}: transaction was dropped`);
+    return receipt;
+  } catch (error) {
+    throw decodeVaultError(error) ?? error;
+  }
+}
@@ -0,0 +1,130 @@
+import { Signer } from "ethers";
+import { HardhatPluginError } from "hardhat/plugins";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { join } from "path";
+import { ADDRESSES, MARKET_ID } from "../scripts/lib/constants";
+import { DeploymentRegistry, TimelockDeployment, deploymentsDir, loadRegistry, resolveVault } from "../scripts/lib/deployments";
+import { SafeTransaction, buildSafeBatch, encodeSafeTransaction, writeSafeBatch } from "../scripts/lib/safe";
+import { PLUGIN_NAME } from "./types";
+
+// Chain and registry lookups shared by the tasks. Typechain factories are imported
+// lazily so hardhat.config.ts can load the tasks before the first compile.
+
+export async function readLLTV(hre: HardhatRuntimeEnvironment): Promise<bigint> {
+  if ((await hre.ethers.provider.getCode(ADDRESSES.MORPHO)) === "0x") {
+    throw new HardhatPluginError(PLUGIN_NAME, `Morpho Blue is not deployed on network "${hre.network.name}"`);
+  }
+  const { IMorpho__factory } = await import("../typechain-types");
+  return (await IMorpho__factory.connect(ADDRESSES.MORPHO, hre.ethers.provider).idToMarketParams(MARKET_ID)).lltv;
+}
+
+export async function assertContract(hre: HardhatRuntimeEnvironment, param: string, target: string): Promise<void> {
+  if ((await hre.ethers.provider.getCode(target)) === "0x") {
+    throw new HardhatPluginError(PLUGIN_NAME, `Invalid ${param}: no contract at ${target} on network "${hre.network.name}"`);
+  }
+}
+
+/** deployments/<network>.json for the connected network */
+export async function openRegistry(hre: HardhatRuntimeEnvironment): Promise<DeploymentRegistry> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  try {
+    return loadRegistry(hre.network.name, Number(chainId));
+  } catch (error) {
+    throw new HardhatPluginError(PLUGIN_NAME, (error as Error).message);
+  }
+}
+
+/** Resolve a vault address or registered name to a proxy with code */
+export async function resolveVaultRef(
+  hre: HardhatRuntimeEnvironment,
+  registry: DeploymentRegistry,
+  param: string,
+  ref: string
+): Promise<string> {
+  let proxy: string;
+  try {
+    proxy = resolveVault(registry, ref);
+  } catch (error) {
+    throw new HardhatPluginError(PLUGIN_NAME, `Invalid ${param}: ${(error as Error).message}`);
+  }
+  await assertContract(hre, param, proxy);
+  return proxy;
+}
+
+/** The VaultTimelock registered for `vault` by timelock:deploy */
+export function registeredTimelock(hre: HardhatRuntimeEnvironment, registry: DeploymentRegistry, vault: string): TimelockDeployment {
+  const timelock = registry.timelocks?.[vault];
+  if (!timelock) {
+    throw new HardhatPluginError(PLUGIN_NAME, `No VaultTimelock registered for ${vault} on ${hre.network.name}: run timelock:deploy`);
+  }
+  return timelock;
+}
+
+/**
+ * PositionLib address to link SUSDDVault against: the registered one while its code matches
+ * the compiled library, otherwise a fresh deploy recorded in `registry` (the caller saves it).
+ * Deployed library code embeds its own address (the delegatecall guard), which is zeroed out
+ * before comparing with the artifact.
+ */
+export async function resolvePositionLib(
+  hre: HardhatRuntimeEnvironment,
+  registry: DeploymentRegistry,
+  signer: Signer
+): Promise<string> {
+  const registered = registry.positionLib?.address;
+  if (registered) {
+    const { deployedBytecode } = await hre.artifacts.readArtifact("PositionLib");
+    const code = (await hre.ethers.provider.getCode(registered)).toLowerCase();
+    if (code !== "0x" && code.split(registered.slice(2).toLowerCase()).join("0".repeat(40)) === deployedBytecode.toLowerCase()) {
+      console.log("  PositionLib:", registered, "(registered)");
+      return registered;
+    }
+    console.log("  Registered PositionLib", registered, "is outdated: deploying the compiled one");
+  }
+
+  const factory = await hre.ethers.getContractFactory("PositionLib", signer);
+  const lib = await factory.deploy();
+  const receipt = await lib.deploymentTransaction()!.wait();
+  const address = await lib.getAddress();
+  registry.positionLib = { address, txHash: receipt!.hash, blockNumber: receipt!.blockNumber };
+  console.log("  PositionLib:", address, "(deployed)");
+  return address;
+}
+
+/**
+ * SUSDDVault calls as Transaction Builder entries; the artifact ABI carries the internalTypes.
+ * Calls with a `target` go to that companion contract instead.
+ */
+export async function encodeVaultCalls(
+  hre: HardhatRuntimeEnvironment,
+  vault: string,
+  calls: { method: string; args: readonly unknown[]; target?: { contract: string; address: string } }[]
+): Promise<SafeTransaction[]> {
+  const encoded: SafeTransaction[] = [];
+  for (const call of calls) {
+    const { abi } = await hre.artifacts.readArtifact(call.target?.contract ?? "SUSDDVault");
+    encoded.push(encodeSafeTransaction(abi, call.target?.address ?? vault, call.method, call.args));
+  }
+  return encoded;
+}
+
+/** Write a Safe Transaction Builder batch (default: deployments/safe/<network>/<label>-<timestamp>.json) */
+export async function exportSafeBatch(
+  hre: HardhatRuntimeEnvironment,
+  params: { safe: string; out?: string; label: string; description: string; transactions: SafeTransaction[] }
+): Promise<string> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const path = params.out ?? join(deploymentsDir(), "safe", hre.network.name, `${params.label}-${Date.now()}.json`);
+  writeSafeBatch(
+    path,
+    buildSafeBatch({
+      chainId,
+      safe: params.safe,
+      name: params.label,
+      description: params.description,
+      transactions: params.transactions,
+    })
+  );
+  console.log(`\nSafe batch (${params.transactions.length} transactions for ${params.safe}):`, path);
+  return path;
+}
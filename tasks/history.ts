@@ -0,0 +1,265 @@
+import { ethers } from "ethers";
+import { writeFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { WAD } from "../scripts/lib/constants";
+import { findVaultName } from "../scripts/lib/deployments";
+import type { SplitChange } from "../scripts/lib/feeSplit";
+import type { HistoryStore } from "../scripts/lib/indexer";
+import { openRegistry, resolveVaultRef } from "./helpers";
+import { PLUGIN_NAME, address, vaultRef } from "./types";
+
+// Vault history: history:index scans the vault's events into a JSON store
+// (history/<chainId>-<vault>.json by default), the other history:* tasks query it.
+// Reports are only as fresh as the store: re-run history:index before them.
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().replace(".000Z", "Z");
+}
+
+interface StoreArgs {
+  vault: string;
+  db?: string;
+}
+
+/** Load the store for --vault on the connected network (or --db) */
+async function openStore(hre: HardhatRuntimeEnvironment, args: StoreArgs): Promise<HistoryStore> {
+  const { historyPath, loadStore } = await import("../scripts/lib/indexer");
+  const registry = await openRegistry(hre);
+  const vault = await resolveVaultRef(hre, registry, "vault", args.vault);
+  const path = args.db ?? historyPath(registry.chainId, vault);
+
+  let store: HistoryStore | undefined;
+  try {
+    store = loadStore(path, { chainId: registry.chainId, vault });
+  } catch (error) {
+    throw new HardhatPluginError(PLUGIN_NAME, (error as Error).message);
+  }
+  if (!store) throw new HardhatPluginError(PLUGIN_NAME, `No history at ${path}: run history:index --vault ${args.vault} first`);
+  return store;
+}
+
+interface IndexArgs extends StoreArgs {
+  fromBlock?: number;
+  toBlock?: number;
+  batchSize: number;
+  rpc?: string;
+}
+
+task("history:index", "Scan vault events into the local history store, continuing from the last indexed block")
+  .addParam("vault", "Vault address or registry name (addresses only with --rpc)", undefined, vaultRef)
+  .addOptionalParam("fromBlock", "First block for a new store (default: deploy block, else 0)", undefined, types.int)
+  .addOptionalParam("toBlock", "Last block to scan (default: latest)", undefined, types.int)
+  .addOptionalParam("batchSize", "Blocks per eth_getLogs call", 10_000, types.int)
+  .addOptionalParam("rpc", "JSON-RPC endpoint to read from instead of --network")
+  .addOptionalParam("db", "Store path (default: history/<chainId>-<vault>.json)")
+  .setAction(async (args: IndexArgs, hre) => {
+    const { emptyStore, historyPath, indexVault, loadStore, saveStore } = await import("../scripts/lib/indexer");
+
+    let provider: ethers.Provider = hre.ethers.provider;
+    let vault: string;
+    let fromBlock = args.fromBlock;
+    if (args.rpc) {
+      if (!args.vault.startsWith("0x")) {
+        throw new HardhatPluginError(PLUGIN_NAME, "Invalid vault: registry names resolve on --network, pass an address with --rpc");
+      }
+      provider = new ethers.JsonRpcProvider(args.rpc);
+      vault = args.vault;
+    } else {
+      const registry = await openRegistry(hre);
+      vault = await resolveVaultRef(hre, registry, "vault", args.vault);
+      const name = findVaultName(registry, vault);
+      fromBlock ??= name ? registry.vaults[name].deployBlock : 0;
+    }
+
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const toBlock = args.toBlock ?? (await provider.getBlockNumber());
+    const path = args.db ?? historyPath(chainId, vault);
+
+    let store: HistoryStore;
+    try {
+      store = loadStore(path, { chainId, vault }) ?? emptyStore(chainId, vault, fromBlock ?? 0);
+    } catch (error) {
+      throw new HardhatPluginError(PLUGIN_NAME, (error as Error).message);
+    }
+
+    const start = store.lastBlock + 1;
+    const added = await indexVault(provider, store, toBlock, args.batchSize);
+    saveStore(path, store);
+
+    console.log(`Indexed ${vault} blocks ${start}-${toBlock}: ${added} new events (${store.events.length} total)`);
+    console.log("Store:", path);
+    return { path, fromBlock: start, toBlock, added };
+  });
+
+task("history:pps", "Print the pricePerShare history from VaultSnapshot events")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("db", "Store path (default: history/<chainId>-<vault>.json)")
+  .setAction(async (args: StoreArgs, hre) => {
+    const { ppsHistory } = await import("../scripts/lib/indexer");
+    const points = ppsHistory(await openStore(hre, args));
+
+    console.log("Time                  Block       Price Per Share         Total Assets (USDT)");
+    for (const p of points) {
+      console.log(
+        `${formatTime(p.timestamp).padEnd(22)}${String(p.blockNumber).padEnd(12)}` +
+          `${ethers.formatUnits(p.pricePerShare, 18).padEnd(24)}${ethers.formatUnits(p.totalAssets, 6)}`
+      );
+    }
+    return points;
+  });
+
+task("history:fees", "Print performance and management fee mints with their USDT value")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("db", "Store path (default: history/<chainId>-<vault>.json)")
+  .addFlag("byRecipient", "Attribute each fee to the accounts a FeeSplitter recipient forwarded it to")
+  .setAction(async (args: StoreArgs & { byRecipient: boolean }, hre) => {
+    const { feeHistory } = await import("../scripts/lib/indexer");
+    const store = await openStore(hre, args);
+    const fees = feeHistory(store);
+
+    if (args.byRecipient) {
+      const { attributeFees, readSplitHistory, totalsByRecipient } = await import("../scripts/lib/feeSplit");
+      const histories = new Map<string, SplitChange[]>();
+      for (const recipient of new Set(fees.map((fee) => fee.recipient))) {
+        histories.set(recipient, await readSplitHistory(hre.ethers.provider, recipient, store.fromBlock));
+      }
+      const attributions = attributeFees(fees, histories);
+
+      for (const a of attributions) {
+        const via = a.account === a.recipient ? "" : ` via ${a.recipient} (${a.bps} bps)`;
+        console.log(
+          `${formatTime(a.timestamp)}  block ${a.blockNumber}  ${a.kind.padEnd(11)} ${ethers.formatUnits(a.feeShares, 6)} shares` +
+            ` (${ethers.formatUnits(a.feeAssets, 6)} USDT) to ${a.account}${via}`
+        );
+      }
+      const totals = totalsByRecipient(attributions);
+      console.log("Totals:");
+      for (const t of totals) {
+        console.log(`  ${t.account}  ${ethers.formatUnits(t.feeShares, 6)} shares (${ethers.formatUnits(t.feeAssets, 6)} USDT)`);
+      }
+      return totals;
+    }
+
+    let total = 0n;
+    for (const fee of fees) {
+      total += fee.feeAssets;
+      console.log(
+        `${formatTime(fee.timestamp)}  block ${fee.blockNumber}  ${fee.kind.padEnd(11)} ${ethers.formatUnits(fee.feeShares, 6)} shares` +
+          ` (${ethers.formatUnits(fee.feeAssets, 6)} USDT) to ${fee.recipient}`
+      );
+    }
+    console.log(`Total: ${fees.length} accruals, ${ethers.formatUnits(total, 6)} USDT`);
+    return fees;
+  });
+
+task("history:cost-basis", "Print average-cost basis and realized PnL per holder")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("account", "Only this holder", undefined, address)
+  .addOptionalParam("db", "Store path (default: history/<chainId>-<vault>.json)")
+  .setAction(async (args: StoreArgs & { account?: string }, hre) => {
+    const { costBasis } = await import("../scripts/lib/indexer");
+    const all = [...costBasis(await openStore(hre, args)).values()];
+    const holders = args.account ? all.filter((b) => b.account === args.account) : all;
+
+    for (const b of holders) {
+      console.log(b.account);
+      console.log("  Shares:", ethers.formatUnits(b.shares, 6), b.feeShares > 0n ? `(${ethers.formatUnits(b.feeShares, 6)} from fees)` : "");
+      console.log("  Cost Basis:", ethers.formatUnits(b.costBasis, 6), "USDT");
+      console.log("  Deposited:", ethers.formatUnits(b.deposited, 6), "USDT");
+      console.log("  Withdrawn:", ethers.formatUnits(b.withdrawn, 6), "USDT");
+      console.log("  Realized PnL:", ethers.formatUnits(b.realizedPnl, 6), "USDT");
+    }
+    return holders;
+  });
+
+interface PnlArgs extends StoreArgs {
+  account?: string;
+  format: string;
+  out?: string;
+}
+
+task("history:pnl", "Per-depositor realized/unrealized PnL, fees paid and time-weighted return")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("account", "Only this holder", undefined, address)
+  .addOptionalParam("format", "table, csv or json", "table")
+  .addOptionalParam("out", "Write the csv/json report to this path instead of stdout")
+  .addOptionalParam("db", "Store path (default: history/<chainId>-<vault>.json)")
+  .setAction(async (args: PnlArgs, hre) => {
+    if (!["table", "csv", "json"].includes(args.format)) {
+      throw new HardhatPluginError(PLUGIN_NAME, `Invalid format: "${args.format}" is not table, csv or json`);
+    }
+    const { pnlReport, pnlToCsv, pnlToJson } = await import("../scripts/lib/pnl");
+    const store = await openStore(hre, args);
+
+    // Marked at the live NAV price, the same definition as VaultSnapshot.pricePerShare
+    const vault = await hre.ethers.getContractAt("SUSDDVault", store.vault);
+    const [nav, supply, block] = await Promise.all([vault.totalAssets(), vault.totalSupply(), hre.ethers.provider.getBlock("latest")]);
+    const pps = supply > 0n ? (nav * WAD) / supply : WAD;
+    if (block!.number > store.lastBlock) {
+      console.log(`Note: history ends at block ${store.lastBlock}, chain is at ${block!.number}; run history:index to catch up`);
+    }
+
+    const all = pnlReport(store, pps, block!.timestamp);
+    const rows = args.account ? all.filter((row) => row.account === args.account) : all;
+
+    if (args.format === "table") {
+      for (const row of rows) {
+        console.log(row.account);
+        console.log("  Shares:", ethers.formatUnits(row.shares, 6), `(${ethers.formatUnits(row.currentValue, 6)} USDT)`);
+        console.log("  Cost Basis:", ethers.formatUnits(row.costBasis, 6), "USDT");
+        console.log("  Realized PnL:", ethers.formatUnits(row.realizedPnl, 6), "USDT");
+        console.log("  Unrealized PnL:", ethers.formatUnits(row.unrealizedPnl, 6), "USDT");
+        console.log("  Fees Paid:", ethers.formatUnits(row.feesPaid, 6), "USDT");
+        console.log("  TWR:", ethers.formatUnits(row.twr * 100n, 18) + "%", `over ${(row.heldSeconds / 86400).toFixed(1)} days`);
+      }
+    } else {
+      const output = args.format === "csv" ? pnlToCsv(rows) : pnlToJson(rows);
+      if (args.out) {
+        writeFileSync(args.out, output);
+        console.log("Report:", args.out);
+      } else {
+        process.stdout.write(output);
+      }
+    }
+    return rows;
+  });
+
+interface APYArgs extends StoreArgs {
+  asOf?: number;
+}
+
+task("history:apy", "Net and gross APR/APY over 1d, 7d, 30d and since inception, with the return split by source")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("asOf", "Report as of this unix timestamp (default: last snapshot)", undefined, types.int)
+  .addOptionalParam("db", "Store path (default: history/<chainId>-<vault>.json)")
+  .setAction(async (args: APYArgs, hre) => {
+    const { apyReport, susddRateAt } = await import("../scripts/lib/apy");
+    const { formatAPY } = await import("../scripts/lib/carry");
+    const { eventsOfType } = await import("../scripts/lib/indexer");
+    const store = await openStore(hre, args);
+
+    // Without a Rebalanced event the vault has kept its initial targetLTV
+    const vault = await hre.ethers.getContractAt("SUSDDVault", store.vault);
+    const initialTargetLTV = eventsOfType(store, "rebalance").length === 0 ? await vault.targetLTV() : undefined;
+
+    const rateAt = susddRateAt(hre.ethers.provider);
+    const readRate = (block: number) =>
+      rateAt(block).catch((error: Error) => {
+        throw new HardhatPluginError(PLUGIN_NAME, `sUSDD rate at block ${block} unavailable (archive node needed): ${error.message}`);
+      });
+    const windows = await apyReport(store, readRate, { asOf: args.asOf, initialTargetLTV });
+    if (windows.length === 0) console.log("Not enough snapshots: run history:index after the first deposit");
+
+    for (const w of windows) {
+      console.log(`${w.label}: ${formatTime(w.fromTimestamp)} -> ${formatTime(w.toTimestamp)} (blocks ${w.fromBlock}-${w.toBlock})`);
+      console.log("  Net:", `APR ${formatAPY(w.netAPR)}`, `APY ${formatAPY(w.netAPY)}`);
+      console.log("  Gross:", `APR ${formatAPY(w.grossAPR)}`, `APY ${formatAPY(w.grossAPY)}`);
+      console.log("    sUSDD Yield:", formatAPY(w.breakdown.susddYield));
+      console.log("    Leverage Carry:", formatAPY(w.breakdown.leverageCarry));
+      console.log("    Merkl Rewards:", formatAPY(w.breakdown.merklRewards));
+      console.log("    Fees:", formatAPY(-w.breakdown.fees));
+    }
+    return windows;
+  });
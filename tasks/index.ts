@@ -0,0 +1,41 @@
+// Operator tasks, loaded by hardhat.config.ts
+//
+// Usage (every write task accepts --dry-run; see `npx hardhat help <task>`):
+//   npx hardhat vault:deploy --name main --ltv 0.75 --fee 1000 --cap 500000 --network mainnet
+//   npx hardhat vault:configure --vault main --keeper 0x... --fee 1500 --network mainnet
+//   npx hardhat vault:configure --file config/vault.example.yaml --network mainnet
+//   npx hardhat vault:upgrade --vault main --preflight --network mainnet
+//   npx hardhat vault:preflight --vault 0x... --network hardhat   (MAINNET_RPC_URL set: forks mainnet)
+//   npx hardhat vault:status --vault main --network mainnet
+//   npx hardhat vault:stress --vault main --shock -0.03 --borrow-apr 0.4 --network mainnet
+//   npx hardhat keeper:deploy --vaults main,0x... --network mainnet
+//   npx hardhat queue:deploy --vault main --keeper 0x... --network mainnet
+//   npx hardhat queue:process --vault main --max-batch 50 --network mainnet
+//   npx hardhat splitter:deploy --vault main --split 0x...:7000,0x...:3000 --network mainnet
+//   npx hardhat splitter:distribute --vault main --network mainnet
+//   npx hardhat timelock:deploy --vault main --delay 48h --proposer 0x... --hand-over --network mainnet
+//   npx hardhat vault:configure --vault main --fee 1500 --timelock --network mainnet
+//   npx hardhat vault:pending --vault main [--execute] --network mainnet
+//   npx hardhat limiter:deploy --vault main --min-deposit 100 --depositor-cap 50000 --inflow-limit 250000 --inflow-window 1d --network mainnet
+//   npx hardhat vault:configure --vault main --depositor-cap 100000 --inflow-limit 500000 --network mainnet
+//   npx hardhat history:index --vault main --network mainnet
+//   npx hardhat history:pps|history:fees|history:cost-basis --vault main --network mainnet
+//   npx hardhat history:fees --vault main --by-recipient --network mainnet
+//   npx hardhat history:pnl --vault main --format csv --out pnl.csv --network mainnet
+//   npx hardhat history:apy --vault main --network mainnet
+//
+// Deployments are recorded in deployments/<network>.json; --vault takes a registered
+// name or an address. Addresses must be EIP-55 checksummed; LTVs are decimals
+// (0.75 = 75%) or "idle".
+//
+// When the admin is a Safe, add --safe 0x... to vault:configure, vault:upgrade or
+// keeper:deploy: the admin calls go to a Transaction Builder batch in
+// deployments/safe/<network>/ (or --out) for the owners to import and sign.
+
+import "./vault";
+import "./keeper";
+import "./queue";
+import "./splitter";
+import "./timelock";
+import "./limiter";
+import "./history";
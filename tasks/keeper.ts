@@ -0,0 +1,91 @@
+import { task } from "hardhat/config";
+import { ROLES } from "../scripts/lib/constants";
+import { saveRegistry } from "../scripts/lib/deployments";
+import { SafeTransaction } from "../scripts/lib/safe";
+import { encodeVaultCalls, exportSafeBatch, openRegistry, resolveVaultRef } from "./helpers";
+import { address, vaultRefList } from "./types";
+
+interface KeeperDeployArgs {
+  owner?: string;
+  vaults: string[];
+  safe?: string;
+  out?: string;
+  dryRun: boolean;
+}
+
+task("keeper:deploy", "Deploy EmergencyKeeper and grant it KEEPER_ROLE + PAUSER_ROLE on vaults")
+  .addOptionalParam("owner", "EmergencyKeeper owner (default: deployer)", undefined, address)
+  .addOptionalParam("vaults", "Comma-separated vault addresses or registry names", [], vaultRefList)
+  .addOptionalParam("safe", "Export the role grants as a Safe Transaction Builder batch for this Safe", undefined, address)
+  .addOptionalParam("out", "Safe batch path (default: deployments/safe/<network>/keeper-grants-<timestamp>.json)")
+  .addFlag("dryRun", "Validate and print the deployment without sending transactions")
+  .setAction(async (args: KeeperDeployArgs, hre) => {
+    const [deployer] = await hre.ethers.getSigners();
+    const owner = args.owner ?? deployer.address;
+    const registry = await openRegistry(hre);
+
+    // Fail before deploying anything rather than skipping bad vaults halfway through
+    const vaults: string[] = [];
+    for (const ref of args.vaults) vaults.push(await resolveVaultRef(hre, registry, "vaults", ref));
+
+    console.log("Deployer:", deployer.address, `(network: ${hre.network.name})`);
+    console.log("  Owner:", owner);
+    console.log("  Vaults:", vaults.length > 0 ? vaults.join(", ") : "none");
+    if (registry.emergencyKeeper) {
+      console.log("  Replaces registered EmergencyKeeper:", registry.emergencyKeeper.address);
+    }
+
+    if (args.dryRun) {
+      console.log("\nDry run: no transactions sent");
+      return null;
+    }
+
+    const KeeperFactory = await hre.ethers.getContractFactory("EmergencyKeeper");
+    const keeper = await KeeperFactory.deploy(owner);
+    await keeper.waitForDeployment();
+    const keeperAddress = await keeper.getAddress();
+    console.log("\nEmergencyKeeper deployed:", keeperAddress);
+
+    const grants: SafeTransaction[] = [];
+    for (const vaultAddress of vaults) {
+      const vault = await hre.ethers.getContractAt("SUSDDVault", vaultAddress, deployer);
+      console.log(`\n  Vault: ${vaultAddress}`);
+
+      for (const role of ["KEEPER_ROLE", "PAUSER_ROLE"] as const) {
+        if (await vault.hasRole(ROLES[role], keeperAddress)) continue;
+        if (args.safe) {
+          grants.push(...(await encodeVaultCalls(hre, vaultAddress, [{ method: "grantRole", args: [ROLES[role], keeperAddress] }])));
+          console.log(`    ${role}: grant exported to Safe batch`);
+          continue;
+        }
+        const tx = await vault.grantRole(ROLES[role], keeperAddress);
+        await tx.wait();
+        console.log(`    ${role} granted:`, await vault.hasRole(ROLES[role], keeperAddress));
+      }
+    }
+
+    let safeBatch: string | undefined;
+    if (args.safe && grants.length > 0) {
+      safeBatch = await exportSafeBatch(hre, {
+        safe: args.safe,
+        out: args.out,
+        label: "keeper-grants",
+        description: `Grant KEEPER_ROLE and PAUSER_ROLE to EmergencyKeeper ${keeperAddress}`,
+        transactions: grants,
+      });
+    }
+
+    const receipt = await keeper.deploymentTransaction()!.wait();
+    const block = await hre.ethers.provider.getBlock(receipt!.blockNumber);
+    registry.emergencyKeeper = {
+      address: keeperAddress,
+      owner,
+      txHash: receipt!.hash,
+      blockNumber: receipt!.blockNumber,
+      timestamp: new Date(block!.timestamp * 1000).toISOString(),
+      vaults,
+    };
+    console.log("\nRecorded in:", saveRegistry(registry));
+
+    return { keeperAddress, safeBatch };
+  });
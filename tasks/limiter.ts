@@ -0,0 +1,109 @@
+import { ethers } from "ethers";
+import { task } from "hardhat/config";
+import { ROLES } from "../scripts/lib/constants";
+import { saveRegistry } from "../scripts/lib/deployments";
+import { openRegistry, resolveVaultRef } from "./helpers";
+import { address, duration, usdt, vaultRef } from "./types";
+
+// DepositLimiter deployment: one per vault (recorded in deployments/<network>.json under
+// depositLimiters), plugged in with setDepositLimiter. Later limit changes go through
+// vault:configure (--min-deposit, --depositor-cap, --inflow-limit, --inflow-window, or
+// depositorCaps in the config file). --async-vault connects a SUSDDAsyncVault, so each of its
+// controllers' requests counts against their own cap (ADR-010).
+
+interface LimiterDeployArgs {
+  vault: string;
+  minDeposit: bigint;
+  depositorCap: bigint;
+  inflowLimit: bigint;
+  inflowWindow: number;
+  asyncVault?: string;
+  admin?: string;
+  dryRun: boolean;
+}
+
+task("limiter:deploy", "Deploy a DepositLimiter for a vault and plug it into the vault")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("minDeposit", "Smallest deposit in USDT (0 = none)", 0n, usdt)
+  .addOptionalParam("depositorCap", "Default per-depositor cap in USDT (0 = none)", 0n, usdt)
+  .addOptionalParam("inflowLimit", "Most USDT deposited per window across depositors (0 = none)", 0n, usdt)
+  .addOptionalParam("inflowWindow", 'Inflow window: seconds, or "1h", "1d" (0 = per block)', 0, duration)
+  .addOptionalParam("asyncVault", "SUSDDAsyncVault depositing into the vault: caps its controllers' requests", undefined, address)
+  .addOptionalParam("admin", "Limiter DEFAULT_ADMIN_ROLE + MANAGER_ROLE (default: deployer)", undefined, address)
+  .addFlag("dryRun", "Validate and print the deployment without sending transactions")
+  .setAction(async (args: LimiterDeployArgs, hre) => {
+    const [deployer] = await hre.ethers.getSigners();
+    const registry = await openRegistry(hre);
+    const vaultAddress = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const admin = args.admin ?? deployer.address;
+    const vault = await hre.ethers.getContractAt("SUSDDVault", vaultAddress, deployer);
+    const format = (amount: bigint) => (amount === 0n ? "none" : `${ethers.formatUnits(amount, 6)} USDT`);
+
+    console.log("Deployer:", deployer.address, `(network: ${hre.network.name})`);
+    console.log("  Vault:", vaultAddress);
+    console.log("  Admin:", admin);
+    console.log("  Min deposit:", format(args.minDeposit));
+    console.log("  Depositor cap:", format(args.depositorCap));
+    console.log("  Inflow limit:", format(args.inflowLimit), args.inflowWindow === 0 ? "per block" : `per ${args.inflowWindow}s`);
+    if (args.asyncVault) console.log("  Async vault:", args.asyncVault);
+    const registered = registry.depositLimiters?.[vaultAddress];
+    if (registered) console.log("  Replaces registered DepositLimiter:", registered.address);
+
+    if (args.dryRun) {
+      console.log("\nDry run: no transactions sent");
+      return null;
+    }
+
+    const LimiterFactory = await hre.ethers.getContractFactory("DepositLimiter", deployer);
+    const limiter = await LimiterFactory.deploy(
+      vaultAddress,
+      admin,
+      args.minDeposit,
+      args.depositorCap,
+      args.inflowLimit,
+      args.inflowWindow
+    );
+    await limiter.waitForDeployment();
+    const limiterAddress = await limiter.getAddress();
+    console.log("\nDepositLimiter deployed:", limiterAddress);
+
+    if (args.asyncVault) {
+      const role = await limiter.ASYNC_VAULT_ROLE();
+      if (admin === deployer.address) {
+        await (await limiter.grantRole(role, args.asyncVault)).wait();
+        console.log("  Granted ASYNC_VAULT_ROLE to the async vault");
+      } else {
+        console.log(`  Warning: the limiter's admin must call grantRole(${role}, ${args.asyncVault})`);
+      }
+      const asyncVault = await hre.ethers.getContractAt("SUSDDAsyncVault", args.asyncVault, deployer);
+      if (await asyncVault.hasRole(await asyncVault.DEFAULT_ADMIN_ROLE(), deployer.address)) {
+        await (await asyncVault.setDepositLimiter(limiterAddress)).wait();
+        console.log("  Set as the async vault's deposit limiter");
+      } else {
+        console.log(`  Warning: the async vault's admin must call setDepositLimiter(${limiterAddress})`);
+      }
+    }
+
+    if (await vault.hasRole(ROLES.MANAGER_ROLE, deployer.address)) {
+      await (await vault.setDepositLimiter(limiterAddress)).wait();
+      console.log("  Set as the vault's deposit limiter");
+    } else {
+      console.log(`  Warning: the vault's MANAGER_ROLE must call setDepositLimiter(${limiterAddress})`);
+    }
+
+    const receipt = await limiter.deploymentTransaction()!.wait();
+    const block = await hre.ethers.provider.getBlock(receipt!.blockNumber);
+    registry.depositLimiters = {
+      ...registry.depositLimiters,
+      [vaultAddress]: {
+        address: limiterAddress,
+        admin,
+        txHash: receipt!.hash,
+        blockNumber: receipt!.blockNumber,
+        timestamp: new Date(block!.timestamp * 1000).toISOString(),
+      },
+    };
+    console.log("\nRecorded in:", saveRegistry(registry));
+
+    return { limiterAddress };
+  });
@@ -0,0 +1,127 @@
+import { ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { ROLES, WAD } from "../scripts/lib/constants";
+import { saveRegistry } from "../scripts/lib/deployments";
+import { openRegistry, resolveVaultRef } from "./helpers";
+import { PLUGIN_NAME, address, fraction, vaultRef } from "./types";
+
+// WithdrawalQueue lifecycle: deploy one per vault (recorded in deployments/<network>.json
+// under withdrawalQueues) and fulfil its pending redeem requests from the keeper account.
+
+interface QueueDeployArgs {
+  vault: string;
+  admin?: string;
+  keeper?: string;
+  dryRun: boolean;
+}
+
+interface QueueProcessArgs {
+  vault: string;
+  maxBatch?: number;
+  slippage: bigint;
+  dryRun: boolean;
+}
+
+task("queue:deploy", "Deploy a WithdrawalQueue for a vault and whitelist it when the vault's whitelist is on")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("admin", "Queue DEFAULT_ADMIN_ROLE (default: deployer)", undefined, address)
+  .addOptionalParam("keeper", "Grant the queue's KEEPER_ROLE to this address", undefined, address)
+  .addFlag("dryRun", "Validate and print the deployment without sending transactions")
+  .setAction(async (args: QueueDeployArgs, hre) => {
+    const [deployer] = await hre.ethers.getSigners();
+    const registry = await openRegistry(hre);
+    const vaultAddress = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const admin = args.admin ?? deployer.address;
+    const vault = await hre.ethers.getContractAt("SUSDDVault", vaultAddress, deployer);
+
+    console.log("Deployer:", deployer.address, `(network: ${hre.network.name})`);
+    console.log("  Vault:", vaultAddress);
+    console.log("  Admin:", admin);
+    console.log("  Keeper:", args.keeper ?? "none");
+    const registered = registry.withdrawalQueues?.[vaultAddress];
+    if (registered) console.log("  Replaces registered WithdrawalQueue:", registered.address);
+
+    if (args.dryRun) {
+      console.log("\nDry run: no transactions sent");
+      return null;
+    }
+
+    const QueueFactory = await hre.ethers.getContractFactory("WithdrawalQueue", deployer);
+    const queue = await QueueFactory.deploy(vaultAddress, deployer.address);
+    await queue.waitForDeployment();
+    const queueAddress = await queue.getAddress();
+    console.log("\nWithdrawalQueue deployed:", queueAddress);
+
+    if (args.keeper) {
+      await (await queue.grantRole(ROLES.KEEPER_ROLE, args.keeper)).wait();
+      console.log("  KEEPER_ROLE granted:", args.keeper);
+    }
+    if (admin.toLowerCase() !== deployer.address.toLowerCase()) {
+      await (await queue.grantRole(ROLES.DEFAULT_ADMIN_ROLE, admin)).wait();
+      await (await queue.renounceRole(ROLES.DEFAULT_ADMIN_ROLE, deployer.address)).wait();
+      console.log("  DEFAULT_ADMIN_ROLE handed to:", admin);
+    }
+
+    // The queue is owner and receiver of every batch redeem
+    if ((await vault.whitelistEnabled()) && !(await vault.whitelisted(queueAddress))) {
+      if (await vault.hasRole(ROLES.MANAGER_ROLE, deployer.address)) {
+        await (await vault.addToWhitelist(queueAddress)).wait();
+        console.log("  Whitelisted on the vault");
+      } else {
+        console.log("  Warning: the vault's MANAGER_ROLE must whitelist the queue before it can fulfil requests");
+      }
+    }
+
+    const receipt = await queue.deploymentTransaction()!.wait();
+    const block = await hre.ethers.provider.getBlock(receipt!.blockNumber);
+    registry.withdrawalQueues = {
+      ...registry.withdrawalQueues,
+      [vaultAddress]: {
+        address: queueAddress,
+        admin,
+        txHash: receipt!.hash,
+        blockNumber: receipt!.blockNumber,
+        timestamp: new Date(block!.timestamp * 1000).toISOString(),
+      },
+    };
+    console.log("\nRecorded in:", saveRegistry(registry));
+
+    return { queueAddress };
+  });
+
+task("queue:process", "Fulfil the next batch of a vault's WithdrawalQueue (signer needs the queue's KEEPER_ROLE)")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("maxBatch", "Most requests per transaction (default: 50)", undefined, types.int)
+  .addOptionalParam("slippage", "Allowed shortfall against the simulated payout (0.001 = 0.1%)", WAD / 1000n, fraction)
+  .addFlag("dryRun", "Plan the batch without sending the transaction")
+  .setAction(async (args: QueueProcessArgs, hre) => {
+    const { DEFAULT_QUEUE_CONFIG, processWithdrawalQueue } = await import("../scripts/lib/withdrawalQueue");
+    const [signer] = await hre.ethers.getSigners();
+    const registry = await openRegistry(hre);
+    const vaultAddress = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const registered = registry.withdrawalQueues?.[vaultAddress];
+    if (!registered) {
+      throw new HardhatPluginError(PLUGIN_NAME, `No WithdrawalQueue registered for ${vaultAddress} on ${hre.network.name}`);
+    }
+
+    const queue = await hre.ethers.getContractAt("WithdrawalQueue", registered.address, signer);
+    const result = await processWithdrawalQueue(queue, {
+      ...DEFAULT_QUEUE_CONFIG,
+      maxBatch: args.maxBatch ?? DEFAULT_QUEUE_CONFIG.maxBatch,
+      slippageBps: (args.slippage * 10000n) / WAD,
+      dryRun: args.dryRun,
+    });
+
+    console.log("WithdrawalQueue:", registered.address);
+    console.log("  Pending (up to --max-batch):", result.pending.length);
+    console.log("  Redeemable shares:", ethers.formatUnits(result.redeemable, 6));
+    if (result.count === 0) {
+      console.log(result.pending.length === 0 ? "  Nothing to fulfil" : "  Head request exceeds redeemable shares: waiting");
+      return result;
+    }
+    console.log(`  Batch: ${result.count} requests, ${ethers.formatUnits(result.shares, 6)} shares`);
+    console.log("  Simulated payout:", ethers.formatUnits(result.assets!, 6), "USDT, min", ethers.formatUnits(result.minAssets!, 6));
+    console.log(result.txHash ? `  TX: ${result.txHash}` : "  Dry run: no transaction sent");
+    return result;
+  });
@@ -0,0 +1,133 @@
+import { ethers } from "ethers";
+import { task } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { ROLES } from "../scripts/lib/constants";
+import { saveRegistry } from "../scripts/lib/deployments";
+import { FeeSplitEntry } from "../scripts/lib/params";
+import { openRegistry, resolveVaultRef } from "./helpers";
+import { PLUGIN_NAME, address, feeSplit, vaultRef } from "./types";
+
+// FeeSplitter lifecycle: deploy one per vault (recorded in deployments/<network>.json under
+// feeSplitters), point the vault's feeRecipient at it, and forward the accrued fee shares.
+// Later split changes go through vault:configure --fee-split.
+
+interface SplitterDeployArgs {
+  vault: string;
+  split: FeeSplitEntry[];
+  admin?: string;
+  dryRun: boolean;
+}
+
+interface SplitterDistributeArgs {
+  vault: string;
+  dryRun: boolean;
+}
+
+task("splitter:deploy", "Deploy a FeeSplitter for a vault and make it the vault's feeRecipient")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addParam("split", 'Recipients and weights, "0xA...:7000,0xB...:3000" (sum 10000)', undefined, feeSplit)
+  .addOptionalParam("admin", "Splitter DEFAULT_ADMIN_ROLE + MANAGER_ROLE (default: deployer)", undefined, address)
+  .addFlag("dryRun", "Validate and print the deployment without sending transactions")
+  .setAction(async (args: SplitterDeployArgs, hre) => {
+    const [deployer] = await hre.ethers.getSigners();
+    const registry = await openRegistry(hre);
+    const vaultAddress = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const admin = args.admin ?? deployer.address;
+    const vault = await hre.ethers.getContractAt("SUSDDVault", vaultAddress, deployer);
+
+    console.log("Deployer:", deployer.address, `(network: ${hre.network.name})`);
+    console.log("  Vault:", vaultAddress);
+    console.log("  Admin:", admin);
+    console.log("  Current feeRecipient:", await vault.feeRecipient());
+    for (const entry of args.split) console.log(`  Recipient: ${entry.account} ${entry.bps} bps`);
+    const registered = registry.feeSplitters?.[vaultAddress];
+    if (registered) console.log("  Replaces registered FeeSplitter:", registered.address);
+
+    if (args.dryRun) {
+      console.log("\nDry run: no transactions sent");
+      return null;
+    }
+
+    const SplitterFactory = await hre.ethers.getContractFactory("FeeSplitter", deployer);
+    const splitter = await SplitterFactory.deploy(
+      vaultAddress,
+      deployer.address,
+      args.split.map((entry) => entry.account),
+      args.split.map((entry) => entry.bps)
+    );
+    await splitter.waitForDeployment();
+    const splitterAddress = await splitter.getAddress();
+    console.log("\nFeeSplitter deployed:", splitterAddress);
+
+    if (admin.toLowerCase() !== deployer.address.toLowerCase()) {
+      await (await splitter.grantRole(ROLES.MANAGER_ROLE, admin)).wait();
+      await (await splitter.grantRole(ROLES.DEFAULT_ADMIN_ROLE, admin)).wait();
+      await (await splitter.renounceRole(ROLES.MANAGER_ROLE, deployer.address)).wait();
+      await (await splitter.renounceRole(ROLES.DEFAULT_ADMIN_ROLE, deployer.address)).wait();
+      console.log("  DEFAULT_ADMIN_ROLE + MANAGER_ROLE handed to:", admin);
+    }
+
+    // setFeeRecipient doesn't accrue: a heartbeat first mints the fees earned so far to the old recipient
+    if (await vault.hasRole(ROLES.MANAGER_ROLE, deployer.address)) {
+      if (await vault.hasRole(ROLES.KEEPER_ROLE, deployer.address)) await (await vault.claimRewards("0x")).wait();
+      await (await vault.setFeeRecipient(splitterAddress)).wait();
+      console.log("  Set as the vault's feeRecipient");
+    } else {
+      console.log(`  Warning: the vault's MANAGER_ROLE must call setFeeRecipient(${splitterAddress})`);
+    }
+
+    const receipt = await splitter.deploymentTransaction()!.wait();
+    const block = await hre.ethers.provider.getBlock(receipt!.blockNumber);
+    registry.feeSplitters = {
+      ...registry.feeSplitters,
+      [vaultAddress]: {
+        address: splitterAddress,
+        admin,
+        txHash: receipt!.hash,
+        blockNumber: receipt!.blockNumber,
+        timestamp: new Date(block!.timestamp * 1000).toISOString(),
+      },
+    };
+    console.log("\nRecorded in:", saveRegistry(registry));
+
+    return { splitterAddress };
+  });
+
+task("splitter:distribute", "Forward the fee shares held by a vault's FeeSplitter to its recipients")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addFlag("dryRun", "Print the pending distribution without sending the transaction")
+  .setAction(async (args: SplitterDistributeArgs, hre) => {
+    const { splitAmount } = await import("../scripts/lib/feeSplit");
+    const [signer] = await hre.ethers.getSigners();
+    const registry = await openRegistry(hre);
+    const vaultAddress = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const vault = await hre.ethers.getContractAt("SUSDDVault", vaultAddress, signer);
+
+    const recipient = await vault.feeRecipient();
+    const splitter = await hre.ethers.getContractAt("FeeSplitter", recipient, signer);
+    let split: FeeSplitEntry[];
+    try {
+      const [accounts, bps] = await splitter.getRecipients();
+      split = accounts.map((account, i) => ({ account, bps: bps[i] }));
+    } catch {
+      throw new HardhatPluginError(PLUGIN_NAME, `feeRecipient ${recipient} of ${vaultAddress} is not a FeeSplitter`);
+    }
+
+    const pending = await splitter.pendingShares();
+    console.log("FeeSplitter:", recipient);
+    console.log("  Pending shares:", ethers.formatUnits(pending, 6));
+    const amounts = splitAmount(pending, split);
+    split.forEach((entry, i) => console.log(`  ${entry.account} ${entry.bps} bps: ${ethers.formatUnits(amounts[i], 6)} shares`));
+
+    if (pending === 0n) {
+      console.log("  Nothing to distribute");
+      return { pending };
+    }
+    if (args.dryRun) {
+      console.log("  Dry run: no transaction sent");
+      return { pending };
+    }
+    const receipt = await (await splitter.distribute()).wait();
+    console.log("  TX:", receipt!.hash);
+    return { pending, txHash: receipt!.hash };
+  });
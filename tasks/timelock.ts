@@ -0,0 +1,85 @@
+import { task } from "hardhat/config";
+import { ROLES } from "../scripts/lib/constants";
+import { saveRegistry } from "../scripts/lib/deployments";
+import { openRegistry, resolveVaultRef } from "./helpers";
+import { address, delay, vaultRef } from "./types";
+
+// VaultTimelock deployment: one per vault (recorded in deployments/<network>.json under
+// timelocks). With --hand-over it takes the vault's DEFAULT_ADMIN_ROLE and MANAGER_ROLE from
+// the deployer; from then on vault:configure --timelock schedules the changes and
+// vault:pending lists and executes them.
+
+interface TimelockDeployArgs {
+  vault: string;
+  delay: number;
+  proposer?: string;
+  handOver: boolean;
+  dryRun: boolean;
+}
+
+task("timelock:deploy", "Deploy a VaultTimelock for a vault, optionally handing it the admin and manager roles")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addParam("delay", 'Delay before scheduled calls may execute: seconds, or "48h", "2d" (max 30d)', undefined, delay)
+  .addOptionalParam("proposer", "Timelock PROPOSER_ROLE, e.g. the admin Safe (default: deployer)", undefined, address)
+  .addFlag("handOver", "Grant the timelock DEFAULT_ADMIN_ROLE + MANAGER_ROLE on the vault and revoke them from the deployer")
+  .addFlag("dryRun", "Validate and print the deployment without sending transactions")
+  .setAction(async (args: TimelockDeployArgs, hre) => {
+    const { DEFAULT_IMMEDIATE_METHODS, immediateSelectors } = await import("../scripts/lib/timelock");
+    const [deployer] = await hre.ethers.getSigners();
+    const registry = await openRegistry(hre);
+    const vaultAddress = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const proposer = args.proposer ?? deployer.address;
+    const vault = await hre.ethers.getContractAt("SUSDDVault", vaultAddress, deployer);
+
+    console.log("Deployer:", deployer.address, `(network: ${hre.network.name})`);
+    console.log("  Vault:", vaultAddress);
+    console.log("  Proposer:", proposer);
+    console.log("  Delay:", args.delay, "seconds");
+    console.log("  Immediate:", DEFAULT_IMMEDIATE_METHODS.join(", "));
+    const registered = registry.timelocks?.[vaultAddress];
+    if (registered) console.log("  Replaces registered VaultTimelock:", registered.address);
+
+    if (args.dryRun) {
+      console.log("\nDry run: no transactions sent");
+      return null;
+    }
+
+    const TimelockFactory = await hre.ethers.getContractFactory("VaultTimelock", deployer);
+    const timelock = await TimelockFactory.deploy(vaultAddress, proposer, args.delay, immediateSelectors());
+    await timelock.waitForDeployment();
+    const timelockAddress = await timelock.getAddress();
+    console.log("\nVaultTimelock deployed:", timelockAddress);
+
+    if (args.handOver) {
+      if (await vault.hasRole(ROLES.DEFAULT_ADMIN_ROLE, deployer.address)) {
+        // Admin last: revoking it first would leave the deployer unable to revoke MANAGER_ROLE
+        await (await vault.grantRole(ROLES.DEFAULT_ADMIN_ROLE, timelockAddress)).wait();
+        await (await vault.grantRole(ROLES.MANAGER_ROLE, timelockAddress)).wait();
+        await (await vault.revokeRole(ROLES.MANAGER_ROLE, deployer.address)).wait();
+        await (await vault.renounceRole(ROLES.DEFAULT_ADMIN_ROLE, deployer.address)).wait();
+        console.log("  DEFAULT_ADMIN_ROLE + MANAGER_ROLE handed to the timelock");
+      } else {
+        console.log(
+          `  Warning: the vault's DEFAULT_ADMIN_ROLE must grant DEFAULT_ADMIN_ROLE and MANAGER_ROLE to ${timelockAddress} ` +
+            "and revoke them from the current holders"
+        );
+      }
+    }
+
+    const receipt = await timelock.deploymentTransaction()!.wait();
+    const block = await hre.ethers.provider.getBlock(receipt!.blockNumber);
+    registry.timelocks = {
+      ...registry.timelocks,
+      [vaultAddress]: {
+        address: timelockAddress,
+        proposer,
+        delay: args.delay,
+        txHash: receipt!.hash,
+        blockNumber: receipt!.blockNumber,
+        timestamp: new Date(block!.timestamp * 1000).toISOString(),
+      },
+    };
+    console.log("\nRecorded in:", saveRegistry(registry));
+
+    return { timelockAddress };
+  });
@@ -0,0 +1,124 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import { CLIArgumentType } from "hardhat/types";
+import { IDLE_MODE, MAX_LTV } from "../scripts/lib/constants";
+import {
+  InvalidParamError,
+  MAX_ENTRY_EXIT_FEE_BPS,
+  MAX_MANAGEMENT_FEE_BPS,
+  MAX_PERFORMANCE_FEE_BPS,
+  MAX_TIMELOCK_DELAY,
+  parseAddress,
+  parseDelay,
+  parseDuration,
+  parseFeeBps,
+  parseFeeSplit,
+  parseFraction,
+  parseLTV,
+  parseUSDT,
+  parseVaultRef,
+  parseVaultRefList,
+  validateFeeSplit,
+} from "../scripts/lib/params";
+
+// Typed task params. `parse` handles CLI strings; `validate` checks values passed
+// programmatically through hre.run, which skip parsing.
+
+export const PLUGIN_NAME = "usdd-morpho-vault";
+
+/** Run a check, reporting InvalidParamError as a plugin error (printed without a stack trace) */
+export function withParamErrors(fn: () => void) {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof InvalidParamError) throw new HardhatPluginError(PLUGIN_NAME, error.message);
+    throw error;
+  }
+}
+
+function cliType<T>(
+  name: string,
+  parse: (param: string, value: string) => T,
+  check: (param: string, value: unknown) => void
+): CLIArgumentType<T> {
+  return {
+    name,
+    parse: (param, value) => {
+      let parsed!: T;
+      withParamErrors(() => (parsed = parse(param, value)));
+      return parsed;
+    },
+    validate: (param, value) => withParamErrors(() => check(param, value)),
+  };
+}
+
+function checkBigint(param: string, value: unknown, max: bigint) {
+  if (typeof value !== "bigint" || value < 0n || value > max) {
+    throw new InvalidParamError(param, `expected a bigint between 0 and ${max}`);
+  }
+}
+
+export const address = cliType("address", parseAddress, (param, value) => {
+  parseAddress(param, String(value));
+});
+
+export const vaultRef = cliType("vault", parseVaultRef, (param, value) => {
+  parseVaultRef(param, String(value));
+});
+
+export const vaultName = cliType(
+  "name",
+  (param, value) => {
+    if (value.startsWith("0x")) throw new InvalidParamError(param, `"${value}" looks like an address, expected a name`);
+    return parseVaultRef(param, value);
+  },
+  (param, value) => {
+    if (typeof value !== "string" || value.startsWith("0x")) throw new InvalidParamError(param, "expected a vault name");
+    parseVaultRef(param, value);
+  }
+);
+
+export const vaultRefList = cliType("vault list", parseVaultRefList, (param, value) => {
+  if (!Array.isArray(value)) throw new InvalidParamError(param, "expected an array of vault addresses or names");
+  for (const item of value) parseVaultRef(param, String(item));
+});
+
+export const ltv = cliType("ltv", parseLTV, (param, value) => {
+  if (value !== IDLE_MODE) checkBigint(param, value, MAX_LTV);
+});
+
+export const feeBps = cliType("bps", parseFeeBps, (param, value) => {
+  checkBigint(param, value, MAX_PERFORMANCE_FEE_BPS);
+});
+
+export const managementFeeBps = cliType("bps", (param, value) => parseFeeBps(param, value, MAX_MANAGEMENT_FEE_BPS), (param, value) => {
+  checkBigint(param, value, MAX_MANAGEMENT_FEE_BPS);
+});
+
+export const entryExitFeeBps = cliType("bps", (param, value) => parseFeeBps(param, value, MAX_ENTRY_EXIT_FEE_BPS), (param, value) => {
+  checkBigint(param, value, MAX_ENTRY_EXIT_FEE_BPS);
+});
+
+export const feeSplit = cliType("split", parseFeeSplit, (param, value) => {
+  if (!Array.isArray(value)) throw new InvalidParamError(param, "expected an array of { account, bps }");
+  validateFeeSplit(param, value.map((entry) => ({ account: parseAddress(param, String(entry.account)), bps: entry.bps })));
+});
+
+export const delay = cliType("delay", parseDelay, (param, value) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > MAX_TIMELOCK_DELAY) {
+    throw new InvalidParamError(param, `expected whole seconds between 0 and ${MAX_TIMELOCK_DELAY}`);
+  }
+});
+
+export const duration = cliType("duration", parseDuration, (param, value) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new InvalidParamError(param, "expected whole seconds");
+  }
+});
+
+export const usdt = cliType("usdt", parseUSDT, (param, value) => {
+  checkBigint(param, value, 2n ** 256n - 1n);
+});
+
+export const fraction = cliType("fraction", parseFraction, (param, value) => {
+  if (typeof value !== "bigint") throw new InvalidParamError(param, "expected a WAD bigint");
+});
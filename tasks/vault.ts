@@ -0,0 +1,684 @@
+import { spawnSync } from "child_process";
+import { ethers } from "ethers";
+import { writeFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { HttpNetworkConfig } from "hardhat/types";
+import { ADDRESSES, ROLES, WAD } from "../scripts/lib/constants";
+import {
+  ConfigStep,
+  RoleName,
+  VaultConfigFile,
+  VaultDesiredState,
+  applyConfiguration,
+  loadVaultConfig,
+  planConfiguration,
+  readVaultState,
+} from "../scripts/lib/configure";
+import { findVaultName, readImplementationHistory, saveRegistry } from "../scripts/lib/deployments";
+import { FeeSplitEntry, assertLTVBelowLLTV } from "../scripts/lib/params";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../scripts/lib/vaultFactory";
+import {
+  encodeVaultCalls,
+  exportSafeBatch,
+  openRegistry,
+  readLLTV,
+  registeredTimelock,
+  resolvePositionLib,
+  resolveVaultRef,
+} from "./helpers";
+import {
+  PLUGIN_NAME,
+  address,
+  duration,
+  entryExitFeeBps,
+  feeBps,
+  feeSplit,
+  fraction,
+  ltv,
+  managementFeeBps,
+  usdt,
+  vaultName,
+  vaultRef,
+  withParamErrors,
+} from "./types";
+
+// Vault lifecycle tasks. Deployments are recorded in deployments/<network>.json and
+// every --vault accepts either a proxy address or a registered name. With --safe, the
+// admin/manager calls are written to a Safe Transaction Builder batch instead of sent; with
+// --timelock they go through the vault's VaultTimelock (see tasks/timelock.ts).
+
+function formatPercent(wad: bigint): string {
+  return ethers.formatUnits(wad, 16) + "%";
+}
+
+interface DeployArgs {
+  name: string;
+  admin?: string;
+  feeRecipient?: string;
+  ltv?: bigint;
+  fee?: bigint;
+  cap?: bigint;
+  noWhitelist: boolean;
+  dryRun: boolean;
+}
+
+task("vault:deploy", "Deploy SUSDDVault behind a UUPS proxy and record it in deployments/<network>.json")
+  .addParam("name", "Registry name for the vault, e.g. \"main\"", undefined, vaultName)
+  .addOptionalParam("admin", "Admin receiving all roles (default: deployer)", undefined, address)
+  .addOptionalParam("feeRecipient", "Performance fee recipient (default: deployer)", undefined, address)
+  .addOptionalParam("ltv", "Target LTV as a decimal, 0, or \"idle\" (default: 0.9)", undefined, ltv)
+  .addOptionalParam("fee", "Performance fee in bps, max 3000 (default: 0)", undefined, feeBps)
+  .addOptionalParam("cap", "maxTotalAssets in USDT (default: 500000)", undefined, usdt)
+  .addFlag("noWhitelist", "Disable the whitelist instead of whitelisting the admin")
+  .addFlag("dryRun", "Validate and print the deployment without sending transactions")
+  .setAction(async (args: DeployArgs, hre) => {
+    const { formatLTV } = await import("../scripts/lib/keeper");
+    const [deployer] = await hre.ethers.getSigners();
+    const admin = args.admin ?? deployer.address;
+    const feeRecipient = args.feeRecipient ?? deployer.address;
+    const targetLTV = args.ltv ?? ethers.parseUnits("0.9", 18);
+    const fee = args.fee ?? 0n;
+    const cap = args.cap ?? ethers.parseUnits("500000", 6);
+
+    const registry = await openRegistry(hre);
+    if (registry.vaults[args.name]) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Vault "${args.name}" is already registered on ${hre.network.name} at ${registry.vaults[args.name].proxy}`
+      );
+    }
+
+    const lltv = await readLLTV(hre);
+    withParamErrors(() => assertLTVBelowLLTV("ltv", targetLTV, lltv));
+
+    console.log("Deployer:", deployer.address, `(network: ${hre.network.name})`);
+    console.log("\nDeployment Configuration:");
+    console.log("  Name:", args.name);
+    console.log("  Admin:", admin);
+    console.log("  Fee Recipient:", feeRecipient);
+    console.log("  Target LTV:", formatLTV(targetLTV), `(LLTV ${formatPercent(lltv)})`);
+    console.log("  Performance Fee:", Number(fee) / 100 + "%");
+    console.log("  Max Total Assets:", ethers.formatUnits(cap, 6), "USDT");
+    console.log("  Whitelist:", args.noWhitelist ? "disabled" : "enabled, admin whitelisted");
+
+    if (args.dryRun) {
+      console.log("\nDry run: no transactions sent");
+      return null;
+    }
+
+    console.log("\nDeploying SUSDDVault via UUPS proxy...");
+    const positionLib = await resolvePositionLib(hre, registry, deployer);
+    const VaultFactory = await getVaultFactory(hre.ethers, { signer: deployer, positionLib });
+    const proxy = await hre.upgrades.deployProxy(
+      VaultFactory,
+      [admin, feeRecipient, targetLTV, fee, cap],
+      VAULT_PROXY_OPTIONS
+    );
+    await proxy.waitForDeployment();
+    const proxyAddress = await proxy.getAddress();
+    const implementationAddress = await hre.upgrades.erc1967.getImplementationAddress(proxyAddress);
+    const vault = await hre.ethers.getContractAt("SUSDDVault", proxyAddress);
+
+    const deployBlock = (await proxy.deploymentTransaction()?.wait())?.blockNumber ?? 0;
+    registry.vaults[args.name] = {
+      proxy: proxyAddress,
+      deployBlock,
+      initArgs: {
+        admin,
+        feeRecipient,
+        targetLTV: targetLTV.toString(),
+        performanceFeeBps: fee.toString(),
+        maxTotalAssets: cap.toString(),
+      },
+      implementations: await readImplementationHistory(hre.ethers.provider, proxyAddress, deployBlock),
+    };
+    const registryFile = saveRegistry(registry);
+
+    // Whitelist changes need MANAGER_ROLE, which only the admin holds after initialize()
+    if (await vault.hasRole(ROLES.MANAGER_ROLE, deployer.address)) {
+      const tx = args.noWhitelist ? await vault.setWhitelistEnabled(false) : await vault.addToWhitelist(admin);
+      await tx.wait();
+    } else {
+      console.log("\nDeployer lacks MANAGER_ROLE: whitelist left for the admin to configure");
+    }
+
+    console.log("\n=== Deployment Complete ===");
+    console.log("Proxy Address:", proxyAddress);
+    console.log("Implementation Address:", implementationAddress);
+    console.log("Whitelist enabled:", await vault.whitelistEnabled());
+    console.log("Recorded in:", registryFile);
+
+    return { proxyAddress, implementationAddress };
+  });
+
+interface ConfigureArgs {
+  vault?: string;
+  file?: string;
+  keeper?: string;
+  manager?: string;
+  pauser?: string;
+  feeRecipient?: string;
+  fee?: bigint;
+  managementFee?: bigint;
+  depositFee?: bigint;
+  redeemFee?: bigint;
+  entryExitFeeToTreasury?: boolean;
+  feeSplit?: FeeSplitEntry[];
+  cap?: bigint;
+  depositLimiter?: string;
+  minDeposit?: bigint;
+  depositorCap?: bigint;
+  inflowLimit?: bigint;
+  inflowWindow?: number;
+  fromBlock?: number;
+  safe?: string;
+  out?: string;
+  timelock: boolean;
+  dryRun: boolean;
+}
+
+task("vault:configure", "Diff the vault against a desired-state file and/or flags and apply the difference")
+  .addOptionalParam("vault", "Vault address or registry name (default: `vault` from the file)", undefined, vaultRef)
+  .addOptionalParam("file", "Desired-state .json/.yaml file; role and whitelist lists are complete sets")
+  .addOptionalParam("keeper", "Grant KEEPER_ROLE to this address", undefined, address)
+  .addOptionalParam("manager", "Grant MANAGER_ROLE to this address", undefined, address)
+  .addOptionalParam("pauser", "Grant PAUSER_ROLE to this address", undefined, address)
+  .addOptionalParam("feeRecipient", "New performance fee recipient", undefined, address)
+  .addOptionalParam("fee", "New performance fee in bps (max 3000)", undefined, feeBps)
+  .addOptionalParam("managementFee", "New annual management fee in bps (max 500)", undefined, managementFeeBps)
+  .addOptionalParam("depositFee", "New deposit fee in bps (max 100)", undefined, entryExitFeeBps)
+  .addOptionalParam("redeemFee", "New redeem fee in bps (max 100)", undefined, entryExitFeeBps)
+  .addOptionalParam("entryExitFeeToTreasury", "Pay deposit/redeem fees to feeRecipient (true) or leave them in the vault (false)", undefined, types.boolean)
+  .addOptionalParam("feeSplit", "New split of the FeeSplitter feeRecipient, as address:bps pairs summing to 10000", undefined, feeSplit)
+  .addOptionalParam("cap", "New maxTotalAssets in USDT", undefined, usdt)
+  .addOptionalParam("depositLimiter", "New DepositLimiter (zero address disables it)", undefined, address)
+  .addOptionalParam("minDeposit", "New DepositLimiter minimum deposit in USDT (0 = none)", undefined, usdt)
+  .addOptionalParam("depositorCap", "New DepositLimiter default per-depositor cap in USDT (0 = none)", undefined, usdt)
+  .addOptionalParam("inflowLimit", "New DepositLimiter inflow limit in USDT per window (0 = none)", undefined, usdt)
+  .addOptionalParam("inflowWindow", 'New DepositLimiter inflow window: seconds, or "1h", "1d" (0 = per block)', undefined, duration)
+  .addOptionalParam("fromBlock", "First block to scan for role/whitelist events (default: deploy block)", undefined, types.int)
+  .addOptionalParam("safe", "Export the steps as a Safe Transaction Builder batch for this Safe", undefined, address)
+  .addOptionalParam("out", "Safe batch path (default: deployments/safe/<network>/<vault>-configure-<timestamp>.json)")
+  .addFlag("timelock", "Submit through the registered VaultTimelock: schedule delayed calls, run immediate ones")
+  .addFlag("dryRun", "Print the diff without sending transactions")
+  .setAction(async (args: ConfigureArgs, hre) => {
+    let file: VaultConfigFile = { desired: {} };
+    if (args.file) withParamErrors(() => (file = loadVaultConfig(args.file!)));
+
+    const ref = args.vault ?? file.vault;
+    if (!ref) throw new HardhatPluginError(PLUGIN_NAME, "No vault: pass --vault or set `vault` in the --file config");
+    const registry = await openRegistry(hre);
+    const vaultAddress = await resolveVaultRef(hre, registry, "vault", ref);
+    const name = findVaultName(registry, vaultAddress);
+
+    const [signer] = await hre.ethers.getSigners();
+    const vault = await hre.ethers.getContractAt("SUSDDVault", vaultAddress, signer);
+    const current = await readVaultState(vault, args.fromBlock ?? (name ? registry.vaults[name].deployBlock : 0));
+
+    // Flags override the file; single-address role flags add to the role instead of replacing it
+    const desired: VaultDesiredState = { ...file.desired, roles: { ...file.desired.roles } };
+    const roleFlags: [RoleName, string | undefined][] = [
+      ["KEEPER_ROLE", args.keeper],
+      ["MANAGER_ROLE", args.manager],
+      ["PAUSER_ROLE", args.pauser],
+    ];
+    for (const [role, account] of roleFlags) {
+      if (!account) continue;
+      const members = desired.roles![role] ?? current.roles[role];
+      desired.roles![role] = members.includes(account) ? members : [...members, account];
+    }
+    if (args.feeRecipient) desired.feeRecipient = args.feeRecipient;
+    if (args.fee !== undefined) desired.performanceFeeBps = args.fee;
+    if (args.managementFee !== undefined) desired.managementFeeBps = args.managementFee;
+    if (args.depositFee !== undefined) desired.depositFeeBps = args.depositFee;
+    if (args.redeemFee !== undefined) desired.redeemFeeBps = args.redeemFee;
+    if (args.entryExitFeeToTreasury !== undefined) desired.entryExitFeeToTreasury = args.entryExitFeeToTreasury;
+    if (args.feeSplit) desired.feeSplit = args.feeSplit;
+    if (args.cap !== undefined) desired.maxTotalAssets = args.cap;
+    if (args.depositLimiter) desired.depositLimiter = args.depositLimiter;
+    if (args.minDeposit !== undefined) desired.minDeposit = args.minDeposit;
+    if (args.depositorCap !== undefined) desired.defaultDepositorCap = args.depositorCap;
+    if (args.inflowLimit !== undefined) desired.inflowLimit = args.inflowLimit;
+    if (args.inflowWindow !== undefined) desired.inflowWindow = args.inflowWindow;
+
+    let steps: ConfigStep[] = [];
+    withParamErrors(() => (steps = planConfiguration(current, desired)));
+
+    console.log("Configuring vault", vaultAddress, args.safe ? `as Safe ${args.safe}` : `with account ${signer.address}`);
+    if (steps.length === 0) {
+      console.log("\nNothing to do: vault already matches the desired configuration");
+      return [];
+    }
+
+    console.log("\nDiff:");
+    steps.forEach((step) => console.log(`  ${step.description}`));
+
+    if (args.dryRun) {
+      console.log("\nDry run: no transactions sent");
+      return [];
+    }
+
+    if (args.timelock) {
+      const { submitThroughTimelock, wrapForTimelock } = await import("../scripts/lib/timelock");
+      const { address: timelockAddress } = registeredTimelock(hre, registry, vaultAddress);
+      const timelock = await hre.ethers.getContractAt("VaultTimelock", timelockAddress, signer);
+      const calls = await encodeVaultCalls(hre, vaultAddress, steps);
+
+      if (args.safe) {
+        const wrapped = await wrapForTimelock(timelock, calls);
+        await exportSafeBatch(hre, {
+          safe: args.safe,
+          out: args.out,
+          label: `${name ?? vaultAddress}-configure-timelock`,
+          description: wrapped.map((call) => `${call.method} ${call.description}`).join("\n"),
+          transactions: await encodeVaultCalls(
+            hre,
+            vaultAddress,
+            wrapped.map((call) => ({ ...call, target: { contract: "VaultTimelock", address: timelockAddress } }))
+          ),
+        });
+        return [];
+      }
+
+      const hashes = await submitThroughTimelock(timelock, calls);
+      console.log("\nSubmitted to VaultTimelock", timelockAddress, "(list with vault:pending):");
+      hashes.forEach((hash, i) => console.log(`  ${i + 1}. ${steps[i].method} ${hash}`));
+      return hashes;
+    }
+
+    if (args.safe) {
+      await exportSafeBatch(hre, {
+        safe: args.safe,
+        out: args.out,
+        label: `${name ?? vaultAddress}-configure`,
+        description: steps.map((step) => step.description).join("\n"),
+        transactions: await encodeVaultCalls(hre, vaultAddress, steps),
+      });
+      return [];
+    }
+
+    const hashes = await applyConfiguration(vault, steps);
+    console.log("\nSent:");
+    hashes.forEach((hash, i) => console.log(`  ${i + 1}. ${steps[i].method} ${hash}`));
+    return hashes;
+  });
+
+interface UpgradeArgs {
+  vault: string;
+  safe?: string;
+  out?: string;
+  preflight: boolean;
+  dryRun: boolean;
+}
+
+task("vault:upgrade", "Upgrade a SUSDDVault proxy to the compiled implementation")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("safe", "Deploy the implementation, then export upgradeToAndCall as a batch for this Safe", undefined, address)
+  .addOptionalParam("out", "Safe batch path (default: deployments/safe/<network>/<vault>-upgrade-<timestamp>.json)")
+  .addFlag("preflight", "Run vault:preflight on a fork of the network first and abort if any state changes")
+  .addFlag("dryRun", "Only run the OpenZeppelin storage-layout validation (and --preflight)")
+  .setAction(async (args: UpgradeArgs, hre) => {
+    const registry = await openRegistry(hre);
+    const proxy = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const [signer] = await hre.ethers.getSigners();
+    const currentImpl = await hre.upgrades.erc1967.getImplementationAddress(proxy);
+
+    console.log("Upgrading", proxy, "with account", signer.address);
+    console.log("  Current implementation:", currentImpl);
+
+    // The linked address doesn't affect the storage layout: validate before deploying anything
+    const placeholder = await getVaultFactory(hre.ethers, { signer, positionLib: ethers.ZeroAddress });
+    await hre.upgrades.validateUpgrade(proxy, placeholder, VAULT_PROXY_OPTIONS);
+    console.log("  Storage layout: compatible");
+
+    const name = findVaultName(registry, proxy);
+    if (args.preflight) {
+      const fromBlock = name ? registry.vaults[name].deployBlock : 0;
+      if (hre.network.name === "hardhat") {
+        await hre.run("vault:preflight", { vault: proxy, fromBlock });
+      } else {
+        runForkedPreflight(hre.network.config as HttpNetworkConfig, hre.config.paths.configFile, proxy, fromBlock);
+      }
+    }
+
+    if (args.dryRun) {
+      console.log("\nDry run: no transactions sent");
+      return null;
+    }
+
+    const positionLib = await resolvePositionLib(hre, registry, signer);
+    const VaultFactory = await getVaultFactory(hre.ethers, { signer, positionLib });
+
+    // Re-read from Upgraded events, so upgrades executed by a Safe are picked up on the next run
+    const recordHistory = async () => {
+      if (!name) {
+        console.log("Proxy is not in the registry: implementation history not recorded");
+      } else {
+        const entry = registry.vaults[name];
+        entry.implementations = await readImplementationHistory(hre.ethers.provider, proxy, entry.deployBlock);
+      }
+      console.log("Recorded in:", saveRegistry(registry));
+    };
+
+    if (args.safe) {
+      // _authorizeUpgrade is DEFAULT_ADMIN_ROLE: only the implementation deploy is sent from here
+      const implementation = (await hre.upgrades.prepareUpgrade(proxy, VaultFactory, VAULT_PROXY_OPTIONS)) as string;
+      console.log("  New implementation:", implementation);
+      if (implementation === currentImpl) {
+        console.log("\nNothing to do: proxy already points at the compiled implementation");
+        return { previousImplementation: currentImpl, implementation };
+      }
+
+      await exportSafeBatch(hre, {
+        safe: args.safe,
+        out: args.out,
+        label: `${name ?? proxy}-upgrade`,
+        description: `Upgrade SUSDDVault ${proxy} from ${currentImpl} to ${implementation}`,
+        transactions: await encodeVaultCalls(hre, proxy, [{ method: "upgradeToAndCall", args: [implementation, "0x"] }]),
+      });
+      await recordHistory();
+      return { previousImplementation: currentImpl, implementation };
+    }
+
+    const vault = await hre.upgrades.upgradeProxy(proxy, VaultFactory, VAULT_PROXY_OPTIONS);
+    await vault.waitForDeployment();
+    const newImpl = await hre.upgrades.erc1967.getImplementationAddress(proxy);
+
+    console.log("\n=== Upgrade Complete ===");
+    console.log("Old Implementation:", currentImpl);
+    console.log("New Implementation:", newImpl);
+
+    await recordHistory();
+
+    return { previousImplementation: currentImpl, implementation: newImpl };
+  });
+
+/**
+ * vault:preflight in a child process whose hardhat network forks `network`
+ * (hardhat.config.ts forks MAINNET_RPC_URL); throws unless the report passes
+ */
+function runForkedPreflight(network: HttpNetworkConfig, configFile: string, proxy: string, fromBlock: number): void {
+  if (!network.url) {
+    throw new HardhatPluginError(PLUGIN_NAME, "--preflight needs an RPC url for the network to fork");
+  }
+  console.log("\nRunning preflight on a fork...");
+  const cli = require.resolve("hardhat/internal/cli/cli");
+  const child = spawnSync(
+    process.execPath,
+    [cli, "--config", configFile, "--network", "hardhat", "vault:preflight", "--vault", proxy, "--from-block", String(fromBlock)],
+    { stdio: "inherit", env: { ...process.env, MAINNET_RPC_URL: network.url } }
+  );
+  if (child.status !== 0) {
+    throw new HardhatPluginError(PLUGIN_NAME, "Preflight failed on the fork: nothing was broadcast");
+  }
+}
+
+interface PreflightArgs {
+  vault: string;
+  fromBlock?: number;
+  out?: string;
+}
+
+task("vault:preflight", "Upgrade on the local (forked) hardhat network, compare all public state and revert")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("fromBlock", "First block to scan for role, whitelist and Transfer events (default: deploy block)", undefined, types.int)
+  .addOptionalParam("out", "Also write the report as JSON to this path")
+  .setAction(async (args: PreflightArgs, hre) => {
+    if (hre.network.name !== "hardhat") {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        "vault:preflight upgrades the proxy for real: run it on --network hardhat (forking via MAINNET_RPC_URL), " +
+          "or use vault:upgrade --preflight"
+      );
+    }
+    const { collectSubjects, compareSnapshots, formatReport, snapshotVault } = await import("../scripts/lib/preflight");
+
+    const registry = await openRegistry(hre);
+    const proxy = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const name = findVaultName(registry, proxy);
+    const fromBlock = args.fromBlock ?? (name ? registry.vaults[name].deployBlock : 0);
+    const provider = hre.ethers.provider;
+
+    const subjects = await collectSubjects(proxy, provider, fromBlock);
+    const vault = await hre.ethers.getContractAt("SUSDDVault", proxy);
+    const isAdmin = await Promise.all(subjects.roleAccounts.map((a) => vault.hasRole(ROLES.DEFAULT_ADMIN_ROLE, a)));
+    const admin = subjects.roleAccounts.find((_, i) => isAdmin[i]);
+    if (!admin) throw new HardhatPluginError(PLUGIN_NAME, `No DEFAULT_ADMIN_ROLE holder found for ${proxy} since block ${fromBlock}`);
+
+    const snapshotId = await provider.send("evm_snapshot", []);
+    try {
+      const before = await snapshotVault(proxy, provider, subjects);
+      const previousImplementation = await hre.upgrades.erc1967.getImplementationAddress(proxy);
+
+      // Storage layout is vault:upgrade's job (against the live manifest); this checks the resulting state
+      await provider.send("hardhat_impersonateAccount", [admin]);
+      await provider.send("hardhat_setBalance", [admin, ethers.toQuantity(ethers.parseEther("10"))]);
+      const adminSigner = await hre.ethers.getSigner(admin);
+      const VaultFactory = await getVaultFactory(hre.ethers, { signer: adminSigner });
+      await hre.upgrades.upgradeProxy(proxy, VaultFactory, { ...VAULT_PROXY_OPTIONS, unsafeSkipStorageCheck: true });
+
+      const after = await snapshotVault(proxy, provider, subjects);
+      const checks = compareSnapshots(before, after);
+      const report = {
+        vault: proxy,
+        blockNumber: before.blockNumber,
+        previousImplementation,
+        implementation: await hre.upgrades.erc1967.getImplementationAddress(proxy),
+        subjects: {
+          roleAccounts: subjects.roleAccounts.length,
+          whitelistAccounts: subjects.whitelistAccounts.length,
+          holders: subjects.holders.length,
+        },
+        checks,
+        pass: checks.every((check) => check.pass),
+      };
+
+      formatReport(report).forEach((line) => console.log(line));
+      if (args.out) writeFileSync(args.out, JSON.stringify(report, null, 2) + "\n");
+      if (!report.pass) {
+        throw new HardhatPluginError(PLUGIN_NAME, `Preflight failed: ${checks.filter((c) => !c.pass).length} values changed`);
+      }
+      return report;
+    } finally {
+      await provider.send("hardhat_stopImpersonatingAccount", [admin]);
+      await provider.send("evm_revert", [snapshotId]);
+    }
+  });
+
+task("vault:status", "Print vault parameters and Morpho position")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .setAction(async (args: { vault: string }, hre) => {
+    const { readPositionState } = await import("../scripts/lib/position");
+    const { readPSMLiquidity } = await import("../scripts/lib/liquidity");
+    const { formatLTV } = await import("../scripts/lib/keeper");
+
+    const registry = await openRegistry(hre);
+    const proxy = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const name = findVaultName(registry, proxy);
+    const vault = await hre.ethers.getContractAt("SUSDDVault", proxy);
+
+    const [state, liquidity, supply, feeBps_, managementFeeBps_, depositFeeBps, redeemFeeBps, toTreasury, hwm, recipient, cap, paused, whitelistEnabled, safetyBand, implementation] = await Promise.all([
+      readPositionState(proxy, hre.ethers.provider),
+      readPSMLiquidity(proxy, hre.ethers.provider),
+      vault.totalSupply(),
+      vault.performanceFeeBps(),
+      vault.managementFeeBps(),
+      vault.depositFeeBps(),
+      vault.redeemFeeBps(),
+      vault.entryExitFeeToTreasury(),
+      vault.highWaterMark(),
+      vault.feeRecipient(),
+      vault.maxTotalAssets(),
+      vault.paused(),
+      vault.whitelistEnabled(),
+      vault.maxLTVBeforeDelever(),
+      hre.upgrades.erc1967.getImplementationAddress(proxy),
+    ]);
+    const pps = supply > 0n ? (state.nav * WAD) / supply : WAD;
+
+    console.log(`=== SUSDDVault ${name ? `"${name}" ` : ""}${proxy} (block ${state.blockNumber}) ===`);
+    console.log("Implementation:", implementation);
+    console.log("Paused:", paused);
+    console.log("Whitelist enabled:", whitelistEnabled);
+    console.log("\nAccounting:");
+    console.log("  Total Assets:", ethers.formatUnits(state.nav, 6), "USDT");
+    console.log("  Total Supply:", ethers.formatUnits(supply, 6), "shares");
+    console.log("  Price Per Share:", ethers.formatUnits(pps, 18));
+    console.log("  High Water Mark:", ethers.formatUnits(hwm, 18));
+    console.log("  Max Total Assets:", ethers.formatUnits(cap, 6), "USDT");
+    console.log("  Performance Fee:", Number(feeBps_) / 100 + "%", "to", recipient);
+    console.log("  Management Fee:", Number(managementFeeBps_) / 100 + "% per year");
+    console.log(
+      "  Deposit / Redeem Fee:",
+      `${Number(depositFeeBps) / 100}% / ${Number(redeemFeeBps) / 100}%`,
+      toTreasury ? "to feeRecipient" : "kept in the vault"
+    );
+    console.log("\nPosition:");
+    console.log("  Target LTV:", formatLTV(state.targetLTV));
+    console.log("  Current LTV:", formatLTV(state.ltv), `(LLTV ${formatPercent(state.lltv)})`);
+    console.log("  Max LTV Before Delever:", safetyBand === 0n ? "disabled" : formatPercent(safetyBand));
+    console.log("  Idle USDT:", ethers.formatUnits(state.idleUsdt, 6));
+    console.log("  Collateral:", ethers.formatUnits(state.collateral, 18), "sUSDD");
+    console.log("  Collateral Value:", ethers.formatUnits(state.collateralValue, 6), "USDT");
+    console.log("  Debt:", ethers.formatUnits(state.debt, 6), "USDT");
+    console.log(
+      "  PSM Liquidity:",
+      ethers.formatUnits(liquidity.available, 6),
+      "USDT",
+      liquidity.coverage === undefined ? "" : `(${formatPercent(liquidity.coverage)} of collateral value)`
+    );
+
+    return state;
+  });
+
+interface PendingArgs {
+  vault: string;
+  execute: boolean;
+}
+
+task("vault:pending", "List the calls scheduled on the vault's VaultTimelock and when each can execute")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addFlag("execute", "Execute every call whose delay has passed")
+  .setAction(async (args: PendingArgs, hre) => {
+    const { readPendingCalls } = await import("../scripts/lib/timelock");
+    const [signer] = await hre.ethers.getSigners();
+    const registry = await openRegistry(hre);
+    const proxy = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const registered = registeredTimelock(hre, registry, proxy);
+    const timelock = await hre.ethers.getContractAt("VaultTimelock", registered.address, signer);
+
+    const pending = await readPendingCalls(timelock, registered.blockNumber);
+    const now = (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+    console.log(`=== Pending changes for ${proxy} (VaultTimelock ${registered.address}, delay ${await timelock.delay()}s) ===`);
+    if (pending.length === 0) console.log("  None");
+    for (const call of pending) {
+      const when = call.readyAt <= now ? "ready" : `ready in ${call.readyAt - now}s`;
+      console.log(`  ${call.description}`);
+      console.log(`    id ${call.id}, target ${call.target}, ${when} (${new Date(call.readyAt * 1000).toISOString()})`);
+    }
+
+    const executed: string[] = [];
+    if (args.execute) {
+      for (const call of pending.filter((call) => call.readyAt <= now)) {
+        const receipt = await (await timelock.execute(call.target, call.data, call.salt)).wait();
+        console.log(`  Executed ${call.description}: ${receipt!.hash}`);
+        executed.push(receipt!.hash);
+      }
+    }
+    return { pending, executed };
+  });
+
+interface LiquidityArgs {
+  vault: string;
+  minCoverage: bigint;
+}
+
+task("vault:liquidity", "Check that the PSM holds enough USDT for redeems; fails below --min-coverage")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("minCoverage", "Minimum PSM USDT / collateral value (1 = the whole vault can exit)", WAD, fraction)
+  .setAction(async (args: LiquidityArgs, hre) => {
+    const { checkPSMLiquidity, readPSMLiquidity } = await import("../scripts/lib/liquidity");
+
+    const registry = await openRegistry(hre);
+    const proxy = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const state = await readPSMLiquidity(proxy, hre.ethers.provider);
+
+    console.log(`=== PSM liquidity for ${proxy} (block ${state.blockNumber}) ===`);
+    console.log("PSM USDT:", ethers.formatUnits(state.available, 6));
+    console.log("Collateral Value:", ethers.formatUnits(state.collateralValue, 6), "USDT");
+    console.log("Coverage:", state.coverage === undefined ? "no collateral" : formatPercent(state.coverage));
+    console.log("Redeemable now:", formatPercent(state.redeemableFraction), "of shares");
+
+    const alert = checkPSMLiquidity(state, args.minCoverage);
+    if (alert) throw new HardhatPluginError(PLUGIN_NAME, alert);
+    return state;
+  });
+
+interface StressArgs {
+  vault: string;
+  shock?: bigint;
+  susddApr?: bigint;
+  borrowApr?: bigint;
+  tin?: bigint;
+  tout?: bigint;
+  days: number;
+}
+
+task("vault:stress", "Simulate the live position under sUSDD, borrow rate and PSM fee scenarios")
+  .addParam("vault", "Vault address or registry name", undefined, vaultRef)
+  .addOptionalParam("shock", "Custom scenario: instant sUSDD rate move (-0.05 = -5%)", undefined, fraction)
+  .addOptionalParam("susddApr", "Custom scenario: sUSDD yield after the shock (0.08 = 8%)", undefined, fraction)
+  .addOptionalParam("borrowApr", "Custom scenario: Morpho borrow rate (0.25 = 25%)", undefined, fraction)
+  .addOptionalParam("tin", "Custom scenario: PSM tin (0.001 = 0.1%)", undefined, fraction)
+  .addOptionalParam("tout", "Custom scenario: PSM tout", undefined, fraction)
+  .addOptionalParam("days", "Simulated horizon in days", 90, types.int)
+  .setAction(async (args: StressArgs, hre) => {
+    const { readPositionState } = await import("../scripts/lib/position");
+    const { formatLTV } = await import("../scripts/lib/keeper");
+    const stress = await import("../scripts/lib/stress");
+
+    const registry = await openRegistry(hre);
+    const proxy = await resolveVaultRef(hre, registry, "vault", args.vault);
+    const psm = await hre.ethers.getContractAt("IPSM", ADDRESSES.PSM);
+    const [position, tin, tout] = await Promise.all([readPositionState(proxy, hre.ethers.provider), psm.tin(), psm.tout()]);
+    const state = stress.simStateFrom(position, { tin, tout });
+
+    const horizon = args.days * 86400;
+    const scenarios = stress.DEFAULT_SCENARIOS.map((scenario) => ({ ...scenario, horizon }));
+    if ([args.shock, args.susddApr, args.borrowApr, args.tin, args.tout].some((value) => value !== undefined)) {
+      scenarios.push({
+        name: "Custom",
+        susddShock: args.shock,
+        susddRatePerSecond: args.susddApr === undefined ? undefined : stress.perSecond(args.susddApr),
+        borrowRatePerSecond: args.borrowApr === undefined ? undefined : stress.perSecond(args.borrowApr),
+        tin: args.tin,
+        tout: args.tout,
+        horizon,
+        step: 86400,
+      });
+    }
+
+    const thresholds = stress.stressThresholds(state);
+    console.log(`=== Stress test ${proxy} (block ${position.blockNumber}) ===`);
+    console.log("NAV:", ethers.formatUnits(stress.simTotalAssets(state), 6), "USDT");
+    console.log("LTV:", formatLTV(stress.simLTV(state)), `(LLTV ${formatPercent(state.lltv)})`);
+    if (thresholds.liquidationRate === undefined) {
+      console.log("No debt: nothing to liquidate");
+    } else {
+      console.log("Liquidation at sUSDD rate:", ethers.formatUnits(thresholds.liquidationRate, 18), `(${formatPercent(thresholds.liquidationMove!)})`);
+      console.log("Underwater at sUSDD rate:", ethers.formatUnits(thresholds.underwaterRate!, 18), `(${formatPercent(thresholds.underwaterMove!)})`);
+    }
+
+    const results = scenarios.map((scenario) => stress.runScenario(state, scenario));
+    for (const result of results) {
+      const end = result.path[result.path.length - 1];
+      console.log(`\n${result.scenario.name}:`);
+      console.log("  Liquidation:", stress.formatDuration(result.timeToLiquidation));
+      console.log("  Underwater:", stress.formatDuration(result.timeToUnderwater));
+      console.log("  NAV:", ethers.formatUnits(result.path[0].nav, 6), "->", ethers.formatUnits(end.nav, 6), `USDT (min ${ethers.formatUnits(result.minNav, 6)})`);
+      console.log("  LTV:", formatLTV(result.path[0].ltv), "->", formatLTV(end.ltv));
+      console.log("  Exit to idle:", ethers.formatUnits(result.exitValue, 6), "USDT");
+    }
+    return { thresholds, results };
+  });
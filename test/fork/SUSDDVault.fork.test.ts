@@ -3,6 +3,7 @@ import { ethers, upgrades } from "hardhat";
 import { ADDRESSES, MARKET_ID, WAD, DECIMALS } from "./helpers/constants";
 import { SUSDDVault } from "../../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
 
 /**
  * Fork Integration Tests for SUSDDVault
@@ -39,11 +40,11 @@ describe("SUSDDVault Fork Tests", function () {
   });
 
   async function deployVault() {
-    const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+    const VaultFactory = await getVaultFactory(ethers);
     vault = await upgrades.deployProxy(
       VaultFactory,
       [admin.address, feeRecipient.address, TARGET_LTV, PERFORMANCE_FEE, MAX_TOTAL_ASSETS],
-      { kind: "uups" }
+      VAULT_PROXY_OPTIONS
     ) as unknown as SUSDDVault;
     await vault.waitForDeployment();
     await vault.connect(admin).grantRole(KEEPER_ROLE, keeper.address);
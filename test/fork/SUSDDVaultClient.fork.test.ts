@@ -0,0 +1,76 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ADDRESSES, WHALES } from "./helpers/constants";
+import { SUSDDVault } from "../../typechain-types";
+import { SUSDDVaultClient } from "../../sdk";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+
+/**
+ * Fork Tests for SUSDDVaultClient
+ *
+ * Leveraged previewRedeem needs real Morpho debt accounting, so it is checked here
+ * against actual redeems. Pre-flight checks and error decoding are covered in unit tests.
+ */
+describe("SUSDDVaultClient Fork Tests", function () {
+  let vault: SUSDDVault;
+  let client: SUSDDVaultClient;
+  let admin: HardhatEthersSigner;
+  let user1: HardhatEthersSigner;
+
+  const DEPOSIT = ethers.parseUnits("10000", 6);
+
+  before(async function () {
+    const code = await ethers.provider.getCode(ADDRESSES.MORPHO);
+    if (code === "0x") {
+      console.log("Skipping fork tests - no mainnet fork detected");
+      this.skip();
+    }
+
+    [admin, , , , user1] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, admin.address, ethers.parseUnits("0.75", 18), 1000, ethers.parseUnits("10000000", 6)],
+      VAULT_PROXY_OPTIONS
+    ) as unknown as SUSDDVault;
+    await vault.waitForDeployment();
+    await vault.connect(admin).addToWhitelist(user1.address);
+
+    await ethers.provider.send("hardhat_impersonateAccount", [WHALES.USDT]);
+    const whale = await ethers.getSigner(WHALES.USDT);
+    await admin.sendTransaction({ to: WHALES.USDT, value: ethers.parseEther("1") });
+    const usdt = await ethers.getContractAt("IERC20", ADDRESSES.USDT);
+    await usdt.connect(whale).transfer(user1.address, DEPOSIT);
+    await ethers.provider.send("hardhat_stopImpersonatingAccount", [WHALES.USDT]);
+
+    client = new SUSDDVaultClient(await vault.getAddress(), user1);
+    await client.approve(DEPOSIT);
+    await client.deposit(DEPOSIT);
+  });
+
+  it("previews a partial leveraged redeem", async function () {
+    const shares = (await vault.balanceOf(user1.address)) / 2n;
+
+    const preview = await client.previewRedeem(shares);
+    const { assets } = await client.redeem(shares);
+
+    expect(preview.unwind).to.equal("flash-loan");
+    expect(preview.debtToRepay).to.be.gt(0n);
+    // One block of borrow interest between preview and execution
+    expect(preview.assets).to.be.closeTo(assets, assets / 10000n);
+  });
+
+  it("previews a full leveraged redeem", async function () {
+    const shares = await vault.balanceOf(user1.address);
+
+    const preview = await client.previewRedeem(shares);
+    const { assets } = await client.redeem(shares);
+
+    expect(preview.withdrawRatio).to.equal(ethers.parseUnits("1", 18));
+    expect(preview.assets).to.be.closeTo(assets, assets / 10000n);
+  });
+});
@@ -3,6 +3,7 @@ import { ethers, upgrades } from "hardhat";
 import { ADDRESSES, MARKET_ID, WAD, DECIMALS } from "./helpers/constants";
 import { SUSDDVault } from "../../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
 
 /**
  * Security Tests for SUSDDVault
@@ -42,11 +43,11 @@ describe("Security Tests - Protecting Existing Users", function () {
   });
 
   async function deployVault(targetLTV: bigint = TARGET_LTV) {
-    const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+    const VaultFactory = await getVaultFactory(ethers);
     vault = await upgrades.deployProxy(
       VaultFactory,
       [admin.address, feeRecipient.address, targetLTV, PERFORMANCE_FEE, MAX_TOTAL_ASSETS],
-      { kind: "uups" }
+      VAULT_PROXY_OPTIONS
     ) as unknown as SUSDDVault;
     await vault.waitForDeployment();
     await vault.connect(admin).grantRole(KEEPER_ROLE, keeper.address);
@@ -528,6 +529,56 @@ describe("Security Tests - Protecting Existing Users", function () {
     });
   });
 
+  // ============================================================
+  // 6b. PREVIEW vs ACTUAL REDEEM (proportional unwind)
+  // ============================================================
+  describe("Preview vs Actual Redeem Consistency", function () {
+    const depositAmount = ethers.parseUnits("1000", DECIMALS.USDT);
+
+    async function depositAs(user: HardhatEthersSigner) {
+      await fundWithUSDT(user.address, depositAmount);
+      const usdt = await ethers.getContractAt("IERC20", ADDRESSES.USDT);
+      await usdt.connect(user).approve(await vault.getAddress(), depositAmount);
+      await vault.connect(user).deposit(depositAmount, user.address);
+    }
+
+    async function redeemAs(user: HardhatEthersSigner, shares: bigint) {
+      const usdt = await ethers.getContractAt("IERC20", ADDRESSES.USDT);
+      const before = await usdt.balanceOf(user.address);
+      await vault.connect(user).redeem(shares, user.address, user.address);
+      return (await usdt.balanceOf(user.address)) - before;
+    }
+
+    beforeEach(async function () {
+      await deployVault();
+      await depositAs(alice);
+      await depositAs(bob);
+    });
+
+    it("partial leveraged redeem matches preview", async function () {
+      const shares = (await vault.balanceOf(alice.address)) / 2n;
+
+      const preview = await vault.previewRedeem(shares);
+      const actual = await redeemAs(alice, shares);
+
+      // Only one block of borrow interest between preview and execution
+      expect(actual).to.be.closeTo(preview, preview / 10000n);
+
+      console.log(`Preview: ${ethers.formatUnits(preview, 6)} USDT, actual: ${ethers.formatUnits(actual, 6)} USDT`);
+    });
+
+    it("full redeem matches preview after time passes", async function () {
+      await ethers.provider.send("evm_increaseTime", [7 * 86400]);
+      await ethers.provider.send("evm_mine", []);
+
+      const shares = await vault.balanceOf(alice.address);
+      const preview = await vault.previewRedeem(shares);
+      const actual = await redeemAs(alice, shares);
+
+      expect(actual).to.be.closeTo(preview, preview / 10000n);
+    });
+  });
+
   // ============================================================
   // 7. ZERO NAV DEPOSIT BLOCKING
   // ============================================================
@@ -780,7 +831,7 @@ describe("Security Tests - Protecting Existing Users", function () {
   // ============================================================
   describe("Skip-Unwind Branch Coverage", function () {
     /**
-     * Test the skip branches in _unwindPosition:
+     * Test the skip branches in PositionLib.unwind:
      *
      * Branch 1: sharesToRepay > 0 && collateralToWithdraw > 0 → flash loan (normal)
      * Branch 2: collateralToWithdraw > 0 && pos.borrowShares == 0 → just withdraw
@@ -976,10 +1027,10 @@ describe("Security Tests - Protecting Existing Users", function () {
       const oldImpl = await upgrades.erc1967.getImplementationAddress(vaultAddress);
 
       // Deploy new implementation via admin
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault", admin);
+      const VaultFactory = await getVaultFactory(ethers, { signer: admin });
 
       // This should complete without revert
-      const upgraded = await upgrades.upgradeProxy(vaultAddress, VaultFactory);
+      const upgraded = await upgrades.upgradeProxy(vaultAddress, VaultFactory, VAULT_PROXY_OPTIONS);
       await upgraded.waitForDeployment();
 
       const newImpl = await upgrades.erc1967.getImplementationAddress(vaultAddress);
@@ -1002,10 +1053,10 @@ describe("Security Tests - Protecting Existing Users", function () {
       const vaultAddress = await vault.getAddress();
 
       // Attacker tries to upgrade
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault", attacker);
+      const VaultFactory = await getVaultFactory(ethers, { signer: attacker });
 
       await expect(
-        upgrades.upgradeProxy(vaultAddress, VaultFactory)
+        upgrades.upgradeProxy(vaultAddress, VaultFactory, VAULT_PROXY_OPTIONS)
       ).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
 
       console.log("✓ Non-admin correctly rejected from upgrading");
@@ -1015,10 +1066,10 @@ describe("Security Tests - Protecting Existing Users", function () {
       const vaultAddress = await vault.getAddress();
 
       // Keeper has KEEPER_ROLE but not DEFAULT_ADMIN_ROLE
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault", keeper);
+      const VaultFactory = await getVaultFactory(ethers, { signer: keeper });
 
       await expect(
-        upgrades.upgradeProxy(vaultAddress, VaultFactory)
+        upgrades.upgradeProxy(vaultAddress, VaultFactory, VAULT_PROXY_OPTIONS)
       ).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
 
       console.log("✓ Keeper correctly rejected from upgrading");
@@ -1045,8 +1096,8 @@ describe("Security Tests - Protecting Existing Users", function () {
 
       // Upgrade
       const vaultAddress = await vault.getAddress();
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault", admin);
-      await upgrades.upgradeProxy(vaultAddress, VaultFactory);
+      const VaultFactory = await getVaultFactory(ethers, { signer: admin });
+      await upgrades.upgradeProxy(vaultAddress, VaultFactory, VAULT_PROXY_OPTIONS);
 
       // Verify state is preserved (allow small tolerance for interest accrual between blocks)
       const totalAssetsAfter = await vault.totalAssets();
@@ -1078,8 +1129,8 @@ describe("Security Tests - Protecting Existing Users", function () {
 
       // Upgrade
       const vaultAddress = await vault.getAddress();
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault", admin);
-      await upgrades.upgradeProxy(vaultAddress, VaultFactory);
+      const VaultFactory = await getVaultFactory(ethers, { signer: admin });
+      await upgrades.upgradeProxy(vaultAddress, VaultFactory, VAULT_PROXY_OPTIONS);
 
       // Test basic view functions work after upgrade
       const totalAssets = await vault.totalAssets();
@@ -71,6 +71,16 @@ describe("SwapHelper Tests (Fork)", function () {
       expect(usdtPreview).to.be.gt(0);
     });
 
+    it("should read PSM liquidity from gemJoin", async function () {
+      const psm = await ethers.getContractAt("IPSM", ADDRESSES.PSM);
+      const usdt = await ethers.getContractAt("IERC20", ADDRESSES.USDT);
+      const liquidity = await harness.availablePSMLiquidity();
+
+      console.log(`PSM liquidity: ${ethers.formatUnits(liquidity, DECIMALS.USDT)} USDT`);
+
+      expect(liquidity).to.equal(await usdt.balanceOf(await psm.gemJoin()));
+    });
+
     it("should handle zero amounts", async function () {
       expect(await harness.getUSDTValue(0)).to.equal(0);
       expect(await harness.previewSwapUSDTtoSUSDD(0)).to.equal(0);
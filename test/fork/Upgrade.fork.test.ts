@@ -5,6 +5,7 @@ import path from "path";
 import { ADDRESSES, MARKET_ID, DECIMALS } from "./helpers/constants";
 import { SUSDDVault } from "../../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
 
 /**
  * Upgrade Tests on Existing Production Vaults
@@ -130,8 +131,9 @@ describe("Upgrade Tests - Existing Vaults", function () {
   }
 
   async function performUpgrade(vaultAddress: string, adminSigner: HardhatEthersSigner) {
-    const VaultFactory = await ethers.getContractFactory("SUSDDVault", adminSigner);
+    const VaultFactory = await getVaultFactory(ethers, { signer: adminSigner });
     await upgrades.upgradeProxy(vaultAddress, VaultFactory, {
+      ...VAULT_PROXY_OPTIONS,
       unsafeSkipStorageCheck: true,
     });
   }
@@ -337,10 +339,11 @@ describe("Upgrade Tests - Existing Vaults", function () {
 
       it("non-admin cannot upgrade", async function () {
         const [, randomSigner] = await ethers.getSigners();
-        const VaultFactory = await ethers.getContractFactory("SUSDDVault", randomSigner);
+        const VaultFactory = await getVaultFactory(ethers, { signer: randomSigner });
 
         await expect(
           upgrades.upgradeProxy(vaultAddress, VaultFactory, {
+            ...VAULT_PROXY_OPTIONS,
             unsafeSkipStorageCheck: true,
           })
         ).to.be.reverted;
@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import { ethers, network, run, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SUSDDVault } from "../../typechain-types";
+import { ADDRESSES, IDLE_MODE, ROLES, WAD } from "../../scripts/lib/constants";
+import { deployMockEnvironment } from "../../scripts/lib/mocks";
+import { SECONDS_PER_YEAR } from "../../scripts/lib/carry";
+import { HistoryStore, TimelineEvent, emptyStore } from "../../scripts/lib/indexer";
+import { WindowReturn, apyReport } from "../../scripts/lib/apy";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+
+/**
+ * APY Calculator Unit Tests
+ *
+ * Window selection and the return split are checked on a hand-built history with known
+ * sUSDD rates; history:apy then runs against the mock vault with a rate jump and a Merkl claim.
+ */
+describe("APY Calculator Unit Tests", function () {
+  const DAY = 86400;
+  const usdt = (value: string) => ethers.parseUnits(value, 6);
+  const wad = (value: string) => ethers.parseEther(value);
+  const annualize = (r: bigint, elapsed: number) => (r * SECONDS_PER_YEAR) / BigInt(elapsed);
+  const split = (w: WindowReturn) => w.breakdown.susddYield + w.breakdown.leverageCarry + w.breakdown.merklRewards;
+
+  describe("apyReport on a known history", function () {
+    const VAULT = ethers.getAddress("0x" + "e".repeat(40));
+    const R = ethers.getAddress("0x" + "d".repeat(40));
+
+    // day 0:  NAV 1000, 1000 shares, sUSDD at 1.00   day 29: 10 USDD Merkl claim, NAV 1020
+    // day 20: NAV 1010, sUSDD at 1.02, goes idle     day 30: 2 fee shares minted
+    const rates = [wad("1.0"), wad("1.02"), wad("1.02"), wad("1.02")];
+    const readRate = async (block: number) => rates[block - 1];
+    const endPps = (usdt("1020") * WAD) / usdt("1002");
+
+    function knownHistory(): HistoryStore {
+      const store = emptyStore(31337, VAULT, 1);
+      let block = 0;
+      const tx = (day: number, ...events: Record<string, unknown>[]) => {
+        block++;
+        events.forEach((event, logIndex) =>
+          store.events.push({
+            blockNumber: block,
+            logIndex,
+            txHash: ethers.id(`tx${block}`),
+            timestamp: day * DAY,
+            ...event,
+          } as TimelineEvent)
+        );
+      };
+      const snapshot = (totalAssets: string, totalSupply: string) => ({
+        type: "snapshot",
+        totalAssets: usdt(totalAssets),
+        totalSupply: usdt(totalSupply),
+        pricePerShare: (usdt(totalAssets) * WAD) / usdt(totalSupply),
+      });
+
+      tx(0, snapshot("1000", "1000"));
+      tx(20, { type: "rebalance", oldLTV: 0n, newLTV: IDLE_MODE }, snapshot("1010", "1000"));
+      tx(29, { type: "rewards", usddReceived: wad("10") }, snapshot("1020", "1000"));
+      tx(30, { type: "fee", feeShares: usdt("2"), recipient: R }, snapshot("1020", "1002"));
+      store.lastBlock = block;
+      return store;
+    }
+
+    let windows: Map<string, WindowReturn>;
+
+    beforeEach(async function () {
+      windows = new Map((await apyReport(knownHistory(), readRate)).map((w) => [w.label, w]));
+    });
+
+    it("starts each window at the last snapshot before it", function () {
+      expect([...windows.keys()]).to.deep.equal(["1d", "7d", "30d", "inception"]);
+      expect(windows.get("1d")).to.include({ fromBlock: 3, toBlock: 4, elapsed: DAY });
+      expect(windows.get("7d")).to.include({ fromBlock: 2, elapsed: 10 * DAY });
+      expect(windows.get("30d")).to.deep.equal({ ...windows.get("inception"), label: "30d" });
+    });
+
+    it("adds minted fee shares back for the gross return", function () {
+      const day = windows.get("1d")!;
+
+      expect(day.grossReturn).to.equal(0n);
+      expect(day.netReturn).to.equal((endPps * WAD) / wad("1.02") - WAD);
+      expect(day.breakdown.fees).to.equal(annualize(-day.netReturn, DAY));
+      expect(day.netAPR).to.equal(annualize(day.netReturn, DAY));
+      expect(day.grossAPY).to.equal(0n);
+    });
+
+    it("credits each Merkl claim with its pricePerShare bump", function () {
+      const week = windows.get("7d")!;
+      // 10 USDT over 1000 shares, on a starting price of 1.01
+      const rewardsReturn = (wad("0.01") * WAD) / wad("1.01");
+
+      expect(week.breakdown.merklRewards).to.equal(annualize(rewardsReturn, 10 * DAY));
+      expect(week.breakdown.susddYield).to.equal(0n);
+      expect(split(week)).to.be.closeTo(week.grossAPR, 2n);
+    });
+
+    it("counts sUSDD yield only while invested and leaves the rest to carry", function () {
+      const month = windows.get("30d")!;
+      // 2% rate growth, invested for 20 of 30 days
+      const susddReturn = (wad("0.02") * ((20n * WAD) / 30n)) / WAD;
+
+      expect(month.grossReturn).to.equal(wad("0.02"));
+      expect(month.breakdown.susddYield).to.equal(annualize(susddReturn, 30 * DAY));
+      expect(split(month)).to.be.closeTo(month.grossAPR, 2n);
+      expect(month.grossAPR - month.netAPR).to.be.closeTo(month.breakdown.fees, 2n);
+      expect(month.grossAPY).to.be.gt(month.grossAPR);
+    });
+
+    it("reports as of an earlier time and skips windows the history does not cover", async function () {
+      const earlier = await apyReport(knownHistory(), readRate, { asOf: 29 * DAY + 3600 });
+
+      expect(earlier.map((w) => w.label)).to.deep.equal(["1d", "7d", "inception"]);
+      expect(earlier[0].toBlock).to.equal(3);
+    });
+
+    it("needs the initial targetLTV when nothing was rebalanced", async function () {
+      const store = knownHistory();
+      store.events = store.events.filter((e) => e.type !== "rebalance");
+
+      await expect(apyReport(store, readRate)).to.be.rejectedWith(/pass initialTargetLTV/);
+      const [day] = await apyReport(store, readRate, { initialTargetLTV: 0n });
+      expect(day.label).to.equal("1d");
+    });
+  });
+
+  describe("history:apy on the mock vault", function () {
+    let setupSnapshotId: string;
+    let log: typeof console.log;
+    let vaultAddress: string;
+
+    const advance = async (seconds: number) => {
+      await network.provider.send("evm_increaseTime", [seconds]);
+      await network.provider.send("evm_mine", []);
+    };
+
+    before(async function () {
+      setupSnapshotId = await network.provider.send("evm_snapshot", []);
+      const [admin, keeper, feeRecipient, user1]: SignerWithAddress[] = await ethers.getSigners();
+      const env = await deployMockEnvironment();
+
+      const VaultFactory = await getVaultFactory(ethers);
+      const vault = (await upgrades.deployProxy(
+        VaultFactory,
+        [admin.address, feeRecipient.address, 0n, 1000, usdt("1000000")],
+        VAULT_PROXY_OPTIONS
+      )) as unknown as SUSDDVault;
+      vaultAddress = await vault.getAddress();
+      await vault.grantRole(ROLES.KEEPER_ROLE, keeper.address);
+      await vault.setWhitelistEnabled(false);
+
+      const merkl = await (await ethers.getContractFactory("MockMerklDistributor")).deploy(ADDRESSES.USDD);
+      await vault.setMerklDistributor(await merkl.getAddress());
+      await env.usdd.mint(await merkl.getAddress(), wad("50"));
+      await merkl.setRewardAmount(wad("50"));
+
+      await env.usdt.mint(user1.address, usdt("10000"));
+      await env.usdt.connect(user1).approve(vaultAddress, usdt("10000"));
+      await vault.connect(user1).deposit(usdt("10000"), user1.address);
+
+      // +1% sUSDD over two days, then a Merkl claim, then a day of nothing
+      await advance(2 * DAY);
+      await env.susdd.setRate(wad("1.01"));
+      await env.usdd.mint(ADDRESSES.SUSDD, wad("10000"));
+      await vault.connect(keeper).claimRewards("0x");
+      await advance(2 * DAY);
+      await vault.connect(keeper).claimRewards(merkl.interface.encodeFunctionData("claim", [[], [], [], []]));
+      await advance(DAY);
+      await vault.connect(keeper).claimRewards("0x");
+
+      log = console.log;
+      console.log = () => {};
+      process.env.HISTORY_DIR = mkdtempSync(join(tmpdir(), "history-"));
+      process.env.DEPLOYMENTS_DIR = mkdtempSync(join(tmpdir(), "deployments-"));
+    });
+
+    after(async function () {
+      console.log = log;
+      delete process.env.HISTORY_DIR;
+      delete process.env.DEPLOYMENTS_DIR;
+      await network.provider.send("evm_revert", [setupSnapshotId]);
+    });
+
+    it("splits the return into sUSDD yield, Merkl rewards and fees", async function () {
+      await run("history:index", { vault: vaultAddress, fromBlock: 0 });
+
+      const windows: WindowReturn[] = await run("history:apy", { vault: vaultAddress });
+
+      expect(windows.map((w) => w.label)).to.deep.equal(["1d", "inception"]);
+      const inception = windows[1];
+      // Unleveraged and never idle: the whole sUSDD move is yield, 50 USDT over 10000 shares
+      // is the claim, and nothing is left for carry
+      expect(inception.breakdown.susddYield).to.equal(annualize(wad("0.01"), inception.elapsed));
+      expect(inception.breakdown.merklRewards).to.be.closeTo(annualize(wad("0.005"), inception.elapsed), wad("0.0001"));
+      expect(inception.breakdown.leverageCarry).to.be.closeTo(0n, wad("0.0001"));
+      expect(split(inception)).to.be.closeTo(inception.grossAPR, 2n);
+      expect(inception.netAPR).to.be.lt(inception.grossAPR);
+      expect(inception.breakdown.fees).to.be.gt(0n);
+    });
+  });
+});
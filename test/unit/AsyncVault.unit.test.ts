@@ -0,0 +1,643 @@
+import { expect } from "chai";
+import { ethers, network, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { SUSDDAsyncVault, SUSDDVault, WithdrawalQueue } from "../../typechain-types";
+import { ADDRESSES, ROLES } from "../../scripts/lib/constants";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+import { DEFAULT_ASYNC_SETTLE_CONFIG, settleAsyncVault } from "../../scripts/lib/asyncVault";
+import { DEFAULT_QUEUE_CONFIG, processWithdrawalQueue } from "../../scripts/lib/withdrawalQueue";
+import {
+  ExceedsClaimableError,
+  NO_ROUTE,
+  NotOperatorError,
+  NothingToSettleError,
+  SUSDDAsyncVaultClient,
+  buildSwapRoute,
+  decodeVaultError,
+} from "../../sdk";
+
+/**
+ * Async Vault (ERC-7540) Unit Tests
+ *
+ * Three users hold 10000, 20000 and 30000 USDT worth of shares in a 75% LTV vault.
+ * Settlement fairness: every deposit request of an epoch converts at the same price, which is
+ * what a direct deposit of the epoch total would have got. Redeem requests go into the vault's
+ * WithdrawalQueue and are fulfilled with its other requests.
+ */
+describe("Async Vault Unit Tests", function () {
+  const LLTV = ethers.parseEther("0.86");
+  const TARGET_LTV = ethers.parseEther("0.75");
+  const usdt = (value: string) => ethers.parseUnits(value, 6);
+
+  let admin: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let user3: SignerWithAddress;
+  let env: MockEnvironment;
+  let vault: SUSDDVault;
+  let vaultAddress: string;
+  let asyncVault: SUSDDAsyncVault;
+  let asyncAddress: string;
+  let queue: WithdrawalQueue;
+  let queueAddress: string;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+
+  async function requestDeposit(user: SignerWithAddress, assets: bigint, controller = user.address) {
+    await env.usdt.mint(user.address, assets);
+    await env.usdt.connect(user).approve(asyncAddress, assets);
+    await asyncVault.connect(user).requestDeposit(assets, controller, user.address);
+  }
+
+  async function requestRedeem(user: SignerWithAddress, shares: bigint, controller = user.address) {
+    await vault.connect(user).approve(asyncAddress, shares);
+    await asyncVault.connect(user).requestRedeem(shares, controller, user.address);
+  }
+
+  /** XOR of the selectors of `signatures` (ERC-165 interface id) */
+  function interfaceId(signatures: string[]): string {
+    const id = signatures.reduce((acc, signature) => acc ^ BigInt(ethers.id(signature).slice(0, 10)), 0n);
+    return ethers.toBeHex(id, 4);
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, keeper, user1, user2, user3] = await ethers.getSigners();
+    env = await deployMockEnvironment({ lltv: LLTV });
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = (await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, admin.address, TARGET_LTV, 0, usdt("1000000")],
+      VAULT_PROXY_OPTIONS
+    )) as unknown as SUSDDVault;
+    vaultAddress = await vault.getAddress();
+    await vault.setWhitelistEnabled(false);
+
+    queue = await (await ethers.getContractFactory("WithdrawalQueue")).deploy(vaultAddress, admin.address);
+    queueAddress = await queue.getAddress();
+    await queue.grantRole(ROLES.KEEPER_ROLE, keeper.address);
+    asyncVault = await (await ethers.getContractFactory("SUSDDAsyncVault")).deploy(
+      vaultAddress,
+      queueAddress,
+      admin.address
+    );
+    asyncAddress = await asyncVault.getAddress();
+    await asyncVault.grantRole(ROLES.KEEPER_ROLE, keeper.address);
+
+    for (const [user, amount] of [[user1, "10000"], [user2, "20000"], [user3, "30000"]] as const) {
+      await env.usdt.mint(user.address, usdt(amount));
+      await env.usdt.connect(user).approve(vaultAddress, usdt(amount));
+      await vault.connect(user).deposit(usdt(amount), user.address);
+    }
+  });
+
+  after(async function () {
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("Requests", function () {
+    it("escrows USDT and emits DepositRequest", async function () {
+      const assets = usdt("1000");
+      await env.usdt.mint(user1.address, assets);
+      await env.usdt.connect(user1).approve(asyncAddress, assets);
+      const balanceBefore = await env.usdt.balanceOf(user1.address);
+
+      await expect(asyncVault.connect(user1).requestDeposit(assets, user2.address, user1.address))
+        .to.emit(asyncVault, "DepositRequest")
+        .withArgs(user2.address, user1.address, 0n, user1.address, assets);
+
+      expect(await env.usdt.balanceOf(user1.address)).to.equal(balanceBefore - assets);
+      expect(await env.usdt.balanceOf(asyncAddress)).to.equal(assets);
+      expect(await asyncVault.totalPendingDepositAssets()).to.equal(assets);
+      expect(await asyncVault.pendingDepositRequest(0n, user2.address)).to.equal(assets);
+      expect(await asyncVault.pendingDepositRequest(0n, user1.address)).to.equal(0n);
+      expect(await asyncVault.claimableDepositRequest(0n, user2.address)).to.equal(0n);
+    });
+
+    it("queues shares in the WithdrawalQueue and emits RedeemRequest", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      await vault.connect(user1).approve(asyncAddress, shares);
+
+      const tx = asyncVault.connect(user1).requestRedeem(shares, user1.address, user1.address);
+      await expect(tx)
+        .to.emit(asyncVault, "RedeemRequest")
+        .withArgs(user1.address, user1.address, 0n, user1.address, shares);
+      await expect(tx).to.emit(queue, "RedeemRequest").withArgs(asyncAddress, asyncAddress, 0n, asyncAddress, shares);
+
+      expect(await vault.balanceOf(queueAddress)).to.equal(shares);
+      expect(await vault.balanceOf(asyncAddress)).to.equal(0n);
+      expect(await queue.totalPendingShares()).to.equal(shares);
+      expect(await asyncVault.pendingRedeemRequest(0n, user1.address)).to.equal(shares);
+      expect(await asyncVault.claimableRedeemRequest(0n, user1.address)).to.equal(0n);
+    });
+
+    it("only accepts the WithdrawalQueue of its vault", async function () {
+      const otherQueue = await (await ethers.getContractFactory("WithdrawalQueue")).deploy(user3.address, admin.address);
+      await expect(
+        (await ethers.getContractFactory("SUSDDAsyncVault")).deploy(vaultAddress, await otherQueue.getAddress(), admin.address)
+      ).to.be.revertedWithCustomError(asyncVault, "InvalidQueue");
+      expect(await asyncVault.withdrawalQueue()).to.equal(queueAddress);
+    });
+
+    it("validates amount, controller and owner", async function () {
+      await expect(
+        asyncVault.connect(user1).requestDeposit(0n, user1.address, user1.address)
+      ).to.be.revertedWithCustomError(asyncVault, "ZeroAmount");
+      await expect(
+        asyncVault.connect(user1).requestRedeem(0n, user1.address, user1.address)
+      ).to.be.revertedWithCustomError(asyncVault, "ZeroAmount");
+      await expect(
+        asyncVault.connect(user1).requestDeposit(1n, ethers.ZeroAddress, user1.address)
+      ).to.be.revertedWithCustomError(asyncVault, "InvalidController");
+      await expect(
+        asyncVault.connect(user1).requestDeposit(1n, user1.address, user2.address)
+      ).to.be.revertedWithCustomError(asyncVault, "NotOperator");
+      await expect(
+        asyncVault.connect(user1).requestRedeem(1n, user1.address, user2.address)
+      ).to.be.revertedWithCustomError(asyncVault, "NotOperator");
+    });
+
+    it("requires owner and controller to be whitelisted while the vault whitelist is on", async function () {
+      await vault.setWhitelistEnabled(true);
+      await vault.addToWhitelist(user1.address);
+      await env.usdt.mint(user1.address, usdt("100"));
+      await env.usdt.connect(user1).approve(asyncAddress, usdt("100"));
+
+      await expect(asyncVault.connect(user1).requestDeposit(usdt("100"), user2.address, user1.address))
+        .to.be.revertedWithCustomError(asyncVault, "NotWhitelisted")
+        .withArgs(user2.address);
+
+      await vault.addToWhitelist(user2.address);
+      await asyncVault.connect(user1).requestDeposit(usdt("100"), user2.address, user1.address);
+
+      // The async vault deposits on its own behalf, so it needs whitelisting too
+      await expect(asyncVault.connect(keeper).settleDeposits(0n))
+        .to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxDeposit")
+        .withArgs(asyncAddress, usdt("100"), 0n);
+      await vault.addToWhitelist(asyncAddress);
+      await asyncVault.connect(keeper).settleDeposits(0n);
+
+      const shares = await vault.balanceOf(user1.address);
+      await vault.connect(user1).approve(asyncAddress, shares);
+      await vault.removeFromWhitelist(user2.address);
+      await expect(asyncVault.connect(user1).requestRedeem(shares, user2.address, user1.address))
+        .to.be.revertedWithCustomError(asyncVault, "NotWhitelisted")
+        .withArgs(user2.address);
+      await vault.removeFromWhitelist(user1.address);
+      await expect(asyncVault.connect(user1).requestRedeem(shares, user1.address, user1.address))
+        .to.be.revertedWithCustomError(asyncVault, "NotWhitelisted")
+        .withArgs(user1.address);
+    });
+  });
+
+  describe("Cancellation", function () {
+    it("returns the pending deposit of the open epoch", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await requestDeposit(user2, usdt("500"));
+
+      await expect(asyncVault.connect(user1).cancelDepositRequest(user1.address, user3.address))
+        .to.emit(asyncVault, "DepositRequestCancelled")
+        .withArgs(user1.address, user3.address, user1.address, usdt("1000"));
+
+      expect(await env.usdt.balanceOf(user3.address)).to.equal(usdt("1000"));
+      expect(await asyncVault.pendingDepositRequest(0n, user1.address)).to.equal(0n);
+      expect(await asyncVault.totalPendingDepositAssets()).to.equal(usdt("500"));
+
+      // The rest of the epoch still settles
+      await asyncVault.connect(keeper).settleDeposits(0n);
+      const { assets } = await asyncVault.depositEpochs(0n);
+      expect(assets).to.equal(usdt("500"));
+    });
+
+    it("frees USDT while settlement keeps failing", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await vault.pause();
+      await expect(asyncVault.connect(keeper).settleDeposits(0n)).to.be.revertedWithCustomError(
+        vault,
+        "ERC4626ExceededMaxDeposit"
+      );
+
+      const balanceBefore = await env.usdt.balanceOf(user1.address);
+      await asyncVault.connect(user1).cancelDepositRequest(user1.address, user1.address);
+      expect(await env.usdt.balanceOf(user1.address)).to.equal(balanceBefore + usdt("1000"));
+      expect(await env.usdt.balanceOf(asyncAddress)).to.equal(0n);
+    });
+
+    it("leaves settled deposits claimable and only cancels the new epoch", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await asyncVault.connect(keeper).settleDeposits(0n);
+      const claimable = await asyncVault.maxMint(user1.address);
+
+      await expect(
+        asyncVault.connect(user1).cancelDepositRequest(user1.address, user1.address)
+      ).to.be.revertedWithCustomError(asyncVault, "ZeroAmount");
+
+      await requestDeposit(user1, usdt("200"));
+      await asyncVault.connect(user1).cancelDepositRequest(user1.address, user1.address);
+      expect(await asyncVault.maxMint(user1.address)).to.equal(claimable);
+      expect(await asyncVault.maxDeposit(user1.address)).to.equal(usdt("1000"));
+      expect(await asyncVault.totalPendingDepositAssets()).to.equal(0n);
+    });
+
+    it("is for the controller or its operator", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await expect(
+        asyncVault.connect(user2).cancelDepositRequest(user1.address, user2.address)
+      ).to.be.revertedWithCustomError(asyncVault, "NotOperator");
+
+      await asyncVault.connect(user1).setOperator(user2.address, true);
+      await asyncVault.connect(user2).cancelDepositRequest(user1.address, user1.address);
+      expect(await asyncVault.pendingDepositRequest(0n, user1.address)).to.equal(0n);
+    });
+  });
+
+  describe("Operators", function () {
+    it("lets an approved operator request and claim for the controller", async function () {
+      await expect(asyncVault.connect(user1).setOperator(user2.address, true))
+        .to.emit(asyncVault, "OperatorSet")
+        .withArgs(user1.address, user2.address, true);
+      expect(await asyncVault.isOperator(user1.address, user2.address)).to.be.true;
+
+      const assets = usdt("1000");
+      await env.usdt.mint(user1.address, assets);
+      await env.usdt.connect(user1).approve(asyncAddress, assets);
+      await asyncVault.connect(user2).requestDeposit(assets, user1.address, user1.address);
+      await asyncVault.connect(keeper).settleDeposits(0n);
+
+      const shares = await asyncVault.maxMint(user1.address);
+      const balanceBefore = await vault.balanceOf(user3.address);
+      await asyncVault.connect(user2)["deposit(uint256,address,address)"](assets, user3.address, user1.address);
+      expect(await vault.balanceOf(user3.address)).to.equal(balanceBefore + shares);
+
+      await asyncVault.connect(user1).setOperator(user2.address, false);
+      await expect(
+        asyncVault.connect(user2).requestDeposit(assets, user1.address, user1.address)
+      ).to.be.revertedWithCustomError(asyncVault, "NotOperator");
+    });
+
+    it("rejects claims by anyone but the controller or its operator", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await asyncVault.connect(keeper).settleDeposits(0n);
+
+      await expect(
+        asyncVault.connect(user2)["deposit(uint256,address,address)"](usdt("1000"), user2.address, user1.address)
+      ).to.be.revertedWithCustomError(asyncVault, "NotOperator");
+      await expect(
+        asyncVault.connect(user2)["mint(uint256,address,address)"](1n, user2.address, user1.address)
+      ).to.be.revertedWithCustomError(asyncVault, "NotOperator");
+    });
+  });
+
+  describe("Settlement", function () {
+    it("is keeper-only and needs pending requests", async function () {
+      await expect(asyncVault.connect(user1).settleDeposits(0n))
+        .to.be.revertedWithCustomError(asyncVault, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, ROLES.KEEPER_ROLE);
+      await expect(asyncVault.connect(keeper).settleDeposits(0n)).to.be.revertedWithCustomError(
+        asyncVault,
+        "NothingToSettle"
+      );
+    });
+
+    it("deposits the epoch at NAV and credits controllers pro rata", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await requestDeposit(user2, usdt("3000"));
+      const direct = await vault.previewDeposit(usdt("4000"));
+
+      const tx = asyncVault.connect(keeper).settleDeposits(0n);
+      await expect(tx).to.emit(asyncVault, "DepositsSettled").withArgs(0n, usdt("4000"), direct);
+      await expect(tx).to.emit(vault, "Deposit").withArgs(asyncAddress, asyncAddress, usdt("4000"), direct);
+
+      expect(await asyncVault.depositEpochId()).to.equal(1n);
+      expect(await asyncVault.totalPendingDepositAssets()).to.equal(0n);
+      expect(await vault.balanceOf(asyncAddress)).to.equal(direct);
+
+      expect(await asyncVault.pendingDepositRequest(0n, user1.address)).to.equal(0n);
+      expect(await asyncVault.claimableDepositRequest(0n, user1.address)).to.equal(usdt("1000"));
+      expect(await asyncVault.maxDeposit(user2.address)).to.equal(usdt("3000"));
+
+      const shares1 = await asyncVault.maxMint(user1.address);
+      const shares2 = await asyncVault.maxMint(user2.address);
+      expect(shares1).to.equal(direct / 4n);
+      expect(shares2).to.be.closeTo(shares1 * 3n, 3n);
+      expect(shares1 + shares2).to.be.lte(direct);
+    });
+
+    it("passes minShares to the vault", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      const expected = await vault.previewDeposit(usdt("1000"));
+      await expect(asyncVault.connect(keeper).settleDeposits(expected + 1n)).to.be.revertedWithCustomError(
+        vault,
+        "SlippageExceeded"
+      );
+    });
+
+    it("credits redeems once the queue fulfils them, at the batch price", async function () {
+      const shares1 = (await vault.balanceOf(user1.address)) / 2n;
+      const shares3 = (await vault.balanceOf(user3.address)) / 3n;
+      await requestRedeem(user1, shares1);
+      await requestRedeem(user3, shares3);
+
+      const assets = await queue.connect(keeper).fulfilRedeems.staticCall(10n, 0n, NO_ROUTE);
+      await expect(queue.connect(keeper).fulfilRedeems(10n, 0n, NO_ROUTE))
+        .to.emit(queue, "RedeemFulfilled")
+        .withArgs(0n, 1n, shares1 + shares3, assets);
+
+      const assets1 = await asyncVault.maxWithdraw(user1.address);
+      const assets3 = await asyncVault.maxWithdraw(user3.address);
+      expect(assets1 * 10n ** 18n / shares1).to.be.closeTo(assets3 * 10n ** 18n / shares3, 10n ** 9n);
+      expect(assets1 + assets3).to.equal(assets);
+      expect(await asyncVault.pendingRedeemRequest(0n, user1.address)).to.equal(0n);
+      expect(await asyncVault.claimableRedeemRequest(0n, user1.address)).to.equal(shares1);
+      expect(await asyncVault.maxRedeem(user3.address)).to.equal(shares3);
+    });
+
+    it("shares one first-in first-out backlog with direct queue requests", async function () {
+      const direct = await vault.balanceOf(user2.address);
+      await vault.connect(user2).approve(queueAddress, direct);
+      await queue.connect(user2).requestRedeem(direct, user2.address, user2.address);
+      const shares = await vault.balanceOf(user1.address);
+      await requestRedeem(user1, shares);
+
+      expect(await queue.totalPendingShares()).to.equal(direct + shares);
+      await queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE);
+      expect(await asyncVault.pendingRedeemRequest(0n, user1.address)).to.equal(shares);
+
+      await queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE);
+      expect(await asyncVault.claimableRedeemRequest(0n, user1.address)).to.equal(shares);
+      expect((await queue.getRequest(1n)).claimed).to.be.false;
+
+      // The first touch of the controller claims the queue's USDT into the async vault
+      const assets = await asyncVault.maxWithdraw(user1.address);
+      await asyncVault.connect(user1).redeem(shares / 2n, user1.address, user1.address);
+      expect((await queue.getRequest(1n)).claimed).to.be.true;
+      expect(await env.usdt.balanceOf(asyncAddress)).to.equal(assets - (await env.usdt.balanceOf(user1.address)));
+    });
+
+    it("fulfils redeems while the vault is paused for deposits", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await requestRedeem(user2, await vault.balanceOf(user2.address));
+      await vault.pause();
+
+      // maxDeposit is 0 while paused
+      await expect(asyncVault.connect(keeper).settleDeposits(0n)).to.be.revertedWithCustomError(
+        vault,
+        "ERC4626ExceededMaxDeposit"
+      );
+      await queue.connect(keeper).fulfilRedeems(10n, 0n, NO_ROUTE);
+
+      expect(await asyncVault.pendingDepositRequest(0n, user1.address)).to.equal(usdt("1000"));
+      expect(await asyncVault.maxWithdraw(user2.address)).to.be.gt(0n);
+    });
+
+    it("keeps requests made after a settlement for the next epoch", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await asyncVault.connect(keeper).settleDeposits(0n);
+      const firstShares = await asyncVault.maxMint(user1.address);
+
+      await requestDeposit(user1, usdt("500"));
+      expect(await asyncVault.claimableDepositRequest(0n, user1.address)).to.equal(usdt("1000"));
+      expect(await asyncVault.pendingDepositRequest(0n, user1.address)).to.equal(usdt("500"));
+      expect(await asyncVault.totalPendingDepositAssets()).to.equal(usdt("500"));
+
+      await asyncVault.connect(keeper).settleDeposits(0n);
+      const { shares } = await asyncVault.depositEpochs(1n);
+      expect(await asyncVault.claimableDepositRequest(0n, user1.address)).to.equal(usdt("1500"));
+      expect(await asyncVault.maxMint(user1.address)).to.equal(firstShares + shares);
+    });
+
+    it("fulfils redeems through a swap route while the PSM is drained", async function () {
+      const dex = await (await ethers.getContractFactory("MockDEX")).deploy();
+      const dexAddress = await dex.getAddress();
+      await dex.setRate(ADDRESSES.USDD, ADDRESSES.USDT, usdt("0.99"));
+      await vault.setSwapRouter(dexAddress, true);
+      await env.psm.setGemLiquidity(0n);
+      await requestRedeem(user1, await vault.balanceOf(user1.address));
+
+      await expect(queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE)).to.be.reverted;
+
+      const route = buildSwapRoute(
+        dexAddress,
+        (amount) => dex.interface.encodeFunctionData("swap", [ADDRESSES.USDD, ADDRESSES.USDT, amount, 0n, vaultAddress]),
+        0n
+      );
+      await queue.connect(keeper).fulfilRedeems(1n, 0n, route);
+
+      // 40000 USDD at 0.99, less 30000 debt
+      expect(await asyncVault.maxWithdraw(user1.address)).to.be.closeTo(usdt("9600"), usdt("5"));
+    });
+  });
+
+  describe("Claims", function () {
+    beforeEach(async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await requestDeposit(user2, usdt("2000"));
+      await asyncVault.connect(keeper).settleDeposits(0n);
+    });
+
+    it("deposit() claims the shares for the assets, then the exact remainder", async function () {
+      const claimable = await asyncVault.maxMint(user1.address);
+      const balanceBefore = await vault.balanceOf(user1.address);
+
+      const part = await asyncVault.connect(user1)["deposit(uint256,address)"].staticCall(usdt("300"), user1.address);
+      await expect(asyncVault.connect(user1)["deposit(uint256,address)"](usdt("300"), user1.address))
+        .to.emit(asyncVault, "Deposit")
+        .withArgs(user1.address, user1.address, usdt("300"), part);
+      expect(part).to.equal((claimable * 3n) / 10n);
+
+      await asyncVault.connect(user1)["deposit(uint256,address)"](usdt("700"), user1.address);
+      expect(await vault.balanceOf(user1.address)).to.equal(balanceBefore + claimable);
+      expect(await asyncVault.maxDeposit(user1.address)).to.equal(0n);
+      expect(await asyncVault.maxMint(user1.address)).to.equal(0n);
+    });
+
+    it("mint() claims exact shares, rounding assets up", async function () {
+      const claimable = await asyncVault.maxMint(user2.address);
+      const balanceBefore = await vault.balanceOf(user3.address);
+
+      const assets = await asyncVault.connect(user2)["mint(uint256,address)"].staticCall(1n, user3.address);
+      expect(assets).to.be.gt(0n);
+      await asyncVault.connect(user2)["mint(uint256,address)"](claimable / 2n, user3.address);
+      expect(await vault.balanceOf(user3.address)).to.equal(balanceBefore + claimable / 2n);
+
+      await asyncVault.connect(user2)["mint(uint256,address)"](claimable - claimable / 2n, user3.address);
+      expect(await vault.balanceOf(user3.address)).to.equal(balanceBefore + claimable);
+      expect(await asyncVault.maxDeposit(user2.address)).to.equal(0n);
+    });
+
+    it("rejects claims above the claimable amount", async function () {
+      const claimable = await asyncVault.maxMint(user1.address);
+      await expect(asyncVault.connect(user1)["deposit(uint256,address)"](usdt("1000") + 1n, user1.address))
+        .to.be.revertedWithCustomError(asyncVault, "ExceedsClaimable")
+        .withArgs(usdt("1000") + 1n, usdt("1000"));
+      await expect(asyncVault.connect(user1)["mint(uint256,address)"](claimable + 1n, user1.address))
+        .to.be.revertedWithCustomError(asyncVault, "ExceedsClaimable")
+        .withArgs(claimable + 1n, claimable);
+      await expect(
+        asyncVault.connect(user3)["deposit(uint256,address)"](0n, user3.address)
+      ).to.be.revertedWithCustomError(asyncVault, "ZeroAmount");
+    });
+
+    it("withdraw() pays exact USDT and redeem() the remainder", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      await requestRedeem(user1, shares);
+      await queue.connect(keeper).fulfilRedeems(10n, 0n, NO_ROUTE);
+      const claimable = await asyncVault.maxWithdraw(user1.address);
+      const balanceBefore = await env.usdt.balanceOf(user3.address);
+
+      const used = await asyncVault.connect(user1).withdraw.staticCall(usdt("1234"), user3.address, user1.address);
+      await expect(asyncVault.connect(user1).withdraw(usdt("1234"), user3.address, user1.address))
+        .to.emit(asyncVault, "Withdraw")
+        .withArgs(user1.address, user3.address, user1.address, usdt("1234"), used);
+      expect(await env.usdt.balanceOf(user3.address)).to.equal(balanceBefore + usdt("1234"));
+      expect(await asyncVault.maxRedeem(user1.address)).to.equal(shares - used);
+
+      await asyncVault.connect(user1).redeem(shares - used, user3.address, user1.address);
+      expect(await env.usdt.balanceOf(user3.address)).to.equal(balanceBefore + claimable);
+      expect(await asyncVault.maxWithdraw(user1.address)).to.equal(0n);
+
+      await expect(asyncVault.connect(user1).redeem(1n, user1.address, user1.address))
+        .to.be.revertedWithCustomError(asyncVault, "ExceedsClaimable")
+        .withArgs(1n, 0n);
+      await expect(
+        asyncVault.connect(user2).withdraw(1n, user2.address, user1.address)
+      ).to.be.revertedWithCustomError(asyncVault, "NotOperator");
+    });
+
+    it("leaves the contract solvent for every claim", async function () {
+      await asyncVault.connect(user1)["deposit(uint256,address)"](usdt("1000"), user1.address);
+      await asyncVault.connect(user2)["deposit(uint256,address)"](usdt("2000"), user2.address);
+      // Rounding dust only
+      expect(await vault.balanceOf(asyncAddress)).to.be.lte(2n);
+    });
+  });
+
+  describe("ERC-165", function () {
+    it("reports the ERC-7540 operator, async deposit and async redeem interfaces", async function () {
+      const operator = interfaceId(["isOperator(address,address)", "setOperator(address,bool)"]);
+      const asyncDeposit = interfaceId([
+        "requestDeposit(uint256,address,address)",
+        "pendingDepositRequest(uint256,address)",
+        "claimableDepositRequest(uint256,address)",
+        "deposit(uint256,address,address)",
+        "mint(uint256,address,address)",
+      ]);
+      const asyncRedeem = interfaceId([
+        "requestRedeem(uint256,address,address)",
+        "pendingRedeemRequest(uint256,address)",
+        "claimableRedeemRequest(uint256,address)",
+      ]);
+      expect([operator, asyncDeposit, asyncRedeem]).to.deep.equal(["0xe3bc4e65", "0xce3bbe50", "0x620ee8e4"]);
+
+      for (const id of [operator, asyncDeposit, asyncRedeem, "0x01ffc9a7"]) {
+        expect(await asyncVault.supportsInterface(id)).to.be.true;
+      }
+      expect(await asyncVault.supportsInterface("0xffffffff")).to.be.false;
+      expect(await asyncVault.share()).to.equal(vaultAddress);
+      expect(await asyncVault.asset()).to.equal(ADDRESSES.USDT);
+    });
+  });
+
+  describe("Keeper routine", function () {
+    it("settles the deposit epoch, simulating first", async function () {
+      await requestDeposit(user1, usdt("1000"));
+
+      const dryRun = await settleAsyncVault(asyncVault.connect(keeper), { ...DEFAULT_ASYNC_SETTLE_CONFIG, dryRun: true });
+      expect(dryRun.deposits.out).to.equal(await vault.previewDeposit(usdt("1000")));
+      expect(dryRun.deposits.txHash).to.be.undefined;
+      expect(await asyncVault.depositEpochId()).to.equal(0n);
+
+      const result = await settleAsyncVault(asyncVault.connect(keeper), DEFAULT_ASYNC_SETTLE_CONFIG);
+      expect(result.deposits.txHash).to.be.a("string");
+      expect(await asyncVault.depositEpochId()).to.equal(1n);
+    });
+
+    it("skips a reverting deposit settlement", async function () {
+      await requestDeposit(user1, usdt("1000"));
+      await vault.pause();
+
+      const result = await settleAsyncVault(asyncVault.connect(keeper), DEFAULT_ASYNC_SETTLE_CONFIG);
+      expect(result.deposits.skipped).to.be.a("string");
+      expect(result.deposits.txHash).to.be.undefined;
+      expect(await asyncVault.depositEpochId()).to.equal(0n);
+    });
+
+    it("leaves async redeems to the queue routine, in the same batches as direct requests", async function () {
+      await requestRedeem(user2, await vault.balanceOf(user2.address));
+      await env.psm.setGemLiquidity(usdt("1000"));
+
+      const held = await processWithdrawalQueue(queue.connect(keeper), DEFAULT_QUEUE_CONFIG);
+      expect(held.pending.map((request) => request.controller)).to.deep.equal([asyncAddress]);
+      expect(held.count).to.equal(0);
+
+      await env.psm.setGemLiquidity(usdt("1000000"));
+      const result = await processWithdrawalQueue(queue.connect(keeper), DEFAULT_QUEUE_CONFIG);
+      expect(result.txHash).to.be.a("string");
+      expect(await asyncVault.maxWithdraw(user2.address)).to.equal(result.assets);
+    });
+  });
+
+  describe("SUSDDAsyncVaultClient", function () {
+    it("requests, waits for settlement and claims", async function () {
+      const client = new SUSDDAsyncVaultClient(asyncAddress, user1);
+      await env.usdt.mint(user1.address, usdt("1000"));
+      await client.approveDeposit(usdt("1000"));
+      await client.requestDeposit(usdt("1000"));
+      expect((await client.state()).pendingDepositAssets).to.equal(usdt("1000"));
+
+      await asyncVault.connect(keeper).settleDeposits(0n);
+      const state = await client.state();
+      expect(state.claimableDepositAssets).to.equal(usdt("1000"));
+
+      const { shares } = await client.claimDeposit();
+      expect(shares).to.equal(state.claimableDepositShares);
+
+      await client.approveRedeem(shares);
+      await client.requestRedeem(shares);
+      await queue.connect(keeper).fulfilRedeems(10n, 0n, NO_ROUTE);
+      const { claimableRedeemAssets } = await client.state();
+
+      const exact = await client.claimRedeem(usdt("100"));
+      expect(exact.assets).to.equal(usdt("100"));
+      const rest = await client.claimRedeem();
+      expect(rest.assets).to.equal(claimableRedeemAssets - usdt("100"));
+    });
+
+    it("checks operators and claimable amounts before sending", async function () {
+      const client = new SUSDDAsyncVaultClient(asyncAddress, user2);
+      await expect(client.requestDeposit(usdt("1"), user2.address, user1.address)).to.be.rejectedWith(NotOperatorError);
+      await expect(client.claimDeposit(1n)).to.be.rejectedWith(ExceedsClaimableError);
+
+      await new SUSDDAsyncVaultClient(asyncAddress, user1).setOperator(user2.address, true);
+      await env.usdt.mint(user1.address, usdt("1"));
+      await env.usdt.connect(user1).approve(asyncAddress, usdt("1"));
+      await client.requestDeposit(usdt("1"), user1.address, user1.address);
+      expect(await asyncVault.pendingDepositRequest(0n, user1.address)).to.equal(usdt("1"));
+
+      await client.cancelDeposit(user1.address, user1.address);
+      expect(await env.usdt.balanceOf(user1.address)).to.equal(usdt("1"));
+    });
+
+    it("decodes async vault reverts", async function () {
+      const error = await asyncVault.connect(keeper).settleDeposits(0n).catch((e) => e);
+      expect(decodeVaultError(error)).to.be.instanceOf(NothingToSettleError);
+
+      const claim = await asyncVault.connect(user1).redeem(5n, user1.address, user1.address).catch((e) => e);
+      const decoded = decodeVaultError(claim);
+      expect(decoded).to.be.instanceOf(ExceedsClaimableError);
+      expect(decoded).to.include({ requested: 5n, claimable: 0n });
+    });
+  });
+});
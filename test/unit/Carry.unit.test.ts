@@ -0,0 +1,265 @@
+import { expect } from "chai";
+import { ethers, network, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockIrm, SUSDDVault } from "../../typechain-types";
+import {
+  CarryOption,
+  DEFAULT_CARRY_CONFIG,
+  SECONDS_PER_YEAR,
+  SUSDDYield,
+  analyzeCarry,
+  evaluateCarryOptions,
+  netAPY,
+  rateToAPY,
+  readSUSDDYield,
+  recommendCarryMode,
+} from "../../scripts/lib/carry";
+import { IDLE_MODE, MARKET_ID, WAD } from "../../scripts/lib/constants";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import { PositionState } from "../../scripts/lib/position";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+
+/**
+ * Carry Monitor Unit Tests
+ *
+ * Net-APY math and the recommendation are tested on synthetic inputs; sUSDD yield history
+ * and IRM simulation run against MockSUSDD.setRate and a linear MockIrm.
+ */
+describe("Carry Monitor Unit Tests", function () {
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+
+  let env: MockEnvironment;
+  let irm: MockIrm;
+  let vault: SUSDDVault;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+
+  const LLTV = ethers.parseEther("0.86");
+  const WEEK = 7 * 24 * 60 * 60;
+  const pct = (value: string) => ethers.parseEther(value) / 100n;
+  const perSecond = (apr: bigint) => apr / SECONDS_PER_YEAR;
+  const config = { ...DEFAULT_CARRY_CONFIG };
+
+  function yieldWithAPY(apy: bigint): SUSDDYield {
+    return { fromBlock: 0, toBlock: 0, fromRate: WAD, toRate: WAD, elapsed: 1n, ratePerSecond: 0n, apy };
+  }
+
+  function option(targetLTV: bigint, net: bigint, feasible = true): CarryOption {
+    return { targetLTV, borrowAPY: 0n, netAPY: net, feasible };
+  }
+
+  function positionWith(overrides: Partial<PositionState>): PositionState {
+    return {
+      vault: ethers.ZeroAddress,
+      blockNumber: 0,
+      timestamp: 0n,
+      targetLTV: 0n,
+      lltv: LLTV,
+      idleUsdt: 0n,
+      collateral: 0n,
+      borrowShares: 0n,
+      debt: 0n,
+      collateralValue: 0n,
+      nav: ethers.parseUnits("100000", 6),
+      ltv: 0n,
+      susddRate: WAD,
+      borrowRate: 0n,
+      market: {
+        totalSupplyAssets: ethers.parseUnits("1000000", 6), totalSupplyShares: 0n,
+        totalBorrowAssets: ethers.parseUnits("500000", 6), totalBorrowShares: 0n, lastUpdate: 0n, fee: 0n,
+      },
+      marketParams: {
+        loanToken: ethers.ZeroAddress, collateralToken: ethers.ZeroAddress,
+        oracle: ethers.ZeroAddress, irm: ethers.ZeroAddress, lltv: LLTV,
+      },
+      ...overrides,
+    };
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, , , user1] = await ethers.getSigners();
+
+    // 2% base + up to 8% at full utilization
+    const MockIrmFactory = await ethers.getContractFactory("MockIrm");
+    irm = await MockIrmFactory.deploy(perSecond(pct("2")), perSecond(pct("8")));
+
+    env = await deployMockEnvironment({ lltv: LLTV, irm: await irm.getAddress() });
+    await env.morpho.setMarketSupply(MARKET_ID, ethers.parseUnits("1000000", 6), ethers.parseUnits("1000000", 12));
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, admin.address, ethers.parseEther("0.75"), 1000, ethers.parseUnits("1000000", 6)],
+      VAULT_PROXY_OPTIONS
+    ) as unknown as SUSDDVault;
+
+    await vault.connect(admin).addToWhitelist(user1.address);
+    const depositAmount = ethers.parseUnits("10000", 6);
+    await env.usdt.mint(user1.address, depositAmount);
+    await env.usdt.connect(user1).approve(await vault.getAddress(), depositAmount);
+    await vault.connect(user1).deposit(depositAmount, user1.address);
+  });
+
+  after(async function () {
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("APY math", function () {
+    it("compounds a per-second rate continuously", function () {
+      // e^0.1 - 1 = 10.517%
+      expect(rateToAPY(perSecond(pct("10")))).to.be.closeTo(pct("10.517"), pct("0.01"));
+      expect(rateToAPY(0n)).to.equal(0n);
+    });
+
+    it("levers the spread on equity", function () {
+      // (10% - 0.75 * 6%) / 0.25 = 22%
+      expect(netAPY(pct("10"), pct("6"), ethers.parseEther("0.75"))).to.equal(pct("22"));
+    });
+
+    it("earns plain sUSDD yield unleveraged and nothing in IDLE_MODE", function () {
+      expect(netAPY(pct("10"), pct("6"), 0n)).to.equal(pct("10"));
+      expect(netAPY(pct("10"), pct("6"), IDLE_MODE)).to.equal(0n);
+    });
+
+    it("goes negative when borrowing costs more than sUSDD yields", function () {
+      expect(netAPY(pct("5"), pct("8"), ethers.parseEther("0.75"))).to.equal(-pct("4"));
+    });
+  });
+
+  describe("readSUSDDYield", function () {
+    it("annualises convertToAssets growth over the lookback window", async function () {
+      // ~10% APR accrued over one week
+      await network.provider.send("evm_increaseTime", [WEEK]);
+      await env.susdd.setRate(WAD + (pct("10") * BigInt(WEEK)) / SECONDS_PER_YEAR);
+
+      const result = await readSUSDDYield(ethers.provider, WEEK);
+
+      expect(result.fromRate).to.equal(WAD);
+      expect(result.toRate).to.be.gt(WAD);
+      expect(result.elapsed).to.be.closeTo(BigInt(WEEK), 5n);
+      expect(result.apy).to.be.closeTo(pct("10.517"), pct("0.01"));
+    });
+
+    it("reports zero yield for a flat rate", async function () {
+      await network.provider.send("evm_increaseTime", [WEEK]);
+      await network.provider.send("evm_mine", []);
+
+      const result = await readSUSDDYield(ethers.provider, WEEK);
+      expect(result.apy).to.equal(0n);
+    });
+  });
+
+  describe("evaluateCarryOptions", function () {
+    it("always includes IDLE_MODE, 0 and the current targetLTV", async function () {
+      const position = positionWith({ targetLTV: ethers.parseEther("0.65") });
+      const options = await evaluateCarryOptions(position, yieldWithAPY(pct("10")), ethers.provider, config);
+
+      const targets = options.map((o) => o.targetLTV);
+      expect(targets.slice(0, 2)).to.deep.equal([IDLE_MODE, 0n]);
+      expect(targets).to.include(ethers.parseEther("0.65"));
+      expect(options[1].netAPY).to.equal(pct("10"));
+    });
+
+    it("charges no borrow cost without an IRM", async function () {
+      const options = await evaluateCarryOptions(positionWith({}), yieldWithAPY(pct("10")), ethers.provider, config);
+      for (const o of options) expect(o.borrowAPY).to.equal(0n);
+    });
+
+    it("prices each LTV at the utilization its extra debt would cause", async function () {
+      const position = positionWith({ marketParams: { ...positionWith({}).marketParams, irm: await irm.getAddress() } });
+      const options = await evaluateCarryOptions(position, yieldWithAPY(pct("10")), ethers.provider, config);
+      const leveraged = options.slice(2);
+
+      for (let i = 1; i < leveraged.length; i++) {
+        expect(leveraged[i].borrowAPY).to.be.gt(leveraged[i - 1].borrowAPY);
+      }
+
+      // 0.5 LTV on 100k NAV adds 100k debt: utilization 60% → 2% + 0.6 * 8% = 6.8% APR
+      expect(leveraged[0].targetLTV).to.equal(ethers.parseEther("0.5"));
+      expect(leveraged[0].borrowAPY).to.be.closeTo(rateToAPY(perSecond(pct("6.8"))), pct("0.01"));
+    });
+
+    it("marks candidates near LLTV or beyond market liquidity as infeasible", async function () {
+      const tightLiquidity = positionWith({
+        market: { ...positionWith({}).market, totalSupplyAssets: ethers.parseUnits("750000", 6) },
+      });
+      const options = await evaluateCarryOptions(
+        tightLiquidity,
+        yieldWithAPY(pct("10")),
+        ethers.provider,
+        { ...config, candidateLTVs: [ethers.parseEther("0.5"), ethers.parseEther("0.75"), ethers.parseEther("0.85")] }
+      );
+
+      const byLTV = (ltv: string) => options.find((o) => o.targetLTV === ethers.parseEther(ltv))!;
+      expect(byLTV("0.5").feasible).to.be.true;
+      expect(byLTV("0.75").note).to.equal("insufficient market liquidity");
+      expect(byLTV("0.85").note).to.equal("too close to LLTV");
+    });
+  });
+
+  describe("recommendCarryMode", function () {
+    const LTV_75 = ethers.parseEther("0.75");
+
+    it("recommends IDLE_MODE when sUSDD is not yielding", function () {
+      const options = [option(IDLE_MODE, 0n), option(0n, -pct("1")), option(LTV_75, -pct("10"))];
+      const result = recommendCarryMode(LTV_75, options, config);
+
+      expect(result.recommended.targetLTV).to.equal(IDLE_MODE);
+      expect(result.change).to.be.true;
+    });
+
+    it("recommends 0 when borrowing costs more than sUSDD yields", function () {
+      const options = [option(IDLE_MODE, 0n), option(0n, pct("5")), option(LTV_75, -pct("4"))];
+      const result = recommendCarryMode(LTV_75, options, config);
+
+      expect(result.recommended.targetLTV).to.equal(0n);
+      expect(result.reason).to.match(/borrow cost/);
+    });
+
+    it("recommends the most profitable feasible LTV", function () {
+      const options = [
+        option(IDLE_MODE, 0n),
+        option(0n, pct("10")),
+        option(LTV_75, pct("22")),
+        option(ethers.parseEther("0.85"), pct("30"), false),
+      ];
+      const result = recommendCarryMode(0n, options, config);
+
+      expect(result.recommended.targetLTV).to.equal(LTV_75);
+      expect(result.change).to.be.true;
+    });
+
+    it("keeps the current mode when the improvement is within minSpread", function () {
+      const options = [option(IDLE_MODE, 0n), option(0n, pct("10")), option(LTV_75, pct("10.4"))];
+      const result = recommendCarryMode(0n, options, config);
+
+      expect(result.recommended.targetLTV).to.equal(0n);
+      expect(result.change).to.be.false;
+    });
+  });
+
+  describe("analyzeCarry", function () {
+    it("produces a recommendation for a live vault", async function () {
+      await network.provider.send("evm_increaseTime", [WEEK]);
+      await env.susdd.setRate(WAD + (pct("10") * BigInt(WEEK)) / SECONDS_PER_YEAR);
+
+      const report = await analyzeCarry(await vault.getAddress(), ethers.provider, config);
+
+      expect(report.position.targetLTV).to.equal(ethers.parseEther("0.75"));
+      expect(report.susdd.apy).to.be.gt(0n);
+      expect(report.options.length).to.equal(2 + config.candidateLTVs.length);
+      expect(report.recommendation.current.targetLTV).to.equal(ethers.parseEther("0.75"));
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { expect } from "chai";
+import { ethers, network, run, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SUSDDVault } from "../../typechain-types";
+import { ROLES } from "../../scripts/lib/constants";
+import { deployMockEnvironment } from "../../scripts/lib/mocks";
+import { InvalidParamError } from "../../scripts/lib/params";
+import {
+  VaultState,
+  loadVaultConfig,
+  parseVaultConfig,
+  planConfiguration,
+  readVaultState,
+} from "../../scripts/lib/configure";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+
+/**
+ * Desired-state Configuration Unit Tests
+ *
+ * Parsing and planning are pure; readVaultState and vault:configure run against
+ * a mock-environment vault whose roles and whitelist come from events.
+ */
+describe("Configure Unit Tests", function () {
+  let admin: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let manager: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  let vault: SUSDDVault;
+  let vaultAddress: string;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+  let log: typeof console.log;
+
+  const dir = mkdtempSync(join(tmpdir(), "vault-config-"));
+
+  function writeConfig(name: string, content: string): string {
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+  }
+
+  function stateWith(overrides: Partial<VaultState>): VaultState {
+    return {
+      roles: {
+        DEFAULT_ADMIN_ROLE: [admin.address],
+        KEEPER_ROLE: [admin.address],
+        MANAGER_ROLE: [admin.address],
+        PAUSER_ROLE: [admin.address],
+      },
+      performanceFeeBps: 1000n,
+      managementFeeBps: 0n,
+      depositFeeBps: 0n,
+      redeemFeeBps: 0n,
+      entryExitFeeToTreasury: false,
+      feeRecipient: admin.address,
+      maxTotalAssets: ethers.parseUnits("1000000", 6),
+      whitelistEnabled: true,
+      whitelist: [],
+      merklDistributor: ethers.ZeroAddress,
+      depositLimiter: ethers.ZeroAddress,
+      ...overrides,
+    };
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, keeper, manager, user1, user2] = await ethers.getSigners();
+    await deployMockEnvironment();
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, admin.address, ethers.parseEther("0.75"), 1000, ethers.parseUnits("1000000", 6)],
+      VAULT_PROXY_OPTIONS
+    ) as unknown as SUSDDVault;
+    vaultAddress = await vault.getAddress();
+
+    log = console.log;
+    console.log = () => {};
+  });
+
+  after(async function () {
+    console.log = log;
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("Config files", function () {
+    it("loads YAML and JSON into the same desired state", function () {
+      const yaml = writeConfig("vault.yaml", [
+        `vault: "${vaultAddress}"`,
+        "performanceFeeBps: 500",
+        'maxTotalAssets: "250000.5"',
+        "whitelistEnabled: false",
+        "roles:",
+        `  KEEPER_ROLE: ["${keeper.address}"]`,
+      ].join("\n"));
+      const json = writeConfig("vault.json", JSON.stringify({
+        vault: vaultAddress,
+        performanceFeeBps: "500",
+        maxTotalAssets: "250000.5",
+        whitelistEnabled: false,
+        roles: { KEEPER_ROLE: [keeper.address] },
+      }));
+
+      const fromYaml = loadVaultConfig(yaml);
+      expect(fromYaml).to.deep.equal(loadVaultConfig(json));
+      expect(fromYaml.vault).to.equal(vaultAddress);
+      expect(fromYaml.desired.performanceFeeBps).to.equal(500n);
+      expect(fromYaml.desired.maxTotalAssets).to.equal(250000_500000n);
+    });
+
+    it("rejects unknown keys, unknown roles and invalid values", function () {
+      expect(() => parseVaultConfig({ performanceFee: 500 })).to.throw(InvalidParamError, 'unknown key "performanceFee"');
+      expect(() => parseVaultConfig({ roles: { OWNER_ROLE: [] } })).to.throw(InvalidParamError, "unknown role");
+      expect(() => parseVaultConfig({ performanceFeeBps: 3001 })).to.throw(InvalidParamError, "3000 bps");
+      expect(() => parseVaultConfig({ managementFeeBps: 501 })).to.throw(InvalidParamError, "500 bps");
+      expect(() => parseVaultConfig({ whitelist: [user1.address.toLowerCase()] })).to.throw(InvalidParamError, "checksummed");
+      expect(() => parseVaultConfig({ whitelist: [user1.address, user1.address] })).to.throw(InvalidParamError, "duplicates");
+    });
+
+    it("refuses to revoke every admin", function () {
+      expect(() => parseVaultConfig({ roles: { DEFAULT_ADMIN_ROLE: [] } })).to.throw(InvalidParamError, "at least one admin");
+    });
+  });
+
+  describe("planConfiguration", function () {
+    it("plans nothing when the vault already matches", function () {
+      const current = stateWith({});
+      expect(planConfiguration(current, { ...current })).to.deep.equal([]);
+    });
+
+    it("grants first and revokes last, with admin revokes at the very end", function () {
+      const steps = planConfiguration(stateWith({}), {
+        roles: { DEFAULT_ADMIN_ROLE: [manager.address], PAUSER_ROLE: [] },
+        performanceFeeBps: 500n,
+      });
+
+      expect(steps.map((s) => s.method)).to.deep.equal(["grantRole", "setPerformanceFee", "revokeRole", "revokeRole"]);
+      expect(steps[2].args).to.deep.equal([ROLES.PAUSER_ROLE, admin.address]);
+      expect(steps[3].args).to.deep.equal([ROLES.DEFAULT_ADMIN_ROLE, admin.address]);
+    });
+
+    it("adds whitelist entries before enabling and removes them after disabling", function () {
+      const enable = planConfiguration(stateWith({ whitelistEnabled: false }), {
+        whitelistEnabled: true,
+        whitelist: [user1.address],
+      });
+      expect(enable.map((s) => s.method)).to.deep.equal(["addToWhitelist", "setWhitelistEnabled"]);
+
+      const disable = planConfiguration(stateWith({ whitelist: [user1.address] }), {
+        whitelistEnabled: false,
+        whitelist: [],
+      });
+      expect(disable.map((s) => s.method)).to.deep.equal(["setWhitelistEnabled", "removeFromWhitelist"]);
+    });
+
+    it("compares addresses case-insensitively", function () {
+      const steps = planConfiguration(stateWith({}), { feeRecipient: admin.address.toLowerCase() });
+      expect(steps).to.deep.equal([]);
+    });
+  });
+
+  describe("readVaultState", function () {
+    it("rebuilds roles, whitelist and Merkl distributor from events", async function () {
+      await vault.grantRole(ROLES.KEEPER_ROLE, keeper.address);
+      await vault.revokeRole(ROLES.PAUSER_ROLE, admin.address);
+      await vault.addToWhitelist(user1.address);
+      await vault.addToWhitelist(user2.address);
+      await vault.removeFromWhitelist(user1.address);
+      await vault.setMerklDistributor(user2.address);
+
+      const state = await readVaultState(vault);
+
+      expect(state.roles.KEEPER_ROLE).to.have.members([admin.address, keeper.address]);
+      expect(state.roles.PAUSER_ROLE).to.deep.equal([]);
+      expect(state.whitelist).to.deep.equal([user2.address]);
+      expect(state.merklDistributor).to.equal(user2.address);
+    });
+  });
+
+  describe("vault:configure --file", function () {
+    it("applies the file, revoking what it omits, and is a no-op the second time", async function () {
+      await vault.grantRole(ROLES.KEEPER_ROLE, user2.address);
+      await vault.addToWhitelist(user2.address);
+
+      const path = writeConfig("apply.yaml", [
+        `vault: "${vaultAddress}"`,
+        "roles:",
+        `  KEEPER_ROLE: ["${keeper.address}"]`,
+        `  MANAGER_ROLE: ["${admin.address}", "${manager.address}"]`,
+        `whitelist: ["${user1.address}"]`,
+        `merklDistributor: "${user1.address}"`,
+        "performanceFeeBps: 2000",
+      ].join("\n"));
+
+      const hashes = await run("vault:configure", { file: path });
+
+      // +KEEPER keeper, +MANAGER manager, fee, merkl, +whitelist user1, -whitelist user2, -KEEPER admin, -KEEPER user2
+      expect(hashes).to.have.length(8);
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, keeper.address)).to.be.true;
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, admin.address)).to.be.false;
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, user2.address)).to.be.false;
+      expect(await vault.hasRole(ROLES.MANAGER_ROLE, manager.address)).to.be.true;
+      expect(await vault.whitelisted(user1.address)).to.be.true;
+      expect(await vault.whitelisted(user2.address)).to.be.false;
+      expect(await vault.performanceFeeBps()).to.equal(2000n);
+
+      expect(await run("vault:configure", { file: path })).to.deep.equal([]);
+    });
+
+    it("leaves the vault untouched on --dry-run", async function () {
+      const path = writeConfig("dry.json", JSON.stringify({ vault: vaultAddress, performanceFeeBps: 0 }));
+
+      await run("vault:configure", { file: path, dryRun: true });
+      expect(await vault.performanceFeeBps()).to.equal(1000n);
+    });
+
+    it("lets flags override the file", async function () {
+      const path = writeConfig("override.json", JSON.stringify({ performanceFeeBps: 0, managementFeeBps: 100 }));
+
+      await run("vault:configure", { vault: vaultAddress, file: path, fee: 1500n, managementFee: 200n });
+      expect(await vault.performanceFeeBps()).to.equal(1500n);
+      expect(await vault.managementFeeBps()).to.equal(200n);
+    });
+  });
+});
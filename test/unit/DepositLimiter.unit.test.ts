@@ -0,0 +1,472 @@
+import { expect } from "chai";
+import { ethers, network, run, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DepositLimiter, SUSDDAsyncVault, SUSDDVault } from "../../typechain-types";
+import { IDLE_MODE, ROLES } from "../../scripts/lib/constants";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import { InvalidParamError } from "../../scripts/lib/params";
+import { parseVaultConfig, planConfiguration, readVaultState } from "../../scripts/lib/configure";
+import { loadRegistry } from "../../scripts/lib/deployments";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+import {
+  DepositBelowMinimumError,
+  DepositorCapExceededError,
+  InflowLimitExceededError,
+  decodeVaultError,
+} from "../../sdk";
+
+/**
+ * DepositLimiter Unit Tests
+ *
+ * IDLE_MODE vault without whitelist, so NAV moves only when USDT is sent to it. The limiter
+ * is deployed and plugged in by limiter:deploy in the setup: 100 USDT minimum, 5,000 USDT
+ * default depositor cap and 20,000 USDT inflow per day.
+ */
+describe("DepositLimiter Unit Tests", function () {
+  const MIN = ethers.parseUnits("100", 6);
+  const CAP = ethers.parseUnits("5000", 6);
+  const INFLOW = ethers.parseUnits("20000", 6);
+  const DAY = 24 * 3600;
+  const TVL_CAP = ethers.parseUnits("1000000", 6);
+
+  let admin: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let whale: SignerWithAddress;
+  let env: MockEnvironment;
+  let vault: SUSDDVault;
+  let vaultAddress: string;
+  let limiter: DepositLimiter;
+  let limiterAddress: string;
+  let log: typeof console.log;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+
+  function usdt(amount: string): bigint {
+    return ethers.parseUnits(amount, 6);
+  }
+
+  async function fund(user: SignerWithAddress, amount: bigint) {
+    await env.usdt.mint(user.address, amount);
+    await env.usdt.connect(user).approve(vaultAddress, amount);
+  }
+
+  async function deposit(user: SignerWithAddress, amount: bigint) {
+    await fund(user, amount);
+    return vault.connect(user).deposit(amount, user.address);
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, treasury, user1, user2, whale] = await ethers.getSigners();
+    env = await deployMockEnvironment();
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = (await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, treasury.address, IDLE_MODE, 0, TVL_CAP],
+      VAULT_PROXY_OPTIONS
+    )) as unknown as SUSDDVault;
+    vaultAddress = await vault.getAddress();
+    await vault.setWhitelistEnabled(false);
+
+    log = console.log;
+    console.log = () => {};
+    process.env.DEPLOYMENTS_DIR = mkdtempSync(join(tmpdir(), "deployments-"));
+    ({ limiterAddress } = await run("limiter:deploy", {
+      vault: vaultAddress,
+      minDeposit: MIN,
+      depositorCap: CAP,
+      inflowLimit: INFLOW,
+      inflowWindow: DAY,
+    }));
+    limiter = await ethers.getContractAt("DepositLimiter", limiterAddress);
+  });
+
+  after(async function () {
+    console.log = log;
+    delete process.env.DEPLOYMENTS_DIR;
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("Deployment", function () {
+    it("limiter:deploy plugs the limiter into the vault and records it", async function () {
+      expect(await limiter.vault()).to.equal(vaultAddress);
+      expect(await limiter.minDeposit()).to.equal(MIN);
+      expect(await limiter.defaultCap()).to.equal(CAP);
+      expect(await limiter.inflowLimit()).to.equal(INFLOW);
+      expect(await limiter.inflowWindow()).to.equal(BigInt(DAY));
+      expect(await limiter.hasRole(ROLES.MANAGER_ROLE, admin.address)).to.be.true;
+      expect((await readVaultState(vault)).depositLimiter).to.equal(limiterAddress);
+      expect(loadRegistry("hardhat", 31337).depositLimiters?.[vaultAddress]).to.include({
+        address: limiterAddress,
+        admin: admin.address,
+      });
+    });
+
+    it("setDepositLimiter is manager-only and address(0) lifts the limits", async function () {
+      await expect(vault.connect(user1).setDepositLimiter(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, ROLES.MANAGER_ROLE);
+
+      expect(await vault.maxDeposit(user1.address)).to.equal(CAP);
+      await expect(vault.setDepositLimiter(ethers.ZeroAddress))
+        .to.emit(vault, "DepositLimiterUpdated")
+        .withArgs(limiterAddress, ethers.ZeroAddress);
+      expect(await vault.maxDeposit(user1.address)).to.equal(TVL_CAP);
+      await deposit(user1, usdt("10"));
+    });
+
+    it("only the vault records deposits, async vaults requests, and only the manager sets limits", async function () {
+      await expect(limiter.recordDeposit(user1.address, MIN)).to.be.revertedWithCustomError(limiter, "NotVault");
+      await expect(limiter.recordRequest(user1.address, MIN))
+        .to.be.revertedWithCustomError(limiter, "AccessControlUnauthorizedAccount")
+        .withArgs(admin.address, await limiter.ASYNC_VAULT_ROLE());
+      await expect(limiter.releaseRequest(user1.address, MIN)).to.be.revertedWithCustomError(
+        limiter,
+        "AccessControlUnauthorizedAccount"
+      );
+      for (const call of [
+        limiter.connect(user1).setMinDeposit(0),
+        limiter.connect(user1).setDefaultCap(0),
+        limiter.connect(user1).setDepositorCap(user1.address, 0),
+        limiter.connect(user1).setDepositorExempt(user1.address),
+        limiter.connect(user1).clearDepositorCap(user1.address),
+        limiter.connect(user1).setInflowLimit(0, 0),
+      ]) {
+        await expect(call).to.be.revertedWithCustomError(limiter, "AccessControlUnauthorizedAccount");
+      }
+    });
+  });
+
+  describe("Per-depositor caps", function () {
+    it("maxDeposit honors the default cap and per-account overrides", async function () {
+      expect(await vault.maxDeposit(user1.address)).to.equal(CAP);
+
+      await expect(limiter.setDepositorCap(user1.address, usdt("8000")))
+        .to.emit(limiter, "DepositorCapUpdated")
+        .withArgs(user1.address, usdt("8000"), true, false);
+      expect(await vault.maxDeposit(user1.address)).to.equal(usdt("8000"));
+
+      await expect(limiter.clearDepositorCap(user1.address))
+        .to.emit(limiter, "DepositorCapUpdated")
+        .withArgs(user1.address, CAP, false, false);
+      expect(await vault.maxDeposit(user1.address)).to.equal(CAP);
+    });
+
+    it("blocks an account with an override of 0 and lifts the cap only through setDepositorExempt", async function () {
+      await limiter.setDepositorCap(user1.address, 0);
+      expect(await vault.maxDeposit(user1.address)).to.equal(0n);
+      await fund(user1, MIN);
+      await expect(vault.connect(user1).deposit(MIN, user1.address))
+        .to.be.revertedWithCustomError(limiter, "DepositorCapExceeded")
+        .withArgs(user1.address, MIN, 0n);
+
+      // Exempt: the inflow limit still applies
+      await expect(limiter.setDepositorExempt(user1.address))
+        .to.emit(limiter, "DepositorCapUpdated")
+        .withArgs(user1.address, 0n, true, true);
+      expect(await limiter.depositorCap(user1.address)).to.equal(ethers.MaxUint256);
+      expect(await vault.maxDeposit(user1.address)).to.equal(INFLOW);
+
+      await limiter.setDepositorCap(user1.address, usdt("6000"));
+      expect(await limiter.capExempt(user1.address)).to.be.false;
+      expect(await vault.maxDeposit(user1.address)).to.equal(usdt("6000"));
+    });
+
+    it("counts the USDT deposited, so share transfers, redeems and NAV moves leave the room alone", async function () {
+      await deposit(user1, usdt("4000"));
+      expect(await limiter.deposited(user1.address)).to.equal(usdt("4000"));
+      expect(await vault.maxDeposit(user1.address)).to.equal(usdt("1000"));
+
+      await fund(user1, usdt("2000"));
+      await expect(vault.connect(user1).deposit(usdt("2000"), user1.address))
+        .to.be.revertedWithCustomError(limiter, "DepositorCapExceeded")
+        .withArgs(user1.address, usdt("2000"), usdt("1000"));
+
+      await vault.connect(user1).transfer(user2.address, (await vault.balanceOf(user1.address)) / 2n);
+      await vault.connect(user1).redeem(await vault.balanceOf(user1.address), user1.address, user1.address);
+      expect(await vault.maxDeposit(user1.address)).to.equal(usdt("1000"));
+
+      // +50% NAV: user2's shares are worth more than the cap, but nothing was deposited to user2
+      await env.usdt.mint(vaultAddress, usdt("2000"));
+      expect(await vault.maxDeposit(user2.address)).to.equal(CAP);
+      expect(await vault.maxDeposit(user1.address)).to.equal(usdt("1000"));
+    });
+
+    it("caps the receiver, not the caller", async function () {
+      await deposit(user2, CAP);
+      await fund(user1, MIN);
+      await expect(vault.connect(user1).deposit(MIN, user2.address)).to.be.revertedWithCustomError(
+        limiter,
+        "DepositorCapExceeded"
+      );
+      await vault.connect(user1).deposit(MIN, user1.address);
+    });
+  });
+
+  describe("Async vault", function () {
+    let asyncVault: SUSDDAsyncVault;
+    let asyncAddress: string;
+
+    async function requestDeposit(user: SignerWithAddress, amount: bigint) {
+      await env.usdt.mint(user.address, amount);
+      await env.usdt.connect(user).approve(asyncAddress, amount);
+      await asyncVault.connect(user).requestDeposit(amount, user.address, user.address);
+    }
+
+    beforeEach(async function () {
+      const queue = await (await ethers.getContractFactory("WithdrawalQueue")).deploy(vaultAddress, admin.address);
+      asyncVault = await (await ethers.getContractFactory("SUSDDAsyncVault")).deploy(
+        vaultAddress,
+        await queue.getAddress(),
+        admin.address
+      );
+      asyncAddress = await asyncVault.getAddress();
+      await asyncVault.grantRole(ROLES.KEEPER_ROLE, admin.address);
+    });
+
+    it("without the limiter, settles every async user as one capped depositor", async function () {
+      await requestDeposit(user1, usdt("4000"));
+      await requestDeposit(user2, usdt("4000"));
+
+      await expect(asyncVault.settleDeposits(0n))
+        .to.be.revertedWithCustomError(limiter, "DepositorCapExceeded")
+        .withArgs(asyncAddress, usdt("8000"), CAP);
+    });
+
+    describe("connected by limiter:deploy --async-vault", function () {
+      let asyncLimiter: DepositLimiter;
+
+      beforeEach(async function () {
+        const { limiterAddress: replacement } = await run("limiter:deploy", {
+          vault: vaultAddress,
+          minDeposit: MIN,
+          depositorCap: CAP,
+          inflowLimit: INFLOW,
+          inflowWindow: DAY,
+          asyncVault: asyncAddress,
+        });
+        asyncLimiter = await ethers.getContractAt("DepositLimiter", replacement);
+      });
+
+      it("grants ASYNC_VAULT_ROLE and sets the async vault's limiter", async function () {
+        expect(await asyncLimiter.hasRole(await asyncLimiter.ASYNC_VAULT_ROLE(), asyncAddress)).to.be.true;
+        expect(await asyncVault.depositLimiter()).to.equal(await asyncLimiter.getAddress());
+        expect(await asyncLimiter.depositorCap(asyncAddress)).to.equal(ethers.MaxUint256);
+        expect(await asyncLimiter.depositorCap(user1.address)).to.equal(CAP);
+      });
+
+      it("caps each controller's requests, together with its direct deposits", async function () {
+        await deposit(user1, usdt("1000"));
+        await requestDeposit(user1, usdt("3000"));
+        expect(await asyncLimiter.deposited(user1.address)).to.equal(usdt("4000"));
+
+        await env.usdt.mint(user1.address, usdt("2000"));
+        await env.usdt.connect(user1).approve(asyncAddress, usdt("2000"));
+        await expect(asyncVault.connect(user1).requestDeposit(usdt("2000"), user1.address, user1.address))
+          .to.be.revertedWithCustomError(asyncLimiter, "DepositorCapExceeded")
+          .withArgs(user1.address, usdt("2000"), usdt("1000"));
+
+        // Each controller has its own room, and the settlement is not capped as a whole
+        await requestDeposit(user2, CAP);
+        await expect(asyncVault.settleDeposits(0n))
+          .to.emit(asyncVault, "DepositsSettled")
+          .withArgs(0n, usdt("3000") + CAP, usdt("3000") + CAP);
+        expect(await asyncLimiter.deposited(asyncAddress)).to.equal(usdt("3000") + CAP);
+      });
+
+      it("gives the room back when a request is cancelled", async function () {
+        await requestDeposit(user1, CAP);
+        expect(await asyncLimiter.depositorAvailable(user1.address)).to.equal(0n);
+
+        await asyncVault.connect(user1).cancelDepositRequest(user1.address, user1.address);
+        expect(await asyncLimiter.deposited(user1.address)).to.equal(0n);
+        await requestDeposit(user1, CAP);
+      });
+    });
+  });
+
+  describe("Minimum deposit", function () {
+    it("reverts below the minimum with DepositBelowMinimum instead of DepositTooSmall", async function () {
+      await fund(user1, MIN);
+      await expect(vault.connect(user1).deposit(MIN - 1n, user1.address))
+        .to.be.revertedWithCustomError(limiter, "DepositBelowMinimum")
+        .withArgs(MIN - 1n, MIN);
+      await expect(vault.connect(user1).deposit(0, user1.address))
+        .to.be.revertedWithCustomError(limiter, "DepositBelowMinimum")
+        .withArgs(0, MIN);
+      await vault.connect(user1).deposit(MIN, user1.address);
+    });
+
+    it("maxDeposit is 0 once the room left is below the minimum", async function () {
+      await deposit(user1, CAP - MIN / 2n);
+      expect(await limiter.depositorAvailable(user1.address)).to.be.greaterThan(0n);
+      expect(await vault.maxDeposit(user1.address)).to.equal(0n);
+    });
+  });
+
+  describe("Inflow limit", function () {
+    beforeEach(async function () {
+      await limiter.setDepositorExempt(whale.address);
+    });
+
+    it("limits the USDT deposited per window across depositors", async function () {
+      await deposit(whale, INFLOW - usdt("1000"));
+      expect(await limiter.inflowAvailable()).to.equal(usdt("1000"));
+      // Below the depositor's own room of 5,000
+      expect(await vault.maxDeposit(user1.address)).to.equal(usdt("1000"));
+
+      await fund(user1, usdt("2000"));
+      await expect(vault.connect(user1).deposit(usdt("2000"), user1.address))
+        .to.be.revertedWithCustomError(limiter, "InflowLimitExceeded")
+        .withArgs(usdt("2000"), usdt("1000"));
+      await vault.connect(user1).deposit(usdt("1000"), user1.address);
+      expect(await vault.maxDeposit(user2.address)).to.equal(0n);
+
+      // The next window starts empty
+      await network.provider.send("evm_increaseTime", [DAY]);
+      await network.provider.send("evm_mine", []);
+      expect(await limiter.inflowAvailable()).to.equal(INFLOW);
+      await vault.connect(user1).deposit(usdt("1000"), user1.address);
+    });
+
+    it("counts per block when the window is 0", async function () {
+      await expect(limiter.setInflowLimit(INFLOW, 0)).to.emit(limiter, "InflowLimitUpdated").withArgs(INFLOW, 0);
+      await fund(whale, INFLOW);
+      await fund(user1, MIN);
+
+      await network.provider.send("evm_setAutomine", [false]);
+      const first = await vault.connect(whale).deposit(INFLOW, whale.address, { gasLimit: 2_000_000 });
+      const second = await vault.connect(user1).deposit(MIN, user1.address, { gasLimit: 2_000_000 });
+      await network.provider.send("evm_mine", []);
+      await network.provider.send("evm_setAutomine", [true]);
+
+      // Mined with automine off, so the revert shows in the receipt rather than as a rejection
+      const [firstReceipt, secondReceipt] = await Promise.all(
+        [first, second].map((tx) => ethers.provider.getTransactionReceipt(tx.hash))
+      );
+      expect(secondReceipt!.blockNumber).to.equal(firstReceipt!.blockNumber);
+      expect(firstReceipt!.status).to.equal(1);
+      expect(secondReceipt!.status).to.equal(0);
+      expect(await vault.balanceOf(user1.address)).to.equal(0n);
+
+      // A new block starts a new window
+      await vault.connect(user1).deposit(MIN, user1.address);
+    });
+  });
+
+  describe("SDK", function () {
+    it("decodes the limiter's reverts into typed errors", async function () {
+      await fund(user1, usdt("6000"));
+      const belowMinimum = await vault.connect(user1).deposit(1n, user1.address).catch((e) => e);
+      expect(decodeVaultError(belowMinimum)).to.be.instanceOf(DepositBelowMinimumError);
+
+      const overCap = decodeVaultError(await vault.connect(user1).deposit(usdt("6000"), user1.address).catch((e) => e));
+      expect(overCap).to.be.instanceOf(DepositorCapExceededError);
+      expect(overCap).to.deep.include({ account: user1.address, assets: usdt("6000"), available: CAP });
+
+      await limiter.setInflowLimit(usdt("1000"), DAY);
+      const overInflow = decodeVaultError(await vault.connect(user1).deposit(usdt("2000"), user1.address).catch((e) => e));
+      expect(overInflow).to.be.instanceOf(InflowLimitExceededError);
+      expect(overInflow).to.deep.include({ assets: usdt("2000"), available: usdt("1000") });
+    });
+  });
+
+  describe("vault:configure", function () {
+    it("reads the limits and applies minDeposit, caps, overrides and inflow from a file", async function () {
+      await limiter.setDepositorCap(user2.address, usdt("7000"));
+      const current = await readVaultState(vault);
+      expect(current.depositLimits).to.deep.equal({
+        minDeposit: MIN,
+        defaultCap: CAP,
+        overrides: [{ account: user2.address, cap: usdt("7000"), exempt: false }],
+        inflowLimit: INFLOW,
+        inflowWindow: DAY,
+      });
+
+      const path = join(mkdtempSync(join(tmpdir(), "vault-config-")), "limits.yaml");
+      writeFileSync(
+        path,
+        [
+          `vault: "${vaultAddress}"`,
+          `minDeposit: "250"`,
+          `defaultDepositorCap: "10000"`,
+          `depositorCaps:`,
+          `  "${whale.address}": "none"`,
+          `  "${user1.address}": "0"`,
+          `inflowWindow: 1h`,
+        ].join("\n")
+      );
+      const { desired } = parseVaultConfig({
+        minDeposit: "250",
+        defaultDepositorCap: "10000",
+        depositorCaps: { [whale.address]: "none", [user1.address]: "0" },
+        inflowWindow: "1h",
+      });
+      expect(planConfiguration(current, desired).map((step) => step.description)).to.deep.equal([
+        "~ minDeposit: 100.0 USDT -> 250.0 USDT",
+        "~ defaultDepositorCap: 5000.0 USDT -> 10000.0 USDT",
+        `+ depositorCap: ${whale.address} none`,
+        `+ depositorCap: ${user1.address} 0.0 USDT`,
+        `- depositorCap: ${user2.address}`,
+        "~ inflowLimit: 20000.0 USDT per 86400s -> 20000.0 USDT per 3600s",
+      ]);
+
+      expect(await run("vault:configure", { file: path })).to.have.length(6);
+      expect(await limiter.minDeposit()).to.equal(usdt("250"));
+      expect(await limiter.defaultCap()).to.equal(usdt("10000"));
+      expect(await limiter.capExempt(whale.address)).to.be.true;
+      expect(await limiter.depositorCap(whale.address)).to.equal(ethers.MaxUint256);
+      expect(await limiter.depositorCap(user1.address)).to.equal(0n);
+      expect(await limiter.hasCapOverride(user1.address)).to.be.true;
+      expect(await limiter.hasCapOverride(user2.address)).to.be.false;
+      expect(await limiter.inflowWindow()).to.equal(3600n);
+      expect(await run("vault:configure", { file: path })).to.deep.equal([]);
+    });
+
+    it("sets the limits from flags", async function () {
+      await run("vault:configure", {
+        vault: vaultAddress,
+        minDeposit: 0n,
+        depositorCap: usdt("2000"),
+        inflowLimit: usdt("50000"),
+        inflowWindow: 0,
+      });
+      expect(await limiter.minDeposit()).to.equal(0n);
+      expect(await vault.maxDeposit(user1.address)).to.equal(usdt("2000"));
+      expect(await limiter.inflowLimit()).to.equal(usdt("50000"));
+      expect(await limiter.inflowWindow()).to.equal(0n);
+    });
+
+    it("rejects limits without a limiter, or together with a limiter change", async function () {
+      const { desired } = parseVaultConfig({ inflowLimit: "1000" });
+      const withoutLimiter = { ...(await readVaultState(vault)), depositLimiter: ethers.ZeroAddress, depositLimits: undefined };
+      expect(() => planConfiguration(withoutLimiter, desired))
+        .to.throw(InvalidParamError)
+        .with.property("message")
+        .that.includes("limiter:deploy");
+      expect(() => planConfiguration(withoutLimiter, { ...desired, depositLimiter: limiterAddress })).to.throw(
+        InvalidParamError,
+        "in one run"
+      );
+
+      expect(() => parseVaultConfig({ depositorCaps: { [user1.address]: "1", [whale.address]: "2" } })).not.to.throw();
+      expect(() => parseVaultConfig({ depositorCaps: [user1.address] })).to.throw(InvalidParamError);
+      expect(() => parseVaultConfig({ inflowWindow: "1w" })).to.throw(InvalidParamError);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import { expect } from "chai";
+import { ethers, network, run, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FeeSplitter, SUSDDVault } from "../../typechain-types";
+import { IDLE_MODE, ROLES } from "../../scripts/lib/constants";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import { InvalidParamError, parseFeeSplit } from "../../scripts/lib/params";
+import { parseVaultConfig, planConfiguration, readVaultState } from "../../scripts/lib/configure";
+import { loadRegistry } from "../../scripts/lib/deployments";
+import { emptyStore, feeHistory, indexVault } from "../../scripts/lib/indexer";
+import { attributeFees, readSplitHistory, splitAmount, totalsByRecipient } from "../../scripts/lib/feeSplit";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+
+/**
+ * Fee Splitter Unit Tests
+ *
+ * IDLE_MODE vault with a 2% management fee, so time alone mints fee shares. The first year
+ * is paid to the treasury EOA, then a FeeSplitter becomes the feeRecipient; accrual is
+ * triggered by the claimRewards("0x") heartbeat.
+ */
+describe("Fee Splitter Unit Tests", function () {
+  const YEAR = 365 * 24 * 60 * 60;
+  const DEPOSIT = ethers.parseUnits("10000", 6);
+
+  let admin: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let carol: SignerWithAddress;
+  let user1: SignerWithAddress;
+
+  let env: MockEnvironment;
+  let vault: SUSDDVault;
+  let vaultAddress: string;
+  let splitter: FeeSplitter;
+  let splitterAddress: string;
+  let deployBlock: number;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+  let log: typeof console.log;
+
+  /** A year of management fee minted to the current feeRecipient */
+  async function accrueYear() {
+    await time.increase(YEAR);
+    await vault.claimRewards("0x");
+  }
+
+  async function deploySplitter(accounts: string[], bps: bigint[]) {
+    const Factory = await ethers.getContractFactory("FeeSplitter");
+    return Factory.deploy(vaultAddress, admin.address, accounts, bps);
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, treasury, alice, bob, carol, user1] = await ethers.getSigners();
+    env = await deployMockEnvironment();
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = (await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, treasury.address, IDLE_MODE, 0, ethers.parseUnits("1000000", 6)],
+      VAULT_PROXY_OPTIONS
+    )) as unknown as SUSDDVault;
+    vaultAddress = await vault.getAddress();
+    deployBlock = (await vault.deploymentTransaction()!.wait())!.blockNumber;
+    await vault.setWhitelistEnabled(false);
+
+    await env.usdt.mint(user1.address, DEPOSIT);
+    await env.usdt.connect(user1).approve(vaultAddress, DEPOSIT);
+    await vault.connect(user1).deposit(DEPOSIT, user1.address);
+    await vault.setManagementFee(200);
+    await accrueYear();
+
+    // 3333/3333/3334 leaves rounding dust for the last recipient
+    splitter = await deploySplitter([alice.address, bob.address, carol.address], [3333n, 3333n, 3334n]);
+    splitterAddress = await splitter.getAddress();
+    await vault.setFeeRecipient(splitterAddress);
+
+    log = console.log;
+    console.log = () => {};
+  });
+
+  after(async function () {
+    console.log = log;
+    delete process.env.DEPLOYMENTS_DIR;
+    delete process.env.HISTORY_DIR;
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("Split validation", function () {
+    it("rejects empty, mismatched, zero-weight and off-total splits", async function () {
+      await expect(deploySplitter([], [])).to.be.revertedWithCustomError(splitter, "InvalidSplit");
+      await expect(deploySplitter([alice.address], [5000n, 5000n])).to.be.revertedWithCustomError(splitter, "InvalidSplit");
+      await expect(deploySplitter([alice.address, bob.address], [10000n, 0n])).to.be.revertedWithCustomError(
+        splitter,
+        "InvalidSplit"
+      );
+      await expect(splitter.setRecipients([alice.address, bob.address], [5000n, 4999n])).to.be.revertedWithCustomError(
+        splitter,
+        "InvalidSplit"
+      );
+    });
+
+    it("rejects zero and duplicate recipients", async function () {
+      await expect(deploySplitter([ethers.ZeroAddress], [10000n])).to.be.revertedWithCustomError(splitter, "InvalidRecipient");
+      await expect(splitter.setRecipients([alice.address, alice.address], [5000n, 5000n])).to.be.revertedWithCustomError(
+        splitter,
+        "InvalidRecipient"
+      );
+    });
+
+    it("is manager-only", async function () {
+      await expect(splitter.connect(alice).setRecipients([alice.address], [10000n]))
+        .to.be.revertedWithCustomError(splitter, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, ROLES.MANAGER_ROLE);
+    });
+  });
+
+  describe("distribute", function () {
+    it("receives both fee kinds from the vault", async function () {
+      await vault.setPerformanceFee(1000);
+      await time.increase(YEAR);
+      await env.usdt.mint(vaultAddress, DEPOSIT / 10n);
+
+      await expect(vault.claimRewards("0x"))
+        .to.emit(vault, "ManagementFeeAccrued")
+        .withArgs((shares: bigint) => shares > 0n, splitterAddress)
+        .and.to.emit(vault, "PerformanceFeeAccrued")
+        .withArgs((shares: bigint) => shares > 0n, splitterAddress);
+      expect(await splitter.pendingShares()).to.equal(await vault.balanceOf(splitterAddress));
+    });
+
+    it("forwards the shares by weight, the last recipient taking the dust", async function () {
+      await accrueYear();
+      const pending = await splitter.pendingShares();
+      const split = parseFeeSplit("split", `${alice.address}:3333,${bob.address}:3333,${carol.address}:3334`);
+      const [toAlice, toBob, toCarol] = splitAmount(pending, split);
+      expect(toAlice).to.equal((pending * 3333n) / 10000n);
+      expect(toCarol).to.equal(pending - 2n * toAlice);
+
+      await expect(splitter.connect(user1).distribute())
+        .to.emit(splitter, "FeeDistributed")
+        .withArgs(alice.address, toAlice)
+        .and.to.emit(splitter, "FeeDistributed")
+        .withArgs(bob.address, toBob)
+        .and.to.emit(splitter, "FeeDistributed")
+        .withArgs(carol.address, toCarol);
+
+      expect(await vault.balanceOf(alice.address)).to.equal(toAlice);
+      expect(await vault.balanceOf(carol.address)).to.equal(toCarol);
+      expect(await splitter.pendingShares()).to.equal(0n);
+      await expect(splitter.distribute()).to.not.emit(splitter, "FeeDistributed");
+    });
+
+    it("setRecipients pays out at the old split before switching", async function () {
+      await accrueYear();
+      const pending = await splitter.pendingShares();
+
+      await expect(splitter.setRecipients([bob.address, alice.address], [9000n, 1000n]))
+        .to.emit(splitter, "RecipientsUpdated")
+        .withArgs([bob.address, alice.address], [9000n, 1000n]);
+      expect(await vault.balanceOf(alice.address)).to.equal((pending * 3333n) / 10000n);
+      expect(await splitter.pendingShares()).to.equal(0n);
+
+      const [accounts, bps] = await splitter.getRecipients();
+      expect(accounts).to.deep.equal([bob.address, alice.address]);
+      expect(bps).to.deep.equal([9000n, 1000n]);
+    });
+  });
+
+  describe("Configuration", function () {
+    it("parses feeSplit as a map of address to bps that sums to 10000", function () {
+      const { desired } = parseVaultConfig({ feeSplit: { [alice.address]: 6000, [bob.address]: "4000" } });
+      expect(desired.feeSplit).to.deep.equal([
+        { account: alice.address, bps: 6000n },
+        { account: bob.address, bps: 4000n },
+      ]);
+
+      expect(() => parseVaultConfig({ feeSplit: { [alice.address]: 6000 } })).to.throw(InvalidParamError, /sum to 6000/);
+      expect(() => parseVaultConfig({ feeSplit: [alice.address] })).to.throw(InvalidParamError, /map of recipient/);
+      expect(() => parseFeeSplit("split", `${alice.address}:5000,${alice.address}:5000`)).to.throw(/duplicates/);
+      expect(() => parseFeeSplit("split", alice.address)).to.throw(/address:bps pair/);
+    });
+
+    it("plans setRecipients on the splitter only when the split changes", async function () {
+      const current = await readVaultState(vault);
+      expect(current.feeSplit).to.deep.equal([
+        { account: alice.address, bps: 3333n },
+        { account: bob.address, bps: 3333n },
+        { account: carol.address, bps: 3334n },
+      ]);
+      expect(planConfiguration(current, { feeSplit: current.feeSplit })).to.deep.equal([]);
+
+      const [step] = planConfiguration(current, { feeSplit: [{ account: alice.address, bps: 10000n }] });
+      expect(step).to.deep.include({ method: "setRecipients", args: [[alice.address], [10000n]] });
+      expect(step.target).to.deep.equal({ contract: "FeeSplitter", address: splitterAddress });
+
+      expect(() =>
+        planConfiguration({ ...current, feeSplit: undefined }, { feeSplit: [{ account: alice.address, bps: 10000n }] })
+      ).to.throw(InvalidParamError, /is not a FeeSplitter/);
+      expect(() =>
+        planConfiguration(current, { feeRecipient: treasury.address, feeSplit: [{ account: alice.address, bps: 10000n }] })
+      ).to.throw(InvalidParamError, /in one run/);
+    });
+
+    it("vault:configure --fee-split updates the splitter", async function () {
+      await run("vault:configure", {
+        vault: vaultAddress,
+        feeSplit: [
+          { account: bob.address, bps: 2500n },
+          { account: carol.address, bps: 7500n },
+        ],
+      });
+
+      const [accounts, bps] = await splitter.getRecipients();
+      expect(accounts).to.deep.equal([bob.address, carol.address]);
+      expect(bps).to.deep.equal([2500n, 7500n]);
+    });
+  });
+
+  describe("Attribution", function () {
+    it("splits every fee mint by the split in force when it was minted", async function () {
+      await accrueYear();
+      await splitter.setRecipients([alice.address], [10000n]);
+      await accrueYear();
+
+      const store = emptyStore(31337, vaultAddress, deployBlock);
+      await indexVault(ethers.provider, store, await ethers.provider.getBlockNumber());
+      const fees = feeHistory(store);
+      expect(fees.map((fee) => fee.recipient)).to.deep.equal([treasury.address, splitterAddress, splitterAddress]);
+
+      const histories = new Map([[splitterAddress, await readSplitHistory(ethers.provider, splitterAddress, deployBlock)]]);
+      const attributions = attributeFees(fees, histories);
+      expect(attributions.map((a) => a.account)).to.deep.equal([
+        treasury.address,
+        alice.address,
+        bob.address,
+        carol.address,
+        alice.address,
+      ]);
+
+      // Matches what the splitter actually paid out (the second year is still pending)
+      const totals = totalsByRecipient(attributions);
+      const byAccount = new Map(totals.map((t) => [t.account, t.feeShares]));
+      expect(byAccount.get(bob.address)).to.equal(await vault.balanceOf(bob.address));
+      expect(byAccount.get(carol.address)).to.equal(await vault.balanceOf(carol.address));
+      expect(byAccount.get(alice.address)).to.equal(
+        (await vault.balanceOf(alice.address)) + (await splitter.pendingShares())
+      );
+      expect(totals.reduce((sum, t) => sum + t.feeShares, 0n)).to.equal(
+        fees.reduce((sum, fee) => sum + fee.feeShares, 0n)
+      );
+    });
+  });
+
+  describe("splitter:* tasks", function () {
+    beforeEach(function () {
+      process.env.DEPLOYMENTS_DIR = mkdtempSync(join(tmpdir(), "deployments-"));
+      process.env.HISTORY_DIR = mkdtempSync(join(tmpdir(), "history-"));
+    });
+
+    it("splitter:deploy switches the feeRecipient after accruing to the old one, and records it", async function () {
+      await time.increase(YEAR);
+      const { splitterAddress: deployed } = await run("splitter:deploy", {
+        vault: vaultAddress,
+        split: [
+          { account: alice.address, bps: 5000n },
+          { account: bob.address, bps: 5000n },
+        ],
+        admin: treasury.address,
+      });
+
+      expect(await vault.feeRecipient()).to.equal(deployed);
+      // The year before the switch went to the old splitter
+      expect(await splitter.pendingShares()).to.be.gt(0n);
+
+      const replacement = await ethers.getContractAt("FeeSplitter", deployed);
+      expect(await replacement.hasRole(ROLES.MANAGER_ROLE, treasury.address)).to.be.true;
+      expect(await replacement.hasRole(ROLES.DEFAULT_ADMIN_ROLE, admin.address)).to.be.false;
+      expect(loadRegistry("hardhat", 31337).feeSplitters?.[vaultAddress]).to.include({ address: deployed, admin: treasury.address });
+    });
+
+    it("splitter:distribute forwards the pending shares, and refuses a plain feeRecipient", async function () {
+      await accrueYear();
+      const pending = await splitter.pendingShares();
+
+      expect(await run("splitter:distribute", { vault: vaultAddress, dryRun: true })).to.deep.equal({ pending });
+      const result = await run("splitter:distribute", { vault: vaultAddress });
+      expect(result.txHash).to.be.a("string");
+      expect(await splitter.pendingShares()).to.equal(0n);
+
+      await vault.setFeeRecipient(treasury.address);
+      await expect(run("splitter:distribute", { vault: vaultAddress })).to.be.rejectedWith(/is not a FeeSplitter/);
+    });
+
+    it("history:fees --by-recipient totals the fees per final account", async function () {
+      await accrueYear();
+      await run("history:index", { vault: vaultAddress, fromBlock: deployBlock });
+
+      const totals = await run("history:fees", { vault: vaultAddress, byRecipient: true });
+      expect(totals.map((t: { account: string }) => t.account)).to.have.members([
+        treasury.address,
+        alice.address,
+        bob.address,
+        carol.address,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { expect } from "chai";
+import { ethers, network, run, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SUSDDVault } from "../../typechain-types";
+import { ADDRESSES, IDLE_MODE, ROLES, WAD } from "../../scripts/lib/constants";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import {
+  HistoryStore,
+  costBasis,
+  emptyStore,
+  eventsOfType,
+  feeHistory,
+  indexVault,
+  loadStore,
+  ppsHistory,
+  saveStore,
+} from "../../scripts/lib/indexer";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+
+/**
+ * Event Indexer Unit Tests
+ *
+ * One known history is built against the mocks (unleveraged, 10% fee): two deposits,
+ * a sUSDD rate jump harvested by the claimRewards heartbeat, a holder-to-holder transfer,
+ * a redeem and a rebalance. The timeline and queries are checked against it.
+ */
+describe("Event Indexer Unit Tests", function () {
+  let admin: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let feeRecipient: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  let env: MockEnvironment;
+  let vault: SUSDDVault;
+  let vaultAddress: string;
+  let deployBlock: number;
+  let midBlock: number;
+
+  let setupSnapshotId: string;
+  let log: typeof console.log;
+
+  async function fundAndDeposit(user: SignerWithAddress, amount: bigint) {
+    await env.usdt.mint(user.address, amount);
+    await env.usdt.connect(user).approve(vaultAddress, amount);
+    await vault.connect(user).deposit(amount, user.address);
+  }
+
+  async function indexAll(): Promise<HistoryStore> {
+    const store = emptyStore(31337, vaultAddress, deployBlock);
+    await indexVault(ethers.provider, store, await ethers.provider.getBlockNumber());
+    return store;
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, keeper, feeRecipient, user1, user2] = await ethers.getSigners();
+    env = await deployMockEnvironment();
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = (await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, feeRecipient.address, 0n, 1000, ethers.parseUnits("1000000", 6)],
+      VAULT_PROXY_OPTIONS
+    )) as unknown as SUSDDVault;
+    vaultAddress = await vault.getAddress();
+    deployBlock = (await vault.deploymentTransaction()!.wait())!.blockNumber;
+
+    await vault.grantRole(ROLES.KEEPER_ROLE, keeper.address);
+    await vault.setWhitelistEnabled(false);
+
+    await fundAndDeposit(user1, ethers.parseUnits("10000", 6));
+    await fundAndDeposit(user2, ethers.parseUnits("5000", 6));
+    midBlock = await ethers.provider.getBlockNumber();
+
+    // Rate jump, backed with USDD so the vault can still unwind at the new rate
+    await env.susdd.setRate(ethers.parseEther("1.1"));
+    await env.usdd.mint(ADDRESSES.SUSDD, ethers.parseEther("10000"));
+    await vault.connect(keeper).claimRewards("0x");
+    await vault.connect(user1).transfer(user2.address, (await vault.balanceOf(user1.address)) / 2n);
+    await vault.connect(user1).redeem(await vault.balanceOf(user1.address), user1.address, user1.address);
+    await vault.connect(keeper).rebalance(IDLE_MODE);
+
+    // Task output is for operators; keep the test report readable
+    log = console.log;
+    console.log = () => {};
+  });
+
+  after(async function () {
+    console.log = log;
+    delete process.env.HISTORY_DIR;
+    delete process.env.DEPLOYMENTS_DIR;
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  describe("Indexing", function () {
+    it("normalizes every tracked event in order", async function () {
+      const store = await indexAll();
+
+      const count = (type: Parameters<typeof eventsOfType>[1]) => eventsOfType(store, type).length;
+      expect(count("deposit")).to.equal(2);
+      expect(count("withdraw")).to.equal(1);
+      expect(count("fee")).to.equal(1);
+      expect(count("rebalance")).to.equal(1);
+      // deposit x2, heartbeat, redeem, rebalance
+      expect(count("snapshot")).to.equal(5);
+      expect(count("rewards")).to.equal(0);
+
+      const order = store.events.map((e) => e.blockNumber * 1e6 + e.logIndex);
+      expect(order).to.deep.equal([...order].sort((a, b) => a - b));
+      expect(store.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    it("continues from the last indexed block", async function () {
+      const oneShot = await indexAll();
+
+      const store = emptyStore(31337, vaultAddress, deployBlock);
+      const first = await indexVault(ethers.provider, store, midBlock, 2);
+      const second = await indexVault(ethers.provider, store, await ethers.provider.getBlockNumber(), 2);
+
+      expect(first + second).to.equal(oneShot.events.length);
+      expect(store.events).to.deep.equal(oneShot.events);
+      expect(await indexVault(ethers.provider, store, store.lastBlock)).to.equal(0);
+    });
+
+    it("round-trips bigints through the JSON store and checks ownership", async function () {
+      const store = await indexAll();
+      const path = join(mkdtempSync(join(tmpdir(), "history-")), "store.json");
+
+      saveStore(path, store);
+
+      expect(loadStore(path, { chainId: 31337, vault: vaultAddress })).to.deep.equal(store);
+      expect(loadStore(join(tmpdir(), "missing-history.json"))).to.be.undefined;
+      expect(() => loadStore(path, { chainId: 1, vault: vaultAddress })).to.throw(/on chain 31337, not .* on 1/);
+    });
+  });
+
+  describe("Queries", function () {
+    it("ppsHistory follows VaultSnapshot and ends at the on-chain price", async function () {
+      const points = ppsHistory(await indexAll());
+
+      expect(points[0].pricePerShare).to.be.closeTo(WAD, WAD / 1000n);
+      expect(points[2].pricePerShare).to.be.gt(points[1].pricePerShare);
+      const last = points[points.length - 1];
+      expect(last.totalSupply).to.equal(await vault.totalSupply());
+      expect(last.pricePerShare).to.equal((last.totalAssets * WAD) / last.totalSupply);
+
+      expect(ppsHistory(await indexAll(), points[2].timestamp)).to.have.length(points.length - 2);
+    });
+
+    it("feeHistory values each mint at the closing snapshot", async function () {
+      const store = await indexAll();
+      const [fee] = feeHistory(store);
+      const heartbeat = eventsOfType(store, "snapshot").find((s) => s.txHash === fee.txHash)!;
+
+      expect(fee.recipient).to.equal(feeRecipient.address);
+      expect(fee.feeShares).to.equal(await vault.balanceOf(feeRecipient.address));
+      expect(fee.pricePerShare).to.equal(heartbeat.pricePerShare);
+      expect(fee.feeAssets).to.equal((fee.feeShares * heartbeat.pricePerShare) / WAD);
+    });
+
+    it("costBasis tracks shares, carries basis on transfers and realizes PnL on redeem", async function () {
+      const holders = costBasis(await indexAll());
+      const u1 = holders.get(user1.address)!;
+      const u2 = holders.get(user2.address)!;
+      const fees = holders.get(feeRecipient.address)!;
+
+      for (const account of [user1, user2, feeRecipient]) {
+        expect(holders.get(account.address)!.shares).to.equal(await vault.balanceOf(account.address));
+      }
+
+      // Half of user1's 10000 USDT basis moved to user2, the other half was redeemed
+      expect(u1.costBasis).to.equal(0n);
+      expect(u1.deposited).to.equal(ethers.parseUnits("10000", 6));
+      expect(u1.realizedPnl).to.equal(u1.withdrawn - ethers.parseUnits("5000", 6));
+      expect(u1.realizedPnl).to.be.gt(0n);
+      expect(u2.costBasis).to.equal(ethers.parseUnits("10000", 6));
+      expect(u2.deposited).to.equal(ethers.parseUnits("5000", 6));
+      expect(fees).to.include({ costBasis: 0n, deposited: 0n });
+      expect(fees.feeShares).to.equal(fees.shares);
+    });
+  });
+
+  describe("history:* tasks", function () {
+    beforeEach(function () {
+      process.env.HISTORY_DIR = mkdtempSync(join(tmpdir(), "history-"));
+      process.env.DEPLOYMENTS_DIR = mkdtempSync(join(tmpdir(), "deployments-"));
+    });
+
+    it("indexes incrementally into the default store and answers queries", async function () {
+      const first = await run("history:index", { vault: vaultAddress, fromBlock: deployBlock });
+      const second = await run("history:index", { vault: vaultAddress });
+
+      expect(first.path).to.equal(join(process.env.HISTORY_DIR!, `31337-${vaultAddress}.json`));
+      expect(first.added).to.be.gt(0);
+      expect(second).to.include({ fromBlock: first.toBlock + 1, added: 0 });
+
+      expect(await run("history:pps", { vault: vaultAddress })).to.have.length(5);
+      expect(await run("history:fees", { vault: vaultAddress })).to.have.length(1);
+      const [holder] = await run("history:cost-basis", { vault: vaultAddress, account: user2.address });
+      expect(holder.shares).to.equal(await vault.balanceOf(user2.address));
+    });
+
+    it("rejects registry names with --rpc", async function () {
+      await expect(run("history:index", { vault: "main", rpc: "http://127.0.0.1:1" })).to.be.rejectedWith(
+        /pass an address with --rpc/
+      );
+    });
+
+    it("asks for history:index before querying", async function () {
+      await expect(run("history:pps", { vault: vaultAddress })).to.be.rejectedWith(/No history at .*run history:index/);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { ethers, network, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { SUSDDVault } from "../../typechain-types";
+import { IDLE_MODE, ROLES, WAD } from "../../scripts/lib/constants";
+import { DEFAULT_KEEPER_CONFIG, KeeperConfig, decideRebalance, runKeeperTick } from "../../scripts/lib/keeper";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import { PositionState, readPositionState } from "../../scripts/lib/position";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+import { growDebt } from "./helpers/mocks";
+
+/**
+ * Keeper Unit Tests
+ *
+ * Decision logic is tested on synthetic states; the read/submit loop runs against
+ * the same mock environment the keeper uses for its local dry-run mode.
+ */
+describe("Keeper Unit Tests", function () {
+  let admin: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let user1: SignerWithAddress;
+
+  let env: MockEnvironment;
+  let vault: SUSDDVault;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+
+  const TARGET_LTV = ethers.parseEther("0.75");
+  const LLTV = ethers.parseEther("0.86");
+  const config: KeeperConfig = { ...DEFAULT_KEEPER_CONFIG };
+
+  function stateWith(overrides: Partial<PositionState>): PositionState {
+    return {
+      vault: ethers.ZeroAddress,
+      blockNumber: 0,
+      timestamp: 0n,
+      targetLTV: TARGET_LTV,
+      lltv: LLTV,
+      idleUsdt: 0n,
+      collateral: ethers.parseEther("4000"),
+      borrowShares: 3000n * 10n ** 6n,
+      debt: ethers.parseUnits("3000", 6),
+      collateralValue: ethers.parseUnits("4000", 6),
+      nav: ethers.parseUnits("1000", 6),
+      ltv: TARGET_LTV,
+      susddRate: WAD,
+      borrowRate: 0n,
+      market: {
+        totalSupplyAssets: 0n, totalSupplyShares: 0n, totalBorrowAssets: 0n,
+        totalBorrowShares: 0n, lastUpdate: 0n, fee: 0n,
+      },
+      marketParams: {
+        loanToken: ethers.ZeroAddress, collateralToken: ethers.ZeroAddress,
+        oracle: ethers.ZeroAddress, irm: ethers.ZeroAddress, lltv: LLTV,
+      },
+      ...overrides,
+    };
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, keeper, , user1] = await ethers.getSigners();
+
+    env = await deployMockEnvironment({ lltv: LLTV });
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, admin.address, TARGET_LTV, 1000, ethers.parseUnits("1000000", 6)],
+      VAULT_PROXY_OPTIONS
+    ) as unknown as SUSDDVault;
+
+    await vault.connect(admin).grantRole(ROLES.KEEPER_ROLE, keeper.address);
+    await vault.connect(admin).addToWhitelist(user1.address);
+
+    const depositAmount = ethers.parseUnits("10000", 6);
+    await env.usdt.mint(user1.address, depositAmount);
+    await env.usdt.connect(user1).approve(await vault.getAddress(), depositAmount);
+    await vault.connect(user1).deposit(depositAmount, user1.address);
+  });
+
+  after(async function () {
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("decideRebalance", function () {
+    it("returns null when LTV is within bands", function () {
+      expect(decideRebalance(stateWith({ ltv: TARGET_LTV + ethers.parseEther("0.01") }), config)).to.be.null;
+      expect(decideRebalance(stateWith({ ltv: TARGET_LTV - ethers.parseEther("0.04") }), config)).to.be.null;
+    });
+
+    it("re-centres on targetLTV when LTV is above the upper band", function () {
+      const decision = decideRebalance(stateWith({ ltv: ethers.parseEther("0.78") }), config);
+      expect(decision).to.deep.equal({
+        reason: "above-band",
+        currentLTV: ethers.parseEther("0.78"),
+        newTargetLTV: TARGET_LTV,
+      });
+    });
+
+    it("re-centres on targetLTV when LTV is below the lower band", function () {
+      const decision = decideRebalance(stateWith({ ltv: ethers.parseEther("0.69") }), config);
+      expect(decision?.reason).to.equal("below-band");
+      expect(decision?.newTargetLTV).to.equal(TARGET_LTV);
+    });
+
+    it("delevers near LLTV even when the upper band is wide", function () {
+      const wideBand = { ...config, upperBand: ethers.parseEther("0.5") };
+      const decision = decideRebalance(stateWith({ ltv: ethers.parseEther("0.84") }), wideBand);
+      expect(decision?.reason).to.equal("near-lltv");
+    });
+
+    it("ignores IDLE_MODE vaults", function () {
+      expect(decideRebalance(stateWith({ targetLTV: IDLE_MODE, ltv: 0n, debt: 0n }), config)).to.be.null;
+    });
+
+    it("ignores empty or underwater vaults (rebalance would be a no-op)", function () {
+      expect(decideRebalance(stateWith({ nav: 0n, ltv: ethers.parseEther("0.99") }), config)).to.be.null;
+    });
+
+    it("flags leftover debt in unleveraged mode", function () {
+      const decision = decideRebalance(stateWith({ targetLTV: 0n, ltv: ethers.parseEther("0.05") }), config);
+      expect(decision?.reason).to.equal("above-band");
+      expect(decision?.newTargetLTV).to.equal(0n);
+    });
+  });
+
+  describe("readPositionState", function () {
+    it("reads the leveraged position built by a deposit", async function () {
+      const state = await readPositionState(await vault.getAddress(), ethers.provider);
+
+      expect(state.targetLTV).to.equal(TARGET_LTV);
+      expect(state.lltv).to.equal(LLTV);
+      expect(state.collateral).to.be.gt(0);
+      expect(state.debt).to.be.gt(0);
+
+      // 10k deposit at 75% → ~40k collateral, ~30k debt
+      expect(state.ltv).to.be.closeTo(TARGET_LTV, ethers.parseEther("0.001"));
+    });
+
+    it("reflects debt growth from market state", async function () {
+      const before = await readPositionState(await vault.getAddress(), ethers.provider);
+      await growDebt(env.morpho, ethers.parseEther("0.05")); // +5%
+      const after = await readPositionState(await vault.getAddress(), ethers.provider);
+
+      expect(after.debt).to.be.gt(before.debt);
+      expect(after.ltv).to.be.closeTo(TARGET_LTV * 105n / 100n, ethers.parseEther("0.001"));
+    });
+  });
+
+  describe("runKeeperTick", function () {
+    it("does nothing while in band", async function () {
+      const result = await runKeeperTick(vault.connect(keeper), config);
+
+      expect(result.decision).to.be.null;
+      expect(result.txHash).to.be.undefined;
+    });
+
+    it("only reports the decision in dry-run mode", async function () {
+      await growDebt(env.morpho, ethers.parseEther("0.05"));
+      const blockBefore = await ethers.provider.getBlockNumber();
+
+      const result = await runKeeperTick(vault.connect(keeper), { ...config, dryRun: true });
+
+      expect(result.decision?.reason).to.equal("above-band");
+      expect(result.txHash).to.be.undefined;
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+    });
+
+    it("submits rebalance(targetLTV) when out of band", async function () {
+      await growDebt(env.morpho, ethers.parseEther("0.05"));
+      const before = await readPositionState(await vault.getAddress(), ethers.provider);
+
+      const result = await runKeeperTick(vault.connect(keeper), config);
+
+      expect(result.decision?.reason).to.equal("above-band");
+      expect(result.txHash).to.be.a("string");
+
+      const receipt = await ethers.provider.getTransactionReceipt(result.txHash!);
+      const events = receipt!.logs
+        .map((log) => vault.interface.parseLog(log))
+        .filter((parsed) => parsed?.name === "Rebalanced");
+      expect(events).to.have.length(1);
+      expect(events[0]!.args.newLTV).to.equal(TARGET_LTV);
+
+      // Above the band, so the keeper delevers: less debt, LTV back inside the band around target
+      const after = await readPositionState(await vault.getAddress(), ethers.provider);
+      expect(after.debt).to.be.lt(before.debt);
+      expect(after.ltv).to.be.lt(before.ltv);
+      expect(after.ltv).to.be.lte(TARGET_LTV + config.upperBand);
+      expect(after.ltv).to.be.gte(TARGET_LTV - config.lowerBand);
+      expect(decideRebalance(after, config)).to.be.null;
+    });
+
+    it("reverts when the signer lacks KEEPER_ROLE", async function () {
+      await growDebt(env.morpho, ethers.parseEther("0.05"));
+
+      await expect(runKeeperTick(vault.connect(user1), config))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+  });
+});
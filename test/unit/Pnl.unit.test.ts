@@ -0,0 +1,197 @@
+import { expect } from "chai";
+import { ethers, network, run, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SUSDDVault } from "../../typechain-types";
+import { ADDRESSES, ROLES, WAD } from "../../scripts/lib/constants";
+import { deployMockEnvironment } from "../../scripts/lib/mocks";
+import { HistoryStore, TimelineEvent, emptyStore, feeHistory, indexVault } from "../../scripts/lib/indexer";
+import { DepositorPnl, pnlReport, pnlToCsv } from "../../scripts/lib/pnl";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+
+/**
+ * PnL Report Unit Tests
+ *
+ * The numbers are checked on a hand-built history (below); the mock vault then checks
+ * the report against on-chain balances and totalAssets through history:pnl.
+ */
+describe("PnL Report Unit Tests", function () {
+  const DAY = 86400;
+  const usdt = (value: string) => ethers.parseUnits(value, 6);
+  const pps = (value: string) => ethers.parseEther(value);
+
+  describe("pnlReport on a known history", function () {
+    const [A, B, C, R] = ["a", "b", "c", "d"].map((c) => ethers.getAddress("0x" + c.repeat(40)));
+    const VAULT = ethers.getAddress("0x" + "e".repeat(40));
+
+    // day 0:  A deposits 1000 USDT at 1.0          day 30: A transfers 500 shares to C
+    // day 10: B deposits 2200 USDT at 1.1          day 40: A redeems 500 shares at 1.3
+    // day 20: 50 fee shares to R, PPS 1.2 after    day 50: report at 1.5
+    function knownHistory(): HistoryStore {
+      const store = emptyStore(31337, VAULT, 1);
+      let block = 0;
+      const tx = (day: number, ...events: Record<string, unknown>[]) => {
+        block++;
+        events.forEach((event, logIndex) =>
+          store.events.push({
+            blockNumber: block,
+            logIndex,
+            txHash: ethers.id(`tx${block}`),
+            timestamp: day * DAY,
+            ...event,
+          } as TimelineEvent)
+        );
+      };
+      const snapshot = (price: string) => ({ type: "snapshot", totalAssets: 0n, totalSupply: 0n, pricePerShare: pps(price) });
+
+      tx(0, { type: "deposit", sender: A, owner: A, assets: usdt("1000"), shares: usdt("1000") }, snapshot("1.0"));
+      tx(10, { type: "deposit", sender: B, owner: B, assets: usdt("2200"), shares: usdt("2000") }, snapshot("1.1"));
+      tx(20, { type: "fee", feeShares: usdt("50"), recipient: R }, snapshot("1.2"));
+      tx(30, { type: "transfer", from: A, to: C, value: usdt("500") });
+      tx(40, { type: "withdraw", sender: A, receiver: A, owner: A, assets: usdt("650"), shares: usdt("500") }, snapshot("1.3"));
+      store.lastBlock = block;
+      return store;
+    }
+
+    let rows: Map<string, DepositorPnl>;
+
+    beforeEach(function () {
+      rows = new Map(pnlReport(knownHistory(), pps("1.5"), 50 * DAY).map((row) => [row.account, row]));
+    });
+
+    it("realizes PnL on redeem at average cost", function () {
+      expect(rows.get(A)).to.include({
+        shares: 0n,
+        costBasis: 0n,
+        currentValue: 0n,
+        deposited: usdt("1000"),
+        withdrawn: usdt("650"),
+        realizedPnl: usdt("150"),
+        unrealizedPnl: 0n,
+        totalPnl: usdt("150"),
+        heldSeconds: 40 * DAY,
+      });
+    });
+
+    it("marks remaining shares at the report price", function () {
+      expect(rows.get(B)).to.include({
+        shares: usdt("2000"),
+        costBasis: usdt("2200"),
+        currentValue: usdt("3000"),
+        unrealizedPnl: usdt("800"),
+        totalPnl: usdt("800"),
+      });
+    });
+
+    it("carries cost basis with transferred shares", function () {
+      expect(rows.get(C)).to.include({ shares: usdt("500"), costBasis: usdt("500"), deposited: 0n, unrealizedPnl: usdt("250") });
+    });
+
+    it("charges the fee mint to the holders of the time, pro rata", function () {
+      // 50 shares at 1.2 = 60 USDT, split 1000:2000 between A and B
+      expect(rows.get(A)!.feesPaid).to.equal(usdt("20"));
+      expect(rows.get(B)!.feesPaid).to.equal(usdt("40"));
+      expect(rows.get(C)!.feesPaid).to.equal(0n);
+      expect(rows.get(R)).to.include({ shares: usdt("50"), costBasis: 0n, unrealizedPnl: usdt("75"), feesPaid: 0n });
+    });
+
+    it("chain-links time-weighted returns over holding periods only", function () {
+      expect(rows.get(A)!.twr).to.equal(pps("0.3")); // 1.0 -> 1.3, then out
+      expect(rows.get(B)!.twr).to.equal((pps("1.5") * WAD) / pps("1.1") - WAD);
+      expect(rows.get(C)!.twr).to.equal(pps("0.25")); // 1.2 (last snapshot before the transfer) -> 1.5
+      expect(rows.get(R)!.twr).to.equal(pps("0.25"));
+      expect(rows.get(C)!.heldSeconds).to.equal(20 * DAY);
+    });
+
+    it("writes CSV with decimal amounts", function () {
+      const lines = pnlToCsv([...rows.values()]).trim().split("\n");
+
+      expect(lines[0]).to.equal(
+        "account,shares,costBasis,currentValue,deposited,withdrawn,realizedPnl,unrealizedPnl,totalPnl,feesPaid,twr,heldSeconds"
+      );
+      expect(lines).to.include(`${B},2000.0,2200.0,3000.0,2200.0,0.0,0.0,800.0,800.0,40.0,0.363636363636363636,${40 * DAY}`);
+    });
+  });
+
+  describe("history:pnl on the mock vault", function () {
+    let admin: SignerWithAddress;
+    let keeper: SignerWithAddress;
+    let feeRecipient: SignerWithAddress;
+    let user1: SignerWithAddress;
+    let user2: SignerWithAddress;
+    let vault: SUSDDVault;
+    let vaultAddress: string;
+    let setupSnapshotId: string;
+    let log: typeof console.log;
+
+    before(async function () {
+      setupSnapshotId = await network.provider.send("evm_snapshot", []);
+      [admin, keeper, feeRecipient, user1, user2] = await ethers.getSigners();
+      const env = await deployMockEnvironment();
+
+      const VaultFactory = await getVaultFactory(ethers);
+      vault = (await upgrades.deployProxy(
+        VaultFactory,
+        [admin.address, feeRecipient.address, 0n, 1000, usdt("1000000")],
+        VAULT_PROXY_OPTIONS
+      )) as unknown as SUSDDVault;
+      vaultAddress = await vault.getAddress();
+      await vault.grantRole(ROLES.KEEPER_ROLE, keeper.address);
+      await vault.setWhitelistEnabled(false);
+
+      for (const [user, amount] of [[user1, usdt("10000")], [user2, usdt("30000")]] as const) {
+        await env.usdt.mint(user.address, amount);
+        await env.usdt.connect(user).approve(vaultAddress, amount);
+        await vault.connect(user).deposit(amount, user.address);
+      }
+      await env.susdd.setRate(pps("1.05"));
+      await env.usdd.mint(ADDRESSES.SUSDD, ethers.parseEther("10000"));
+      await vault.connect(keeper).claimRewards("0x");
+
+      log = console.log;
+      console.log = () => {};
+      process.env.HISTORY_DIR = mkdtempSync(join(tmpdir(), "history-"));
+      process.env.DEPLOYMENTS_DIR = mkdtempSync(join(tmpdir(), "deployments-"));
+    });
+
+    after(async function () {
+      console.log = log;
+      delete process.env.HISTORY_DIR;
+      delete process.env.DEPLOYMENTS_DIR;
+      await network.provider.send("evm_revert", [setupSnapshotId]);
+    });
+
+    it("values every holder at NAV and attributes the fee mint to the depositors", async function () {
+      await run("history:index", { vault: vaultAddress, fromBlock: 0 });
+      const out = join(process.env.HISTORY_DIR!, "pnl.json");
+
+      const rows: DepositorPnl[] = await run("history:pnl", { vault: vaultAddress, format: "json", out });
+
+      const byAccount = new Map(rows.map((row) => [row.account, row]));
+      for (const account of [user1, user2, feeRecipient]) {
+        expect(byAccount.get(account.address)!.shares).to.equal(await vault.balanceOf(account.address));
+      }
+      const totalValue = rows.reduce((sum, row) => sum + row.currentValue, 0n);
+      expect(totalValue).to.be.closeTo(await vault.totalAssets(), 3n);
+
+      // user2 holds 3x user1's shares, so pays 3x the fee; together they pay the whole mint
+      const store = emptyStore(31337, vaultAddress, 0);
+      await indexVault(ethers.provider, store, await ethers.provider.getBlockNumber());
+      const [fee] = feeHistory(store);
+      const u1 = byAccount.get(user1.address)!;
+      const u2 = byAccount.get(user2.address)!;
+      expect(u2.feesPaid).to.be.closeTo(u1.feesPaid * 3n, 3n);
+      expect(u1.feesPaid + u2.feesPaid).to.be.closeTo(fee.feeAssets, 2n);
+      expect(u1.unrealizedPnl).to.be.gt(0n);
+
+      const written = JSON.parse(readFileSync(out, "utf8"));
+      expect(written.map((row: { account: string }) => row.account)).to.deep.equal(rows.map((row) => row.account));
+    });
+
+    it("rejects unknown formats", async function () {
+      await expect(run("history:pnl", { vault: vaultAddress, format: "xml" })).to.be.rejectedWith(/not table, csv or json/);
+    });
+  });
+});
@@ -1,13 +1,39 @@
 import { expect } from "chai";
-import { ethers, network, upgrades } from "hardhat";
+import { ethers, network, run, upgrades } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import {
   SUSDDVault,
+  MockDEX,
   MockERC20,
   MockSUSDD,
   MockPSM,
   MockMorpho,
 } from "../../typechain-types";
+import { parseVaultConfig, planConfiguration, readVaultState } from "../../scripts/lib/configure";
+import { emptyStore, indexVault } from "../../scripts/lib/indexer";
+import { DEFAULT_KEEPER_CONFIG, runKeeperTick } from "../../scripts/lib/keeper";
+import { checkPSMLiquidity, readPSMLiquidity } from "../../scripts/lib/liquidity";
+import { InvalidParamError } from "../../scripts/lib/params";
+import { pnlReport } from "../../scripts/lib/pnl";
+import { PositionState, readPositionState } from "../../scripts/lib/position";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+import {
+  InsufficientPSMLiquidityError,
+  InvalidSwapRouteError,
+  SUSDDVaultClient,
+  SwapRoute,
+  buildSwapRoute,
+  decodeVaultError,
+  entryExitFeeShares,
+  exitRouteAmount,
+  managementFeeShares,
+  performanceFeeShares,
+  redeemRouteAmount,
+  simulateRedeem,
+  withSlippage,
+} from "../../sdk";
+import { growDebt } from "./helpers/mocks";
 
 // Mainnet addresses from Constants.sol
 const ADDRESSES = {
@@ -23,7 +49,9 @@ const WAD = ethers.parseEther("1");
 const KEEPER_ROLE = ethers.keccak256(ethers.toUtf8Bytes("KEEPER_ROLE"));
 const MANAGER_ROLE = ethers.keccak256(ethers.toUtf8Bytes("MANAGER_ROLE"));
 const PAUSER_ROLE = ethers.keccak256(ethers.toUtf8Bytes("PAUSER_ROLE"));
+const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
 const IDLE_MODE = ethers.MaxUint256;
+const parseUSDT = (value: string) => ethers.parseUnits(value, 6);
 
 describe("SUSDDVault Unit Tests", function () {
   let admin: SignerWithAddress;
@@ -31,8 +59,10 @@ describe("SUSDDVault Unit Tests", function () {
   let manager: SignerWithAddress;
   let user1: SignerWithAddress;
   let user2: SignerWithAddress;
+  let treasury: SignerWithAddress;
 
   let vault: SUSDDVault;
+  let vaultAddress: string;
   let usdt: MockERC20;
   let usdd: MockERC20;
   let susdd: MockSUSDD;
@@ -57,8 +87,23 @@ describe("SUSDDVault Unit Tests", function () {
     return factory.attach(address);
   }
 
+  // Setup for the feature suites at the end of the file, reverted by their after() hook:
+  // MockMorpho serves the vault's real debt, the whitelist and performance fee are off,
+  // and user1 deposits the first 10,000 USDT (into IDLE_MODE if `idle`)
+  async function setupSuite(options: { idle?: boolean } = {}): Promise<string> {
+    const setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    await morpho.setExtSloadsEnabled(true);
+    await vault.connect(manager).setWhitelistEnabled(false);
+    await vault.connect(manager).setPerformanceFee(0);
+    if (options.idle) {
+      await vault.connect(keeper).rebalance(IDLE_MODE);
+    }
+    await vault.connect(user1).deposit(parseUSDT("10000"), user1.address);
+    return setupSnapshotId;
+  }
+
   before(async function () {
-    [admin, keeper, manager, user1, user2] = await ethers.getSigners();
+    [admin, keeper, manager, user1, user2, treasury] = await ethers.getSigners();
 
     // Deploy mocks at mainnet addresses
     const MockERC20Factory = await ethers.getContractFactory("MockERC20");
@@ -119,7 +164,7 @@ describe("SUSDDVault Unit Tests", function () {
     await usdt.mint(ADDRESSES.MORPHO, ethers.parseUnits("1000000", 6));
 
     // Deploy vault via UUPS proxy
-    const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+    const VaultFactory = await getVaultFactory(ethers);
     vault = await upgrades.deployProxy(
       VaultFactory,
       [
@@ -129,8 +174,9 @@ describe("SUSDDVault Unit Tests", function () {
         1000,                    // performanceFeeBps (10%)
         ethers.parseUnits("1000000", 6) // maxTotalAssets
       ],
-      { kind: "uups" }
+      VAULT_PROXY_OPTIONS
     ) as unknown as SUSDDVault;
+    vaultAddress = await vault.getAddress();
 
     // Grant roles
     await vault.connect(admin).grantRole(KEEPER_ROLE, keeper.address);
@@ -171,77 +217,77 @@ describe("SUSDDVault Unit Tests", function () {
     });
 
     it("should accept IDLE_MODE as targetLTV", async function () {
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+      const VaultFactory = await getVaultFactory(ethers);
       const IDLE_MODE = ethers.MaxUint256;
       const idleVault = await upgrades.deployProxy(
         VaultFactory,
         [admin.address, admin.address, IDLE_MODE, 1000, ethers.parseUnits("1000000", 6)],
-        { kind: "uups" }
+        VAULT_PROXY_OPTIONS
       ) as unknown as SUSDDVault;
       expect(await idleVault.targetLTV()).to.equal(IDLE_MODE);
     });
 
     it("should accept 0 as targetLTV (unleveraged mode)", async function () {
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+      const VaultFactory = await getVaultFactory(ethers);
       const unleveragedVault = await upgrades.deployProxy(
         VaultFactory,
         [admin.address, admin.address, 0, 1000, ethers.parseUnits("1000000", 6)],
-        { kind: "uups" }
+        VAULT_PROXY_OPTIONS
       ) as unknown as SUSDDVault;
       expect(await unleveragedVault.targetLTV()).to.equal(0);
     });
 
     it("should revert with invalid LTV (> 91.5%)", async function () {
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+      const VaultFactory = await getVaultFactory(ethers);
       await expect(
         upgrades.deployProxy(
           VaultFactory,
           [admin.address, admin.address, ethers.parseEther("0.916"), 1000, ethers.parseUnits("1000000", 6)],
-          { kind: "uups" }
+          VAULT_PROXY_OPTIONS
         )
       ).to.be.revertedWithCustomError(vault, "InvalidLTV");
     });
 
     it("should revert with LTV >= LLTV", async function () {
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+      const VaultFactory = await getVaultFactory(ethers);
       await expect(
         upgrades.deployProxy(
           VaultFactory,
           [admin.address, admin.address, ethers.parseEther("0.86"), 1000, ethers.parseUnits("1000000", 6)],
-          { kind: "uups" }
+          VAULT_PROXY_OPTIONS
         )
       ).to.be.revertedWithCustomError(vault, "LTVExceedsLLTV");
     });
 
     it("should revert with invalid fee", async function () {
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+      const VaultFactory = await getVaultFactory(ethers);
       await expect(
         upgrades.deployProxy(
           VaultFactory,
           [admin.address, admin.address, ethers.parseEther("0.75"), 3001, ethers.parseUnits("1000000", 6)],
-          { kind: "uups" }
+          VAULT_PROXY_OPTIONS
         )
       ).to.be.revertedWithCustomError(vault, "InvalidFee");
     });
 
     it("should revert with zero fee recipient", async function () {
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+      const VaultFactory = await getVaultFactory(ethers);
       await expect(
         upgrades.deployProxy(
           VaultFactory,
           [admin.address, ethers.ZeroAddress, ethers.parseEther("0.75"), 1000, ethers.parseUnits("1000000", 6)],
-          { kind: "uups" }
+          VAULT_PROXY_OPTIONS
         )
       ).to.be.revertedWithCustomError(vault, "InvalidRecipient");
     });
 
     it("should revert with zero admin", async function () {
-      const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+      const VaultFactory = await getVaultFactory(ethers);
       await expect(
         upgrades.deployProxy(
           VaultFactory,
           [ethers.ZeroAddress, admin.address, ethers.parseEther("0.75"), 1000, ethers.parseUnits("1000000", 6)],
-          { kind: "uups" }
+          VAULT_PROXY_OPTIONS
         )
       ).to.be.revertedWithCustomError(vault, "InvalidAdmin");
     });
@@ -262,16 +308,16 @@ describe("SUSDDVault Unit Tests", function () {
 
   describe("Upgradeability", function () {
     it("should allow admin to upgrade", async function () {
-      const VaultFactoryV2 = await ethers.getContractFactory("SUSDDVault");
+      const VaultFactoryV2 = await getVaultFactory(ethers);
 
       // Admin should be able to upgrade
       await expect(
-        upgrades.upgradeProxy(await vault.getAddress(), VaultFactoryV2)
+        upgrades.upgradeProxy(await vault.getAddress(), VaultFactoryV2, VAULT_PROXY_OPTIONS)
       ).to.not.be.reverted;
     });
 
     it("should not allow non-admin to upgrade", async function () {
-      const VaultFactoryV2 = await ethers.getContractFactory("SUSDDVault", user1);
+      const VaultFactoryV2 = await getVaultFactory(ethers, { signer: user1 });
 
       // Get the new implementation address
       const newImpl = await VaultFactoryV2.deploy();
@@ -555,6 +601,166 @@ describe("SUSDDVault Unit Tests", function () {
     });
   });
 
+  describe("Preview vs Actual Redeem Consistency", function () {
+    // MockMorpho reports zero debt through extSloads, and redeem's flash loan/repay use the same
+    // numbers, so preview and actual must match exactly here; real debt is covered in fork tests.
+    beforeEach(async function () {
+      await vault.connect(manager).addToWhitelist(user1.address);
+      await vault.connect(manager).addToWhitelist(user2.address);
+      await vault.connect(user1).deposit(ethers.parseUnits("1000", 6), user1.address);
+      await vault.connect(user2).deposit(ethers.parseUnits("1000", 6), user2.address);
+    });
+
+    async function expectPreviewMatchesRedeem(user: SignerWithAddress, shares: bigint) {
+      const preview = await vault.previewRedeem(shares);
+      const balanceBefore = await usdt.balanceOf(user.address);
+      await vault.connect(user).redeem(shares, user.address, user.address);
+      expect(await usdt.balanceOf(user.address) - balanceBefore).to.equal(preview);
+      return preview;
+    }
+
+    it("matches a partial leveraged redeem", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      await expectPreviewMatchesRedeem(user1, shares / 3n);
+    });
+
+    it("matches a full redeem", async function () {
+      await expectPreviewMatchesRedeem(user1, await vault.balanceOf(user1.address));
+      await expectPreviewMatchesRedeem(user2, await vault.balanceOf(user2.address));
+    });
+
+    it("includes PSM tout on the sUSDD -> USDT leg", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      const withoutTout = await vault.previewRedeem(shares);
+
+      await psm.setTout(ethers.parseEther("0.01")); // 1%
+
+      const preview = await expectPreviewMatchesRedeem(user1, shares);
+      expect(preview).to.be.lt(withoutTout);
+    });
+
+    it("includes the proportional idle USDT", async function () {
+      await usdt.mint(await vault.getAddress(), ethers.parseUnits("500", 6));
+
+      await expectPreviewMatchesRedeem(user1, await vault.balanceOf(user1.address));
+    });
+
+    it("matches in IDLE_MODE", async function () {
+      await vault.connect(keeper).rebalance(IDLE_MODE);
+
+      await expectPreviewMatchesRedeem(user1, await vault.balanceOf(user1.address));
+    });
+
+    it("accounts for the performance fee minted by redeem", async function () {
+      await susdd.setRate(ethers.parseEther("1.1"));
+      const shares = await vault.balanceOf(user1.address);
+
+      // Naive shares * NAV / supply ignores the fee shares minted before the burn
+      const naive = (shares * await vault.totalAssets()) / await vault.totalSupply();
+      const preview = await expectPreviewMatchesRedeem(user1, shares);
+      expect(preview).to.be.lt(naive);
+    });
+
+    it("returns only the idle portion when the position unwind is skipped", async function () {
+      // 1 share: proportional borrow shares round to 0 while collateral does not,
+      // so PositionLib.unwind leaves the position untouched to protect LTV
+      const positionBefore = await morpho.position(MARKET_ID, await vault.getAddress());
+
+      expect(await expectPreviewMatchesRedeem(user1, 1n)).to.equal(0);
+
+      const positionAfter = await morpho.position(MARKET_ID, await vault.getAddress());
+      expect(positionAfter.collateral).to.equal(positionBefore.collateral);
+    });
+
+    it("convertToAssets matches previewRedeem", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      await psm.setTout(ethers.parseEther("0.01"));
+
+      expect(await vault.convertToAssets(shares)).to.equal(await vault.previewRedeem(shares));
+    });
+
+    it("returns 0 with no supply", async function () {
+      await vault.connect(user1).redeem(await vault.balanceOf(user1.address), user1.address, user1.address);
+      await vault.connect(user2).redeem(await vault.balanceOf(user2.address), user2.address, user2.address);
+
+      expect(await vault.previewRedeem(1000n)).to.equal(0);
+    });
+  });
+
+  describe("Slippage Protection", function () {
+    const amount = ethers.parseUnits("1000", 6);
+
+    beforeEach(async function () {
+      // Unleveraged mode: mock NAV ignores debt, so only here does Delta NAV track previewDeposit
+      await vault.connect(keeper).rebalance(0);
+      await vault.connect(manager).addToWhitelist(user1.address);
+      await vault.connect(manager).addToWhitelist(user2.address);
+      await vault.connect(user2).deposit(amount, user2.address);
+    });
+
+    it("depositWithMin should mint when shares meet minShares", async function () {
+      const minShares = await vault.previewDeposit(amount);
+
+      await vault.connect(user1).depositWithMin(amount, user1.address, minShares);
+
+      expect(await vault.balanceOf(user1.address)).to.be.gte(minShares);
+    });
+
+    it("depositWithMin should revert when PSM tin reduces shares below minShares", async function () {
+      const minShares = await vault.previewDeposit(amount);
+
+      // tin changes between signing and inclusion
+      await psm.setTin(ethers.parseEther("0.01")); // 1%
+
+      await expect(
+        vault.connect(user1).depositWithMin(amount, user1.address, minShares)
+      ).to.be.revertedWithCustomError(vault, "SlippageExceeded");
+      expect(await vault.balanceOf(user1.address)).to.equal(0);
+    });
+
+    it("depositWithMin should accept tin within tolerance", async function () {
+      const minShares = (await vault.previewDeposit(amount)) * 95n / 100n; // 5% tolerance
+
+      await psm.setTin(ethers.parseEther("0.001")); // 0.1%
+
+      await expect(
+        vault.connect(user1).depositWithMin(amount, user1.address, minShares)
+      ).to.not.be.reverted;
+    });
+
+    it("redeemWithMin should pay when assets meet minAssets", async function () {
+      const shares = await vault.balanceOf(user2.address);
+      const minAssets = await vault.previewRedeem(shares);
+      const balanceBefore = await usdt.balanceOf(user2.address);
+
+      await vault.connect(user2).redeemWithMin(shares, user2.address, user2.address, minAssets);
+
+      expect(await usdt.balanceOf(user2.address) - balanceBefore).to.be.gte(minAssets);
+    });
+
+    it("redeemWithMin should revert when PSM tout reduces assets below minAssets", async function () {
+      const shares = await vault.balanceOf(user2.address);
+      const minAssets = await vault.previewRedeem(shares);
+
+      await psm.setTout(ethers.parseEther("0.01")); // 1%
+      const actual = await vault.previewRedeem(shares);
+
+      await expect(
+        vault.connect(user2).redeemWithMin(shares, user2.address, user2.address, minAssets)
+      ).to.be.revertedWithCustomError(vault, "SlippageExceeded")
+        .withArgs(actual, minAssets);
+      expect(await vault.balanceOf(user2.address)).to.equal(shares);
+    });
+
+    it("redeemWithMin should respect allowance for third-party redeem", async function () {
+      const shares = await vault.balanceOf(user2.address);
+
+      await expect(
+        vault.connect(user1).redeemWithMin(shares, user1.address, user2.address, 0)
+      ).to.be.revertedWithCustomError(vault, "ERC20InsufficientAllowance");
+    });
+  });
+
   describe("Rebalance Flow", function () {
     it("should do nothing when no position and targetLTV = 0", async function () {
       // No position exists, rebalance to 0 should be no-op
@@ -962,11 +1168,11 @@ describe("SUSDDVault Unit Tests", function () {
     describe("claimRewards", function () {
       it("should work as heartbeat with empty claimData (no merkl needed)", async function () {
         // Deploy fresh vault without merkl set
-        const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+        const VaultFactory = await getVaultFactory(ethers);
         const freshVault = await upgrades.deployProxy(
           VaultFactory,
           [admin.address, admin.address, WAD * 75n / 100n, 1000, ethers.parseUnits("10000000", 6)],
-          { kind: "uups" }
+          VAULT_PROXY_OPTIONS
         ) as unknown as SUSDDVault;
 
         // Should work without merkl distributor set - just emits snapshot
@@ -976,11 +1182,11 @@ describe("SUSDDVault Unit Tests", function () {
 
       it("should revert if merkl distributor not set but claimData provided", async function () {
         // Deploy fresh vault without merkl set
-        const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+        const VaultFactory = await getVaultFactory(ethers);
         const freshVault = await upgrades.deployProxy(
           VaultFactory,
           [admin.address, admin.address, WAD * 75n / 100n, 1000, ethers.parseUnits("10000000", 6)],
-          { kind: "uups" }
+          VAULT_PROXY_OPTIONS
         ) as unknown as SUSDDVault;
 
         await freshVault.connect(admin).grantRole(KEEPER_ROLE, keeper.address);
@@ -1101,4 +1307,959 @@ describe("SUSDDVault Unit Tests", function () {
     });
   });
 
+  // IDLE_MODE, so NAV is the USDT balance and only fee mints move the price per share.
+  // Time is moved with time.increase and accrual triggered by the claimRewards("0x") heartbeat.
+  describe("Management Fee", function () {
+    const YEAR = 365 * 24 * 60 * 60;
+    const DEPOSIT = ethers.parseUnits("10000", 6);
+
+    let setupSnapshotId: string;
+
+    /** feeRecipient's share of NAV (WAD) */
+    async function treasuryFraction(): Promise<bigint> {
+      return ((await vault.balanceOf(treasury.address)) * WAD) / (await vault.totalSupply());
+    }
+
+    before(async function () {
+      setupSnapshotId = await setupSuite({ idle: true });
+      await vault.connect(manager).setFeeRecipient(treasury.address);
+    });
+
+    after(async function () {
+      await network.provider.send("evm_revert", [setupSnapshotId]);
+    });
+
+    describe("setManagementFee", function () {
+      it("lets the manager set the fee up to 5% and starts the clock", async function () {
+        const tx = vault.connect(manager).setManagementFee(200);
+        await expect(tx).to.emit(vault, "ManagementFeeUpdated").withArgs(0n, 200n);
+
+        const block = await ethers.provider.getBlock((await (await tx).wait())!.blockNumber);
+        expect(await vault.managementFeeBps()).to.equal(200n);
+        expect(await vault.lastFeeAccrual()).to.equal(block!.timestamp);
+
+        await vault.connect(manager).setManagementFee(500);
+        await expect(vault.connect(manager).setManagementFee(501)).to.be.revertedWithCustomError(vault, "InvalidFee");
+      });
+
+      it("is manager-only", async function () {
+        await expect(vault.connect(user1).setManagementFee(100))
+          .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+          .withArgs(user1.address, MANAGER_ROLE);
+      });
+
+      it("does not charge for the time before it was enabled", async function () {
+        await time.increase(YEAR);
+        await vault.connect(manager).setManagementFee(200);
+        await vault.claimRewards("0x");
+
+        expect(await vault.balanceOf(treasury.address)).to.be.lt(ethers.parseUnits("0.01", 6));
+      });
+
+      it("charges the old rate up to the change", async function () {
+        await vault.connect(manager).setManagementFee(200);
+        await time.increase(YEAR / 2);
+
+        await expect(vault.connect(manager).setManagementFee(0)).to.emit(vault, "ManagementFeeAccrued");
+        const fraction = await treasuryFraction();
+        expect(fraction).to.be.closeTo(WAD / 100n, WAD / 10n ** 6n);
+
+        await time.increase(YEAR);
+        await vault.claimRewards("0x");
+        expect(await treasuryFraction()).to.equal(fraction);
+      });
+    });
+
+    describe("Accrual", function () {
+      beforeEach(async function () {
+        await vault.connect(manager).setManagementFee(200);
+      });
+
+      it("streams the annual rate to feeRecipient by time", async function () {
+        await time.increase(YEAR);
+        await expect(vault.claimRewards("0x"))
+          .to.emit(vault, "ManagementFeeAccrued")
+          .withArgs((shares: bigint) => shares > 0n, treasury.address);
+
+        // 2% of NAV after a year, and the holders' value is diluted by as much
+        expect(await treasuryFraction()).to.be.closeTo(WAD / 50n, WAD / 10n ** 6n);
+        expect(await vault.previewRedeem(await vault.balanceOf(user1.address))).to.be.closeTo(
+          (DEPOSIT * 98n) / 100n,
+          ethers.parseUnits("0.01", 6)
+        );
+      });
+
+      it("charges about the same for one long period as for several short ones", async function () {
+        await time.increase(YEAR);
+        await vault.claimRewards("0x");
+        const once = await treasuryFraction();
+
+        await network.provider.send("evm_revert", [snapshotId]);
+        snapshotId = await network.provider.send("evm_snapshot", []);
+        await vault.connect(manager).setManagementFee(200);
+
+        for (let i = 0; i < 4; i++) {
+          await time.increase(YEAR / 4);
+          await vault.claimRewards("0x");
+        }
+        // Each accrual takes its fraction of the NAV left: 1 - (1 - 0.5%)^4 = 1.985% against 2%
+        const quarterly = await treasuryFraction();
+        expect(quarterly).to.be.lt(once);
+        expect(quarterly).to.be.closeTo(once, WAD / 5000n);
+      });
+
+      it("accrues before deposits, so new depositors do not pay for past time", async function () {
+        await time.increase(YEAR);
+        await vault.connect(user2).deposit(DEPOSIT, user2.address);
+
+        expect(await vault.balanceOf(treasury.address)).to.be.gt(0n);
+        expect(await vault.previewRedeem(await vault.balanceOf(user2.address))).to.be.closeTo(
+          DEPOSIT,
+          ethers.parseUnits("0.01", 6)
+        );
+      });
+
+      it("previewDeposit prices against the supply after the pending fee, as the deposit mints", async function () {
+        await time.increase(YEAR);
+        const preview = await vault.previewDeposit(DEPOSIT);
+        // 2% of NAV is owed to feeRecipient, so each USDT buys 1 / 0.98 of the pre-fee shares
+        expect(preview).to.be.closeTo((DEPOSIT * 100n) / 98n, ethers.parseUnits("0.01", 6));
+
+        // One block later than the preview: a second of fee at most
+        await expect(vault.connect(user2).depositWithMin(DEPOSIT, user2.address, preview - 10n)).to.emit(
+          vault,
+          "ManagementFeeAccrued"
+        );
+        expect(await vault.balanceOf(user2.address)).to.be.closeTo(preview, 10n);
+      });
+
+      it("accrues before redeems, and previewRedeem includes the pending fee", async function () {
+        await time.increase(YEAR);
+        const shares = await vault.balanceOf(user1.address);
+        const preview = await vault.previewRedeem(shares);
+
+        const balanceBefore = await usdt.balanceOf(user1.address);
+        await expect(vault.connect(user1).redeem(shares, user1.address, user1.address)).to.emit(
+          vault,
+          "ManagementFeeAccrued"
+        );
+        // One block later than the preview: a second of fee at most
+        expect((await usdt.balanceOf(user1.address)) - balanceBefore).to.be.closeTo(preview, 10n);
+        expect(await vault.balanceOf(treasury.address)).to.equal(await vault.totalSupply());
+      });
+
+      it("only moves the clock while the vault is empty", async function () {
+        await vault.connect(user1).redeem(await vault.balanceOf(user1.address), user1.address, user1.address);
+        const treasuryShares = await vault.balanceOf(treasury.address);
+        await vault.connect(treasury).redeem(treasuryShares, treasury.address, treasury.address);
+        expect(await vault.totalSupply()).to.equal(0n);
+
+        await time.increase(YEAR);
+        await vault.connect(user2).deposit(DEPOSIT, user2.address);
+        expect(await vault.balanceOf(treasury.address)).to.equal(0n);
+        expect(await vault.lastFeeAccrual()).to.equal((await ethers.provider.getBlock("latest"))!.timestamp);
+      });
+
+      it("runs before the performance fee, which is then measured net of it", async function () {
+        await vault.connect(manager).setPerformanceFee(1000);
+        await time.increase(YEAR);
+        // +10% on NAV
+        await usdt.mint(vaultAddress, DEPOSIT / 10n);
+
+        const supply = await vault.totalSupply();
+        const nav = await vault.totalAssets();
+        const hwm = await vault.highWaterMark();
+        const receipt = await (await vault.claimRewards("0x")).wait();
+
+        const events = receipt!.logs
+          .map((log) => vault.interface.parseLog(log))
+          .filter((event) => event?.name === "ManagementFeeAccrued" || event?.name === "PerformanceFeeAccrued");
+        expect(events.map((event) => event!.name)).to.deep.equal(["ManagementFeeAccrued", "PerformanceFeeAccrued"]);
+
+        const managementShares = events[0]!.args.feeShares as bigint;
+        expect(events[1]!.args.feeShares).to.equal(performanceFeeShares(nav, supply + managementShares, 1000n, hwm));
+        expect(await vault.highWaterMark()).to.equal((nav * WAD) / (await vault.totalSupply()));
+      });
+    });
+
+    describe("SDK", function () {
+      it("managementFeeShares matches the on-chain mint", async function () {
+        await vault.connect(manager).setManagementFee(300);
+        const lastAccrual = await vault.lastFeeAccrual();
+        const supply = await vault.totalSupply();
+        await network.provider.send("evm_setNextBlockTimestamp", [Number(lastAccrual) + YEAR]);
+
+        await expect(vault.claimRewards("0x"))
+          .to.emit(vault, "ManagementFeeAccrued")
+          .withArgs(managementFeeShares(supply, 300n, BigInt(YEAR)), treasury.address);
+        expect(managementFeeShares(supply, 0n, BigInt(YEAR))).to.equal(0n);
+      });
+    });
+  });
+
+  // IDLE_MODE, so a fee left in the vault shows directly in the price per share.
+  // user1 holds the first 10,000 USDT of shares throughout.
+  describe("Deposit/Redeem Fees", function () {
+    const DEPOSIT = ethers.parseUnits("10000", 6);
+    const AMOUNT = ethers.parseUnits("1000", 6);
+
+    let deployBlock: number;
+    let setupSnapshotId: string;
+
+    async function pricePerShare(): Promise<bigint> {
+      return ((await vault.totalAssets()) * WAD) / (await vault.totalSupply());
+    }
+
+    before(async function () {
+      setupSnapshotId = await setupSuite({ idle: true });
+      await vault.connect(manager).setFeeRecipient(treasury.address);
+      deployBlock = (await vault.deploymentTransaction()!.wait())!.blockNumber;
+    });
+
+    after(async function () {
+      await network.provider.send("evm_revert", [setupSnapshotId]);
+    });
+
+    describe("setEntryExitFees", function () {
+      it("lets the manager set each fee up to 1% and pick the destination", async function () {
+        await expect(vault.connect(manager).setEntryExitFees(50, 100, true))
+          .to.emit(vault, "EntryExitFeesUpdated")
+          .withArgs(50n, 100n, true);
+        expect(await vault.depositFeeBps()).to.equal(50n);
+        expect(await vault.redeemFeeBps()).to.equal(100n);
+        expect(await vault.entryExitFeeToTreasury()).to.be.true;
+
+        await expect(vault.connect(manager).setEntryExitFees(101, 0, false)).to.be.revertedWithCustomError(vault, "InvalidFee");
+        await expect(vault.connect(manager).setEntryExitFees(0, 101, false)).to.be.revertedWithCustomError(vault, "InvalidFee");
+      });
+
+      it("is manager-only", async function () {
+        await expect(vault.connect(user1).setEntryExitFees(10, 10, false))
+          .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+          .withArgs(user1.address, MANAGER_ROLE);
+      });
+    });
+
+    describe("Deposit fee", function () {
+      it("left in the vault: previewDeposit and Deposit show the net shares, holders gain the fee", async function () {
+        await vault.connect(manager).setEntryExitFees(100, 0, false);
+        const gross = (AMOUNT * (await vault.totalSupply())) / (await vault.totalAssets());
+        const net = gross - entryExitFeeShares(gross, 100n);
+        expect(await vault.previewDeposit(AMOUNT)).to.equal(net);
+
+        const ppsBefore = await pricePerShare();
+        await expect(vault.connect(user2).deposit(AMOUNT, user2.address))
+          .to.emit(vault, "Deposit")
+          .withArgs(user2.address, user2.address, AMOUNT, net)
+          .and.to.not.emit(vault, "EntryExitFeeAccrued");
+
+        expect(await vault.balanceOf(user2.address)).to.equal(net);
+        expect(await vault.balanceOf(treasury.address)).to.equal(0n);
+        expect(await pricePerShare()).to.be.gt(ppsBefore);
+      });
+
+      it("to the treasury: the fee shares are minted to feeRecipient", async function () {
+        await vault.connect(manager).setEntryExitFees(100, 0, true);
+        const expected = await vault.previewDeposit(AMOUNT);
+        const ppsBefore = await pricePerShare();
+
+        await expect(vault.connect(user2).deposit(AMOUNT, user2.address))
+          .to.emit(vault, "EntryExitFeeAccrued")
+          .withArgs((shares: bigint) => shares > 0n, treasury.address);
+
+        // Price per share is 1, so the gross shares are AMOUNT
+        expect(expected).to.equal(AMOUNT - AMOUNT / 100n);
+        expect(await vault.balanceOf(user2.address)).to.equal(expected);
+        expect(await vault.balanceOf(treasury.address)).to.equal(entryExitFeeShares(AMOUNT, 100n));
+        expect(await pricePerShare()).to.equal(ppsBefore);
+      });
+
+      it("applies to the first deposit too", async function () {
+        await vault.connect(user1).redeem(await vault.balanceOf(user1.address), user1.address, user1.address);
+        await vault.connect(manager).setEntryExitFees(100, 0, false);
+
+        await vault.connect(user2).deposit(AMOUNT, user2.address);
+        expect(await vault.balanceOf(user2.address)).to.equal(AMOUNT - AMOUNT / 100n);
+        expect(await vault.totalAssets()).to.equal(AMOUNT);
+      });
+    });
+
+    describe("Redeem fee", function () {
+      it("left in the vault: previewRedeem and Withdraw pay out the net shares only", async function () {
+        await vault.connect(user2).deposit(AMOUNT, user2.address);
+        await vault.connect(manager).setEntryExitFees(0, 100, false);
+        const shares = await vault.balanceOf(user2.address);
+        const preview = await vault.previewRedeem(shares);
+        expect(preview).to.equal(AMOUNT - AMOUNT / 100n);
+
+        const ppsBefore = await pricePerShare();
+        const balanceBefore = await usdt.balanceOf(user2.address);
+        await expect(vault.connect(user2).redeem(shares, user2.address, user2.address))
+          .to.emit(vault, "Withdraw")
+          .withArgs(user2.address, user2.address, user2.address, preview, shares)
+          .and.to.not.emit(vault, "EntryExitFeeAccrued");
+
+        expect((await usdt.balanceOf(user2.address)) - balanceBefore).to.equal(preview);
+        expect(await vault.balanceOf(treasury.address)).to.equal(0n);
+        expect(await pricePerShare()).to.be.gt(ppsBefore);
+      });
+
+      it("to the treasury: the fee shares move to feeRecipient instead of being burned", async function () {
+        await vault.connect(user2).deposit(AMOUNT, user2.address);
+        await vault.connect(manager).setEntryExitFees(0, 100, true);
+        const shares = await vault.balanceOf(user2.address);
+        const fee = entryExitFeeShares(shares, 100n);
+
+        await expect(vault.connect(user2).redeem(shares, user2.address, user2.address))
+          .to.emit(vault, "EntryExitFeeAccrued")
+          .withArgs(fee, treasury.address);
+        expect(await vault.balanceOf(treasury.address)).to.equal(fee);
+        expect(await vault.previewRedeem(fee)).to.be.closeTo(AMOUNT / 100n - AMOUNT / 10000n, 1n);
+      });
+
+      it("convertToAssets stays fee-free while previewRedeem takes the redeem fee", async function () {
+        await vault.connect(manager).setEntryExitFees(100, 100, false);
+        const shares = (await vault.balanceOf(user1.address)) / 2n;
+        const assets = await vault.convertToAssets(shares);
+
+        expect(assets).to.equal(DEPOSIT / 2n);
+        expect(await vault.previewRedeem(shares)).to.be.lt(assets);
+        expect(await vault.previewRedeem(shares)).to.equal(
+          await vault.convertToAssets(shares - entryExitFeeShares(shares, 100n))
+        );
+        expect(await vault.previewDeposit(AMOUNT)).to.equal(
+          (await vault.convertToShares(AMOUNT)) - entryExitFeeShares(await vault.convertToShares(AMOUNT), 100n)
+        );
+      });
+
+      it("simulateRedeem matches previewRedeem", async function () {
+        await vault.connect(manager).setEntryExitFees(0, 30, false);
+        const shares = (await vault.balanceOf(user1.address)) / 3n;
+
+        const simulation = await simulateRedeem(vaultAddress, shares, ethers.provider);
+        expect(simulation.redeemFeeShares).to.equal(entryExitFeeShares(shares, 30n));
+        expect(simulation.assets).to.equal(await vault.previewRedeem(shares));
+      });
+    });
+
+    describe("Tooling", function () {
+      it("configure plans one setEntryExitFees call, keeping unspecified fields", async function () {
+        await vault.connect(manager).setEntryExitFees(20, 30, true);
+        const current = await readVaultState(vault);
+        expect(current).to.include({ depositFeeBps: 20n, redeemFeeBps: 30n, entryExitFeeToTreasury: true });
+
+        const { desired } = parseVaultConfig({ redeemFeeBps: 50, entryExitFeeToTreasury: true });
+        const steps = planConfiguration(current, desired);
+        expect(steps.map((step) => [step.method, step.args])).to.deep.equal([["setEntryExitFees", [20n, 50n, true]]]);
+        expect(planConfiguration(current, { depositFeeBps: 20n })).to.deep.equal([]);
+
+        expect(() => parseVaultConfig({ depositFeeBps: 101 })).to.throw(InvalidParamError, /100 bps maximum/);
+        expect(() => parseVaultConfig({ entryExitFeeToTreasury: "yes" })).to.throw(InvalidParamError, /true or false/);
+      });
+
+      it("the PnL report charges a treasury fee to its payer, not to the other holders", async function () {
+        await vault.connect(manager).setEntryExitFees(100, 0, true);
+        await vault.connect(user2).deposit(AMOUNT, user2.address);
+
+        const store = emptyStore(31337, vaultAddress, deployBlock);
+        await indexVault(ethers.provider, store, await ethers.provider.getBlockNumber());
+        const block = await ethers.provider.getBlock("latest");
+        const rows = new Map(pnlReport(store, await pricePerShare(), block!.timestamp).map((row) => [row.account, row]));
+
+        expect(rows.get(user2.address)!.feesPaid).to.be.closeTo(AMOUNT / 100n, 1n);
+        expect(rows.get(user1.address)!.feesPaid).to.equal(0n);
+        expect(rows.get(treasury.address)!.shares).to.equal(await vault.balanceOf(treasury.address));
+      });
+    });
+  });
+
+  // Interest drift is simulated by growing the market's totalBorrowAssets with setMarketState.
+  describe("Safety Band", function () {
+    const LLTV = ethers.parseEther("0.86");
+    const TARGET_LTV = ethers.parseEther("0.75");
+    const BAND = ethers.parseEther("0.8");
+
+    let setupSnapshotId: string;
+
+    async function currentLTV(): Promise<bigint> {
+      return (await readPositionState(vaultAddress, ethers.provider)).ltv;
+    }
+
+    before(async function () {
+      setupSnapshotId = await setupSuite();
+    });
+
+    after(async function () {
+      await network.provider.send("evm_revert", [setupSnapshotId]);
+    });
+
+    describe("setMaxLTVBeforeDelever", function () {
+      it("lets the manager set the band below LLTV", async function () {
+        await expect(vault.connect(manager).setMaxLTVBeforeDelever(BAND))
+          .to.emit(vault, "MaxLTVBeforeDeleverUpdated")
+          .withArgs(0n, BAND);
+        expect(await vault.maxLTVBeforeDelever()).to.equal(BAND);
+
+        await vault.connect(manager).setMaxLTVBeforeDelever(0n);
+        expect(await vault.maxLTVBeforeDelever()).to.equal(0n);
+      });
+
+      it("rejects bands at or above LLTV", async function () {
+        await expect(vault.connect(manager).setMaxLTVBeforeDelever(LLTV)).to.be.revertedWithCustomError(vault, "LTVExceedsLLTV");
+      });
+
+      it("rejects bands at or below a leveraged targetLTV", async function () {
+        await expect(vault.connect(manager).setMaxLTVBeforeDelever(TARGET_LTV)).to.be.revertedWithCustomError(
+          vault,
+          "TargetLTVAboveSafetyBand"
+        );
+        await expect(vault.connect(manager).setMaxLTVBeforeDelever(TARGET_LTV - 1n)).to.be.revertedWithCustomError(
+          vault,
+          "TargetLTVAboveSafetyBand"
+        );
+        await vault.connect(manager).setMaxLTVBeforeDelever(TARGET_LTV + 1n);
+      });
+
+      it("keeps rebalance targets below a set band", async function () {
+        await vault.connect(manager).setMaxLTVBeforeDelever(BAND);
+
+        await expect(vault.connect(keeper).rebalance(BAND)).to.be.revertedWithCustomError(vault, "TargetLTVAboveSafetyBand");
+        await expect(vault.connect(keeper).rebalanceStep(BAND, 1n)).to.be.revertedWithCustomError(vault, "TargetLTVAboveSafetyBand");
+        await vault.connect(keeper).rebalance(BAND - 1n);
+
+        // Unleveraged targets carry no debt, so any band is above them
+        await vault.connect(keeper).rebalance(0n);
+        await vault.connect(manager).setMaxLTVBeforeDelever(ethers.parseEther("0.1"));
+      });
+
+      it("is manager-only", async function () {
+        await expect(vault.connect(user1).setMaxLTVBeforeDelever(BAND)).to.be.revertedWithCustomError(
+          vault,
+          "AccessControlUnauthorizedAccount"
+        );
+      });
+    });
+
+    describe("deleverToSafety", function () {
+      beforeEach(async function () {
+        await vault.connect(manager).setMaxLTVBeforeDelever(BAND);
+      });
+
+      it("sees the drift: NAV and LTV follow the market's borrow assets", async function () {
+        const navBefore = await vault.totalAssets();
+
+        await growDebt(morpho, ethers.parseEther("0.06"));
+
+        expect(await vault.totalAssets()).to.be.closeTo(navBefore - ethers.parseUnits("1800", 6), ethers.parseUnits("1", 6));
+        expect(await currentLTV()).to.be.closeTo(ethers.parseEther("0.795"), ethers.parseEther("0.0001"));
+      });
+
+      it("reverts while LTV is within the band", async function () {
+        await growDebt(morpho, ethers.parseEther("0.06")); // 79.5%
+
+        await expect(vault.connect(user1).deleverToSafety()).to.be.revertedWithCustomError(vault, "LTVWithinSafetyBand");
+      });
+
+      it("reverts when the band is disabled, however far LTV drifted", async function () {
+        await vault.connect(manager).setMaxLTVBeforeDelever(0n);
+        await growDebt(morpho, ethers.parseEther("0.12")); // 84%
+
+        await expect(vault.connect(user1).deleverToSafety()).to.be.revertedWithCustomError(vault, "LTVWithinSafetyBand");
+      });
+
+      it("lets anyone delever back to targetLTV once LTV crosses the band", async function () {
+        await growDebt(morpho, ethers.parseEther("0.08")); // 81%
+        const ltvBefore = await currentLTV();
+        const { debt } = await readPositionState(vaultAddress, ethers.provider);
+        const nav = await vault.totalAssets();
+        const targetDebt = (nav * TARGET_LTV) / (WAD - TARGET_LTV);
+
+        await expect(vault.connect(user1).deleverToSafety())
+          .to.emit(vault, "DeleveredToSafety")
+          .withArgs(ltvBefore, debt - targetDebt)
+          .and.to.emit(vault, "VaultSnapshot");
+
+        // Slightly above target: the 0.1% delever buffer sells extra collateral
+        expect(await currentLTV()).to.be.closeTo(TARGET_LTV, ethers.parseEther("0.002"));
+        expect(await vault.totalAssets()).to.be.closeTo(nav, ethers.parseUnits("25", 6));
+        await expect(vault.connect(user1).deleverToSafety()).to.be.revertedWithCustomError(vault, "LTVWithinSafetyBand");
+      });
+
+      it("reverts ZeroCollateral when debt is left without collateral", async function () {
+        const { borrowShares } = await morpho.position(MARKET_ID, vaultAddress);
+        await morpho.setPosition(MARKET_ID, vaultAddress, 0n, borrowShares);
+
+        await expect(vault.connect(user1).deleverToSafety()).to.be.revertedWithCustomError(vault, "ZeroCollateral");
+      });
+
+      it("still works while paused", async function () {
+        await vault.connect(admin).pause();
+        await growDebt(morpho, ethers.parseEther("0.08"));
+
+        await expect(vault.connect(user1).deleverToSafety()).to.emit(vault, "DeleveredToSafety");
+        expect(await currentLTV()).to.be.lt(BAND);
+      });
+    });
+  });
+
+  // Each step sees the debt left by the previous one.
+  describe("Rebalance Step", function () {
+    const TARGET_LTV = ethers.parseEther("0.75");
+
+    let setupSnapshotId: string;
+
+    async function readState(): Promise<PositionState> {
+      return readPositionState(vaultAddress, ethers.provider);
+    }
+
+    // Calls rebalanceStep until nothing is left, returning the remaining delta after each step
+    async function stepUntilDone(newTargetLTV: bigint, maxDebtDelta: bigint): Promise<bigint[]> {
+      const remaining: bigint[] = [];
+      do {
+        remaining.push(await vault.connect(keeper).rebalanceStep.staticCall(newTargetLTV, maxDebtDelta));
+        await vault.connect(keeper).rebalanceStep(newTargetLTV, maxDebtDelta);
+      } while (remaining[remaining.length - 1] > 0n && remaining.length < 20);
+      return remaining;
+    }
+
+    before(async function () {
+      setupSnapshotId = await setupSuite();
+    });
+
+    after(async function () {
+      await network.provider.send("evm_revert", [setupSnapshotId]);
+    });
+
+    describe("rebalanceStep", function () {
+      it("levers up by at most maxDebtDelta per call and converges on the target", async function () {
+        // 10000 NAV: 30000 debt at 75%, 40000 at 80% (the mock's borrow shares add a few USDT)
+        const remaining = await stepUntilDone(ethers.parseEther("0.8"), parseUSDT("2600"));
+
+        expect(remaining).to.have.length(4);
+        expect(remaining[0]).to.be.closeTo(parseUSDT("7400"), parseUSDT("10"));
+        expect(remaining[2]).to.be.closeTo(parseUSDT("2200"), parseUSDT("10"));
+        const state = await readState();
+        expect(state.debt).to.be.closeTo(parseUSDT("40000"), parseUSDT("5"));
+        expect(state.ltv).to.be.closeTo(ethers.parseEther("0.8"), ethers.parseEther("0.0001"));
+      });
+
+      it("delevers in steps and ends where a single rebalance() would", async function () {
+        const newTargetLTV = ethers.parseEther("0.5");
+        const single = await network.provider.send("evm_snapshot", []);
+        await vault.connect(keeper).rebalance(newTargetLTV);
+        const expected = await readState();
+        await network.provider.send("evm_revert", [single]);
+
+        // 30000 -> 10000 debt: 8000, 8000, then the last 4000
+        const remaining = await stepUntilDone(newTargetLTV, parseUSDT("8000"));
+
+        expect(remaining).to.have.length(3);
+        const state = await readState();
+        expect(state.debt).to.be.closeTo(expected.debt, parseUSDT("1"));
+        expect(state.ltv).to.be.closeTo(expected.ltv, ethers.parseEther("0.001"));
+        expect(state.nav).to.be.closeTo(expected.nav, parseUSDT("1"));
+      });
+
+      it("emits Rebalanced on every step, from the old target on the first", async function () {
+        const newTargetLTV = ethers.parseEther("0.8");
+
+        await expect(vault.connect(keeper).rebalanceStep(newTargetLTV, parseUSDT("6000")))
+          .to.emit(vault, "Rebalanced")
+          .withArgs(TARGET_LTV, newTargetLTV)
+          .and.to.emit(vault, "RebalanceStep")
+          .withArgs(newTargetLTV, (remaining: bigint) => remaining > 0n)
+          .and.to.emit(vault, "VaultSnapshot");
+        expect(await vault.targetLTV()).to.equal(newTargetLTV);
+
+        await expect(vault.connect(keeper).rebalanceStep(newTargetLTV, parseUSDT("6000")))
+          .to.emit(vault, "Rebalanced")
+          .withArgs(newTargetLTV, newTargetLTV)
+          .and.to.emit(vault, "RebalanceStep")
+          .withArgs(newTargetLTV, 0n);
+      });
+
+      it("repays debt in steps before exiting to IDLE_MODE", async function () {
+        const remaining = await stepUntilDone(IDLE_MODE, parseUSDT("12000"));
+
+        // 30000 debt: 12000, 12000, then the last 6000 with the full exit
+        expect(remaining).to.have.length(3);
+        expect(remaining[0]).to.be.closeTo(parseUSDT("18000"), parseUSDT("1"));
+        const state = await readState();
+        expect(state).to.include({ debt: 0n, collateral: 0n });
+        expect(state.idleUsdt).to.be.closeTo(parseUSDT("10000"), parseUSDT("1"));
+      });
+
+      it("steps towards unleveraged mode and redeploys idle USDT on the last step", async function () {
+        const remaining = await stepUntilDone(0n, parseUSDT("20000"));
+
+        expect(remaining).to.have.length(2);
+        const state = await readState();
+        expect(state.debt).to.equal(0n);
+        expect(state.idleUsdt).to.equal(0n);
+        expect(state.collateralValue).to.be.closeTo(parseUSDT("10000"), parseUSDT("1"));
+      });
+
+      it("is keeper-only and blocked while paused", async function () {
+        await expect(vault.connect(user1).rebalanceStep(TARGET_LTV, parseUSDT("1000"))).to.be.revertedWithCustomError(
+          vault,
+          "AccessControlUnauthorizedAccount"
+        );
+
+        await vault.connect(admin).pause();
+        await expect(vault.connect(keeper).rebalanceStep(TARGET_LTV, parseUSDT("1000"))).to.be.revertedWithCustomError(
+          vault,
+          "EnforcedPause"
+        );
+      });
+    });
+
+    describe("runKeeperTick with maxDebtDelta", function () {
+      it("loops rebalanceStep until LTV is back on target", async function () {
+        // +5% debt: 31500 debt on 8500 NAV, 6000 above the 25500 target
+        await growDebt(morpho, ethers.parseEther("0.05"));
+
+        const result = await runKeeperTick(vault.connect(keeper), { ...DEFAULT_KEEPER_CONFIG, maxDebtDelta: parseUSDT("2500") });
+
+        expect(result.decision?.reason).to.equal("above-band");
+        expect(result.steps).to.equal(3);
+        expect((await readState()).ltv).to.be.closeTo(TARGET_LTV, ethers.parseEther("0.002"));
+      });
+    });
+  });
+
+  // MockPSM.setGemLiquidity throttles the USDT buyGem can pay out. The vault holds 40000 sUSDD
+  // (10000 NAV at 75% LTV), so a full exit needs 40000 USDT from the PSM.
+  describe("PSM Liquidity", function () {
+    let setupSnapshotId: string;
+
+    before(async function () {
+      setupSnapshotId = await setupSuite();
+    });
+
+    after(async function () {
+      await network.provider.send("evm_revert", [setupSnapshotId]);
+    });
+
+    describe("maxRedeem", function () {
+      it("is the full balance while the PSM can buy back all collateral", async function () {
+        expect(await vault.maxRedeem(user1.address)).to.equal(await vault.balanceOf(user1.address));
+      });
+
+      it("is capped to the share of collateral the PSM can pay out", async function () {
+        await psm.setGemLiquidity(parseUSDT("10000"));
+        const { collateralValue } = await readPositionState(vaultAddress, ethers.provider);
+        const supply = await vault.totalSupply();
+
+        const maxShares = await vault.maxRedeem(user1.address);
+
+        expect(maxShares).to.equal((parseUSDT("10000") * supply) / collateralValue);
+        expect(maxShares).to.be.closeTo(supply / 4n, supply / 1000n);
+      });
+
+      it("leaves maxDeposit alone: deposits only sell USDT to the PSM", async function () {
+        await psm.setGemLiquidity(0n);
+
+        expect(await vault.maxDeposit(user1.address)).to.be.gt(0n);
+        await vault.connect(user1).deposit(parseUSDT("1000"), user1.address);
+        expect(await usdt.balanceOf(await psm.getAddress())).to.be.closeTo(parseUSDT("4000"), parseUSDT("1"));
+      });
+    });
+
+    describe("redeem", function () {
+      it("reverts before the flash loan with InsufficientPSMLiquidity", async function () {
+        await psm.setGemLiquidity(parseUSDT("10000"));
+        const shares = (await vault.balanceOf(user1.address)) / 2n;
+
+        // Half the collateral: ~20000 USDT at par
+        await expect(vault.connect(user1).redeem(shares, user1.address, user1.address))
+          .to.be.revertedWithCustomError(vault, "InsufficientPSMLiquidity")
+          .withArgs((needed: bigint) => needed > parseUSDT("19999") && needed <= parseUSDT("20000"), parseUSDT("10000"));
+      });
+
+      it("goes through up to maxRedeem", async function () {
+        await psm.setGemLiquidity(parseUSDT("10000"));
+        const maxShares = await vault.maxRedeem(user1.address);
+        const balanceBefore = await usdt.balanceOf(user1.address);
+
+        await vault.connect(user1).redeem(maxShares, user1.address, user1.address);
+
+        expect((await usdt.balanceOf(user1.address)) - balanceBefore).to.be.closeTo(parseUSDT("2500"), parseUSDT("5"));
+      });
+
+      it("still reports ERC4626ExceededMaxRedeem above the balance", async function () {
+        await psm.setGemLiquidity(0n);
+        const balance = await vault.balanceOf(user1.address);
+
+        await expect(vault.connect(user1).redeem(balance + 1n, user1.address, user1.address))
+          .to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxRedeem")
+          .withArgs(user1.address, balance + 1n, balance);
+      });
+    });
+
+    describe("rebalance", function () {
+      it("reverts rebalance(IDLE_MODE) until the PSM can buy back all collateral", async function () {
+        await psm.setGemLiquidity(parseUSDT("39000"));
+
+        await expect(vault.connect(keeper).rebalance(IDLE_MODE)).to.be.revertedWithCustomError(vault, "InsufficientPSMLiquidity");
+
+        await psm.setGemLiquidity(parseUSDT("41000"));
+        await vault.connect(keeper).rebalance(IDLE_MODE);
+        expect((await readPositionState(vaultAddress, ethers.provider)).collateral).to.equal(0n);
+      });
+
+      it("checks a partial delever against the debt it repays", async function () {
+        // 30000 -> 10000 debt: ~20000 USDT bought back, plus the 0.1% buffer
+        await psm.setGemLiquidity(parseUSDT("19000"));
+        await expect(vault.connect(keeper).rebalance(ethers.parseEther("0.5"))).to.be.revertedWithCustomError(
+          vault,
+          "InsufficientPSMLiquidity"
+        );
+
+        await psm.setGemLiquidity(parseUSDT("21000"));
+        await vault.connect(keeper).rebalance(ethers.parseEther("0.5"));
+        expect((await readPositionState(vaultAddress, ethers.provider)).ltv).to.be.closeTo(
+          ethers.parseEther("0.5"),
+          ethers.parseEther("0.002")
+        );
+      });
+    });
+
+    describe("SDK", function () {
+      it("checkRedeem throws InsufficientPSMLiquidityError and the revert decodes to it", async function () {
+        await psm.setGemLiquidity(parseUSDT("10000"));
+        const client = new SUSDDVaultClient(vaultAddress, user1);
+        const shares = await vault.balanceOf(user1.address);
+
+        const check = await client.checkRedeem(shares, user1.address, user1.address, user1.address).catch((e) => e);
+        expect(check).to.be.instanceOf(InsufficientPSMLiquidityError);
+        expect(check.available).to.equal(parseUSDT("10000"));
+
+        const revert = await vault.connect(user1).redeem(shares, user1.address, user1.address).catch((e) => e);
+        const decoded = decodeVaultError(revert);
+        expect(decoded).to.be.instanceOf(InsufficientPSMLiquidityError);
+        expect(decoded).to.deep.include({ needed: check.needed, available: parseUSDT("10000") });
+      });
+    });
+
+    describe("Monitoring", function () {
+      it("reads coverage as PSM USDT over collateral value", async function () {
+        await psm.setGemLiquidity(parseUSDT("20000"));
+
+        const state = await readPSMLiquidity(vaultAddress, ethers.provider);
+
+        expect(state.available).to.equal(parseUSDT("20000"));
+        expect(state.available).to.equal(await vault.availablePSMLiquidity());
+        expect(state.coverage).to.equal(WAD / 2n);
+        expect(state.redeemableFraction).to.equal(state.coverage);
+        expect(checkPSMLiquidity(state, ethers.parseEther("0.4"))).to.be.null;
+        expect(checkPSMLiquidity(state, WAD)).to.match(/PSM liquidity covers 50\.0% .* below the 100\.0% minimum/);
+      });
+
+      it("vault:liquidity fails below --min-coverage", async function () {
+        const log = console.log;
+        console.log = () => {};
+        try {
+          const state = await run("vault:liquidity", { vault: vaultAddress });
+          expect(state.redeemableFraction).to.equal(WAD);
+
+          await psm.setGemLiquidity(parseUSDT("20000"));
+          await expect(run("vault:liquidity", { vault: vaultAddress })).to.be.rejectedWith(/below the 100\.0% minimum/);
+          await run("vault:liquidity", { vault: vaultAddress, minCoverage: ethers.parseEther("0.25") });
+        } finally {
+          console.log = log;
+        }
+      });
+    });
+  });
+
+  // MockDEX buys USDD at 0.99 USDT while the PSM is drained (setGemLiquidity(0)). The vault
+  // holds 40000 sUSDD against 30000 USDT debt, so a full routed exit sells 40000 USDD for 39600 USDT.
+  describe("Swap Route", function () {
+    const DEX_RATE = parseUSDT("0.99"); // USDT per 1e18 USDD
+
+    let dex: MockDEX;
+    let dexAddress: string;
+    let setupSnapshotId: string;
+
+    /** MockDEX.swap(USDD -> USDT) paying `recipient` */
+    function dexRoute(minAmountOut = 0n, recipient = vaultAddress): SwapRoute {
+      return buildSwapRoute(
+        dexAddress,
+        (amount) => dex.interface.encodeFunctionData("swap", [ADDRESSES.USDD, ADDRESSES.USDT, amount, 0n, recipient]),
+        minAmountOut
+      );
+    }
+
+    before(async function () {
+      setupSnapshotId = await setupSuite();
+
+      dex = await (await ethers.getContractFactory("MockDEX")).deploy();
+      dexAddress = await dex.getAddress();
+      await dex.setRate(ADDRESSES.USDD, ADDRESSES.USDT, DEX_RATE);
+      await vault.connect(admin).setSwapRouter(dexAddress, true);
+      await psm.setGemLiquidity(0n);
+    });
+
+    after(async function () {
+      await network.provider.send("evm_revert", [setupSnapshotId]);
+    });
+
+    describe("setSwapRouter", function () {
+      it("is admin-only and emits SwapRouterUpdated", async function () {
+        await expect(vault.connect(keeper).setSwapRouter(user2.address, true))
+          .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+          .withArgs(keeper.address, DEFAULT_ADMIN_ROLE);
+
+        await expect(vault.setSwapRouter(user2.address, true)).to.emit(vault, "SwapRouterUpdated").withArgs(user2.address, true);
+        expect(await vault.swapRouters(user2.address)).to.be.true;
+
+        await vault.setSwapRouter(user2.address, false);
+        expect(await vault.swapRouters(user2.address)).to.be.false;
+      });
+
+      it("rejects the zero address, the vault and core protocol contracts", async function () {
+        const core = [
+          ethers.ZeroAddress,
+          vaultAddress,
+          ADDRESSES.USDT,
+          ADDRESSES.USDD,
+          ADDRESSES.SUSDD,
+          ADDRESSES.PSM,
+          ADDRESSES.MORPHO,
+        ];
+        for (const router of core) {
+          await expect(vault.setSwapRouter(router, true)).to.be.revertedWithCustomError(vault, "InvalidSwapRoute");
+        }
+      });
+    });
+
+    describe("redeemWithRoute", function () {
+      it("exits through the aggregator while the PSM is drained", async function () {
+        const shares = (await vault.balanceOf(user1.address)) / 2n;
+        await expect(vault.connect(user1).redeem(shares, user1.address, user1.address)).to.be.revertedWithCustomError(
+          vault,
+          "InsufficientPSMLiquidity"
+        );
+
+        const balanceBefore = await usdt.balanceOf(user1.address);
+        await vault.connect(user1).redeemWithRoute(shares, user1.address, user1.address, 0n, dexRoute());
+
+        // 20000 USDD at 0.99, less 15000 debt
+        expect((await usdt.balanceOf(user1.address)) - balanceBefore).to.be.closeTo(parseUSDT("4800"), parseUSDT("5"));
+        expect(await usdd.balanceOf(vaultAddress)).to.equal(0n);
+        expect(await usdd.allowance(vaultAddress, dexAddress)).to.equal(0n);
+      });
+
+      it("rejects routers that are not whitelisted", async function () {
+        const shares = await vault.balanceOf(user1.address);
+        const route = { ...dexRoute(), router: user2.address };
+
+        await expect(
+          vault.connect(user1).redeemWithRoute(shares, user1.address, user1.address, 0n, route)
+        ).to.be.revertedWithCustomError(vault, "InvalidSwapRoute");
+      });
+
+      it("enforces route.minAmountOut on the swap and minAssets on the payout", async function () {
+        const shares = (await vault.balanceOf(user1.address)) / 2n;
+
+        await expect(vault.connect(user1).redeemWithRoute(shares, user1.address, user1.address, 0n, dexRoute(parseUSDT("19900"))))
+          .to.be.revertedWithCustomError(vault, "SlippageExceeded")
+          .withArgs((actual: bigint) => actual > parseUSDT("19790") && actual <= parseUSDT("19800"), parseUSDT("19900"));
+
+        await expect(
+          vault.connect(user1).redeemWithRoute(shares, user1.address, user1.address, parseUSDT("5000"), dexRoute(parseUSDT("19700")))
+        ).to.be.revertedWithCustomError(vault, "SlippageExceeded");
+      });
+
+      it("reverts with SwapRouteFailed when the router call fails", async function () {
+        const shares = (await vault.balanceOf(user1.address)) / 2n;
+        // Amount written over swap()'s minAmountOut, which the DEX cannot meet, so it reverts
+        const route = { ...dexRoute(), amountOffset: dexRoute().amountOffset + 32n };
+
+        await expect(
+          vault.connect(user1).redeemWithRoute(shares, user1.address, user1.address, 0n, route)
+        ).to.be.revertedWithCustomError(vault, "SwapRouteFailed");
+      });
+
+      it("reverts with InvalidSwapRoute when the amount offset is outside the calldata", async function () {
+        const shares = (await vault.balanceOf(user1.address)) / 2n;
+        const route = dexRoute();
+        route.amountOffset = BigInt(ethers.dataLength(route.data) - 31);
+
+        await expect(
+          vault.connect(user1).redeemWithRoute(shares, user1.address, user1.address, 0n, route)
+        ).to.be.revertedWithCustomError(vault, "InvalidSwapRoute");
+      });
+
+      it("never covers a route's loss from other holders' idle USDT", async function () {
+        await usdt.mint(vaultAddress, parseUSDT("20000"));
+        const shares = (await vault.balanceOf(user1.address)) / 2n;
+        // Output paid elsewhere: the 15000 flash loan is repaid from idle, more than the 10000 idle share
+        const route = dexRoute(0n, user2.address);
+
+        await expect(
+          vault.connect(user1).redeemWithRoute(shares, user1.address, user1.address, 0n, route)
+        ).to.be.revertedWithCustomError(vault, "SwapRouteFailed");
+      });
+    });
+
+    describe("exitToIdleWithRoute", function () {
+      it("sells all collateral through the aggregator", async function () {
+        const navBefore = await vault.totalAssets();
+
+        await vault.connect(keeper).exitToIdleWithRoute(dexRoute(parseUSDT("39000")));
+
+        const state = await readPositionState(vaultAddress, ethers.provider);
+        expect(state.collateral).to.equal(0n);
+        expect(state.borrowShares).to.equal(0n);
+        expect(await vault.totalAssets()).to.be.closeTo(navBefore - parseUSDT("400"), parseUSDT("5"));
+      });
+
+      it("is keeper-only, needs a whitelisted router and honours minAmountOut", async function () {
+        await expect(vault.connect(user1).exitToIdleWithRoute(dexRoute()))
+          .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+          .withArgs(user1.address, KEEPER_ROLE);
+
+        await vault.setSwapRouter(dexAddress, false);
+        await expect(vault.connect(keeper).exitToIdleWithRoute(dexRoute())).to.be.revertedWithCustomError(
+          vault,
+          "InvalidSwapRoute"
+        );
+
+        await vault.setSwapRouter(dexAddress, true);
+        await expect(vault.connect(keeper).exitToIdleWithRoute(dexRoute(parseUSDT("40000")))).to.be.revertedWithCustomError(
+          vault,
+          "SlippageExceeded"
+        );
+      });
+    });
+
+    describe("SDK", function () {
+      it("buildSwapRoute locates the amount word", async function () {
+        // selector + tokenIn + tokenOut
+        expect(dexRoute().amountOffset).to.equal(68n);
+        expect(() => buildSwapRoute(dexAddress, () => "0x1234", 0n)).to.throw(/found 0 times/);
+        expect(withSlippage(parseUSDT("1000"), 50n)).to.equal(parseUSDT("995"));
+      });
+
+      it("sizes routes and redeems through the client", async function () {
+        const client = new SUSDDVaultClient(vaultAddress, user1);
+        const shares = (await vault.balanceOf(user1.address)) / 2n;
+
+        const usdd = await redeemRouteAmount(vaultAddress, shares, ethers.provider);
+        expect(usdd).to.be.closeTo(ethers.parseEther("20000"), ethers.parseEther("1"));
+        expect(await exitRouteAmount(vaultAddress, ethers.provider)).to.be.closeTo(
+          ethers.parseEther("40000"),
+          ethers.parseEther("1")
+        );
+
+        const unlisted = { ...dexRoute(), router: user2.address };
+        await expect(client.redeemWithRoute(shares, unlisted)).to.be.rejectedWith(InvalidSwapRouteError);
+
+        const minOut = withSlippage((usdd * DEX_RATE) / ethers.WeiPerEther, 10n);
+        const { assets } = await client.redeemWithRoute(shares, dexRoute(minOut), parseUSDT("4700"));
+        expect(assets).to.be.closeTo(parseUSDT("4800"), parseUSDT("5"));
+      });
+    });
+  });
 });
@@ -0,0 +1,267 @@
+import { expect } from "chai";
+import { ethers, network, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { SUSDDVault } from "../../typechain-types";
+import { IDLE_MODE, ROLES } from "../../scripts/lib/constants";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+import {
+  EnforcedPauseError,
+  ExceededMaxRedeemError,
+  InsufficientAllowanceError,
+  MaxTotalAssetsExceededError,
+  NotSupportedError,
+  NotWhitelistedError,
+  SUSDDVaultClient,
+  SlippageExceededError,
+  SUSDDVaultError,
+  decodeVaultError,
+  performanceFeeShares,
+} from "../../sdk";
+
+/**
+ * SUSDDVaultClient Unit Tests
+ *
+ * previewRedeem is compared against real redeems in every mode. MockMorpho has no
+ * interest accrual, so debt growth between preview and redeem is covered by the fork tests.
+ */
+describe("SUSDDVaultClient Unit Tests", function () {
+  let admin: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  let env: MockEnvironment;
+  let vault: SUSDDVault;
+  let client: SUSDDVaultClient;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+
+  const DEPOSIT = ethers.parseUnits("10000", 6);
+
+  async function fund(user: SignerWithAddress, amount: bigint) {
+    await env.usdt.mint(user.address, amount);
+    await env.usdt.connect(user).approve(await vault.getAddress(), amount);
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, keeper, , user1, user2] = await ethers.getSigners();
+
+    env = await deployMockEnvironment();
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, admin.address, 0n, 1000, ethers.parseUnits("1000000", 6)],
+      VAULT_PROXY_OPTIONS
+    ) as unknown as SUSDDVault;
+
+    await vault.connect(admin).grantRole(ROLES.KEEPER_ROLE, keeper.address);
+    await vault.connect(admin).grantRole(ROLES.PAUSER_ROLE, admin.address);
+    await vault.connect(admin).addToWhitelist(user1.address);
+
+    client = new SUSDDVaultClient(await vault.getAddress(), user1);
+  });
+
+  after(async function () {
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("deposit", function () {
+    it("returns the shares actually minted", async function () {
+      await fund(user1, DEPOSIT);
+      const preview = await client.previewDeposit(DEPOSIT);
+
+      const { shares } = await client.deposit(DEPOSIT);
+
+      expect(shares).to.equal(await vault.balanceOf(user1.address));
+      expect(shares).to.equal(preview);
+    });
+
+    it("rejects non-whitelisted receivers before sending", async function () {
+      await fund(user1, DEPOSIT);
+
+      await expect(client.deposit(DEPOSIT, user2.address))
+        .to.be.rejectedWith(NotWhitelistedError)
+        .and.eventually.have.property("account", user2.address);
+    });
+
+    it("rejects deposits while paused", async function () {
+      await fund(user1, DEPOSIT);
+      await vault.connect(admin).pause();
+
+      await expect(client.deposit(DEPOSIT)).to.be.rejectedWith(EnforcedPauseError);
+    });
+
+    it("rejects deposits above maxTotalAssets", async function () {
+      await vault.connect(admin).setMaxTotalAssets(DEPOSIT - 1n);
+      await fund(user1, DEPOSIT);
+
+      await expect(client.deposit(DEPOSIT)).to.be.rejectedWith(MaxTotalAssetsExceededError);
+    });
+
+    it("rejects missing USDT allowance", async function () {
+      await env.usdt.mint(user1.address, DEPOSIT);
+
+      await expect(client.deposit(DEPOSIT)).to.be.rejectedWith(InsufficientAllowanceError);
+    });
+  });
+
+  describe("redeem", function () {
+    beforeEach(async function () {
+      await fund(user1, DEPOSIT);
+      await client.deposit(DEPOSIT);
+    });
+
+    it("returns the USDT actually transferred", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      const before = await env.usdt.balanceOf(user1.address);
+
+      const { assets } = await client.redeem(shares / 2n);
+
+      expect(assets).to.equal((await env.usdt.balanceOf(user1.address)) - before);
+    });
+
+    it("rejects redeeming more than the balance", async function () {
+      const shares = await vault.balanceOf(user1.address);
+
+      await expect(client.redeem(shares + 1n)).to.be.rejectedWith(ExceededMaxRedeemError);
+    });
+
+    it("rejects redeeming another owner's shares without allowance", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      const other = new SUSDDVaultClient(await vault.getAddress(), user2);
+      await vault.connect(admin).setWhitelistEnabled(false);
+
+      await expect(other.redeem(shares, user2.address, user1.address)).to.be.rejectedWith(InsufficientAllowanceError);
+    });
+
+    it("decodes SlippageExceeded when minAssets is not met", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      const { assets: minAssets } = await client.previewRedeem(shares);
+      await env.psm.setTout(ethers.parseEther("0.01"));
+
+      await expect(client.redeem(shares, undefined, undefined, minAssets))
+        .to.be.rejectedWith(SlippageExceededError)
+        .and.eventually.have.property("minimum", minAssets);
+    });
+
+    it("still allows redeem while paused", async function () {
+      await vault.connect(admin).pause();
+      const shares = await vault.balanceOf(user1.address);
+
+      const { assets } = await client.redeem(shares);
+      expect(assets).to.be.gt(0n);
+    });
+  });
+
+  describe("previewRedeem", function () {
+    async function expectPreviewMatchesRedeem(shares: bigint) {
+      const preview = await client.previewRedeem(shares);
+      const { assets } = await client.redeem(shares);
+      expect(preview.assets).to.equal(assets);
+      return preview;
+    }
+
+    it("matches redeem in unleveraged mode", async function () {
+      await fund(user1, DEPOSIT);
+      await client.deposit(DEPOSIT);
+
+      const preview = await expectPreviewMatchesRedeem((await vault.balanceOf(user1.address)) / 3n);
+      expect(preview.unwind).to.equal("collateral-only");
+    });
+
+    it("matches redeem with PSM tout and idle USDT", async function () {
+      await fund(user1, DEPOSIT);
+      await client.deposit(DEPOSIT);
+      await env.usdt.mint(await vault.getAddress(), ethers.parseUnits("500", 6));
+      await env.psm.setTout(ethers.parseEther("0.001")); // 0.1%
+
+      const preview = await expectPreviewMatchesRedeem((await vault.balanceOf(user1.address)) / 2n);
+      expect(preview.idleAssets).to.be.gt(0n);
+      expect(preview.positionAssets).to.be.gt(0n);
+    });
+
+    it("matches redeem with leverage", async function () {
+      await vault.connect(keeper).rebalance(ethers.parseEther("0.75"));
+      await fund(user1, DEPOSIT);
+      await client.deposit(DEPOSIT);
+
+      const preview = await expectPreviewMatchesRedeem((await vault.balanceOf(user1.address)) / 2n);
+      expect(preview.unwind).to.equal("flash-loan");
+      expect(preview.debtToRepay).to.be.gt(0n);
+    });
+
+    it("matches redeem in IDLE_MODE", async function () {
+      await vault.connect(keeper).rebalance(IDLE_MODE);
+      await fund(user1, DEPOSIT);
+      await client.deposit(DEPOSIT);
+
+      const preview = await expectPreviewMatchesRedeem(await vault.balanceOf(user1.address));
+      expect(preview.unwind).to.equal("none");
+      expect(preview.assets).to.equal(DEPOSIT);
+    });
+
+    it("accounts for performance fee accrued by the redeem", async function () {
+      await fund(user1, DEPOSIT);
+      await client.deposit(DEPOSIT);
+      await env.susdd.setRate(ethers.parseEther("1.1"));
+
+      const preview = await expectPreviewMatchesRedeem((await vault.balanceOf(user1.address)) / 2n);
+      expect(preview.feeShares).to.be.gt(0n);
+    });
+  });
+
+  describe("performanceFeeShares", function () {
+    it("mints nothing at or below the high water mark", function () {
+      expect(performanceFeeShares(1000n, 1000n, 1000n, ethers.parseEther("1"))).to.equal(0n);
+    });
+
+    it("takes the fee share of profit above the high water mark", function () {
+      // PPS 1.1, 10% fee on 0.1 profit → fee worth 0.01 per share
+      const feeShares = performanceFeeShares(1100n * 10n ** 6n, 1000n * 10n ** 6n, 1000n, ethers.parseEther("1"));
+      const feeValue = (feeShares * 1100n * 10n ** 6n) / (1000n * 10n ** 6n + feeShares);
+      expect(feeValue).to.be.closeTo(10n * 10n ** 6n, 10n);
+    });
+  });
+
+  describe("decodeVaultError", function () {
+    it("decodes NotSupported from mint()", async function () {
+      const error = await vault.mint(1n, user1.address).catch((e) => e);
+
+      expect(decodeVaultError(error)).to.be.instanceOf(NotSupportedError);
+    });
+
+    it("decodes errors with arguments", async function () {
+      await fund(user2, DEPOSIT);
+      const error = await vault.connect(user2).deposit(DEPOSIT, user2.address).catch((e) => e);
+
+      const decoded = decodeVaultError(error);
+      expect(decoded?.errorName).to.equal("ERC4626ExceededMaxDeposit");
+      expect(decoded).to.have.property("receiver", user2.address);
+    });
+
+    it("falls back to the base class for errors without a dedicated one", function () {
+      const data = vault.interface.encodeErrorResult("ReentrancyGuardReentrantCall", []);
+      const decoded = decodeVaultError(data);
+
+      expect(decoded).to.be.instanceOf(SUSDDVaultError);
+      expect(decoded?.errorName).to.equal("ReentrancyGuardReentrantCall");
+    });
+
+    it("returns null for non-vault errors", function () {
+      expect(decodeVaultError(new Error("network down"))).to.be.null;
+      expect(decodeVaultError("0xdeadbeef")).to.be.null;
+    });
+  });
+});
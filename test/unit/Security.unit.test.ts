@@ -8,6 +8,7 @@ import {
   MockPSM,
   MockMorpho,
 } from "../../typechain-types";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
 
 /**
  * Security Unit Tests
@@ -98,7 +99,7 @@ describe("Security Unit Tests", function () {
     await usdt.mint(ADDRESSES.MORPHO, ethers.parseUnits("10000000", 6));
 
     // Deploy vault via UUPS proxy
-    const VaultFactory = await ethers.getContractFactory("SUSDDVault");
+    const VaultFactory = await getVaultFactory(ethers);
     vault = await upgrades.deployProxy(
       VaultFactory,
       [
@@ -108,7 +109,7 @@ describe("Security Unit Tests", function () {
         1000,
         ethers.parseUnits("10000000", 6)
       ],
-      { kind: "uups" }
+      VAULT_PROXY_OPTIONS
     ) as unknown as SUSDDVault;
 
     await vault.connect(admin).grantRole(KEEPER_ROLE, keeper.address);
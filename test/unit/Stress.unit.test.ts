@@ -0,0 +1,258 @@
+import { expect } from "chai";
+import { ethers, network, run, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { SUSDDVault } from "../../typechain-types";
+import { ADDRESSES, IDLE_MODE, ROLES, WAD } from "../../scripts/lib/constants";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import { wTaylorCompounded } from "../../scripts/lib/morpho";
+import { readPositionState } from "../../scripts/lib/position";
+import {
+  DEFAULT_SCENARIOS,
+  SimState,
+  perSecond,
+  runScenario,
+  simDeposit,
+  simEstimateDepositValue,
+  simLTV,
+  simRebalance,
+  simStateFrom,
+  simTotalAssets,
+  stateAt,
+  stressThresholds,
+} from "../../scripts/lib/stress";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+import { growDebt } from "./helpers/mocks";
+
+/**
+ * Stress Simulator Unit Tests
+ *
+ * The simulator is checked against the mocks: deposits and debt-free rebalances with PSM
+ * fees, then sUSDD shocks (MockSUSDD.setRate) and borrow interest (MockMorpho.setMarketState)
+ * read back through readPositionState. Leveraged rebalances are only simulated, not replayed.
+ */
+describe("Stress Simulator Unit Tests", function () {
+  const DAY = 86400;
+  const LLTV = ethers.parseEther("0.86");
+  const TARGET_LTV = ethers.parseEther("0.75");
+  const usdt = (value: string) => ethers.parseUnits(value, 6);
+
+  let admin: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let env: MockEnvironment;
+  let vault: SUSDDVault;
+  let vaultAddress: string;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+
+  async function deployVault(targetLTV: bigint): Promise<SUSDDVault> {
+    const VaultFactory = await getVaultFactory(ethers);
+    const deployed = (await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, admin.address, targetLTV, 0, usdt("1000000")],
+      VAULT_PROXY_OPTIONS
+    )) as unknown as SUSDDVault;
+    await deployed.grantRole(ROLES.KEEPER_ROLE, keeper.address);
+    await deployed.setWhitelistEnabled(false);
+    return deployed;
+  }
+
+  async function deposit(target: SUSDDVault, amount: bigint) {
+    await env.usdt.mint(user1.address, amount);
+    await env.usdt.connect(user1).approve(await target.getAddress(), amount);
+    await target.connect(user1).deposit(amount, user1.address);
+  }
+
+  async function readState(address = vaultAddress): Promise<SimState> {
+    const [position, tin, tout] = await Promise.all([
+      readPositionState(address, ethers.provider),
+      env.psm.tin(),
+      env.psm.tout(),
+    ]);
+    return simStateFrom(position, { tin, tout });
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, keeper, user1] = await ethers.getSigners();
+    env = await deployMockEnvironment({ lltv: LLTV });
+    // Backs sUSDD redemptions at raised rates
+    await env.usdd.mint(ADDRESSES.SUSDD, ethers.parseEther("100000"));
+
+    vault = await deployVault(TARGET_LTV);
+    vaultAddress = await vault.getAddress();
+    await deposit(vault, usdt("10000"));
+  });
+
+  after(async function () {
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("Mirroring the vault", function () {
+    it("builds a leveraged deposit like PositionLib.buildPosition, tin included", async function () {
+      await env.psm.setTin(ethers.parseEther("0.001"));
+      await env.susdd.setRate(ethers.parseEther("1.02"));
+      const expected = simDeposit(await readState(), usdt("5000"));
+
+      await deposit(vault, usdt("5000"));
+
+      const actual = await readState();
+      expect(actual.collateral).to.equal(expected.collateral);
+      // MockMorpho mints borrow shares 1:1 while readPositionState applies virtual shares
+      expect(actual.debt).to.be.closeTo(expected.debt, 100n);
+      expect(actual.idleUsdt).to.equal(expected.idleUsdt);
+    });
+
+    it("estimates deposit value like _estimateDepositValue, which assumes tin = 0", async function () {
+      const state = await readState();
+      const amount = usdt("1000");
+
+      const estimate = simEstimateDepositValue(state, amount);
+      expect(estimate).to.be.closeTo(simTotalAssets(simDeposit(state, amount)) - simTotalAssets(state), 1n);
+
+      const withTin = { ...state, tin: ethers.parseEther("0.001") };
+      expect(simEstimateDepositValue(withTin, amount)).to.equal(estimate);
+      // tin is charged on the levered amount: 4x the deposit at 75% LTV
+      expect(simTotalAssets(simDeposit(withTin, amount)) - simTotalAssets(withTin)).to.be.closeTo(
+        estimate - usdt("4"),
+        2n
+      );
+    });
+
+    it("exits to idle and back like rebalance(IDLE_MODE) and rebalance(0), with tout and tin", async function () {
+      const unleveraged = await deployVault(0n);
+      const address = await unleveraged.getAddress();
+      await deposit(unleveraged, usdt("10000"));
+      await env.susdd.setRate(ethers.parseEther("1.05"));
+
+      await env.psm.setTout(ethers.parseEther("0.002"));
+      const toIdle = simRebalance(await readState(address), IDLE_MODE);
+      await unleveraged.connect(keeper).rebalance(IDLE_MODE);
+      expect(await readState(address)).to.deep.include({ idleUsdt: toIdle.idleUsdt, collateral: 0n });
+
+      await env.psm.setTin(ethers.parseEther("0.001"));
+      const toSUSDD = simRebalance(await readState(address), 0n);
+      await unleveraged.connect(keeper).rebalance(0n);
+      expect(await readState(address)).to.deep.include({ idleUsdt: 0n, collateral: toSUSDD.collateral });
+    });
+
+    it("levers and delevers towards targetDebt = NAV * LTV / (1 - LTV)", async function () {
+      const state = await readState();
+      const nav = simTotalAssets(state);
+
+      const up = simRebalance(state, ethers.parseEther("0.8"));
+      expect(up.debt).to.equal((nav * ethers.parseEther("0.8")) / ethers.parseEther("0.2"));
+      expect(simLTV(up)).to.be.closeTo(ethers.parseEther("0.8"), ethers.parseEther("0.0001"));
+
+      const down = simRebalance(state, ethers.parseEther("0.5"));
+      expect(down.debt).to.equal(nav);
+      // Sells 0.1% extra collateral as a rate buffer, which stays idle
+      expect(down.idleUsdt).to.be.closeTo((state.debt - nav) / 1000n, 2n);
+
+      const underwater = { ...state, susddRate: state.susddRate / 2n };
+      expect(simRebalance(underwater, IDLE_MODE)).to.deep.equal(underwater);
+    });
+  });
+
+  describe("Scenarios", function () {
+    it("matches the on-chain LTV and NAV after a sUSDD rate shock", async function () {
+      const state = await readState();
+      const scenario = { name: "shock", susddShock: ethers.parseEther("-0.05"), horizon: 0, step: DAY };
+
+      await env.susdd.setRate(ethers.parseEther("0.95"));
+
+      const shocked = stateAt(state, scenario, 0);
+      const position = await readPositionState(vaultAddress, ethers.provider);
+      expect(shocked.susddRate).to.equal(position.susddRate);
+      expect(simLTV(shocked)).to.equal(position.ltv);
+      expect(simTotalAssets(shocked)).to.equal(position.collateralValue - position.debt);
+    });
+
+    it("puts the liquidation and underwater thresholds where LTV reaches LLTV and NAV reaches 0", async function () {
+      const thresholds = stressThresholds(await readState());
+
+      // 75% LTV: liquidation after a ~12.8% drop (0.75 / 0.86), underwater after a 25% drop
+      expect(thresholds.liquidationMove).to.be.closeTo(ethers.parseEther("-0.1279"), ethers.parseEther("0.0001"));
+      expect(thresholds.underwaterMove).to.be.closeTo(ethers.parseEther("-0.25"), ethers.parseEther("0.0001"));
+
+      await env.susdd.setRate(thresholds.liquidationRate!);
+      expect((await readPositionState(vaultAddress, ethers.provider)).ltv).to.be.closeTo(LLTV, ethers.parseEther("0.000001"));
+      await env.susdd.setRate(thresholds.underwaterRate!);
+      expect(simTotalAssets(await readState())).to.equal(0n);
+
+      const result = runScenario(await readState(), { name: "crash", susddShock: ethers.parseEther("-0.3"), horizon: DAY, step: DAY });
+      expect(result).to.include({ timeToLiquidation: 0, timeToUnderwater: 0, minNav: 0n, exitValue: 0n });
+    });
+
+    it("finds the day a borrow rate spike reaches LLTV, matching the mock's grown debt", async function () {
+      const state = await readState();
+      const scenario = { name: "spike", borrowRatePerSecond: perSecond(WAD), horizon: 90 * DAY, step: DAY };
+
+      const result = runScenario(state, scenario);
+
+      // ln(0.86 / 0.75) at 100% APR is ~50 days
+      expect(result.timeToLiquidation).to.equal(50 * DAY);
+      expect(result.timeToUnderwater).to.be.undefined;
+      const [before, at] = result.path.slice(49, 51);
+      expect(before.ltv).to.be.lt(LLTV);
+      expect(at.ltv).to.be.gte(LLTV);
+      expect(at.nav).to.be.lt(result.path[0].nav);
+
+      await growDebt(env.morpho, wTaylorCompounded(scenario.borrowRatePerSecond, BigInt(at.elapsed)));
+      const position = await readPositionState(vaultAddress, ethers.provider);
+      expect(position.debt).to.be.closeTo(at.debt, 2n);
+      expect(position.ltv).to.be.gte(LLTV);
+    });
+
+    it("charges tout on the exit value only, never on NAV", async function () {
+      const state = await readState();
+
+      const result = runScenario(state, { name: "tout", tout: ethers.parseEther("0.01"), horizon: 2 * DAY, step: DAY });
+
+      expect(result.path.map((p) => p.nav)).to.deep.equal([0, 1, 2].map(() => simTotalAssets(state)));
+      // All 40000 sUSDD are sold through the PSM at 1% tout, then the debt is repaid
+      const sold = (state.collateral * state.susddRate * 10n ** 6n) / WAD / ethers.parseEther("1.01");
+      expect(result.exitValue).to.equal(sold - state.debt);
+      expect(result.exitValue).to.be.lt(simTotalAssets(state) - usdt("390"));
+      expect(result.timeToLiquidation).to.be.undefined;
+    });
+  });
+
+  describe("vault:stress", function () {
+    let log: typeof console.log;
+
+    before(function () {
+      log = console.log;
+      console.log = () => {};
+    });
+
+    after(function () {
+      console.log = log;
+    });
+
+    it("runs the default scenarios plus a custom one on the live position", async function () {
+      const { thresholds, results } = await run("vault:stress", {
+        vault: vaultAddress,
+        shock: ethers.parseEther("-0.03"),
+        borrowApr: ethers.parseEther("0.4"),
+        days: 30,
+      });
+
+      expect(results).to.have.length(DEFAULT_SCENARIOS.length + 1);
+      for (const result of results) expect(result.path).to.have.length(31);
+      expect(thresholds.liquidationMove).to.be.lt(0n);
+      const custom = results[results.length - 1];
+      expect(custom.scenario).to.include({ name: "Custom", susddShock: ethers.parseEther("-0.03") });
+      expect(custom.path[0].ltv).to.be.gt(TARGET_LTV);
+    });
+  });
+});
@@ -0,0 +1,487 @@
+import { expect } from "chai";
+import { ethers, network, run, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ADDRESSES, IDLE_MODE, ROLES } from "../../scripts/lib/constants";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import { loadRegistry } from "../../scripts/lib/deployments";
+import {
+  InvalidParamError,
+  assertLTVBelowLLTV,
+  parseAddress,
+  parseAddressList,
+  parseFeeBps,
+  parseFraction,
+  parseLTV,
+  parseUSDT,
+} from "../../scripts/lib/params";
+import { StateSnapshot, compareSnapshots } from "../../scripts/lib/preflight";
+import { SafeBatch, decodeSafeBatch } from "../../scripts/lib/safe";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+import { ltv as ltvType } from "../../tasks/types";
+import { SUSDDVault__factory } from "../../typechain-types";
+
+/**
+ * Hardhat Task Unit Tests
+ *
+ * Param parsing is tested directly; the vault:* and keeper:* tasks run through
+ * hre.run against the mock environment (LLTV 0.86), each test with an empty
+ * deployments registry in a temp directory.
+ */
+describe("Hardhat Task Unit Tests", function () {
+  let admin: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let manager: SignerWithAddress;
+  let env: MockEnvironment;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+  let log: typeof console.log;
+
+  const CHECKSUMMED = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+
+  async function deployVault(name = "main"): Promise<string> {
+    const { proxyAddress } = await run("vault:deploy", { name, ltv: ethers.parseEther("0.75"), fee: 1000n });
+    return proxyAddress;
+  }
+
+  function registry() {
+    return loadRegistry("hardhat", 31337);
+  }
+
+  function readBatch(path: string): SafeBatch {
+    return JSON.parse(readFileSync(path, "utf8"));
+  }
+
+  /** Stand-in for the Safe: the admin holds every role the batches need */
+  async function executeBatch(batch: SafeBatch): Promise<void> {
+    for (const tx of batch.transactions) {
+      await (await admin.sendTransaction({ to: tx.to, data: tx.data, value: BigInt(tx.value) })).wait();
+    }
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, keeper, manager] = await ethers.getSigners();
+    env = await deployMockEnvironment();
+
+    // Task output is for operators; keep the test report readable
+    log = console.log;
+    console.log = () => {};
+  });
+
+  after(async function () {
+    console.log = log;
+    delete process.env.DEPLOYMENTS_DIR;
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+    process.env.DEPLOYMENTS_DIR = mkdtempSync(join(tmpdir(), "deployments-"));
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("Param parsing", function () {
+    it("accepts only checksummed addresses", function () {
+      expect(parseAddress("vault", CHECKSUMMED)).to.equal(CHECKSUMMED);
+      expect(() => parseAddress("vault", CHECKSUMMED.toLowerCase())).to.throw(InvalidParamError, "not checksummed");
+      expect(() => parseAddress("vault", CHECKSUMMED.replace("dAC", "Dac"))).to.throw(InvalidParamError, "checksum");
+      expect(() => parseAddress("vault", "0x1234")).to.throw(InvalidParamError, "20-byte");
+    });
+
+    it("parses address lists", function () {
+      expect(parseAddressList("vaults", `${CHECKSUMMED}, ${ADDRESSES.MORPHO}`)).to.have.length(2);
+      expect(parseAddressList("vaults", "")).to.deep.equal([]);
+    });
+
+    it("parses LTVs and rejects values above MAX_LTV", function () {
+      expect(parseLTV("ltv", "0.75")).to.equal(ethers.parseEther("0.75"));
+      expect(parseLTV("ltv", "0")).to.equal(0n);
+      expect(parseLTV("ltv", "idle")).to.equal(IDLE_MODE);
+      expect(() => parseLTV("ltv", "0.92")).to.throw(InvalidParamError, "MAX_LTV");
+      expect(() => parseLTV("ltv", "75%")).to.throw(InvalidParamError, "decimal");
+    });
+
+    it("checks leveraged LTVs against LLTV", function () {
+      const lltv = ethers.parseEther("0.86");
+      expect(() => assertLTVBelowLLTV("ltv", ethers.parseEther("0.86"), lltv)).to.throw(InvalidParamError, "LLTV");
+      expect(() => assertLTVBelowLLTV("ltv", ethers.parseEther("0.85"), lltv)).not.to.throw();
+      expect(() => assertLTVBelowLLTV("ltv", IDLE_MODE, lltv)).not.to.throw();
+    });
+
+    it("caps performance fee at 3000 bps", function () {
+      expect(parseFeeBps("fee", "3000")).to.equal(3000n);
+      expect(() => parseFeeBps("fee", "3001")).to.throw(InvalidParamError, "3000 bps");
+      expect(() => parseFeeBps("fee", "10.5")).to.throw(InvalidParamError, "whole number");
+    });
+
+    it("parses USDT amounts with 6 decimals", function () {
+      expect(parseUSDT("cap", "1234.5")).to.equal(1234_500000n);
+      expect(() => parseUSDT("cap", "1.0000001")).to.throw(InvalidParamError, "6 decimal places");
+    });
+
+    it("parses signed fractions as WAD", function () {
+      expect(parseFraction("shock", "-0.05")).to.equal(ethers.parseEther("-0.05"));
+      expect(parseFraction("borrowApr", "0.25")).to.equal(ethers.parseEther("0.25"));
+      expect(() => parseFraction("shock", "-5%")).to.throw(InvalidParamError, "decimal");
+    });
+
+    it("reports CLI parse failures as plugin errors", function () {
+      expect(() => ltvType.parse("ltv", "1.5")).to.throw(/Invalid ltv: 1.5 is above MAX_LTV/);
+    });
+  });
+
+  describe("vault:deploy", function () {
+    it("deploys with the given parameters and whitelists the admin", async function () {
+      const vault = await ethers.getContractAt("SUSDDVault", await deployVault());
+
+      expect(await vault.targetLTV()).to.equal(ethers.parseEther("0.75"));
+      expect(await vault.performanceFeeBps()).to.equal(1000n);
+      expect(await vault.maxTotalAssets()).to.equal(ethers.parseUnits("500000", 6));
+      expect(await vault.whitelisted(admin.address)).to.be.true;
+    });
+
+    it("records PositionLib and links it into later deployments", async function () {
+      await deployVault("blue");
+      const positionLib = registry().positionLib!.address;
+      await deployVault("green");
+
+      expect(registry().positionLib!.address).to.equal(positionLib);
+      for (const name of ["blue", "green"]) {
+        const implementation = await upgrades.erc1967.getImplementationAddress(registry().vaults[name].proxy);
+        expect(await ethers.provider.getCode(implementation)).to.include(positionLib.slice(2).toLowerCase());
+      }
+    });
+
+    it("sends no transactions on --dry-run", async function () {
+      const nonce = await admin.getNonce();
+
+      expect(await run("vault:deploy", { name: "main", ltv: ethers.parseEther("0.75"), dryRun: true })).to.be.null;
+      expect(await admin.getNonce()).to.equal(nonce);
+      expect(registry().vaults).to.deep.equal({});
+    });
+
+    it("rejects a target LTV at or above the market LLTV", async function () {
+      await expect(run("vault:deploy", { name: "main", ltv: ethers.parseEther("0.9"), dryRun: true }))
+        .to.be.rejectedWith(/must be below the market LLTV/);
+    });
+
+    it("rejects fees above 3000 bps passed programmatically", async function () {
+      await expect(run("vault:deploy", { name: "main", fee: 3001n, dryRun: true })).to.be.rejectedWith(/Invalid fee/);
+    });
+  });
+
+  describe("vault:configure", function () {
+    let vaultAddress: string;
+
+    beforeEach(async function () {
+      vaultAddress = await deployVault();
+    });
+
+    it("plans without sending on --dry-run", async function () {
+      const vault = await ethers.getContractAt("SUSDDVault", vaultAddress);
+
+      await run("vault:configure", { vault: vaultAddress, keeper: keeper.address, dryRun: true });
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, keeper.address)).to.be.false;
+    });
+
+    it("applies role grants and parameter updates, then has nothing left to do", async function () {
+      const vault = await ethers.getContractAt("SUSDDVault", vaultAddress);
+      const args = {
+        vault: vaultAddress,
+        keeper: keeper.address,
+        manager: manager.address,
+        fee: 500n,
+        cap: ethers.parseUnits("1000000", 6),
+      };
+
+      expect(await run("vault:configure", args)).to.have.length(4);
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, keeper.address)).to.be.true;
+      expect(await vault.hasRole(ROLES.MANAGER_ROLE, manager.address)).to.be.true;
+      expect(await vault.performanceFeeBps()).to.equal(500n);
+      expect(await vault.maxTotalAssets()).to.equal(ethers.parseUnits("1000000", 6));
+
+      expect(await run("vault:configure", args)).to.deep.equal([]);
+    });
+
+    it("rejects addresses without a contract", async function () {
+      await expect(run("vault:configure", { vault: keeper.address })).to.be.rejectedWith(/no contract/);
+    });
+  });
+
+  describe("vault:upgrade and vault:status", function () {
+    it("validates and upgrades, preserving state", async function () {
+      await deployVault();
+
+      expect(await run("vault:upgrade", { vault: "main", dryRun: true })).to.be.null;
+      const { implementation } = await run("vault:upgrade", { vault: "main" });
+
+      const status = await run("vault:status", { vault: "main" });
+      expect(implementation).to.be.properAddress;
+      expect(status.targetLTV).to.equal(ethers.parseEther("0.75"));
+    });
+
+    it("keeps the storage layout compatible with the implementation released on mainnet", async function () {
+      const released = await ethers.getContractFactory("SUSDDVaultReleasedLayout");
+      const compiled = await getVaultFactory(ethers, { positionLib: ethers.ZeroAddress });
+      await upgrades.validateUpgrade(released, compiled, VAULT_PROXY_OPTIONS);
+    });
+  });
+
+  describe("vault:preflight", function () {
+    let vaultAddress: string;
+
+    beforeEach(async function () {
+      vaultAddress = await deployVault();
+      await run("vault:configure", { vault: "main", keeper: keeper.address });
+
+      const vault = await ethers.getContractAt("SUSDDVault", vaultAddress);
+      await env.usdt.mint(admin.address, ethers.parseUnits("1000", 6));
+      await env.usdt.approve(vaultAddress, ethers.MaxUint256);
+      await vault.deposit(ethers.parseUnits("1000", 6), admin.address);
+    });
+
+    it("upgrades on the local chain, reports every value unchanged and reverts", async function () {
+      const blockNumber = await ethers.provider.getBlockNumber();
+      const out = join(mkdtempSync(join(tmpdir(), "preflight-")), "report.json");
+
+      const report = await run("vault:preflight", { vault: "main", out });
+
+      expect(report.pass).to.be.true;
+      expect(report.subjects).to.deep.equal({ roleAccounts: 2, whitelistAccounts: 1, holders: 1 });
+      const keys = report.checks.map((c: { key: string }) => c.key);
+      expect(keys).to.include.members([
+        "highWaterMark",
+        "position.collateral",
+        `hasRole.KEEPER_ROLE.${keeper.address}`,
+        `whitelisted.${admin.address}`,
+        `balanceOf.${admin.address}`,
+      ]);
+      expect(JSON.parse(readFileSync(out, "utf8")).pass).to.be.true;
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("runs before anything is sent from vault:upgrade --preflight", async function () {
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      expect(await run("vault:upgrade", { vault: "main", preflight: true, dryRun: true })).to.be.null;
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("fails changed values and tolerates totalAssets drift within 1 bps", function () {
+      const before: StateSnapshot = {
+        blockNumber: 1,
+        values: { totalAssets: "1000000000", [`balanceOf.${admin.address}`]: "1000", paused: "false" },
+      };
+      const drift = (totalAssets: string, balance: string): StateSnapshot => ({
+        blockNumber: 2,
+        values: { ...before.values, totalAssets, [`balanceOf.${admin.address}`]: balance },
+      });
+
+      expect(compareSnapshots(before, drift("1000100000", "1000")).every((c) => c.pass)).to.be.true;
+      expect(compareSnapshots(before, drift("1000100001", "1000")).filter((c) => !c.pass).map((c) => c.key)).to.deep.equal([
+        "totalAssets",
+      ]);
+      expect(compareSnapshots(before, drift("1000000000", "999")).filter((c) => !c.pass)).to.deep.equal([
+        { key: `balanceOf.${admin.address}`, before: "1000", after: "999", pass: false },
+      ]);
+      expect(compareSnapshots(before, { blockNumber: 2, values: { totalAssets: "1000000000" } }).filter((c) => !c.pass))
+        .to.have.length(2);
+    });
+  });
+
+  describe("Deployment registry", function () {
+    it("records the proxy, initializer args and first implementation", async function () {
+      const proxy = await deployVault();
+
+      const entry = registry().vaults.main;
+      expect(entry.proxy).to.equal(proxy);
+      expect(entry.initArgs).to.deep.equal({
+        admin: admin.address,
+        feeRecipient: admin.address,
+        targetLTV: ethers.parseEther("0.75").toString(),
+        performanceFeeBps: "1000",
+        maxTotalAssets: ethers.parseUnits("500000", 6).toString(),
+      });
+      expect(entry.implementations).to.have.length(1);
+      expect(entry.implementations[0].address).to.equal(await upgrades.erc1967.getImplementationAddress(proxy));
+      expect(entry.implementations[0].txHash).to.match(/^0x[0-9a-f]{64}$/);
+      expect(new Date(entry.implementations[0].timestamp).getTime()).to.be.gt(0);
+    });
+
+    it("refuses to reuse a registered name", async function () {
+      await deployVault();
+
+      await expect(deployVault()).to.be.rejectedWith(/"main" is already registered/);
+    });
+
+    it("appends upgrades to the implementation history", async function () {
+      await deployVault();
+
+      await run("vault:upgrade", { vault: "main" });
+
+      const history = registry().vaults.main.implementations;
+      expect(history).to.have.length(2);
+      expect(history[1].blockNumber).to.be.gt(history[0].blockNumber);
+    });
+
+    it("resolves names in vault:configure and reports unknown ones", async function () {
+      const vault = await ethers.getContractAt("SUSDDVault", await deployVault("blue"));
+
+      await run("vault:configure", { vault: "blue", keeper: keeper.address });
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, keeper.address)).to.be.true;
+
+      await expect(run("vault:status", { vault: "green" })).to.be.rejectedWith(/Unknown vault "green".*registered: blue/);
+    });
+  });
+
+  describe("keeper:deploy", function () {
+    it("deploys EmergencyKeeper and grants it KEEPER_ROLE and PAUSER_ROLE", async function () {
+      const vaultAddress = await deployVault();
+      const vault = await ethers.getContractAt("SUSDDVault", vaultAddress);
+
+      const { keeperAddress } = await run("keeper:deploy", { vaults: ["main"] });
+
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, keeperAddress)).to.be.true;
+      expect(await vault.hasRole(ROLES.PAUSER_ROLE, keeperAddress)).to.be.true;
+      expect(registry().emergencyKeeper).to.include({ address: keeperAddress, owner: admin.address });
+      expect(registry().emergencyKeeper?.vaults).to.deep.equal([vaultAddress]);
+    });
+
+    it("validates every vault before deploying", async function () {
+      const nonce = await admin.getNonce();
+
+      await expect(run("keeper:deploy", { vaults: [keeper.address] })).to.be.rejectedWith(/no contract/);
+      expect(await admin.getNonce()).to.equal(nonce);
+    });
+  });
+
+  describe("queue:deploy and queue:process", function () {
+    it("deploys a whitelisted WithdrawalQueue and fulfils its requests", async function () {
+      const vaultAddress = await deployVault();
+      const vault = await ethers.getContractAt("SUSDDVault", vaultAddress);
+      await vault.addToWhitelist(admin.address);
+      await env.usdt.mint(admin.address, ethers.parseUnits("1000", 6));
+      await env.usdt.approve(vaultAddress, ethers.parseUnits("1000", 6));
+      await vault.deposit(ethers.parseUnits("1000", 6), admin.address);
+
+      const { queueAddress } = await run("queue:deploy", { vault: "main", keeper: admin.address });
+      const queue = await ethers.getContractAt("WithdrawalQueue", queueAddress);
+      expect(registry().withdrawalQueues?.[vaultAddress]).to.include({ address: queueAddress, admin: admin.address });
+      expect(await vault.whitelisted(queueAddress)).to.be.true;
+      expect(await queue.hasRole(ROLES.KEEPER_ROLE, admin.address)).to.be.true;
+
+      const shares = await vault.balanceOf(admin.address);
+      await vault.approve(queueAddress, shares);
+      await queue.requestRedeem(shares, admin.address, admin.address);
+
+      const planned = await run("queue:process", { vault: "main", dryRun: true });
+      expect(planned).to.include({ count: 1, shares });
+      await run("queue:process", { vault: "main" });
+      expect(await queue.claimableRedeemRequest(0n, admin.address)).to.equal(shares);
+    });
+
+    it("rejects queue:process without a registered queue", async function () {
+      await deployVault();
+      await expect(run("queue:process", { vault: "main" })).to.be.rejectedWith(/No WithdrawalQueue registered/);
+    });
+  });
+
+  describe("Safe batch export", function () {
+    const SAFE = "0x5aFE3855358E112B5647B952709E6165e1c1eEEe";
+    let out: string;
+
+    beforeEach(async function () {
+      out = join(mkdtempSync(join(tmpdir(), "safe-")), "batch.json");
+    });
+
+    it("exports vault:configure steps instead of sending them", async function () {
+      const vaultAddress = await deployVault();
+      const vault = await ethers.getContractAt("SUSDDVault", vaultAddress);
+
+      expect(await run("vault:configure", { vault: "main", keeper: keeper.address, fee: 500n, safe: SAFE, out })).to.deep.equal([]);
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, keeper.address)).to.be.false;
+
+      const batch = readBatch(out);
+      expect(batch).to.include({ version: "1.0", chainId: "31337" });
+      expect(batch.meta.createdFromSafeAddress).to.equal(SAFE);
+
+      const decoded = decodeSafeBatch(batch, SUSDDVault__factory.abi);
+      expect(decoded.map((tx) => [tx.to, tx.method])).to.deep.equal([
+        [vaultAddress, "grantRole"],
+        [vaultAddress, "setPerformanceFee"],
+      ]);
+      expect([...decoded[0].args]).to.deep.equal([ROLES.KEEPER_ROLE, keeper.address]);
+      expect(decoded[1].args[0]).to.equal(500n);
+
+      expect(batch.transactions[0].contractMethod.inputs).to.deep.equal([
+        { internalType: "bytes32", name: "role", type: "bytes32" },
+        { internalType: "address", name: "account", type: "address" },
+      ]);
+      expect(batch.transactions[0].contractInputsValues).to.deep.equal({ role: ROLES.KEEPER_ROLE, account: keeper.address });
+      expect(batch.transactions[1].contractInputsValues).to.deep.equal({ newFeeBps: "500" });
+
+      await executeBatch(batch);
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, keeper.address)).to.be.true;
+      expect(await run("vault:configure", { vault: "main", keeper: keeper.address, fee: 500n })).to.deep.equal([]);
+    });
+
+    it("deploys the implementation and exports upgradeToAndCall for vault:upgrade", async function () {
+      const proxy = await deployVault();
+      const next = await upgrades.erc1967.getImplementationAddress(proxy);
+
+      // Move the proxy to a second copy, so the compiled implementation differs from the current one
+      const VaultFactory = await getVaultFactory(ethers);
+      const previous = await upgrades.deployImplementation(VaultFactory, { ...VAULT_PROXY_OPTIONS, redeployImplementation: "always" });
+      const vault = await ethers.getContractAt("SUSDDVault", proxy);
+      await (await vault.upgradeToAndCall(previous as string, "0x")).wait();
+
+      const result = await run("vault:upgrade", { vault: "main", safe: SAFE, out });
+      expect(result).to.deep.equal({ previousImplementation: previous, implementation: next });
+      expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(previous);
+
+      const batch = readBatch(out);
+      const [decoded] = decodeSafeBatch(batch, SUSDDVault__factory.abi);
+      expect(batch.transactions).to.have.length(1);
+      expect(decoded.to).to.equal(proxy);
+      expect(decoded.method).to.equal("upgradeToAndCall");
+      expect([...decoded.args]).to.deep.equal([next, "0x"]);
+
+      await executeBatch(batch);
+      expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(next);
+    });
+
+    it("exports keeper:deploy role grants after deploying the keeper", async function () {
+      const vaultAddress = await deployVault();
+      const vault = await ethers.getContractAt("SUSDDVault", vaultAddress);
+
+      const { keeperAddress, safeBatch } = await run("keeper:deploy", { vaults: ["main"], safe: SAFE, out });
+      expect(safeBatch).to.equal(out);
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, keeperAddress)).to.be.false;
+
+      const decoded = decodeSafeBatch(readBatch(out), SUSDDVault__factory.abi);
+      expect(decoded.map((tx) => [tx.to, tx.method, ...tx.args])).to.deep.equal([
+        [vaultAddress, "grantRole", ROLES.KEEPER_ROLE, keeperAddress],
+        [vaultAddress, "grantRole", ROLES.PAUSER_ROLE, keeperAddress],
+      ]);
+
+      await executeBatch(readBatch(out));
+      expect(await vault.hasRole(ROLES.PAUSER_ROLE, keeperAddress)).to.be.true;
+    });
+
+    it("rejects calldata that does not match contractMethod", async function () {
+      await deployVault();
+      await run("vault:configure", { vault: "main", keeper: keeper.address, safe: SAFE, out });
+
+      const batch = readBatch(out);
+      batch.transactions[0].contractMethod.name = "revokeRole";
+      expect(() => decodeSafeBatch(batch, SUSDDVault__factory.abi)).to.throw(/does not decode to revokeRole/);
+    });
+  });
+});
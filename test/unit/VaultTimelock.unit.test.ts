@@ -0,0 +1,317 @@
+import { expect } from "chai";
+import { Interface } from "ethers";
+import { ethers, network, run, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SUSDDVault, VaultTimelock } from "../../typechain-types";
+import { IDLE_MODE, ROLES } from "../../scripts/lib/constants";
+import { deployMockEnvironment } from "../../scripts/lib/mocks";
+import { InvalidParamError, parseDelay } from "../../scripts/lib/params";
+import { loadRegistry } from "../../scripts/lib/deployments";
+import { decodeSafeBatch } from "../../scripts/lib/safe";
+import { describeCall, readPendingCalls, wrapForTimelock } from "../../scripts/lib/timelock";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+
+/**
+ * VaultTimelock Unit Tests
+ *
+ * The timelock is deployed and handed the vault's admin and manager roles by timelock:deploy
+ * in the setup, with the deployer (admin) as proposer and a two-day delay.
+ */
+describe("VaultTimelock Unit Tests", function () {
+  const DELAY = 2 * 24 * 3600;
+  const CAP = ethers.parseUnits("1000000", 6);
+
+  let admin: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let vault: SUSDDVault;
+  let vaultAddress: string;
+  let timelock: VaultTimelock;
+  let timelockAddress: string;
+  let log: typeof console.log;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+
+  function encode(method: string, args: unknown[]): string {
+    const iface: Interface = vault.interface;
+    return iface.encodeFunctionData(method, args);
+  }
+
+  async function scheduleCall(data: string, target = vaultAddress) {
+    await timelock.schedule(target, data, ethers.ZeroHash);
+    return timelock.hashOperation(target, data, ethers.ZeroHash);
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, treasury, user1] = await ethers.getSigners();
+    await deployMockEnvironment();
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = (await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, treasury.address, IDLE_MODE, 1000, CAP],
+      VAULT_PROXY_OPTIONS
+    )) as unknown as SUSDDVault;
+    vaultAddress = await vault.getAddress();
+
+    log = console.log;
+    console.log = () => {};
+    process.env.DEPLOYMENTS_DIR = mkdtempSync(join(tmpdir(), "deployments-"));
+    ({ timelockAddress } = await run("timelock:deploy", { vault: vaultAddress, delay: DELAY, handOver: true }));
+    timelock = await ethers.getContractAt("VaultTimelock", timelockAddress);
+  });
+
+  after(async function () {
+    console.log = log;
+    delete process.env.DEPLOYMENTS_DIR;
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("Deployment", function () {
+    it("timelock:deploy hands the admin and manager roles to the timelock and records it", async function () {
+      expect(await vault.hasRole(ROLES.DEFAULT_ADMIN_ROLE, timelockAddress)).to.be.true;
+      expect(await vault.hasRole(ROLES.MANAGER_ROLE, timelockAddress)).to.be.true;
+      expect(await vault.hasRole(ROLES.DEFAULT_ADMIN_ROLE, admin.address)).to.be.false;
+      expect(await vault.hasRole(ROLES.MANAGER_ROLE, admin.address)).to.be.false;
+      // Keeper and pauser stay outside the timelock
+      expect(await vault.hasRole(ROLES.KEEPER_ROLE, admin.address)).to.be.true;
+      expect(await vault.hasRole(ROLES.PAUSER_ROLE, admin.address)).to.be.true;
+
+      expect(await timelock.vault()).to.equal(vaultAddress);
+      expect(await timelock.delay()).to.equal(BigInt(DELAY));
+      expect(await timelock.hasRole(await timelock.PROPOSER_ROLE(), admin.address)).to.be.true;
+      expect(await timelock.hasRole(ROLES.DEFAULT_ADMIN_ROLE, timelockAddress)).to.be.true;
+      expect(await timelock.immediate(vault.interface.getFunction("addToWhitelist").selector)).to.be.true;
+      expect(await timelock.immediate(vault.interface.getFunction("setPerformanceFee").selector)).to.be.false;
+      expect(loadRegistry("hardhat", 31337).timelocks?.[vaultAddress]).to.include({
+        address: timelockAddress,
+        proposer: admin.address,
+        delay: DELAY,
+      });
+    });
+
+    it("the former admin can no longer change settings directly", async function () {
+      await expect(vault.setPerformanceFee(2000))
+        .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+        .withArgs(admin.address, ROLES.MANAGER_ROLE);
+      await expect(vault.setFeeRecipient(user1.address)).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+      await expect(vault.setMerklDistributor(user1.address)).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    });
+
+    it("rejects a delay above MAX_DELAY", async function () {
+      const factory = await ethers.getContractFactory("VaultTimelock");
+      await expect(factory.deploy(vaultAddress, admin.address, 31 * 24 * 3600, [])).to.be.revertedWithCustomError(
+        timelock,
+        "InvalidDelay"
+      );
+    });
+  });
+
+  describe("Schedule / execute / cancel", function () {
+    it("executes a scheduled fee change only once the delay has passed", async function () {
+      const data = encode("setPerformanceFee", [2000]);
+      const id = await timelock.hashOperation(vaultAddress, data, ethers.ZeroHash);
+      const tx = await timelock.schedule(vaultAddress, data, ethers.ZeroHash);
+      const readyAt = BigInt((await ethers.provider.getBlock(tx.blockNumber!))!.timestamp + DELAY);
+      await expect(tx).to.emit(timelock, "CallScheduled").withArgs(id, vaultAddress, data, ethers.ZeroHash, readyAt);
+      expect(await timelock.readyAt(id)).to.equal(readyAt);
+
+      await expect(timelock.execute(vaultAddress, data, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(timelock, "CallNotReady")
+        .withArgs(id, readyAt);
+      await time.increase(DELAY - 10);
+      await expect(timelock.execute(vaultAddress, data, ethers.ZeroHash)).to.be.revertedWithCustomError(timelock, "CallNotReady");
+      expect(await vault.performanceFeeBps()).to.equal(1000n);
+
+      await time.increase(10);
+      // Anyone can execute a ready call
+      await expect(timelock.connect(user1).execute(vaultAddress, data, ethers.ZeroHash))
+        .to.emit(timelock, "CallExecuted")
+        .withArgs(id, vaultAddress, data)
+        .and.to.emit(vault, "PerformanceFeeUpdated")
+        .withArgs(1000n, 2000n);
+      expect(await timelock.readyAt(id)).to.equal(0n);
+      await expect(timelock.execute(vaultAddress, data, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(timelock, "CallNotScheduled")
+        .withArgs(id);
+    });
+
+    it("holds back fee recipient, Merkl distributor, LTV ceiling and upgrade changes until ready", async function () {
+      const VaultFactory = await getVaultFactory(ethers);
+      const implementation = (await upgrades.deployImplementation(VaultFactory, {
+        ...VAULT_PROXY_OPTIONS,
+        redeployImplementation: "always",
+      })) as string;
+      const calls = [
+        encode("setFeeRecipient", [user1.address]),
+        encode("setMerklDistributor", [user1.address]),
+        encode("setMaxLTVBeforeDelever", [ethers.parseUnits("0.8", 18)]),
+        encode("upgradeToAndCall", [implementation, "0x"]),
+      ];
+      for (const data of calls) await scheduleCall(data);
+
+      for (const data of calls) {
+        await expect(timelock.execute(vaultAddress, data, ethers.ZeroHash)).to.be.revertedWithCustomError(timelock, "CallNotReady");
+      }
+      await time.increase(DELAY);
+      await timelock.execute(vaultAddress, calls[0], ethers.ZeroHash);
+      await expect(timelock.execute(vaultAddress, calls[1], ethers.ZeroHash))
+        .to.emit(vault, "MerklDistributorUpdated")
+        .withArgs(ethers.ZeroAddress, user1.address);
+      for (const data of calls.slice(2)) await timelock.execute(vaultAddress, data, ethers.ZeroHash);
+
+      expect(await vault.feeRecipient()).to.equal(user1.address);
+      expect(await vault.maxLTVBeforeDelever()).to.equal(ethers.parseUnits("0.8", 18));
+      expect(await upgrades.erc1967.getImplementationAddress(vaultAddress)).to.equal(implementation);
+    });
+
+    it("cancel drops a pending call", async function () {
+      const data = encode("setPerformanceFee", [2000]);
+      const id = await scheduleCall(data);
+      await expect(timelock.schedule(vaultAddress, data, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(timelock, "CallAlreadyScheduled")
+        .withArgs(id);
+
+      await expect(timelock.cancel(id)).to.emit(timelock, "CallCancelled").withArgs(id);
+      await time.increase(DELAY);
+      await expect(timelock.execute(vaultAddress, data, ethers.ZeroHash)).to.be.revertedWithCustomError(timelock, "CallNotScheduled");
+      await expect(timelock.cancel(id)).to.be.revertedWithCustomError(timelock, "CallNotScheduled");
+    });
+
+    it("reverts of the target bubble up on execute", async function () {
+      const data = encode("setPerformanceFee", [5000]);
+      await scheduleCall(data);
+      await time.increase(DELAY);
+      await expect(timelock.execute(vaultAddress, data, ethers.ZeroHash)).to.be.revertedWithCustomError(vault, "InvalidFee");
+    });
+
+    it("only the proposer schedules, cancels and runs immediate calls", async function () {
+      const proposerRole = await timelock.PROPOSER_ROLE();
+      const data = encode("setPerformanceFee", [2000]);
+      await expect(timelock.connect(user1).schedule(vaultAddress, data, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, proposerRole);
+      const id = await scheduleCall(data);
+      await expect(timelock.connect(user1).cancel(id)).to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount");
+      await expect(
+        timelock.connect(user1).executeImmediate(encode("addToWhitelist", [user1.address]))
+      ).to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Immediate calls and self-governed settings", function () {
+    it("runs whitelist and cap changes immediately and refuses anything else", async function () {
+      await expect(timelock.executeImmediate(encode("addToWhitelist", [user1.address])))
+        .to.emit(timelock, "CallExecuted")
+        .withArgs(ethers.ZeroHash, vaultAddress, encode("addToWhitelist", [user1.address]));
+      expect(await vault.whitelisted(user1.address)).to.be.true;
+      await timelock.executeImmediate(encode("setMaxTotalAssets", [CAP * 2n]));
+      expect(await vault.maxTotalAssets()).to.equal(CAP * 2n);
+
+      const selector = vault.interface.getFunction("setPerformanceFee").selector;
+      await expect(timelock.executeImmediate(encode("setPerformanceFee", [2000])))
+        .to.be.revertedWithCustomError(timelock, "NotImmediate")
+        .withArgs(selector);
+    });
+
+    it("wraps immediate selectors as executeImmediate only for calls to the vault", async function () {
+      const data = encode("addToWhitelist", [user1.address]);
+      const wrapped = await wrapForTimelock(timelock, [
+        { to: vaultAddress, data },
+        { to: user1.address, data },
+      ]);
+      expect(wrapped.map((call) => [call.method, call.args])).to.deep.equal([
+        ["executeImmediate", [data]],
+        ["schedule", [user1.address, data, ethers.ZeroHash]],
+      ]);
+    });
+
+    it("changes the delay and the immediate set only through a scheduled call to itself", async function () {
+      await expect(timelock.setDelay(3600)).to.be.revertedWithCustomError(timelock, "NotSelf");
+      await expect(timelock.setImmediate("0x12345678", true)).to.be.revertedWithCustomError(timelock, "NotSelf");
+
+      // The old delay applies to the change itself
+      const data = timelock.interface.encodeFunctionData("setDelay", [3600]);
+      await scheduleCall(data, timelockAddress);
+      await time.increase(3600);
+      await expect(timelock.execute(timelockAddress, data, ethers.ZeroHash)).to.be.revertedWithCustomError(timelock, "CallNotReady");
+      await time.increase(DELAY - 3600);
+      await expect(timelock.execute(timelockAddress, data, ethers.ZeroHash))
+        .to.emit(timelock, "DelayUpdated")
+        .withArgs(BigInt(DELAY), 3600n);
+
+      const tooLong = timelock.interface.encodeFunctionData("setDelay", [31 * 24 * 3600]);
+      await scheduleCall(tooLong, timelockAddress);
+      await time.increase(3600);
+      await expect(timelock.execute(timelockAddress, tooLong, ethers.ZeroHash)).to.be.revertedWithCustomError(timelock, "InvalidDelay");
+    });
+  });
+
+  describe("Tooling", function () {
+    it("vault:configure --timelock schedules delayed changes and runs immediate ones", async function () {
+      await run("vault:configure", { vault: vaultAddress, fee: 1500n, cap: CAP * 2n, timelock: true });
+
+      expect(await vault.maxTotalAssets()).to.equal(CAP * 2n);
+      expect(await vault.performanceFeeBps()).to.equal(1000n);
+      const pending = await readPendingCalls(timelock);
+      expect(pending.map((call) => call.description)).to.deep.equal(["setPerformanceFee(1500)"]);
+    });
+
+    it("vault:pending lists pending calls and executes the ready ones", async function () {
+      await scheduleCall(encode("setPerformanceFee", [1500]));
+      const cancelled = await scheduleCall(encode("setFeeRecipient", [user1.address]));
+      await timelock.cancel(cancelled);
+      await time.increase(DELAY / 2);
+      await scheduleCall(encode("setManagementFee", [100]));
+
+      const listed = await run("vault:pending", { vault: vaultAddress });
+      expect(listed.pending.map((call: { description: string }) => call.description)).to.deep.equal([
+        "setPerformanceFee(1500)",
+        "setManagementFee(100)",
+      ]);
+      expect(listed.executed).to.deep.equal([]);
+
+      await time.increase(DELAY / 2);
+      const result = await run("vault:pending", { vault: vaultAddress, execute: true });
+      expect(result.executed).to.have.length(1);
+      expect(await vault.performanceFeeBps()).to.equal(1500n);
+      expect(await vault.managementFeeBps()).to.equal(0n);
+      expect((await readPendingCalls(timelock)).map((call) => call.description)).to.deep.equal(["setManagementFee(100)"]);
+    });
+
+    it("vault:configure --timelock --safe exports the timelock calls for a Safe proposer", async function () {
+      const SAFE = ethers.getAddress("0x000000000000000000000000000000000000dEaD");
+      const out = join(mkdtempSync(join(tmpdir(), "safe-")), "batch.json");
+      await run("vault:configure", { vault: vaultAddress, fee: 1500n, cap: CAP * 2n, timelock: true, safe: SAFE, out });
+
+      const decoded = decodeSafeBatch(JSON.parse(readFileSync(out, "utf8")), timelock.interface.formatJson());
+      expect(decoded.map((tx) => [tx.to, tx.method])).to.deep.equal([
+        [timelockAddress, "schedule"],
+        [timelockAddress, "executeImmediate"],
+      ]);
+      expect(describeCall(decoded[0].args[1])).to.equal("setPerformanceFee(1500)");
+    });
+
+    it("parses delays with units up to 30 days", function () {
+      expect(parseDelay("delay", "3600")).to.equal(3600);
+      expect(parseDelay("delay", "48h")).to.equal(172800);
+      expect(parseDelay("delay", "30d")).to.equal(30 * 24 * 3600);
+      expect(() => parseDelay("delay", "31d")).to.throw(InvalidParamError, /30-day maximum/);
+      expect(() => parseDelay("delay", "2w")).to.throw(InvalidParamError, /not a duration/);
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import { expect } from "chai";
+import { ethers, network, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { SUSDDVault, WithdrawalQueue } from "../../typechain-types";
+import { ADDRESSES, ROLES } from "../../scripts/lib/constants";
+import { MockEnvironment, deployMockEnvironment } from "../../scripts/lib/mocks";
+import { VAULT_PROXY_OPTIONS, getVaultFactory } from "../../scripts/lib/vaultFactory";
+import { DEFAULT_QUEUE_CONFIG, planBatch, processWithdrawalQueue } from "../../scripts/lib/withdrawalQueue";
+import { NO_ROUTE, buildSwapRoute } from "../../sdk";
+
+/**
+ * Withdrawal Queue Unit Tests
+ *
+ * Three users hold 10000, 20000 and 30000 USDT worth of shares in a 75% LTV vault.
+ * Batch fairness: every request fulfilled in one batch gets the same USDT per share,
+ * and a queued redeem gets what a direct redeem of the same shares would have.
+ */
+describe("Withdrawal Queue Unit Tests", function () {
+  const LLTV = ethers.parseEther("0.86");
+  const TARGET_LTV = ethers.parseEther("0.75");
+  const usdt = (value: string) => ethers.parseUnits(value, 6);
+
+  let admin: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let user3: SignerWithAddress;
+  let env: MockEnvironment;
+  let vault: SUSDDVault;
+  let vaultAddress: string;
+  let queue: WithdrawalQueue;
+  let queueAddress: string;
+
+  let setupSnapshotId: string;
+  let snapshotId: string;
+
+  async function request(user: SignerWithAddress, shares: bigint, controller = user.address): Promise<bigint> {
+    await vault.connect(user).approve(queueAddress, shares);
+    const id = await queue.requestCount();
+    await queue.connect(user).requestRedeem(shares, controller, user.address);
+    return id;
+  }
+
+  /** USDT per share of a fulfilled request (WAD-scaled) */
+  async function pricePerShare(requestId: bigint): Promise<bigint> {
+    const { assets, shares } = await queue.getRequest(requestId);
+    return (assets * ethers.WeiPerEther) / shares;
+  }
+
+  before(async function () {
+    setupSnapshotId = await network.provider.send("evm_snapshot", []);
+    [admin, keeper, user1, user2, user3] = await ethers.getSigners();
+    env = await deployMockEnvironment({ lltv: LLTV });
+
+    const VaultFactory = await getVaultFactory(ethers);
+    vault = (await upgrades.deployProxy(
+      VaultFactory,
+      [admin.address, admin.address, TARGET_LTV, 0, usdt("1000000")],
+      VAULT_PROXY_OPTIONS
+    )) as unknown as SUSDDVault;
+    vaultAddress = await vault.getAddress();
+    await vault.setWhitelistEnabled(false);
+
+    queue = await (await ethers.getContractFactory("WithdrawalQueue")).deploy(vaultAddress, admin.address);
+    queueAddress = await queue.getAddress();
+    await queue.grantRole(ROLES.KEEPER_ROLE, keeper.address);
+
+    for (const [user, amount] of [[user1, "10000"], [user2, "20000"], [user3, "30000"]] as const) {
+      await env.usdt.mint(user.address, usdt(amount));
+      await env.usdt.connect(user).approve(vaultAddress, usdt(amount));
+      await vault.connect(user).deposit(usdt(amount), user.address);
+    }
+  });
+
+  after(async function () {
+    await network.provider.send("evm_revert", [setupSnapshotId]);
+  });
+
+  beforeEach(async function () {
+    snapshotId = await network.provider.send("evm_snapshot", []);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_revert", [snapshotId]);
+  });
+
+  describe("requestRedeem", function () {
+    it("escrows shares and emits RedeemRequest", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      await vault.connect(user1).approve(queueAddress, shares);
+
+      await expect(queue.connect(user1).requestRedeem(shares, user2.address, user1.address))
+        .to.emit(queue, "RedeemRequest")
+        .withArgs(user2.address, user1.address, 0n, user1.address, shares);
+
+      expect(await vault.balanceOf(user1.address)).to.equal(0n);
+      expect(await vault.balanceOf(queueAddress)).to.equal(shares);
+      expect(await queue.totalPendingShares()).to.equal(shares);
+      expect(await queue.pendingRedeemRequest(0n, user2.address)).to.equal(shares);
+      expect(await queue.pendingRedeemRequest(0n, user1.address)).to.equal(0n);
+      expect(await queue.claimableRedeemRequest(0n, user2.address)).to.equal(0n);
+    });
+
+    it("validates shares, controller and owner", async function () {
+      await expect(queue.connect(user1).requestRedeem(0n, user1.address, user1.address)).to.be.revertedWithCustomError(
+        queue,
+        "ZeroShares"
+      );
+      await expect(
+        queue.connect(user1).requestRedeem(1n, ethers.ZeroAddress, user1.address)
+      ).to.be.revertedWithCustomError(queue, "InvalidController");
+      await expect(queue.connect(user1).requestRedeem(1n, user1.address, user2.address)).to.be.revertedWithCustomError(
+        queue,
+        "NotOwner"
+      );
+      await expect(queue.connect(user1).requestRedeem(1n, user1.address, user1.address)).to.be.revertedWithCustomError(
+        vault,
+        "ERC20InsufficientAllowance"
+      );
+    });
+
+    it("requires owner and controller to be whitelisted while the vault whitelist is on", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      await vault.connect(user1).approve(queueAddress, shares);
+      await vault.setWhitelistEnabled(true);
+      await vault.addToWhitelist(user1.address);
+
+      await expect(queue.connect(user1).requestRedeem(shares, user2.address, user1.address))
+        .to.be.revertedWithCustomError(queue, "NotWhitelisted")
+        .withArgs(user2.address);
+      await vault.addToWhitelist(user2.address);
+      await vault.removeFromWhitelist(user1.address);
+      await expect(queue.connect(user1).requestRedeem(shares, user2.address, user1.address))
+        .to.be.revertedWithCustomError(queue, "NotWhitelisted")
+        .withArgs(user1.address);
+
+      await vault.addToWhitelist(user1.address);
+      await queue.connect(user1).requestRedeem(shares, user2.address, user1.address);
+    });
+  });
+
+  describe("fulfilRedeems", function () {
+    it("is keeper-only and needs pending requests", async function () {
+      await expect(queue.connect(user1).fulfilRedeems(1n, 0n, NO_ROUTE))
+        .to.be.revertedWithCustomError(queue, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, ROLES.KEEPER_ROLE);
+      await expect(queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE)).to.be.revertedWithCustomError(
+        queue,
+        "NoPendingRequests"
+      );
+    });
+
+    it("fulfils in request order with one vault redeem", async function () {
+      const a = await request(user1, (await vault.balanceOf(user1.address)) / 2n);
+      const b = await request(user2, (await vault.balanceOf(user2.address)) / 2n);
+      const c = await request(user3, (await vault.balanceOf(user3.address)) / 2n);
+      const batchShares = (await queue.getRequest(a)).shares + (await queue.getRequest(b)).shares;
+
+      const tx = queue.connect(keeper).fulfilRedeems(2n, 0n, NO_ROUTE);
+      await expect(tx).to.emit(queue, "RedeemFulfilled").withArgs(a, b, batchShares, (assets: bigint) => assets > 0n);
+      await expect(tx).to.emit(vault, "Withdraw").withArgs(queueAddress, queueAddress, queueAddress, (x: bigint) => x > 0n, batchShares);
+
+      expect(await queue.nextRequestToFulfil()).to.equal(2n);
+      expect((await queue.getRequest(a)).fulfilled).to.be.true;
+      expect((await queue.getRequest(b)).fulfilled).to.be.true;
+      expect((await queue.getRequest(c)).fulfilled).to.be.false;
+      expect(await queue.totalPendingShares()).to.equal((await queue.getRequest(c)).shares);
+    });
+
+    it("passes minAssets to the vault", async function () {
+      // user1's 10000 USDT deposit, less rounding
+      await request(user1, await vault.balanceOf(user1.address));
+      await expect(queue.connect(keeper).fulfilRedeems(1n, usdt("10001"), NO_ROUTE)).to.be.revertedWithCustomError(
+        vault,
+        "SlippageExceeded"
+      );
+    });
+
+    it("needs the vault whitelist to include the queue", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      await request(user1, shares);
+      await vault.setWhitelistEnabled(true);
+
+      // The queue is the owner of the batch redeem: maxRedeem is 0 until it is whitelisted
+      await expect(queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE))
+        .to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxRedeem")
+        .withArgs(queueAddress, shares, 0n);
+
+      await vault.addToWhitelist(queueAddress);
+      await queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE);
+    });
+  });
+
+  describe("Batch fairness", function () {
+    it("pays every request in a batch the same USDT per share, summing to the batch exactly", async function () {
+      const ids = [
+        await request(user1, (await vault.balanceOf(user1.address)) / 3n),
+        await request(user2, (await vault.balanceOf(user2.address)) / 7n),
+        await request(user3, await vault.balanceOf(user3.address)),
+      ];
+
+      await queue.connect(keeper).fulfilRedeems(3n, 0n, NO_ROUTE);
+
+      const prices = await Promise.all(ids.map(pricePerShare));
+      for (const price of prices) expect(price).to.be.closeTo(prices[0], prices[0] / 10n ** 9n);
+
+      const owed = await Promise.all(ids.map(async (id) => (await queue.getRequest(id)).assets));
+      expect(owed.reduce((sum, assets) => sum + assets, 0n)).to.equal(await queue.totalClaimableAssets());
+      expect(await env.usdt.balanceOf(queueAddress)).to.equal(await queue.totalClaimableAssets());
+    });
+
+    it("does not depend on the order of requests within the batch", async function () {
+      const shares1 = (await vault.balanceOf(user1.address)) / 2n;
+      const shares3 = (await vault.balanceOf(user3.address)) / 2n;
+
+      const first = await request(user1, shares1);
+      await request(user3, shares3);
+      await queue.connect(keeper).fulfilRedeems(2n, 0n, NO_ROUTE);
+      const paidFirst = (await queue.getRequest(first)).assets;
+
+      await network.provider.send("evm_revert", [snapshotId]);
+      snapshotId = await network.provider.send("evm_snapshot", []);
+
+      await request(user3, shares3);
+      const last = await request(user1, shares1);
+      await queue.connect(keeper).fulfilRedeems(2n, 0n, NO_ROUTE);
+
+      expect((await queue.getRequest(last)).assets).to.be.closeTo(paidFirst, 2n);
+    });
+
+    it("matches a direct redeem of the same shares", async function () {
+      const shares = (await vault.balanceOf(user1.address)) / 2n;
+
+      const direct = await vault.connect(user1).redeem.staticCall(shares, user1.address, user1.address);
+      const id = await request(user1, shares);
+      await queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE);
+
+      expect((await queue.getRequest(id)).assets).to.be.closeTo(direct, usdt("0.01"));
+    });
+
+    it("prices separate batches of the same size alike when nothing else moves", async function () {
+      const shares = (await vault.balanceOf(user1.address)) / 2n;
+      await vault.connect(user1).transfer(user2.address, shares);
+      const a = await request(user1, shares);
+      const b = await request(user2, shares);
+
+      await queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE);
+      await queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE);
+
+      expect(await pricePerShare(b)).to.be.closeTo(await pricePerShare(a), (await pricePerShare(a)) / 10n ** 6n);
+    });
+  });
+
+  describe("claim", function () {
+    it("sends the USDT to the receiver once, for the controller only", async function () {
+      const shares = await vault.balanceOf(user1.address);
+      const id = await request(user1, shares, user2.address);
+
+      await expect(queue.connect(user2).claim(id, user2.address))
+        .to.be.revertedWithCustomError(queue, "RequestNotClaimable")
+        .withArgs(id);
+
+      await queue.connect(keeper).fulfilRedeems(1n, 0n, NO_ROUTE);
+      const { assets } = await queue.getRequest(id);
+      expect(await queue.claimableRedeemRequest(id, user2.address)).to.equal(shares);
+
+      await expect(queue.connect(user1).claim(id, user1.address)).to.be.revertedWithCustomError(queue, "NotController");
+
+      const balanceBefore = await env.usdt.balanceOf(user3.address);
+      await expect(queue.connect(user2).claim(id, user3.address))
+        .to.emit(queue, "Withdraw")
+        .withArgs(user2.address, user3.address, user2.address, assets, shares);
+      expect(await env.usdt.balanceOf(user3.address)).to.equal(balanceBefore + assets);
+      expect(await queue.totalClaimableAssets()).to.equal(0n);
+      expect(await queue.claimableRedeemRequest(id, user2.address)).to.equal(0n);
+
+      await expect(queue.connect(user2).claim(id, user2.address))
+        .to.be.revertedWithCustomError(queue, "RequestNotClaimable")
+        .withArgs(id);
+      await expect(queue.connect(user2).claim(99n, user2.address))
+        .to.be.revertedWithCustomError(queue, "RequestNotClaimable")
+        .withArgs(99n);
+    });
+  });
+
+  describe("Keeper routine", function () {
+    it("planBatch takes the longest FIFO prefix that fits", function () {
+      const pending = [10n, 20n, 5n].map((shares, i) => ({ requestId: BigInt(i), controller: admin.address, shares }));
+
+      expect(planBatch(pending, 100n)).to.deep.equal({ count: 3, shares: 35n });
+      expect(planBatch(pending, 34n)).to.deep.equal({ count: 2, shares: 30n });
+      expect(planBatch(pending, 9n)).to.deep.equal({ count: 0, shares: 0n });
+    });
+
+    it("fulfils what PSM liquidity allows and holds the rest", async function () {
+      await request(user1, await vault.balanceOf(user1.address));
+      await request(user3, await vault.balanceOf(user3.address));
+      // user1 is 1/6 of the vault: ~40000 USDT of collateral, ~60000 with user3 on top
+      await env.psm.setGemLiquidity(usdt("50000"));
+      await expect(vault.connect(user2).redeem(await vault.balanceOf(user2.address), user2.address, user2.address))
+        .to.be.revertedWithCustomError(vault, "InsufficientPSMLiquidity");
+
+      const dryRun = await processWithdrawalQueue(queue.connect(keeper), { ...DEFAULT_QUEUE_CONFIG, dryRun: true });
+      expect(dryRun).to.include({ count: 1 });
+      expect(dryRun.txHash).to.be.undefined;
+      expect(await queue.nextRequestToFulfil()).to.equal(0n);
+
+      const result = await processWithdrawalQueue(queue.connect(keeper), DEFAULT_QUEUE_CONFIG);
+      expect(result.count).to.equal(1);
+      expect(result.txHash).to.be.a("string");
+      expect(await queue.nextRequestToFulfil()).to.equal(1n);
+
+      // The head request (user3) is now larger than what the PSM can pay out
+      const waiting = await processWithdrawalQueue(queue.connect(keeper), DEFAULT_QUEUE_CONFIG);
+      expect(waiting).to.include({ count: 0 });
+      expect(waiting.pending).to.have.length(1);
+    });
+
+    it("fulfils through a swap route while the PSM is drained", async function () {
+      const dex = await (await ethers.getContractFactory("MockDEX")).deploy();
+      const dexAddress = await dex.getAddress();
+      await dex.setRate(ADDRESSES.USDD, ADDRESSES.USDT, usdt("0.99"));
+      await vault.setSwapRouter(dexAddress, true);
+      await env.psm.setGemLiquidity(0n);
+      const id = await request(user1, await vault.balanceOf(user1.address));
+
+      const route = buildSwapRoute(
+        dexAddress,
+        (amount) => dex.interface.encodeFunctionData("swap", [ADDRESSES.USDD, ADDRESSES.USDT, amount, 0n, vaultAddress]),
+        0n
+      );
+      const result = await processWithdrawalQueue(queue.connect(keeper), { ...DEFAULT_QUEUE_CONFIG, route });
+
+      expect(result.count).to.equal(1);
+      // 40000 USDD at 0.99, less 30000 debt
+      expect((await queue.getRequest(id)).assets).to.be.closeTo(usdt("9600"), usdt("5"));
+    });
+  });
+});
@@ -0,0 +1,15 @@
+import { MARKET_ID, WAD } from "../../../scripts/lib/constants";
+import { MockMorpho } from "../../../typechain-types";
+
+/**
+ * Simulate borrow interest on the market's debt (MockMorpho has no IRM): grow totalBorrowAssets
+ * by `growth` (WAD, 0.05e18 = +5%) with the shares unchanged, so every borrower owes that much more.
+ */
+export async function growDebt(morpho: MockMorpho, growth: bigint) {
+  const market = await morpho.market(MARKET_ID);
+  await morpho.setMarketState(
+    MARKET_ID,
+    market.totalBorrowAssets + (market.totalBorrowAssets * growth) / WAD,
+    market.totalBorrowShares
+  );
+}